@@ -2,6 +2,10 @@
 const nextConfig = {
   basePath: '/product-ai-creator',
   assetPrefix: '/product-ai-creator',
+  experimental: {
+    // Runs src/instrumentation.ts (starts the pipeline worker)
+    instrumentationHook: true,
+  },
   images: {
     remotePatterns: [
       {
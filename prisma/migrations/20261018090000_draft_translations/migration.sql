@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Draft" ADD COLUMN     "translations" JSONB;
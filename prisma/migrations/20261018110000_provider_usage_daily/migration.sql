@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "ProviderUsageDaily" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "day" DATE NOT NULL,
+    "requests" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProviderUsageDaily_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProviderUsageDaily_provider_day_key" ON "ProviderUsageDaily"("provider", "day");
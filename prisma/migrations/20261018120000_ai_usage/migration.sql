@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "AiUsage" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "stage" TEXT,
+    "draftId" TEXT,
+    "promptTokens" INTEGER,
+    "completionTokens" INTEGER,
+    "totalTokens" INTEGER,
+    "latencyMs" INTEGER NOT NULL,
+    "costUsd" DOUBLE PRECISION,
+    "success" BOOLEAN NOT NULL,
+    "errorKind" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AiUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AiUsage_createdAt_idx" ON "AiUsage"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "AiUsage_provider_createdAt_idx" ON "AiUsage"("provider", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AiUsage_draftId_idx" ON "AiUsage"("draftId");
+
+-- AddForeignKey
+ALTER TABLE "AiUsage" ADD CONSTRAINT "AiUsage_draftId_fkey" FOREIGN KEY ("draftId") REFERENCES "Draft"("id") ON DELETE SET NULL ON UPDATE CASCADE;
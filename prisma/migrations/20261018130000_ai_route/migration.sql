@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "AiRoute" (
+    "id" TEXT NOT NULL,
+    "stage" TEXT NOT NULL,
+    "chain" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AiRoute_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AiRoute_stage_key" ON "AiRoute"("stage");
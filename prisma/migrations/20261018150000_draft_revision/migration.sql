@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "RevisionSource" AS ENUM ('AI', 'MANUAL', 'TRANSLATION', 'IMPORT', 'RESTORE');
+
+-- CreateTable
+CREATE TABLE "DraftRevision" (
+    "id" TEXT NOT NULL,
+    "source" "RevisionSource" NOT NULL,
+    "provider" TEXT,
+    "model" TEXT,
+    "note" TEXT,
+    "product" JSONB,
+    "visionAnalysis" JSONB,
+    "translations" JSONB,
+    "draftId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DraftRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DraftRevision_draftId_createdAt_idx" ON "DraftRevision"("draftId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "DraftRevision" ADD CONSTRAINT "DraftRevision_draftId_fkey" FOREIGN KEY ("draftId") REFERENCES "Draft"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "Draft" ADD COLUMN "promptVersions" JSONB;
+
+-- CreateTable
+CREATE TABLE "PromptTemplate" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "stage" TEXT NOT NULL,
+    "language" TEXT NOT NULL DEFAULT '*',
+    "shop" TEXT NOT NULL DEFAULT '*',
+    "version" INTEGER NOT NULL,
+    "systemPrompt" TEXT NOT NULL,
+    "userPrompt" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PromptTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromptTemplate_stage_language_shop_version_key" ON "PromptTemplate"("stage", "language", "shop", "version");
+
+-- CreateIndex
+CREATE INDEX "PromptTemplate_stage_isActive_idx" ON "PromptTemplate"("stage", "isActive");
@@ -0,0 +1,61 @@
+-- CreateEnum
+CREATE TYPE "ExperimentVariant" AS ENUM ('A', 'B');
+
+-- CreateTable
+CREATE TABLE "Experiment" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "stage" TEXT NOT NULL,
+    "share" DOUBLE PRECISION NOT NULL,
+    "promptTemplateId" TEXT,
+    "route" JSONB,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Experiment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ExperimentAssignment" (
+    "id" TEXT NOT NULL,
+    "variant" "ExperimentVariant" NOT NULL,
+    "experimentId" TEXT NOT NULL,
+    "draftId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ExperimentAssignment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DraftReview" (
+    "id" TEXT NOT NULL,
+    "score" INTEGER NOT NULL,
+    "reasons" TEXT[],
+    "comment" TEXT,
+    "draftId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DraftReview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Experiment_isActive_idx" ON "Experiment"("isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExperimentAssignment_experimentId_draftId_key" ON "ExperimentAssignment"("experimentId", "draftId");
+
+-- CreateIndex
+CREATE INDEX "ExperimentAssignment_draftId_idx" ON "ExperimentAssignment"("draftId");
+
+-- CreateIndex
+CREATE INDEX "DraftReview_draftId_idx" ON "DraftReview"("draftId");
+
+-- AddForeignKey
+ALTER TABLE "ExperimentAssignment" ADD CONSTRAINT "ExperimentAssignment_experimentId_fkey" FOREIGN KEY ("experimentId") REFERENCES "Experiment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExperimentAssignment" ADD CONSTRAINT "ExperimentAssignment_draftId_fkey" FOREIGN KEY ("draftId") REFERENCES "Draft"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DraftReview" ADD CONSTRAINT "DraftReview_draftId_fkey" FOREIGN KEY ("draftId") REFERENCES "Draft"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "CategoryMappingRule" (
+    "id" TEXT NOT NULL,
+    "platform" TEXT NOT NULL,
+    "suggestion" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "categoryPath" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CategoryMappingRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CategoryMappingRule_platform_suggestion_key" ON "CategoryMappingRule"("platform", "suggestion");
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "RevisionSource" ADD VALUE 'BASELINE';
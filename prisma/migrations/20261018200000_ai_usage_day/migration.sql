@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "AiUsage" ADD COLUMN "day" DATE;
+
+-- Backfill (createdAt is stored in UTC)
+UPDATE "AiUsage" SET "day" = "createdAt"::date;
+
+-- AlterTable
+ALTER TABLE "AiUsage" ALTER COLUMN "day" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "AiUsage_day_idx" ON "AiUsage"("day");
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { createAllegroFixtureAdapter } from '../fixtures';
+import type { UnifiedProduct } from '@/types/unified-product';
+
+const product: UnifiedProduct = {
+  name: 'Sony WH-1000XM5 sluchawki bezprzewodowe z ANC czarne',
+  description: {
+    short: 'Sluchawki z aktywna redukcja szumow',
+    long: 'Bezprzewodowe sluchawki nauszne z ANC',
+    html: '<p>Bezprzewodowe sluchawki nauszne z ANC</p>',
+  },
+  seo: { title: 'Sony WH-1000XM5', description: 'Sluchawki Sony z ANC', keywords: ['sony', 'sluchawki'] },
+  pricing: { gross: 1299, net: 1056.1, currency: 'PLN', vatRate: 23 },
+  attributes: { Kolor: 'czarny' },
+  categories: [],
+  images: [{ url: 'https://cdn.test/wh1000xm5.jpg', position: 0 }],
+  identifiers: { sku: 'WH1000XM5-B', ean: '4548736132610' },
+  stock: { quantity: 5, availability: 'in_stock' },
+  condition: 'new',
+  brand: 'Sony',
+  tags: [],
+  metadata: {},
+};
+
+describe('AllegroAdapter (recorded fixtures)', () => {
+  it('builds the category tree and required attributes from recorded responses', async () => {
+    const { adapter, fetch } = createAllegroFixtureAdapter('category-tree');
+
+    const context = await adapter.getContext();
+
+    expect(context.categories.map(c => c.path)).toEqual([
+      'Elektronika',
+      'Dom i Ogród',
+      'Elektronika > RTV i AGD',
+      'Elektronika > Telefony i Akcesoria',
+      'Dom i Ogród > Meble',
+      'Dom i Ogród > Ogród',
+      'Elektronika > RTV i AGD > Sprzęt audio przenośny > Słuchawki bezprzewodowe',
+    ]);
+    expect(context.categories[2]).toMatchObject({
+      id: '122233',
+      parentId: '42540aec-367a-4e5e-b411-17c09b08e41f',
+      level: 2,
+    });
+    expect(context.categories[6]).toMatchObject({ id: '257931', parentId: '122640', level: 4 });
+
+    expect(context.attributes.map(a => [a.name, a.type, a.required])).toEqual([
+      ['Stan', 'select', true],
+      ['Kolor', 'select', true],
+      ['Typ słuchawek', 'select', true],
+      ['Czas pracy na baterii (h)', 'number', true],
+    ]);
+    expect(context.attributes[0]).toMatchObject({ groupId: '257931', groupName: 'Słuchawki bezprzewodowe' });
+
+    expect(fetch.calls.every(call => call.method === 'GET')).toBe(true);
+  });
+
+  it('refuses to publish with the list of missing required parameters', async () => {
+    const { adapter, fetch } = createAllegroFixtureAdapter('missing-parameters');
+
+    const result = await adapter.publishProduct(product);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(
+      'Missing required Allegro parameters: Typ słuchawek, Czas pracy na baterii'
+    );
+    expect(result.response).toEqual({
+      missingParameters: [
+        { id: '4388', name: 'Typ słuchawek' },
+        { id: '127418', name: 'Czas pracy na baterii' },
+      ],
+    });
+
+    // Nothing is uploaded or created once parameters are missing
+    expect(fetch.calls).toEqual([
+      { method: 'GET', path: '/sale/categories/257931/parameters', body: undefined },
+    ]);
+  });
+
+  it('uses attributeMapping to fill the gaps and continues to image upload', async () => {
+    const { adapter, fetch } = createAllegroFixtureAdapter('missing-parameters');
+
+    const result = await adapter.publishProduct(product, {
+      attributeMapping: { '4388': 'nauszne', '127418': '30' },
+    });
+
+    // The fixture ends after the parameters - the next request is the image upload
+    expect(result).toEqual({
+      success: false,
+      error: 'Failed to upload image https://cdn.test/wh1000xm5.jpg: No recorded Allegro exchange for POST /sale/images',
+    });
+    expect(fetch.calls.map(call => `${call.method} ${call.path}`)).toEqual([
+      'GET /sale/categories/257931/parameters',
+      'POST /sale/images',
+    ]);
+  });
+
+  it('replays a full publish of an offer', async () => {
+    const { adapter, fetch } = createAllegroFixtureAdapter('publish-offer');
+
+    expect(await adapter.testConnection()).toMatchObject({ success: true });
+    const result = await adapter.publishProduct(product);
+
+    expect(result).toMatchObject({
+      success: true,
+      externalId: '7712345678',
+    });
+
+    const createCall = fetch.calls.find(call => call.path === '/sale/product-offers');
+    expect(createCall?.body).toMatchObject({
+      name: 'Sony WH-1000XM5 sluchawki bezprzewodowe z ANC czarne',
+      images: ['https://a.allegroimg.com/original/11a1b2/0c3d4e5f6a7b8c9d0e1f2a3b4c5d'],
+      sellingMode: { price: { amount: '1299.00', currency: 'PLN' } },
+      external: { id: 'WH1000XM5-B' },
+    });
+  });
+});
@@ -0,0 +1,347 @@
+// Allegro REST API Client
+// Handles communication with Allegro's public REST API (sale/* resources)
+
+import { v4 as uuidv4 } from 'uuid';
+import type { FetchLike } from '@/types/adapters';
+
+const ALLEGRO_API_URL = 'https://api.allegro.pl';
+const ALLEGRO_UPLOAD_URL = 'https://upload.allegro.pl';
+const ALLEGRO_MEDIA_TYPE = 'application/vnd.allegro.public.v1+json';
+
+export interface AllegroApiConfig {
+  accessToken: string;
+  apiUrl?: string;
+  uploadUrl?: string;
+  fetch?: FetchLike;
+  timeoutMs?: number;
+}
+
+export interface AllegroCategory {
+  id: string;
+  name: string;
+  parent: { id: string } | null;
+  leaf: boolean;
+}
+
+export interface AllegroCategoryParameter {
+  id: string;
+  name: string;
+  type: 'dictionary' | 'string' | 'integer' | 'float';
+  required: boolean;
+  requiredForProduct?: boolean;
+  unit?: string | null;
+  dictionary?: Array<{ id: string; value: string }>;
+  options?: {
+    describesProduct?: boolean;
+    customValuesEnabled?: boolean;
+  };
+  restrictions?: {
+    multipleChoices?: boolean;
+    min?: number;
+    max?: number;
+    minLength?: number;
+    maxLength?: number;
+    precision?: number;
+    range?: boolean;
+    allowedNumberOfValues?: number;
+  };
+}
+
+export interface AllegroParameterValue {
+  id: string;
+  values?: string[];
+  valuesIds?: string[];
+}
+
+export interface AllegroOffer {
+  id?: string;
+  name: string;
+  category?: { id: string };
+  productSet?: Array<{
+    product: {
+      id?: string;
+      name?: string;
+      category?: { id: string };
+      parameters?: AllegroParameterValue[];
+      images?: string[];
+    };
+  }>;
+  parameters?: AllegroParameterValue[];
+  images?: string[];
+  description?: {
+    sections: Array<{ items: Array<{ type: 'TEXT'; content: string } | { type: 'IMAGE'; url: string }> }>;
+  };
+  sellingMode?: {
+    format: 'BUY_NOW';
+    price: { amount: string; currency: string };
+  };
+  stock?: { available: number; unit: 'UNIT' | 'PAIR' | 'SET' };
+  external?: { id: string };
+  publication?: { status: 'ACTIVE' | 'INACTIVE' | 'ENDED' };
+  delivery?: { shippingRates?: { id: string } };
+  afterSalesServices?: {
+    returnPolicy?: { id: string };
+    impliedWarranty?: { id: string };
+    warranty?: { id: string };
+  };
+  validation?: {
+    errors?: Array<{ code?: string; message: string; path?: string }>;
+  };
+}
+
+export class AllegroApiClient {
+  private config: Required<Omit<AllegroApiConfig, 'fetch'>>;
+  private fetchImpl: FetchLike;
+
+  constructor(config: AllegroApiConfig) {
+    this.config = {
+      accessToken: config.accessToken,
+      apiUrl: (config.apiUrl || ALLEGRO_API_URL).replace(/\/+$/, ''),
+      uploadUrl: (config.uploadUrl || ALLEGRO_UPLOAD_URL).replace(/\/+$/, ''),
+      timeoutMs: config.timeoutMs ?? 30000,
+    };
+    this.fetchImpl = config.fetch || ((url, init) => fetch(url, init));
+  }
+
+  // Make API request
+  private async request(
+    endpoint: string,
+    options: RequestInit = {},
+    baseUrl: string = this.config.apiUrl
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.config.timeoutMs);
+
+    try {
+      return await this.fetchImpl(`${baseUrl}${endpoint}`, {
+        ...options,
+        headers: {
+          Authorization: `Bearer ${this.config.accessToken}`,
+          Accept: ALLEGRO_MEDIA_TYPE,
+          ...(options.body ? { 'Content-Type': ALLEGRO_MEDIA_TYPE } : {}),
+          ...options.headers,
+        },
+        signal: controller.signal,
+      });
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  // Extract a readable error from an Allegro error response
+  private async readError(response: Response): Promise<string> {
+    const text = await response.text();
+
+    try {
+      const data = JSON.parse(text) as {
+        errors?: Array<{ message?: string; userMessage?: string; path?: string }>;
+      };
+      if (data.errors && data.errors.length > 0) {
+        const messages = data.errors.map(e => {
+          const message = e.userMessage || e.message || 'Unknown error';
+          return e.path ? `${e.path}: ${message}` : message;
+        });
+        return `HTTP ${response.status}: ${messages.join('; ')}`;
+      }
+    } catch {
+      // Not JSON - fall through to raw text
+    }
+
+    return `HTTP ${response.status}: ${text}`;
+  }
+
+  // Test connection
+  async testConnection(): Promise<{ success: boolean; error?: string }> {
+    try {
+      const response = await this.request('/me');
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: await this.readError(response),
+        };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  // Get child categories (root categories when parentId is omitted)
+  async getCategories(parentId?: string): Promise<AllegroCategory[]> {
+    const query = parentId ? `?parent.id=${encodeURIComponent(parentId)}` : '';
+    const response = await this.request(`/sale/categories${query}`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch categories: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.categories || [];
+  }
+
+  // Get single category
+  async getCategory(categoryId: string): Promise<AllegroCategory> {
+    const response = await this.request(`/sale/categories/${encodeURIComponent(categoryId)}`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch category ${categoryId}: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  // Get parameters (required and optional) of a leaf category
+  async getCategoryParameters(categoryId: string): Promise<AllegroCategoryParameter[]> {
+    const response = await this.request(
+      `/sale/categories/${encodeURIComponent(categoryId)}/parameters`
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch parameters of category ${categoryId}: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.parameters || [];
+  }
+
+  // Create offer
+  async createOffer(offer: AllegroOffer): Promise<{
+    success: boolean;
+    offer?: AllegroOffer;
+    error?: string;
+  }> {
+    try {
+      const response = await this.request('/sale/product-offers', {
+        method: 'POST',
+        body: JSON.stringify(offer),
+      });
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: await this.readError(response),
+        };
+      }
+
+      return {
+        success: true,
+        offer: await response.json(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  // Update offer (partial)
+  async updateOffer(
+    offerId: string,
+    offer: Partial<AllegroOffer>
+  ): Promise<{ success: boolean; offer?: AllegroOffer; error?: string }> {
+    try {
+      const response = await this.request(`/sale/product-offers/${encodeURIComponent(offerId)}`, {
+        method: 'PATCH',
+        body: JSON.stringify(offer),
+      });
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: await this.readError(response),
+        };
+      }
+
+      return {
+        success: true,
+        offer: await response.json(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  // Get offer by ID
+  async getOffer(offerId: string): Promise<AllegroOffer> {
+    const response = await this.request(`/sale/product-offers/${encodeURIComponent(offerId)}`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to get offer: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  // End offer - Allegro offers cannot be deleted, only ended
+  async endOffer(offerId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const response = await this.request(`/sale/offer-publication-commands/${uuidv4()}`, {
+        method: 'PUT',
+        body: JSON.stringify({
+          publication: { action: 'END' },
+          offerCriteria: [{ type: 'CONTAINS_OFFERS', offers: [{ id: offerId }] }],
+        }),
+      });
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: await this.readError(response),
+        };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  // Upload image by URL - Allegro only accepts images hosted on its own servers
+  async uploadImage(imageUrl: string): Promise<{
+    success: boolean;
+    location?: string;
+    error?: string;
+  }> {
+    try {
+      const response = await this.request(
+        '/sale/images',
+        {
+          method: 'POST',
+          body: JSON.stringify({ url: imageUrl }),
+        },
+        this.config.uploadUrl
+      );
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: await this.readError(response),
+        };
+      }
+
+      const data = await response.json();
+
+      return {
+        success: true,
+        location: data.location,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+}
@@ -0,0 +1,134 @@
+// Allegro Fixture Harness
+// Record real Allegro API exchanges and replay them offline through the adapter
+
+import { AllegroAdapter } from './index';
+import type { FetchLike, PlatformConfig } from '@/types/adapters';
+import publishOfferFixture from './fixtures/publish-offer.json';
+import missingParametersFixture from './fixtures/missing-parameters.json';
+import categoryTreeFixture from './fixtures/category-tree.json';
+
+// A single recorded request/response pair
+export interface RecordedExchange {
+  method: string;
+  // Path with query string, without host (hosts differ between sandbox and production)
+  path: string;
+  status: number;
+  body: unknown;
+  // Optional recorded request body, used only for inspection
+  requestBody?: unknown;
+}
+
+export interface FixtureFetch extends FetchLike {
+  // Requests made so far, in order
+  calls: Array<{ method: string; path: string; body?: unknown }>;
+}
+
+export type AllegroFixtureName = 'publish-offer' | 'missing-parameters' | 'category-tree';
+
+export const ALLEGRO_FIXTURES: Record<AllegroFixtureName, RecordedExchange[]> = {
+  'publish-offer': publishOfferFixture as RecordedExchange[],
+  'missing-parameters': missingParametersFixture as RecordedExchange[],
+  'category-tree': categoryTreeFixture as RecordedExchange[],
+};
+
+// Strip the host so the same fixture works for api. and upload. hosts
+function toPath(url: string): string {
+  const parsed = new URL(url);
+  return `${parsed.pathname}${parsed.search}`;
+}
+
+function parseBody(init?: RequestInit): unknown {
+  if (typeof init?.body !== 'string') return undefined;
+  try {
+    return JSON.parse(init.body);
+  } catch {
+    return init.body;
+  }
+}
+
+/**
+ * Replay recorded exchanges. Each request consumes the first unused exchange
+ * with a matching method and path; unmatched requests fail loudly.
+ */
+export function createFixtureFetch(exchanges: RecordedExchange[]): FixtureFetch {
+  const remaining = [...exchanges];
+  const calls: FixtureFetch['calls'] = [];
+
+  const fixtureFetch = (async (url: string, init?: RequestInit) => {
+    const method = (init?.method || 'GET').toUpperCase();
+    const path = toPath(url);
+    calls.push({ method, path, body: parseBody(init) });
+
+    const index = remaining.findIndex(e => e.method === method && e.path === path);
+    if (index === -1) {
+      throw new Error(`No recorded Allegro exchange for ${method} ${path}`);
+    }
+
+    const [exchange] = remaining.splice(index, 1);
+    return new Response(
+      exchange.body === null ? null : JSON.stringify(exchange.body),
+      {
+        status: exchange.status,
+        headers: { 'Content-Type': 'application/vnd.allegro.public.v1+json' },
+      }
+    );
+  }) as FixtureFetch;
+
+  fixtureFetch.calls = calls;
+  return fixtureFetch;
+}
+
+/**
+ * Wrap a real fetch and append every exchange to `log`.
+ * Save the log as JSON under fixtures/ to add a new recording.
+ */
+export function createRecordingFetch(
+  log: RecordedExchange[],
+  fetchImpl: FetchLike = (url, init) => fetch(url, init)
+): FetchLike {
+  return async (url, init) => {
+    const response = await fetchImpl(url, init);
+    const text = await response.clone().text();
+
+    let body: unknown = null;
+    if (text) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        body = text;
+      }
+    }
+
+    log.push({
+      method: (init?.method || 'GET').toUpperCase(),
+      path: toPath(url),
+      status: response.status,
+      body,
+      requestBody: parseBody(init),
+    });
+
+    return response;
+  };
+}
+
+/**
+ * Allegro adapter wired to a named fixture - no network access needed.
+ * Exposes the fixture fetch so callers can inspect the requests made.
+ */
+export function createAllegroFixtureAdapter(
+  fixture: AllegroFixtureName,
+  settings: PlatformConfig['settings'] = { categoryId: '257931' }
+): { adapter: AllegroAdapter; fetch: FixtureFetch } {
+  const fixtureFetch = createFixtureFetch(ALLEGRO_FIXTURES[fixture]);
+  const adapter = new AllegroAdapter(
+    {
+      platform: 'allegro',
+      apiUrl: 'https://api.allegro.pl',
+      apiKey: 'fixture-token',
+      settings,
+    },
+    fixtureFetch
+  );
+
+  return { adapter, fetch: fixtureFetch };
+}
@@ -0,0 +1,518 @@
+// Allegro Adapter
+// Implements PlatformAdapter interface for Allegro REST API (product offers)
+
+import { BasePlatformAdapter } from '../base';
+import {
+  AllegroApiClient,
+  type AllegroCategory,
+  type AllegroCategoryParameter,
+  type AllegroOffer,
+} from './api-client';
+import { mapParameters } from './parameter-mapper';
+import type {
+  FetchLike,
+  Platform,
+  PlatformConfig,
+  PlatformContext,
+  PlatformCategory,
+  PlatformAttribute,
+  PublishOptions,
+  PublishResult,
+} from '@/types/adapters';
+import { pickImageUrl } from '@/types/image-variants';
+import type { ProductImage, UnifiedProduct } from '@/types/unified-product';
+
+const ALLEGRO_SANDBOX_API_URL = 'https://api.allegro.pl.allegrosandbox.pl';
+const ALLEGRO_SANDBOX_UPLOAD_URL = 'https://upload.allegro.pl.allegrosandbox.pl';
+
+// Allegro limits
+const MAX_TITLE_LENGTH = 75;
+const MAX_IMAGES = 16;
+
+// Tags allowed in Allegro description sections
+const ALLOWED_DESCRIPTION_TAGS = ['h1', 'h2', 'p', 'ul', 'ol', 'li', 'b'];
+
+// Main image: square white-padded variant (if generated), the rest as uploaded
+function galleryImageUrl(image: ProductImage, index: number): string {
+  return index === 0 ? pickImageUrl(image, 'square') : image.url;
+}
+
+export class AllegroAdapter extends BasePlatformAdapter {
+  readonly platform: Platform = 'allegro';
+  readonly displayName = 'Allegro';
+
+  private client: AllegroApiClient;
+  private sandbox: boolean;
+
+  // Category parameters rarely change - cache per category for the adapter lifetime
+  private parameterCache: Map<string, AllegroCategoryParameter[]> = new Map();
+
+  constructor(config: PlatformConfig, fetchImpl?: FetchLike) {
+    super(config, fetchImpl);
+
+    this.sandbox = config.settings?.sandbox === true;
+
+    // apiKey holds an OAuth access token (device flow / authorization code)
+    this.client = new AllegroApiClient({
+      accessToken: config.apiKey,
+      apiUrl: this.sandbox ? ALLEGRO_SANDBOX_API_URL : config.apiUrl,
+      uploadUrl: this.sandbox ? ALLEGRO_SANDBOX_UPLOAD_URL : undefined,
+      fetch: this.fetchImpl,
+    });
+  }
+
+  async testConnection(): Promise<{ success: boolean; error?: string }> {
+    return this.client.testConnection();
+  }
+
+  async getContext(): Promise<PlatformContext> {
+    // The full tree has tens of thousands of nodes - only fetch the top levels
+    const maxDepth = Number(this.config.settings?.categoryDepth) || 2;
+    const categories: PlatformCategory[] = [];
+
+    let level = 1;
+    let parents: Array<{ id?: string; path?: string }> = [{}];
+
+    while (parents.length > 0 && level <= maxDepth) {
+      const next: typeof parents = [];
+
+      for (const parent of parents) {
+        const children = await this.client.getCategories(parent.id);
+
+        for (const cat of children) {
+          const path = parent.path ? `${parent.path} > ${cat.name}` : cat.name;
+          categories.push({
+            id: cat.id,
+            name: cat.name,
+            path,
+            parentId: cat.parent?.id,
+            level,
+          });
+          if (!cat.leaf) next.push({ id: cat.id, path });
+        }
+      }
+
+      parents = next;
+      level++;
+    }
+
+    // Parameters belong to leaf categories - load them for the configured one
+    const attributes: PlatformAttribute[] = [];
+    const categoryId = this.config.settings?.categoryId as string | undefined;
+
+    if (categoryId) {
+      const chain = await this.getCategoryChain(categoryId);
+      const leaf = chain[chain.length - 1];
+
+      if (!categories.some(cat => cat.id === leaf.id)) {
+        categories.push({
+          id: leaf.id,
+          name: leaf.name,
+          path: chain.map(cat => cat.name).join(' > '),
+          parentId: leaf.parent?.id,
+          level: chain.length,
+        });
+      }
+
+      const parameters = await this.getCategoryParameters(categoryId);
+      attributes.push(...parameters.map(param => this.toPlatformAttribute(param, leaf)));
+    }
+
+    return {
+      categories,
+      attributes,
+    };
+  }
+
+  async transformProduct(
+    product: UnifiedProduct,
+    options: PublishOptions = {}
+  ): Promise<AllegroOffer> {
+    const categoryId = this.resolveCategoryId(options);
+    if (!categoryId) {
+      throw new Error('Allegro category is required (options.categoryId or settings.categoryId)');
+    }
+
+    const { offer } = await this.buildOffer(product, categoryId, options);
+    return offer;
+  }
+
+  async publishProduct(
+    product: UnifiedProduct,
+    options: PublishOptions = {}
+  ): Promise<PublishResult> {
+    try {
+      const categoryId = this.resolveCategoryId(options);
+      if (!categoryId) {
+        return {
+          success: false,
+          error: 'Allegro category is required (options.categoryId or settings.categoryId)',
+        };
+      }
+
+      const { offer, missing } = await this.buildOffer(product, categoryId, options);
+
+      // Allegro rejects offers without required parameters - fail early with the full list
+      if (missing.length > 0) {
+        return this.missingParametersResult(missing);
+      }
+
+      const uploadResult = await this.uploadImages(product);
+      if (!uploadResult.success) {
+        return { success: false, error: uploadResult.error };
+      }
+      this.applyImages(offer, uploadResult.images);
+
+      const createResult = await this.client.createOffer(offer);
+
+      if (!createResult.success || !createResult.offer?.id) {
+        return {
+          success: false,
+          error: createResult.error || 'Failed to create offer',
+        };
+      }
+
+      return this.toPublishResult(createResult.offer);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  async updateProduct(
+    externalId: string,
+    product: UnifiedProduct,
+    options: PublishOptions = {}
+  ): Promise<PublishResult> {
+    try {
+      const categoryId = this.resolveCategoryId(options);
+      if (!categoryId) {
+        return {
+          success: false,
+          error: 'Allegro category is required (options.categoryId or settings.categoryId)',
+        };
+      }
+
+      const { offer, missing } = await this.buildOffer(product, categoryId, options);
+
+      if (missing.length > 0) {
+        return this.missingParametersResult(missing);
+      }
+
+      const uploadResult = await this.uploadImages(product);
+      if (!uploadResult.success) {
+        return { success: false, error: uploadResult.error };
+      }
+      this.applyImages(offer, uploadResult.images);
+
+      const updateResult = await this.client.updateOffer(externalId, offer);
+
+      if (!updateResult.success) {
+        return {
+          success: false,
+          error: updateResult.error || 'Failed to update offer',
+        };
+      }
+
+      return this.toPublishResult({ ...updateResult.offer, id: externalId } as AllegroOffer);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  async deleteProduct(
+    externalId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    return this.client.endOffer(externalId);
+  }
+
+  async getProduct(externalId: string): Promise<unknown> {
+    return this.client.getOffer(externalId);
+  }
+
+  async uploadImage(
+    productId: string,
+    imageUrl: string,
+    position?: number
+  ): Promise<{ success: boolean; imageId?: string; error?: string }> {
+    try {
+      const upload = await this.client.uploadImage(imageUrl);
+      if (!upload.success || !upload.location) {
+        return { success: false, error: upload.error || 'Failed to upload image' };
+      }
+
+      // Images live on the offer - insert the uploaded one and patch the list
+      const offer = await this.client.getOffer(productId);
+      const images = [...(offer.images || [])];
+      const insertAt = position !== undefined
+        ? Math.min(Math.max(position, 0), images.length)
+        : images.length;
+      images.splice(insertAt, 0, upload.location);
+
+      const result = await this.client.updateOffer(productId, { images });
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      return { success: true, imageId: upload.location };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  // Category from publish options, falling back to platform settings
+  private resolveCategoryId(options: PublishOptions): string | undefined {
+    return options.categoryId
+      || options.categoryIds?.[0]
+      || (this.config.settings?.categoryId as string | undefined);
+  }
+
+  // Get (cached) parameters of a category
+  private async getCategoryParameters(categoryId: string): Promise<AllegroCategoryParameter[]> {
+    const cached = this.parameterCache.get(categoryId);
+    if (cached) return cached;
+
+    const parameters = await this.client.getCategoryParameters(categoryId);
+    this.parameterCache.set(categoryId, parameters);
+    return parameters;
+  }
+
+  // Walk up from a category to the root (returned root-first)
+  private async getCategoryChain(categoryId: string): Promise<AllegroCategory[]> {
+    const chain: AllegroCategory[] = [];
+    let currentId: string | undefined = categoryId;
+
+    while (currentId && chain.length < 10) {
+      const category = await this.client.getCategory(currentId);
+      chain.unshift(category);
+      currentId = category.parent?.id;
+    }
+
+    return chain;
+  }
+
+  // Map Allegro category parameter to PlatformAttribute
+  private toPlatformAttribute(
+    parameter: AllegroCategoryParameter,
+    category: AllegroCategory
+  ): PlatformAttribute {
+    let type: PlatformAttribute['type'] = 'text';
+    if (parameter.type === 'dictionary') {
+      type = parameter.restrictions?.multipleChoices ? 'multiselect' : 'select';
+    } else if (parameter.type === 'integer' || parameter.type === 'float') {
+      type = 'number';
+    }
+
+    return {
+      id: parameter.id,
+      name: parameter.unit ? `${parameter.name} (${parameter.unit})` : parameter.name,
+      type,
+      values: parameter.dictionary?.map(entry => entry.value),
+      required: parameter.required || parameter.requiredForProduct === true,
+      groupId: category.id,
+      groupName: category.name,
+    };
+  }
+
+  // Build offer payload (images still point at source URLs)
+  private async buildOffer(
+    product: UnifiedProduct,
+    categoryId: string,
+    options: PublishOptions
+  ): Promise<{ offer: AllegroOffer; missing: AllegroCategoryParameter[] }> {
+    const parameters = await this.getCategoryParameters(categoryId);
+    const mapping = mapParameters(parameters, product, options.attributeMapping);
+
+    const name = this.truncateTitle(product.name);
+    const images = [...product.images]
+      .sort((a, b) => a.position - b.position)
+      .slice(0, MAX_IMAGES)
+      .map(galleryImageUrl);
+
+    const offer: AllegroOffer = {
+      name,
+      productSet: [
+        {
+          product: {
+            name,
+            category: { id: categoryId },
+            parameters: mapping.productParameters,
+            images,
+          },
+        },
+      ],
+      parameters: mapping.offerParameters,
+      images,
+      description: {
+        sections: [
+          {
+            items: [
+              {
+                type: 'TEXT',
+                content: this.sanitizeDescription(product.description.html || product.description.long),
+              },
+            ],
+          },
+        ],
+      },
+      sellingMode: {
+        format: 'BUY_NOW',
+        price: {
+          amount: product.pricing.gross.toFixed(2),
+          currency: product.pricing.currency || 'PLN',
+        },
+      },
+      stock: {
+        available: product.stock.quantity,
+        unit: 'UNIT',
+      },
+      publication: {
+        status: options.active === false ? 'INACTIVE' : 'ACTIVE',
+      },
+    };
+
+    if (product.identifiers?.sku) {
+      offer.external = { id: product.identifiers.sku };
+    }
+
+    // Delivery and after-sales policies are created once in Allegro and referenced by ID
+    const settings = this.config.settings || {};
+    if (settings.shippingRatesId) {
+      offer.delivery = { shippingRates: { id: String(settings.shippingRatesId) } };
+    }
+    if (settings.returnPolicyId || settings.impliedWarrantyId || settings.warrantyId) {
+      offer.afterSalesServices = {
+        returnPolicy: settings.returnPolicyId ? { id: String(settings.returnPolicyId) } : undefined,
+        impliedWarranty: settings.impliedWarrantyId ? { id: String(settings.impliedWarrantyId) } : undefined,
+        warranty: settings.warrantyId ? { id: String(settings.warrantyId) } : undefined,
+      };
+    }
+
+    return { offer, missing: mapping.missing };
+  }
+
+  // Allegro only accepts images hosted on its own servers
+  private async uploadImages(
+    product: UnifiedProduct
+  ): Promise<{ success: boolean; images: string[]; error?: string }> {
+    const images: string[] = [];
+    const sorted = [...product.images]
+      .sort((a, b) => a.position - b.position)
+      .slice(0, MAX_IMAGES);
+
+    for (const [index, image] of sorted.entries()) {
+      const url = galleryImageUrl(image, index);
+      const result = await this.client.uploadImage(url);
+      if (!result.success || !result.location) {
+        return {
+          success: false,
+          images,
+          error: `Failed to upload image ${url}: ${result.error || 'no location returned'}`,
+        };
+      }
+      images.push(result.location);
+    }
+
+    return { success: true, images };
+  }
+
+  // Replace source image URLs with uploaded Allegro locations
+  private applyImages(offer: AllegroOffer, images: string[]): void {
+    offer.images = images;
+    for (const item of offer.productSet || []) {
+      item.product.images = images;
+    }
+  }
+
+  // Failed PublishResult listing required parameters that could not be filled
+  private missingParametersResult(missing: AllegroCategoryParameter[]): PublishResult {
+    return {
+      success: false,
+      error: `Missing required Allegro parameters: ${missing.map(p => p.name).join(', ')}`,
+      response: { missingParameters: missing.map(p => ({ id: p.id, name: p.name })) },
+    };
+  }
+
+  // Convert created/updated offer to PublishResult, surfacing validation errors
+  private toPublishResult(offer: AllegroOffer): PublishResult {
+    const validationErrors = offer.validation?.errors || [];
+    const offerUrl = this.sandbox
+      ? `https://allegro.pl.allegrosandbox.pl/oferta/${offer.id}`
+      : `https://allegro.pl/oferta/${offer.id}`;
+
+    if (validationErrors.length > 0) {
+      return {
+        success: false,
+        externalId: offer.id,
+        error: `Offer saved with validation errors: ${validationErrors
+          .map(e => (e.path ? `${e.path}: ${e.message}` : e.message))
+          .join('; ')}`,
+        response: offer,
+      };
+    }
+
+    return {
+      success: true,
+      externalId: offer.id,
+      externalUrl: offerUrl,
+      response: offer,
+    };
+  }
+
+  // Truncate title to Allegro limit on a word boundary
+  private truncateTitle(title: string): string {
+    const clean = title.replace(/\s+/g, ' ').trim();
+    if (clean.length <= MAX_TITLE_LENGTH) return clean;
+
+    const cut = clean.slice(0, MAX_TITLE_LENGTH);
+    const lastSpace = cut.lastIndexOf(' ');
+    return (lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).trim();
+  }
+
+  // Reduce HTML to the subset accepted by Allegro description sections
+  private sanitizeDescription(content: string): string {
+    // Plain text - wrap paragraphs
+    if (!/<[a-z][\s\S]*>/i.test(content)) {
+      return content
+        .split(/\n{2,}/)
+        .map(paragraph => paragraph.trim())
+        .filter(Boolean)
+        .map(paragraph => `<p>${this.escapeHtml(paragraph)}</p>`)
+        .join('');
+    }
+
+    const html = content
+      .replace(/<(script|style)[\s\S]*?<\/\1>/gi, '')
+      .replace(/<(\/?)strong\b[^>]*>/gi, '<$1b>')
+      .replace(/<(\/?)h[3-6]\b[^>]*>/gi, '<$1h2>')
+      .replace(/<br\s*\/?>/gi, '</p><p>')
+      .replace(/<(\/?)([a-z0-9]+)\b[^>]*>/gi, (_match, slash: string, tag: string) => {
+        const name = tag.toLowerCase();
+        return ALLOWED_DESCRIPTION_TAGS.includes(name) ? `<${slash}${name}>` : '';
+      })
+      .replace(/<p>\s*<\/p>/g, '')
+      .trim();
+
+    return html.startsWith('<') ? html : `<p>${html}</p>`;
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
+
+// Export factory function
+export function createAllegroAdapter(config: PlatformConfig, fetchImpl?: FetchLike): AllegroAdapter {
+  return new AllegroAdapter(config, fetchImpl);
+}
@@ -0,0 +1,189 @@
+// Allegro Parameter Mapper
+// Maps UnifiedProduct attributes onto category-specific Allegro parameters
+
+import type { UnifiedProduct } from '@/types/unified-product';
+import type { AllegroCategoryParameter, AllegroParameterValue } from './api-client';
+
+export interface ParameterMappingResult {
+  // Parameters describing the product (productSet[].product.parameters)
+  productParameters: AllegroParameterValue[];
+  // Parameters of the offer itself, e.g. condition (offer.parameters)
+  offerParameters: AllegroParameterValue[];
+  // Required parameters that could not be filled
+  missing: AllegroCategoryParameter[];
+}
+
+// Common attribute names produced by the pipeline for Allegro parameter names
+const PARAMETER_SYNONYMS: Record<string, string[]> = {
+  marka: ['brand', 'marke', 'producent', 'manufacturer', 'hersteller'],
+  kolor: ['color', 'colour', 'farbe', 'kolor dominujacy'],
+  rozmiar: ['size', 'groesse', 'grosse'],
+  material: ['material', 'materialy', 'tworzywo', 'stoff'],
+  model: ['model', 'modell'],
+  'kod producenta': ['mpn', 'kod producenta', 'herstellernummer'],
+  'ean (gtin)': ['ean', 'gtin', 'ean (gtin)'],
+  stan: ['condition', 'zustand'],
+  'waga produktu': ['weight', 'waga', 'gewicht'],
+};
+
+const CONDITION_VALUES: Record<UnifiedProduct['condition'], string> = {
+  new: 'Nowy',
+  used: 'Używany',
+  refurbished: 'Po naprawie',
+};
+
+// Lowercase, strip diacritics and punctuation for loose comparisons
+export function normalizeName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ł/g, 'l')
+    .replace(/Ł/g, 'l')
+    .toLowerCase()
+    .replace(/[^a-z0-9() ]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Names under which a parameter may appear in product.attributes
+function candidateNames(parameter: AllegroCategoryParameter): Set<string> {
+  const name = normalizeName(parameter.name);
+  const names = new Set<string>([name]);
+
+  for (const [key, synonyms] of Object.entries(PARAMETER_SYNONYMS)) {
+    if (key === name || synonyms.includes(name)) {
+      names.add(key);
+      synonyms.forEach(s => names.add(s));
+    }
+  }
+
+  return names;
+}
+
+// Value from fields of UnifiedProduct that are not plain attributes
+function builtInValue(
+  parameter: AllegroCategoryParameter,
+  product: UnifiedProduct
+): string | undefined {
+  const names = candidateNames(parameter);
+
+  if (names.has('ean (gtin)')) return product.identifiers?.ean;
+  if (names.has('kod producenta')) return product.identifiers?.mpn;
+  if (names.has('marka')) return product.brand || product.manufacturer;
+  if (names.has('stan')) return CONDITION_VALUES[product.condition];
+
+  if (names.has('waga produktu') && product.weight !== undefined) {
+    const grams = parameter.unit === 'g';
+    return String(grams ? Math.round(product.weight * 1000) : product.weight);
+  }
+
+  return undefined;
+}
+
+// Find a raw value for a parameter - explicit mapping wins over attributes
+function findValue(
+  parameter: AllegroCategoryParameter,
+  product: UnifiedProduct,
+  attributeMapping: Record<string, string>
+): string | undefined {
+  if (attributeMapping[parameter.id]) {
+    return attributeMapping[parameter.id];
+  }
+
+  const names = candidateNames(parameter);
+  for (const [name, value] of Object.entries(product.attributes)) {
+    if (value && names.has(normalizeName(name))) {
+      return value;
+    }
+  }
+
+  return builtInValue(parameter, product);
+}
+
+// Turn a raw value into an Allegro parameter value, or null if it does not fit
+function toParameterValue(
+  parameter: AllegroCategoryParameter,
+  raw: string
+): AllegroParameterValue | null {
+  const rawValues = parameter.restrictions?.multipleChoices
+    ? raw.split(/[,;]/).map(v => v.trim()).filter(Boolean)
+    : [raw.trim()];
+
+  if (parameter.type === 'dictionary') {
+    const dictionary = parameter.dictionary || [];
+    const valuesIds: string[] = [];
+
+    for (const value of rawValues) {
+      const normalized = normalizeName(value);
+      const entry = dictionary.find(
+        d => d.id === value || normalizeName(d.value) === normalized
+      );
+      if (entry) valuesIds.push(entry.id);
+    }
+
+    if (valuesIds.length > 0) {
+      return { id: parameter.id, valuesIds };
+    }
+
+    // Some dictionaries (e.g. brand) accept values outside the list
+    if (parameter.options?.customValuesEnabled) {
+      return { id: parameter.id, values: rawValues };
+    }
+
+    return null;
+  }
+
+  if (parameter.type === 'integer' || parameter.type === 'float') {
+    const number = parseFloat(rawValues[0].replace(',', '.').replace(/[^0-9.-]/g, ''));
+    if (Number.isNaN(number)) return null;
+
+    const { min, max, precision } = parameter.restrictions || {};
+    if (min !== undefined && number < min) return null;
+    if (max !== undefined && number > max) return null;
+
+    const value = parameter.type === 'integer'
+      ? String(Math.round(number))
+      : number.toFixed(precision ?? 2);
+
+    return { id: parameter.id, values: [value] };
+  }
+
+  const maxLength = parameter.restrictions?.maxLength;
+  return {
+    id: parameter.id,
+    values: rawValues.map(v => (maxLength ? v.slice(0, maxLength) : v)),
+  };
+}
+
+// Map product data onto the parameters of an Allegro category
+export function mapParameters(
+  parameters: AllegroCategoryParameter[],
+  product: UnifiedProduct,
+  attributeMapping: Record<string, string> = {}
+): ParameterMappingResult {
+  const result: ParameterMappingResult = {
+    productParameters: [],
+    offerParameters: [],
+    missing: [],
+  };
+
+  for (const parameter of parameters) {
+    const raw = findValue(parameter, product, attributeMapping);
+    const value = raw ? toParameterValue(parameter, raw) : null;
+
+    if (!value) {
+      if (parameter.required || parameter.requiredForProduct) {
+        result.missing.push(parameter);
+      }
+      continue;
+    }
+
+    if (parameter.options?.describesProduct) {
+      result.productParameters.push(value);
+    } else {
+      result.offerParameters.push(value);
+    }
+  }
+
+  return result;
+}
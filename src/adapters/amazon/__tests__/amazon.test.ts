@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { AmazonAdapter } from '../index';
+import type { AmazonListingSubmission } from '../api-client';
+import {
+  formatSchemaErrors,
+  getProductTypeSchema,
+  validateAgainstSchema,
+} from '../schema-validator';
+import type { FetchLike } from '@/types/adapters';
+import type { UnifiedProduct } from '@/types/unified-product';
+
+const MARKETPLACE_ID = 'A1PA6795UKMFR9';
+
+const product: UnifiedProduct = {
+  name: 'Sony WH-1000XM5 Kopfhoerer mit ANC schwarz',
+  description: {
+    short: 'Kabellose Kopfhoerer mit aktiver Geraeuschunterdrueckung',
+    long: 'Kabellose Over-Ear-Kopfhoerer mit ANC',
+    html: '<p>Kabellose Over-Ear-Kopfhoerer mit ANC</p>',
+  },
+  seo: { title: 'Sony WH-1000XM5', description: 'Sony Kopfhoerer mit ANC', keywords: ['sony'] },
+  pricing: { gross: 299, net: 251.26, currency: 'EUR', vatRate: 19 },
+  attributes: { Farbe: 'schwarz' },
+  categories: [],
+  images: [{ url: 'https://cdn.test/wh1000xm5.jpg', position: 0 }],
+  identifiers: { sku: 'WH1000XM5-B', ean: '4548736132610' },
+  stock: { quantity: 5, availability: 'in_stock' },
+  condition: 'new',
+  brand: 'Sony',
+  tags: [],
+  metadata: {},
+};
+
+type StubFetch = FetchLike & { calls: Array<{ method: string; path: string }> };
+
+// Answers the LWA token request and returns the given submission for putListingsItem
+function createStubFetch(submission: AmazonListingSubmission): StubFetch {
+  const calls: StubFetch['calls'] = [];
+
+  const stub = (async (url: string, init?: RequestInit) => {
+    const parsed = new URL(url);
+    const method = (init?.method || 'GET').toUpperCase();
+    calls.push({ method, path: parsed.pathname });
+
+    if (parsed.hostname === 'api.amazon.com') {
+      return Response.json({ access_token: 'Atza|test', expires_in: 3600 });
+    }
+    if (method === 'PUT' && parsed.pathname.startsWith('/listings/2021-08-01/items/')) {
+      return Response.json(submission);
+    }
+    return Response.json({ errors: [{ code: 'NotFound', message: `No stub for ${method} ${parsed.pathname}` }] }, { status: 404 });
+  }) as StubFetch;
+
+  stub.calls = calls;
+  return stub;
+}
+
+function createAdapter(fetchImpl: FetchLike): AmazonAdapter {
+  return new AmazonAdapter({
+    platform: 'amazon',
+    apiUrl: 'https://sellingpartnerapi-eu.amazon.com',
+    apiKey: 'client-id:client-secret:refresh-token',
+    settings: { sellerId: 'A2SELLER', marketplaceId: MARKETPLACE_ID },
+  }, fetchImpl);
+}
+
+describe('Amazon schema validator', () => {
+  const schema = getProductTypeSchema('PRODUCT')!;
+
+  it('reports missing required attributes and values over the length limit', () => {
+    const errors = validateAgainstSchema({
+      item_name: [{ value: 'x'.repeat(201), language_tag: 'de_DE', marketplace_id: MARKETPLACE_ID }],
+      brand: [{ value: 'Sony' }],
+      product_description: [{ value: 'Kopfhoerer' }],
+      bullet_point: [{ value: 'ANC' }],
+      condition_type: [{ value: 'new_new' }],
+      purchasable_offer: [{ currency: 'EUR', marketplace_id: MARKETPLACE_ID, our_price: [{ schedule: [{ value_with_tax: 299 }] }] }],
+      fulfillment_availability: [{ fulfillment_channel_code: 'DEFAULT', quantity: 5 }],
+    }, schema);
+
+    expect(errors).toEqual([
+      { path: 'main_product_image_locator', message: 'is required' },
+      { path: 'item_name[0].value', message: 'must be at most 200 characters (got 201)' },
+    ]);
+    expect(formatSchemaErrors(errors)).toBe(
+      'main_product_image_locator: is required; item_name[0].value: must be at most 200 characters (got 201)'
+    );
+  });
+});
+
+describe('AmazonAdapter', () => {
+  it('returns validation errors without calling the API', async () => {
+    const fetch = createStubFetch({ sku: 'WH1000XM5-B', status: 'ACCEPTED', submissionId: 'sub-1' });
+    const adapter = createAdapter(fetch);
+
+    const result = await adapter.publishProduct({ ...product, name: 'x'.repeat(201), images: [] });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(
+      'main_product_image_locator: is required; item_name[0].value: must be at most 200 characters (got 201)'
+    );
+    expect(fetch.calls).toEqual([]);
+  });
+
+  it('publishes a listing accepted by Amazon under the seller SKU', async () => {
+    const fetch = createStubFetch({ sku: 'WH1000XM5-B', status: 'ACCEPTED', submissionId: 'sub-1' });
+    const adapter = createAdapter(fetch);
+
+    const result = await adapter.publishProduct(product);
+
+    expect(result).toMatchObject({
+      success: true,
+      externalId: 'WH1000XM5-B',
+      response: { status: 'ACCEPTED', submissionId: 'sub-1' },
+    });
+    expect(fetch.calls.map(call => `${call.method} ${call.path}`)).toEqual([
+      'POST /auth/o2/token',
+      'PUT /listings/2021-08-01/items/A2SELLER/WH1000XM5-B',
+    ]);
+  });
+
+  it('fails with the attribute issues of an INVALID submission', async () => {
+    const fetch = createStubFetch({
+      sku: 'WH1000XM5-B',
+      status: 'INVALID',
+      submissionId: 'sub-2',
+      issues: [
+        { code: '90220', message: 'brand is not approved for this seller', severity: 'ERROR', attributeNames: ['brand'] },
+        { code: '18027', message: 'Image is smaller than 1000px', severity: 'WARNING', attributeNames: ['main_product_image_locator'] },
+      ],
+    });
+    const adapter = createAdapter(fetch);
+
+    const result = await adapter.publishProduct(product);
+
+    expect(result).toMatchObject({
+      success: false,
+      externalId: 'WH1000XM5-B',
+      error: 'brand: brand is not approved for this seller',
+      response: { status: 'INVALID' },
+    });
+  });
+});
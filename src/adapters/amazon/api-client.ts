@@ -0,0 +1,278 @@
+// Amazon SP-API Client
+// Handles Login with Amazon (LWA) tokens and Listings Items / Product Type Definitions calls
+
+import type { FetchLike } from '@/types/adapters';
+
+const SP_API_URL = 'https://sellingpartnerapi-eu.amazon.com';
+const LWA_TOKEN_URL = 'https://api.amazon.com/auth/o2/token';
+const LISTINGS_VERSION = '2021-08-01';
+const DEFINITIONS_VERSION = '2020-09-01';
+
+export interface AmazonApiConfig {
+  clientId: string;
+  clientSecret: string;
+  refreshToken: string;
+  sellerId: string;
+  apiUrl?: string;
+  tokenUrl?: string;
+  fetch?: FetchLike;
+  timeoutMs?: number;
+}
+
+// Listings Items API request body (putListingsItem)
+export interface AmazonListingPayload {
+  productType: string;
+  requirements: 'LISTING' | 'LISTING_OFFER_ONLY' | 'LISTING_PRODUCT_ONLY';
+  attributes: Record<string, unknown[]>;
+}
+
+export interface AmazonListingIssue {
+  code: string;
+  message: string;
+  severity: 'ERROR' | 'WARNING' | 'INFO';
+  attributeNames?: string[];
+}
+
+export interface AmazonListingSubmission {
+  sku: string;
+  status: 'ACCEPTED' | 'INVALID';
+  submissionId: string;
+  issues?: AmazonListingIssue[];
+}
+
+export interface AmazonPatchOperation {
+  op: 'add' | 'replace' | 'delete';
+  path: string;
+  value?: unknown[];
+}
+
+export class AmazonApiClient {
+  private config: AmazonApiConfig;
+  private fetchImpl: FetchLike;
+
+  // LWA access tokens live for one hour
+  private accessToken: string | null = null;
+  private accessTokenExpiresAt = 0;
+
+  constructor(config: AmazonApiConfig) {
+    this.config = config;
+    this.fetchImpl = config.fetch || ((url, init) => fetch(url, init));
+  }
+
+  // Exchange the refresh token for an access token (cached until shortly before expiry)
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && Date.now() < this.accessTokenExpiresAt) {
+      return this.accessToken;
+    }
+
+    const response = await this.fetchImpl(this.config.tokenUrl || LWA_TOKEN_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'refresh_token',
+        refresh_token: this.config.refreshToken,
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+      }).toString(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`LWA token request failed: ${response.status} ${await response.text()}`);
+    }
+
+    const data = await response.json() as { access_token: string; expires_in?: number };
+    this.accessToken = data.access_token;
+    this.accessTokenExpiresAt = Date.now() + ((data.expires_in ?? 3600) - 60) * 1000;
+
+    return this.accessToken;
+  }
+
+  // Make API request
+  private async request(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<Response> {
+    const accessToken = await this.getAccessToken();
+    const baseUrl = (this.config.apiUrl || SP_API_URL).replace(/\/+$/, '');
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.config.timeoutMs ?? 30000);
+
+    try {
+      return await this.fetchImpl(`${baseUrl}${endpoint}`, {
+        ...options,
+        headers: {
+          'x-amz-access-token': accessToken,
+          Accept: 'application/json',
+          ...(options.body ? { 'Content-Type': 'application/json' } : {}),
+          ...options.headers,
+        },
+        signal: controller.signal,
+      });
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  // Extract a readable error from an SP-API error response
+  private async readError(response: Response): Promise<string> {
+    const text = await response.text();
+
+    try {
+      const data = JSON.parse(text) as { errors?: Array<{ code?: string; message?: string }> };
+      if (data.errors && data.errors.length > 0) {
+        return `HTTP ${response.status}: ${data.errors
+          .map(e => `${e.message || 'Unknown error'}${e.code ? ` (${e.code})` : ''}`)
+          .join('; ')}`;
+      }
+    } catch {
+      // Not JSON - fall through to raw text
+    }
+
+    return `HTTP ${response.status}: ${text}`;
+  }
+
+  private listingPath(sku: string, marketplaceId: string, query: string = ''): string {
+    return `/listings/${LISTINGS_VERSION}/items/${encodeURIComponent(this.config.sellerId)}/${encodeURIComponent(sku)}`
+      + `?marketplaceIds=${encodeURIComponent(marketplaceId)}${query}`;
+  }
+
+  // Test connection
+  async testConnection(): Promise<{ success: boolean; error?: string }> {
+    try {
+      const response = await this.request('/sellers/v1/marketplaceParticipations');
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: await this.readError(response),
+        };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  // List product types available in a marketplace
+  async searchProductTypes(
+    marketplaceId: string
+  ): Promise<Array<{ name: string; displayName: string }>> {
+    const response = await this.request(
+      `/definitions/${DEFINITIONS_VERSION}/productTypes?marketplaceIds=${encodeURIComponent(marketplaceId)}`
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch product types: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.productTypes || [];
+  }
+
+  // Create or fully replace a listing
+  async putListing(
+    sku: string,
+    marketplaceId: string,
+    payload: AmazonListingPayload
+  ): Promise<{ success: boolean; submission?: AmazonListingSubmission; error?: string }> {
+    try {
+      const response = await this.request(this.listingPath(sku, marketplaceId), {
+        method: 'PUT',
+        body: JSON.stringify(payload),
+      });
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: await this.readError(response),
+        };
+      }
+
+      return {
+        success: true,
+        submission: await response.json(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  // Partially update a listing
+  async patchListing(
+    sku: string,
+    marketplaceId: string,
+    productType: string,
+    patches: AmazonPatchOperation[]
+  ): Promise<{ success: boolean; submission?: AmazonListingSubmission; error?: string }> {
+    try {
+      const response = await this.request(this.listingPath(sku, marketplaceId), {
+        method: 'PATCH',
+        body: JSON.stringify({ productType, patches }),
+      });
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: await this.readError(response),
+        };
+      }
+
+      return {
+        success: true,
+        submission: await response.json(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  // Delete listing
+  async deleteListing(
+    sku: string,
+    marketplaceId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const response = await this.request(this.listingPath(sku, marketplaceId), {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: await this.readError(response),
+        };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  // Get listing with summaries, attributes and issues
+  async getListing(sku: string, marketplaceId: string): Promise<unknown> {
+    const response = await this.request(
+      this.listingPath(sku, marketplaceId, '&includedData=summaries,attributes,issues,offers')
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to get listing: ${response.status}`);
+    }
+
+    return response.json();
+  }
+}
@@ -0,0 +1,462 @@
+// Amazon Adapter
+// Implements PlatformAdapter interface for Amazon SP-API Listings Items
+
+import { BasePlatformAdapter } from '../base';
+import {
+  AmazonApiClient,
+  type AmazonListingIssue,
+  type AmazonListingPayload,
+} from './api-client';
+import {
+  formatSchemaErrors,
+  getProductTypeSchema,
+  validateAgainstSchema,
+  type JsonSchema,
+  type SchemaError,
+} from './schema-validator';
+import type {
+  FetchLike,
+  Platform,
+  PlatformConfig,
+  PlatformContext,
+  PlatformAttribute,
+  PublishOptions,
+  PublishResult,
+} from '@/types/adapters';
+import { pickImageUrl } from '@/types/image-variants';
+import type { UnifiedProduct, ProductDimensions } from '@/types/unified-product';
+
+// European marketplaces served by the EU SP-API endpoint
+const MARKETPLACES: Record<string, { code: string; languageTag: string; currency: string }> = {
+  A1PA6795UKMFR9: { code: 'DE', languageTag: 'de_DE', currency: 'EUR' },
+  A1C3SOZRARQ6R3: { code: 'PL', languageTag: 'pl_PL', currency: 'PLN' },
+  A13V1IB3VIYZZH: { code: 'FR', languageTag: 'fr_FR', currency: 'EUR' },
+  APJ6JRA9NG5V4: { code: 'IT', languageTag: 'it_IT', currency: 'EUR' },
+  A1RKKUPIHCS9HS: { code: 'ES', languageTag: 'es_ES', currency: 'EUR' },
+  A1805IZSGTT6HS: { code: 'NL', languageTag: 'nl_NL', currency: 'EUR' },
+  A2NODRKZP88ZB9: { code: 'SE', languageTag: 'sv_SE', currency: 'SEK' },
+  A1F83G8C2ARO7P: { code: 'UK', languageTag: 'en_GB', currency: 'GBP' },
+};
+
+const DEFAULT_MARKETPLACE_ID = 'A1PA6795UKMFR9';
+const DEFAULT_PRODUCT_TYPE = 'PRODUCT';
+
+// Amazon allows one main and eight additional images
+const MAX_OTHER_IMAGES = 8;
+
+const CONDITION_TYPES: Record<UnifiedProduct['condition'], string> = {
+  new: 'new_new',
+  used: 'used_good',
+  refurbished: 'refurbished_refurbished',
+};
+
+const DIMENSION_UNITS: Record<ProductDimensions['unit'], string> = {
+  cm: 'centimeters',
+  mm: 'millimeters',
+  in: 'inches',
+};
+
+// Attribute names (lowercase) recognized for Amazon text attributes
+const ATTRIBUTE_ALIASES: Record<string, string[]> = {
+  color: ['color', 'colour', 'kolor', 'farbe'],
+  material: ['material', 'materiał', 'materiał wykonania', 'werkstoff'],
+};
+
+export class AmazonAdapter extends BasePlatformAdapter {
+  readonly platform: Platform = 'amazon';
+  readonly displayName = 'Amazon';
+
+  private client: AmazonApiClient;
+  private marketplaceId: string;
+
+  constructor(config: PlatformConfig, fetchImpl?: FetchLike) {
+    super(config, fetchImpl);
+
+    // apiKey holds "client_id:client_secret:refresh_token" unless the LWA app is in settings
+    const [keyClientId, keyClientSecret, keyRefreshToken] = config.apiKey.split(':');
+    const settings = config.settings || {};
+
+    this.marketplaceId = (settings.marketplaceId as string) || DEFAULT_MARKETPLACE_ID;
+
+    this.client = new AmazonApiClient({
+      clientId: (settings.lwaClientId as string) || keyClientId,
+      clientSecret: (settings.lwaClientSecret as string) || keyClientSecret || '',
+      refreshToken: keyRefreshToken || (settings.lwaClientId ? config.apiKey : ''),
+      sellerId: (settings.sellerId as string) || '',
+      apiUrl: config.apiUrl,
+      tokenUrl: settings.lwaTokenUrl as string | undefined,
+      fetch: this.fetchImpl,
+    });
+  }
+
+  async testConnection(): Promise<{ success: boolean; error?: string }> {
+    if (!this.config.settings?.sellerId) {
+      return { success: false, error: 'Amazon sellerId is not configured' };
+    }
+    return this.client.testConnection();
+  }
+
+  async getContext(): Promise<PlatformContext> {
+    const marketplace = this.getMarketplace();
+
+    // Product types play the role of categories
+    const productTypes = await this.client.searchProductTypes(this.marketplaceId);
+    const categories = productTypes.map(type => ({
+      id: type.name,
+      name: type.displayName || type.name,
+      level: 1,
+    }));
+
+    // Attributes come from the vendored schema of the configured product type
+    const productType = (this.config.settings?.productType as string) || DEFAULT_PRODUCT_TYPE;
+    const schema = getProductTypeSchema(productType);
+    const attributes: PlatformAttribute[] = schema
+      ? Object.entries(schema.properties || {}).map(([name, property]) =>
+          this.toPlatformAttribute(name, property, schema.required || [], productType)
+        )
+      : [];
+
+    return {
+      categories,
+      attributes,
+      languages: [{ id: marketplace.languageTag, name: marketplace.code, isoCode: marketplace.languageTag.slice(0, 2) }],
+      currencies: [{ id: marketplace.currency, name: marketplace.currency, isoCode: marketplace.currency }],
+    };
+  }
+
+  async transformProduct(
+    product: UnifiedProduct,
+    options: PublishOptions = {}
+  ): Promise<AmazonListingPayload> {
+    return this.buildListingPayload(product, options);
+  }
+
+  async publishProduct(
+    product: UnifiedProduct,
+    options: PublishOptions = {}
+  ): Promise<PublishResult> {
+    try {
+      // Amazon identifies listings by seller SKU
+      const sku = product.identifiers?.sku;
+      if (!sku) {
+        return { success: false, error: 'sku: is required for Amazon listings' };
+      }
+
+      return this.submitListing(sku, product, options);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  async updateProduct(
+    externalId: string,
+    product: UnifiedProduct,
+    options: PublishOptions = {}
+  ): Promise<PublishResult> {
+    try {
+      // putListingsItem replaces the whole listing, so update == publish under the same SKU
+      return this.submitListing(externalId, product, options);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  async deleteProduct(
+    externalId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    return this.client.deleteListing(externalId, this.marketplaceId);
+  }
+
+  async getProduct(externalId: string): Promise<unknown> {
+    return this.client.getListing(externalId, this.marketplaceId);
+  }
+
+  async uploadImage(
+    productId: string,
+    imageUrl: string,
+    position?: number
+  ): Promise<{ success: boolean; imageId?: string; error?: string }> {
+    try {
+      // Position 0 is the main image, 1-8 the additional slots
+      let slot = position;
+      if (slot === undefined) {
+        const listing = await this.client.getListing(productId, this.marketplaceId) as {
+          attributes?: Record<string, unknown>;
+        };
+        const used = Object.keys(listing.attributes || {});
+        slot = 1;
+        while (slot <= MAX_OTHER_IMAGES && used.includes(`other_product_image_locator_${slot}`)) {
+          slot++;
+        }
+      }
+
+      if (slot > MAX_OTHER_IMAGES) {
+        return { success: false, error: `Amazon allows at most ${MAX_OTHER_IMAGES + 1} images` };
+      }
+
+      const attribute = slot === 0 ? 'main_product_image_locator' : `other_product_image_locator_${slot}`;
+      const result = await this.client.patchListing(
+        productId,
+        this.marketplaceId,
+        (this.config.settings?.productType as string) || DEFAULT_PRODUCT_TYPE,
+        [{
+          op: 'replace',
+          path: `/attributes/${attribute}`,
+          value: [{ media_location: imageUrl, marketplace_id: this.marketplaceId }],
+        }]
+      );
+
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      const issues = this.formatIssues(result.submission?.issues);
+      if (result.submission?.status === 'INVALID' || issues) {
+        return { success: false, error: issues || 'Listing update rejected' };
+      }
+
+      return { success: true, imageId: attribute };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Validate a listing payload against the vendored product type schema.
+   * Runs fully offline - publish calls it before touching the network.
+   */
+  validateListing(payload: AmazonListingPayload): SchemaError[] {
+    const schema = getProductTypeSchema(payload.productType);
+    if (!schema) {
+      return [{
+        path: 'productType',
+        message: `no vendored schema for product type ${payload.productType}`,
+      }];
+    }
+
+    const errors = validateAgainstSchema(payload.attributes, schema);
+
+    // Offer currency is fixed per marketplace
+    const marketplace = this.getMarketplace();
+    const offer = payload.attributes.purchasable_offer?.[0] as { currency?: string } | undefined;
+    if (offer?.currency && offer.currency !== marketplace.currency) {
+      errors.push({
+        path: 'purchasable_offer[0].currency',
+        message: `must be ${marketplace.currency} for marketplace ${marketplace.code}`,
+      });
+    }
+
+    return errors;
+  }
+
+  // Validate locally, then put the listing
+  private async submitListing(
+    sku: string,
+    product: UnifiedProduct,
+    options: PublishOptions
+  ): Promise<PublishResult> {
+    const payload = this.buildListingPayload(product, options);
+    const validationErrors = this.validateListing(payload);
+
+    if (validationErrors.length > 0) {
+      return {
+        success: false,
+        error: formatSchemaErrors(validationErrors),
+        response: { validationErrors },
+      };
+    }
+
+    const result = await this.client.putListing(sku, this.marketplaceId, payload);
+
+    if (!result.success || !result.submission) {
+      return {
+        success: false,
+        error: result.error || 'Failed to submit listing',
+      };
+    }
+
+    // Amazon accepts the submission but may still report attribute errors
+    const issues = this.formatIssues(result.submission.issues);
+    if (result.submission.status === 'INVALID' || issues) {
+      return {
+        success: false,
+        externalId: sku,
+        error: issues || 'Listing submission rejected',
+        response: result.submission,
+      };
+    }
+
+    return {
+      success: true,
+      externalId: sku,
+      response: result.submission,
+    };
+  }
+
+  // Build putListingsItem body from UnifiedProduct
+  private buildListingPayload(
+    product: UnifiedProduct,
+    options: PublishOptions = {}
+  ): AmazonListingPayload {
+    const marketplace = this.getMarketplace();
+    const marketplace_id = this.marketplaceId;
+    const language_tag = marketplace.languageTag;
+    const text = (value: string) => [{ value, language_tag, marketplace_id }];
+
+    const productType = (options.platformOptions?.productType as string)
+      || options.categoryId
+      || (this.config.settings?.productType as string)
+      || DEFAULT_PRODUCT_TYPE;
+
+    const attributes: AmazonListingPayload['attributes'] = {
+      item_name: text(product.name),
+      brand: text(product.brand || product.manufacturer || 'Generic'),
+      product_description: text(product.description.html || product.description.long),
+      bullet_point: this.buildBulletPoints(product).map(value => ({ value, language_tag, marketplace_id })),
+      condition_type: [{ value: CONDITION_TYPES[product.condition], marketplace_id }],
+      purchasable_offer: [{
+        currency: product.pricing.currency,
+        marketplace_id,
+        our_price: [{ schedule: [{ value_with_tax: product.pricing.gross }] }],
+      }],
+      fulfillment_availability: [{
+        fulfillment_channel_code: 'DEFAULT',
+        quantity: product.stock.availability === 'out_of_stock' ? 0 : product.stock.quantity,
+      }],
+    };
+
+    if (product.manufacturer) {
+      attributes.manufacturer = text(product.manufacturer);
+    }
+
+    if (product.seo.keywords.length > 0) {
+      attributes.generic_keyword = text(product.seo.keywords.join(' '));
+    }
+
+    // Products without EAN must declare the GTIN exemption
+    if (product.identifiers?.ean) {
+      attributes.externally_assigned_product_identifier = [
+        { type: 'ean', value: product.identifiers.ean, marketplace_id },
+      ];
+    } else {
+      attributes.supplier_declared_has_product_identifier_exemption = [
+        { value: true, marketplace_id },
+      ];
+    }
+
+    for (const [attribute, aliases] of Object.entries(ATTRIBUTE_ALIASES)) {
+      const value = this.findAttribute(product, aliases);
+      if (value) attributes[attribute] = text(value);
+    }
+
+    // Images: first is main (square white-padded variant if generated), the rest fill the numbered slots
+    const images = [...product.images].sort((a, b) => a.position - b.position);
+    if (images[0]) {
+      attributes.main_product_image_locator = [{ media_location: pickImageUrl(images[0], 'square'), marketplace_id }];
+    }
+    images.slice(1, MAX_OTHER_IMAGES + 1).forEach((image, index) => {
+      attributes[`other_product_image_locator_${index + 1}`] = [
+        { media_location: image.url, marketplace_id },
+      ];
+    });
+
+    if (product.weight !== undefined) {
+      attributes.item_weight = [{ unit: 'kilograms', value: product.weight, marketplace_id }];
+    }
+
+    if (product.dimensions) {
+      const unit = DIMENSION_UNITS[product.dimensions.unit];
+      attributes.item_length_width_height = [{
+        length: { unit, value: product.dimensions.depth },
+        width: { unit, value: product.dimensions.width },
+        height: { unit, value: product.dimensions.height },
+        marketplace_id,
+      }];
+    }
+
+    // Explicit mapping (Amazon attribute name -> value) overrides generated text attributes
+    for (const [attribute, value] of Object.entries(options.attributeMapping || {})) {
+      attributes[attribute] = text(value);
+    }
+
+    return {
+      productType,
+      requirements: 'LISTING',
+      attributes,
+    };
+  }
+
+  // Short description first, then "Name: value" attribute lines (max 5)
+  private buildBulletPoints(product: UnifiedProduct): string[] {
+    const bullets = [product.description.short];
+    for (const [name, value] of Object.entries(product.attributes)) {
+      bullets.push(`${name}: ${value}`);
+    }
+    return bullets.filter(Boolean).slice(0, 5);
+  }
+
+  private findAttribute(product: UnifiedProduct, aliases: string[]): string | undefined {
+    const entry = Object.entries(product.attributes).find(
+      ([name]) => aliases.includes(name.toLowerCase())
+    );
+    return entry?.[1];
+  }
+
+  private getMarketplace(): (typeof MARKETPLACES)[string] {
+    const marketplace = MARKETPLACES[this.marketplaceId];
+    if (!marketplace) {
+      throw new Error(`Unsupported Amazon marketplace: ${this.marketplaceId}`);
+    }
+    return marketplace;
+  }
+
+  // Errors reported by Amazon in "attribute: message" form; warnings are ignored
+  private formatIssues(issues: AmazonListingIssue[] = []): string | undefined {
+    const errors = issues.filter(issue => issue.severity === 'ERROR');
+    if (errors.length === 0) return undefined;
+
+    return errors
+      .map(issue => `${issue.attributeNames?.join(', ') || issue.code}: ${issue.message}`)
+      .join('; ');
+  }
+
+  // Map schema property to PlatformAttribute
+  private toPlatformAttribute(
+    name: string,
+    property: JsonSchema,
+    required: string[],
+    productType: string
+  ): PlatformAttribute {
+    const valueSchema = property.items?.properties?.value;
+    const values = valueSchema?.enum?.map(String);
+
+    let type: PlatformAttribute['type'] = 'text';
+    if (values) type = 'select';
+    else if (valueSchema?.type === 'boolean') type = 'boolean';
+    else if (valueSchema?.type === 'number' || valueSchema?.type === 'integer') type = 'number';
+
+    return {
+      id: name,
+      name,
+      type,
+      values,
+      required: required.includes(name),
+      groupId: productType,
+      groupName: productType,
+    };
+  }
+}
+
+// Export factory function
+export function createAmazonAdapter(config: PlatformConfig, fetchImpl?: FetchLike): AmazonAdapter {
+  return new AmazonAdapter(config, fetchImpl);
+}
@@ -0,0 +1,143 @@
+// Product Type Schema Validator
+// Validates Listings Items attributes against a vendored Amazon product type schema
+// Supports the JSON Schema subset used by the vendored definitions only
+
+import productSchema from './schemas/PRODUCT.json';
+
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  enum?: Array<string | number | boolean>;
+  minimum?: number;
+  maximum?: number;
+  title?: string;
+  description?: string;
+}
+
+export interface SchemaError {
+  // Attribute path like "item_name[0].value"
+  path: string;
+  message: string;
+}
+
+// Vendored product type definitions (see schemas/)
+export const PRODUCT_TYPE_SCHEMAS: Record<string, JsonSchema> = {
+  PRODUCT: productSchema as JsonSchema,
+};
+
+export function getProductTypeSchema(productType: string): JsonSchema | undefined {
+  return PRODUCT_TYPE_SCHEMAS[productType];
+}
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === 'number') return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+function typeOf(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  const actual = typeOf(value);
+  if (type === 'number') return actual === 'number' || actual === 'integer';
+  return actual === type;
+}
+
+// Validate a value against a schema, collecting every error
+export function validateAgainstSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: string = ''
+): SchemaError[] {
+  const errors: SchemaError[] = [];
+  const at = path || '(root)';
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    errors.push({ path: at, message: `must be ${schema.type}` });
+    return errors;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+    errors.push({ path: at, message: `must be one of: ${schema.enum.join(', ')}` });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({
+        path: at,
+        message: schema.minLength === 1
+          ? 'must not be empty'
+          : `must be at least ${schema.minLength} characters`,
+      });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ path: at, message: `must be at most ${schema.maxLength} characters (got ${value.length})` });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push({ path: at, message: `must match pattern ${schema.pattern}` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path: at, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path: at, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ path: at, message: `must have at least ${schema.minItems} item(s)` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({ path: at, message: `must have at most ${schema.maxItems} item(s) (got ${value.length})` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateAgainstSchema(item, schema.items!, joinPath(path, index)));
+      });
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) {
+        errors.push({ path: joinPath(path, key), message: 'is required' });
+      }
+    }
+
+    for (const [key, child] of Object.entries(record)) {
+      if (child === undefined) continue;
+
+      const childSchema = schema.properties?.[key];
+      if (childSchema) {
+        errors.push(...validateAgainstSchema(child, childSchema, joinPath(path, key)));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: joinPath(path, key), message: 'is not allowed by the product type' });
+      }
+    }
+  }
+
+  return errors;
+}
+
+// Format errors for PublishResult.error ("path: message; path: message")
+export function formatSchemaErrors(errors: SchemaError[]): string {
+  return errors.map(e => `${e.path}: ${e.message}`).join('; ');
+}
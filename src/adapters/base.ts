@@ -2,6 +2,7 @@
 // Abstract class that all platform adapters must extend
 
 import type {
+  FetchLike,
   Platform,
   PlatformAdapter,
   PlatformConfig,
@@ -16,9 +17,11 @@ export abstract class BasePlatformAdapter implements PlatformAdapter {
   abstract readonly displayName: string;
 
   protected config: PlatformConfig;
+  protected fetchImpl: FetchLike;
 
-  constructor(config: PlatformConfig) {
+  constructor(config: PlatformConfig, fetchImpl?: FetchLike) {
     this.config = config;
+    this.fetchImpl = fetchImpl || ((url, init) => fetch(url, init));
   }
 
   abstract testConnection(): Promise<{ success: boolean; error?: string }>;
@@ -63,7 +66,7 @@ export abstract class BasePlatformAdapter implements PlatformAdapter {
     const timeout = setTimeout(() => controller.abort(), timeoutMs);
 
     try {
-      const response = await fetch(url, {
+      const response = await this.fetchImpl(url, {
         ...options,
         signal: controller.signal,
       });
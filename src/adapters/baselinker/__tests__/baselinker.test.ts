@@ -0,0 +1,232 @@
+import { describe, it, expect } from 'vitest';
+import { BaseLinkerAdapter } from '../index';
+import type { BaseLinkerInventory } from '../api-client';
+import type { FetchLike, PlatformConfig } from '@/types/adapters';
+import type { UnifiedProduct } from '@/types/unified-product';
+
+const product: UnifiedProduct = {
+  name: 'Sony WH-1000XM5 sluchawki bezprzewodowe z ANC czarne',
+  description: {
+    short: 'Sluchawki z aktywna redukcja szumow',
+    long: 'Bezprzewodowe sluchawki nauszne z ANC',
+    html: '<p>Bezprzewodowe sluchawki nauszne z ANC</p>',
+  },
+  seo: { title: 'Sony WH-1000XM5', description: 'Sluchawki Sony z ANC', keywords: ['sony'] },
+  pricing: { gross: 1299, net: 1056.1, currency: 'PLN', vatRate: 23 },
+  attributes: { Kolor: 'czarny' },
+  categories: [],
+  images: [
+    { url: 'https://cdn.test/wh1000xm5-side.jpg', position: 1 },
+    { url: 'https://cdn.test/wh1000xm5.jpg', position: 0 },
+  ],
+  identifiers: { sku: 'WH1000XM5-B', ean: '4548736132610' },
+  stock: { quantity: 5, availability: 'in_stock' },
+  condition: 'new',
+  brand: 'Sony',
+  tags: [],
+  metadata: {},
+};
+
+const inventories: BaseLinkerInventory[] = [
+  {
+    inventory_id: 301,
+    name: 'Hurtownia',
+    languages: ['pl'],
+    default_language: 'pl',
+    price_groups: [10],
+    default_price_group: 10,
+    warehouses: ['bl_1'],
+    default_warehouse: 'bl_1',
+  },
+  {
+    inventory_id: 302,
+    name: 'Sklep glowny',
+    languages: ['pl', 'en'],
+    default_language: 'pl',
+    price_groups: [10, 11],
+    default_price_group: 10,
+    warehouses: ['bl_1', 'bl_2', 'shop_77'],
+    default_warehouse: 'bl_2',
+    is_default: true,
+  },
+];
+
+type Handler = (parameters: Record<string, unknown>) => Record<string, unknown>;
+type StubFetch = FetchLike & { calls: Array<{ method: string; parameters: Record<string, unknown> }> };
+
+// Answers connector.php calls by API method; unknown methods get a BaseLinker error
+function createStubFetch(handlers: Record<string, Handler>): StubFetch {
+  const calls: StubFetch['calls'] = [];
+
+  const stub = (async (_url: string, init?: RequestInit) => {
+    const form = new URLSearchParams(String(init?.body));
+    const method = form.get('method') || '';
+    const parameters = JSON.parse(form.get('parameters') || '{}');
+    calls.push({ method, parameters });
+
+    const handler = method === 'getInventories'
+      ? () => ({ inventories })
+      : handlers[method];
+    if (!handler) {
+      return Response.json({ status: 'ERROR', error_code: 'ERROR_UNKNOWN_METHOD', error_message: 'Unknown method' });
+    }
+    return Response.json({ status: 'SUCCESS', ...handler(parameters) });
+  }) as StubFetch;
+
+  stub.calls = calls;
+  return stub;
+}
+
+function createAdapter(fetchImpl: FetchLike, settings: PlatformConfig['settings'] = {}): BaseLinkerAdapter {
+  return new BaseLinkerAdapter({
+    platform: 'baselinker',
+    apiUrl: 'https://api.baselinker.com',
+    apiKey: 'bl-token',
+    settings,
+  }, fetchImpl);
+}
+
+describe('BaseLinkerAdapter (stubbed connector)', () => {
+  it('maps stock to the warehouse key, identifiers and ordered images on publish', async () => {
+    const fetch = createStubFetch({
+      addInventoryProduct: () => ({ product_id: 9001 }),
+    });
+    const adapter = createAdapter(fetch);
+
+    const result = await adapter.publishProduct(product, { warehouseId: '1', categoryId: '55' });
+
+    expect(result).toMatchObject({ success: true, externalId: '9001' });
+    expect(fetch.calls.map(call => call.method)).toEqual(['getInventories', 'addInventoryProduct']);
+    expect(fetch.calls[1].parameters).toEqual({
+      inventory_id: '302',
+      ean: '4548736132610',
+      sku: 'WH1000XM5-B',
+      tax_rate: 23,
+      category_id: 55,
+      prices: { '10': 1299 },
+      stock: { bl_1: 5 },
+      text_fields: {
+        name: product.name,
+        description: '<p>Bezprzewodowe sluchawki nauszne z ANC</p>',
+        description_extra1: 'Sluchawki z aktywna redukcja szumow',
+        features: { Kolor: 'czarny', Marka: 'Sony' },
+      },
+      images: {
+        '0': 'url:https://cdn.test/wh1000xm5.jpg',
+        '1': 'url:https://cdn.test/wh1000xm5-side.jpg',
+      },
+    });
+  });
+
+  it('updates by product_id into the default warehouse, with zero stock when sold out', async () => {
+    const fetch = createStubFetch({
+      addInventoryProduct: parameters => ({ product_id: Number(parameters.product_id) }),
+    });
+    const adapter = createAdapter(fetch);
+
+    const result = await adapter.updateProduct('9001', {
+      ...product,
+      stock: { quantity: 5, availability: 'out_of_stock' },
+    }, { languageId: 'en' });
+
+    expect(result).toMatchObject({ success: true, externalId: '9001' });
+    expect(fetch.calls[1].parameters).toMatchObject({
+      product_id: '9001',
+      stock: { bl_2: 0 },
+      text_fields: { 'name|en': product.name },
+    });
+  });
+
+  it('rejects a warehouse that is not assigned to the inventory', async () => {
+    const fetch = createStubFetch({});
+    const adapter = createAdapter(fetch, { inventoryId: '301' });
+
+    const result = await adapter.publishProduct(product, { warehouseId: 'shop_77' });
+
+    expect(result).toEqual({
+      success: false,
+      error: 'Warehouse shop_77 is not assigned to inventory Hurtownia',
+    });
+    expect(fetch.calls.map(call => call.method)).toEqual(['getInventories']);
+  });
+
+  it('limits the context to the warehouses and price groups of the selected inventory', async () => {
+    const fetch = createStubFetch({
+      getInventoryCategories: () => ({
+        categories: [
+          { category_id: 50, name: 'Elektronika', parent_id: 0 },
+          { category_id: 55, name: 'Sluchawki', parent_id: 50 },
+        ],
+      }),
+      getInventoryWarehouses: () => ({
+        warehouses: [
+          { warehouse_type: 'bl', warehouse_id: 1, name: 'Magazyn glowny' },
+          { warehouse_type: 'bl', warehouse_id: 2, name: 'Magazyn zwrotow' },
+          { warehouse_type: 'bl', warehouse_id: 3, name: 'Magazyn obcy' },
+          { warehouse_type: 'shop', warehouse_id: 77, name: 'Sklep' },
+        ],
+      }),
+      getInventoryPriceGroups: () => ({
+        price_groups: [
+          { price_group_id: 10, name: 'Detal', currency: 'PLN' },
+          { price_group_id: 11, name: 'Export', currency: 'EUR' },
+          { price_group_id: 12, name: 'Hurt', currency: 'PLN' },
+        ],
+      }),
+    });
+    const adapter = createAdapter(fetch);
+
+    const context = await adapter.getContext();
+
+    expect(fetch.calls[1].parameters).toEqual({ inventory_id: 302 });
+    expect(context.categories.map(c => c.path)).toEqual(['Elektronika', 'Elektronika > Sluchawki']);
+    expect(context.inventories).toEqual([
+      { id: '301', name: 'Hurtownia', isDefault: false },
+      { id: '302', name: 'Sklep glowny', isDefault: true },
+    ]);
+    expect(context.warehouses).toEqual([
+      { id: 'bl_1', name: 'Magazyn glowny', isDefault: false },
+      { id: 'bl_2', name: 'Magazyn zwrotow', isDefault: true },
+      { id: 'shop_77', name: 'Sklep', isDefault: false },
+    ]);
+    expect(context.currencies).toEqual([
+      { id: '10', name: 'Detal', isoCode: 'PLN' },
+      { id: '11', name: 'Export', isoCode: 'EUR' },
+    ]);
+    expect(context.languages?.map(l => l.id)).toEqual(['pl', 'en']);
+  });
+
+  it('appends an uploaded image after the existing ones and respects the slot limit', async () => {
+    const images = (count: number) => Object.fromEntries(
+      Array.from({ length: count }, (_, index) => [String(index), `https://cdn.test/${index}.jpg`])
+    );
+    let existing = 2;
+    const fetch = createStubFetch({
+      getInventoryProductsData: () => ({ products: { '9001': { images: images(existing) } } }),
+      addInventoryProduct: () => ({ product_id: 9001 }),
+    });
+    const adapter = createAdapter(fetch);
+
+    expect(await adapter.uploadImage('9001', 'https://cdn.test/case.jpg')).toEqual({
+      success: true,
+      imageId: '2',
+      error: undefined,
+    });
+    expect(fetch.calls.find(call => call.method === 'addInventoryProduct')?.parameters).toEqual({
+      inventory_id: '302',
+      product_id: '9001',
+      images: { '2': 'url:https://cdn.test/case.jpg' },
+    });
+
+    // An explicit slot skips the lookup
+    fetch.calls.length = 0;
+    expect(await adapter.uploadImage('9001', 'https://cdn.test/main.jpg', 0)).toMatchObject({ success: true, imageId: '0' });
+    expect(fetch.calls.map(call => call.method)).toEqual(['addInventoryProduct']);
+
+    existing = 16;
+    expect(await adapter.uploadImage('9001', 'https://cdn.test/extra.jpg')).toEqual({
+      success: false,
+      error: 'BaseLinker allows at most 16 images',
+    });
+  });
+});
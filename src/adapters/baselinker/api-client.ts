@@ -0,0 +1,222 @@
+// BaseLinker API Client
+// Handles communication with BaseLinker connector.php (inventory/catalog methods)
+
+import type { FetchLike } from '@/types/adapters';
+
+const BASELINKER_API_URL = 'https://api.baselinker.com/connector.php';
+
+export interface BaseLinkerApiConfig {
+  token: string;
+  apiUrl?: string;
+  fetch?: FetchLike;
+  timeoutMs?: number;
+}
+
+export interface BaseLinkerInventory {
+  inventory_id: number;
+  name: string;
+  description?: string;
+  languages: string[];
+  default_language: string;
+  price_groups: number[];
+  default_price_group: number;
+  warehouses: string[];
+  default_warehouse: string;
+  reservations?: boolean;
+  is_default?: boolean;
+}
+
+export interface BaseLinkerCategory {
+  category_id: number;
+  name: string;
+  parent_id: number;
+}
+
+export interface BaseLinkerWarehouse {
+  warehouse_type: 'bl' | 'shop' | 'warehouse';
+  warehouse_id: number;
+  name: string;
+  description?: string;
+  stock_edition?: boolean;
+  is_default?: boolean;
+}
+
+export interface BaseLinkerPriceGroup {
+  price_group_id: number;
+  name: string;
+  currency: string;
+  is_default?: boolean;
+}
+
+// Parameters of addInventoryProduct (product_id set = update)
+export interface BaseLinkerProduct {
+  inventory_id: string;
+  product_id?: string;
+  parent_id?: string;
+  is_bundle?: boolean;
+  ean?: string;
+  sku?: string;
+  tax_rate?: number;
+  weight?: number;
+  height?: number;
+  width?: number;
+  length?: number;
+  category_id?: number;
+  manufacturer_id?: number;
+  prices?: Record<string, number>;
+  stock?: Record<string, number>;
+  text_fields?: Record<string, string | Record<string, string>>;
+  // Position ("0".."15") -> "url:https://..." or "data:base64"
+  images?: Record<string, string>;
+}
+
+export class BaseLinkerApiClient {
+  private config: BaseLinkerApiConfig;
+  private fetchImpl: FetchLike;
+
+  constructor(config: BaseLinkerApiConfig) {
+    this.config = config;
+    this.fetchImpl = config.fetch || ((url, init) => fetch(url, init));
+  }
+
+  // Every call is a form POST of method + JSON parameters to a single endpoint
+  private async call<T>(
+    method: string,
+    parameters: Record<string, unknown> = {}
+  ): Promise<T> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.config.timeoutMs ?? 30000);
+
+    try {
+      const response = await this.fetchImpl(this.getEndpoint(), {
+        method: 'POST',
+        headers: {
+          'X-BLToken': this.config.token,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({
+          method,
+          parameters: JSON.stringify(parameters),
+        }).toString(),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+      }
+
+      const data = await response.json();
+
+      // BaseLinker answers 200 for application errors too
+      if (data.status !== 'SUCCESS') {
+        throw new Error(
+          `${method} failed: ${data.error_message || 'Unknown error'}${data.error_code ? ` (${data.error_code})` : ''}`
+        );
+      }
+
+      return data as T;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  // Accept both host-only URLs and the full connector.php URL
+  private getEndpoint(): string {
+    const url = (this.config.apiUrl || BASELINKER_API_URL).replace(/\/+$/, '');
+    return url.endsWith('.php') ? url : `${url}/connector.php`;
+  }
+
+  // Test connection
+  async testConnection(): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.call('getInventories');
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  // Get catalogs (inventories)
+  async getInventories(): Promise<BaseLinkerInventory[]> {
+    const data = await this.call<{ inventories: BaseLinkerInventory[] }>('getInventories');
+    return data.inventories || [];
+  }
+
+  // Get categories of an inventory
+  async getCategories(inventoryId: string): Promise<BaseLinkerCategory[]> {
+    const data = await this.call<{ categories: BaseLinkerCategory[] }>(
+      'getInventoryCategories',
+      { inventory_id: parseInt(inventoryId, 10) }
+    );
+    return data.categories || [];
+  }
+
+  // Get warehouses available for inventories
+  async getWarehouses(): Promise<BaseLinkerWarehouse[]> {
+    const data = await this.call<{ warehouses: BaseLinkerWarehouse[] }>('getInventoryWarehouses');
+    return data.warehouses || [];
+  }
+
+  // Get price groups
+  async getPriceGroups(): Promise<BaseLinkerPriceGroup[]> {
+    const data = await this.call<{ price_groups: BaseLinkerPriceGroup[] }>('getInventoryPriceGroups');
+    return data.price_groups || [];
+  }
+
+  // Add product, or update it when product_id is set
+  async addProduct(product: BaseLinkerProduct): Promise<{
+    success: boolean;
+    productId?: string;
+    warnings?: Record<string, string>;
+    error?: string;
+  }> {
+    try {
+      const data = await this.call<{ product_id: number; warnings?: Record<string, string> }>(
+        'addInventoryProduct',
+        product as unknown as Record<string, unknown>
+      );
+
+      return {
+        success: true,
+        productId: String(data.product_id),
+        warnings: data.warnings,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  // Get full product data
+  async getProductsData(
+    inventoryId: string,
+    productIds: string[]
+  ): Promise<Record<string, unknown>> {
+    const data = await this.call<{ products: Record<string, unknown> }>(
+      'getInventoryProductsData',
+      {
+        inventory_id: parseInt(inventoryId, 10),
+        products: productIds.map(id => parseInt(id, 10)),
+      }
+    );
+    return data.products || {};
+  }
+
+  // Delete product
+  async deleteProduct(productId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.call('deleteInventoryProduct', { product_id: parseInt(productId, 10) });
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+}
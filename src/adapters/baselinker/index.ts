@@ -0,0 +1,359 @@
+// BaseLinker Adapter
+// Implements PlatformAdapter interface for BaseLinker inventory (catalog) API
+
+import { BasePlatformAdapter } from '../base';
+import {
+  BaseLinkerApiClient,
+  type BaseLinkerCategory,
+  type BaseLinkerInventory,
+  type BaseLinkerProduct,
+} from './api-client';
+import type {
+  FetchLike,
+  Platform,
+  PlatformConfig,
+  PlatformContext,
+  PlatformCategory,
+  PublishOptions,
+  PublishResult,
+} from '@/types/adapters';
+import type { UnifiedProduct, ProductDimensions } from '@/types/unified-product';
+
+// BaseLinker accepts at most 16 images per product
+const MAX_IMAGES = 16;
+
+export class BaseLinkerAdapter extends BasePlatformAdapter {
+  readonly platform: Platform = 'baselinker';
+  readonly displayName = 'BaseLinker';
+
+  private client: BaseLinkerApiClient;
+  private inventories: BaseLinkerInventory[] | null = null;
+
+  constructor(config: PlatformConfig, fetchImpl?: FetchLike) {
+    super(config, fetchImpl);
+
+    // apiKey holds the X-BLToken from BaseLinker account settings
+    this.client = new BaseLinkerApiClient({
+      token: config.apiKey,
+      apiUrl: config.apiUrl,
+      fetch: this.fetchImpl,
+    });
+  }
+
+  async testConnection(): Promise<{ success: boolean; error?: string }> {
+    return this.client.testConnection();
+  }
+
+  async getContext(): Promise<PlatformContext> {
+    const inventories = await this.getInventories();
+    const inventory = await this.resolveInventory();
+
+    // Categories of the selected inventory
+    const rawCategories = await this.client.getCategories(String(inventory.inventory_id));
+    const categories: PlatformCategory[] = rawCategories.map(cat => {
+      const path = this.buildCategoryPath(cat, rawCategories);
+      return {
+        id: String(cat.category_id),
+        name: cat.name,
+        path,
+        parentId: cat.parent_id ? String(cat.parent_id) : undefined,
+        level: path.split(' > ').length,
+      };
+    });
+
+    // Warehouses are referenced by "<type>_<id>" keys (e.g. bl_123) in stock maps
+    const rawWarehouses = await this.client.getWarehouses();
+    const warehouses = rawWarehouses
+      .map(wh => ({
+        id: `${wh.warehouse_type}_${wh.warehouse_id}`,
+        name: wh.name,
+      }))
+      .filter(wh => inventory.warehouses.length === 0 || inventory.warehouses.includes(wh.id))
+      .map(wh => ({ ...wh, isDefault: wh.id === inventory.default_warehouse }));
+
+    // Price groups act as currencies
+    const priceGroups = await this.client.getPriceGroups();
+    const currencies = priceGroups
+      .filter(pg => inventory.price_groups.includes(pg.price_group_id))
+      .map(pg => ({
+        id: String(pg.price_group_id),
+        name: pg.name,
+        isoCode: pg.currency,
+      }));
+
+    return {
+      categories,
+      // BaseLinker features are free-form - no attribute dictionary
+      attributes: [],
+      languages: inventory.languages.map(code => ({ id: code, name: code, isoCode: code })),
+      currencies,
+      inventories: inventories.map(inv => ({
+        id: String(inv.inventory_id),
+        name: inv.name,
+        isDefault: inv.inventory_id === inventory.inventory_id,
+      })),
+      warehouses,
+    };
+  }
+
+  async transformProduct(
+    product: UnifiedProduct,
+    options: PublishOptions = {}
+  ): Promise<BaseLinkerProduct> {
+    return this.buildProductPayload(product, options);
+  }
+
+  async publishProduct(
+    product: UnifiedProduct,
+    options?: PublishOptions
+  ): Promise<PublishResult> {
+    try {
+      const payload = await this.buildProductPayload(product, options);
+      const result = await this.client.addProduct(payload);
+
+      if (!result.success || !result.productId) {
+        return {
+          success: false,
+          error: result.error || 'Failed to create product',
+        };
+      }
+
+      if (result.warnings && Object.keys(result.warnings).length > 0) {
+        console.warn('BaseLinker product saved with warnings:', result.warnings);
+      }
+
+      return {
+        success: true,
+        externalId: result.productId,
+        response: result,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  async updateProduct(
+    externalId: string,
+    product: UnifiedProduct,
+    options?: PublishOptions
+  ): Promise<PublishResult> {
+    try {
+      const payload = await this.buildProductPayload(product, options);
+      const result = await this.client.addProduct({ ...payload, product_id: externalId });
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error || 'Failed to update product',
+        };
+      }
+
+      return {
+        success: true,
+        externalId,
+        response: result,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  async deleteProduct(
+    externalId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    return this.client.deleteProduct(externalId);
+  }
+
+  async getProduct(externalId: string): Promise<unknown> {
+    const inventory = await this.resolveInventory();
+    const products = await this.client.getProductsData(String(inventory.inventory_id), [externalId]);
+    return products[externalId] ?? null;
+  }
+
+  async uploadImage(
+    productId: string,
+    imageUrl: string,
+    position?: number
+  ): Promise<{ success: boolean; imageId?: string; error?: string }> {
+    try {
+      const inventoryId = String((await this.resolveInventory()).inventory_id);
+
+      // Append after existing images unless a slot is given
+      let slot = position;
+      if (slot === undefined) {
+        const products = await this.client.getProductsData(inventoryId, [productId]);
+        const existing = products[productId] as { images?: Record<string, string> } | undefined;
+        slot = Object.keys(existing?.images || {}).length;
+      }
+
+      if (slot >= MAX_IMAGES) {
+        return { success: false, error: `BaseLinker allows at most ${MAX_IMAGES} images` };
+      }
+
+      const result = await this.client.addProduct({
+        inventory_id: inventoryId,
+        product_id: productId,
+        images: { [String(slot)]: `url:${imageUrl}` },
+      });
+
+      return {
+        success: result.success,
+        imageId: result.success ? String(slot) : undefined,
+        error: result.error,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  // Build addInventoryProduct parameters from UnifiedProduct
+  private async buildProductPayload(
+    product: UnifiedProduct,
+    options: PublishOptions = {}
+  ): Promise<BaseLinkerProduct> {
+    const inventory = await this.resolveInventory(options.inventoryId);
+    const warehouseKey = this.resolveWarehouseKey(inventory, options.warehouseId);
+    const priceGroupId = options.currencyId
+      || (this.config.settings?.priceGroupId as string | undefined)
+      || String(inventory.default_price_group);
+
+    // Text fields for a non-default language are suffixed with "|<lang>"
+    const language = options.languageId;
+    const suffix = language && language !== inventory.default_language ? `|${language}` : '';
+
+    const features: Record<string, string> = { ...product.attributes };
+    if (product.brand && !features.Marka) {
+      features.Marka = product.brand;
+    }
+
+    const images: Record<string, string> = {};
+    [...product.images]
+      .sort((a, b) => a.position - b.position)
+      .slice(0, MAX_IMAGES)
+      .forEach((image, index) => {
+        images[String(index)] = `url:${image.url}`;
+      });
+
+    const categoryId = options.categoryId
+      || options.categoryIds?.[0]
+      || (this.config.settings?.defaultCategoryId as string | undefined);
+
+    const payload: BaseLinkerProduct = {
+      inventory_id: String(inventory.inventory_id),
+      ean: product.identifiers?.ean || undefined,
+      sku: product.identifiers?.sku || undefined,
+      tax_rate: product.pricing.vatRate,
+      weight: product.weight,
+      category_id: categoryId ? parseInt(categoryId, 10) : undefined,
+      // Inventory prices are gross
+      prices: { [priceGroupId]: product.pricing.gross },
+      stock: {
+        [warehouseKey]: product.stock.availability === 'out_of_stock' ? 0 : product.stock.quantity,
+      },
+      text_fields: {
+        [`name${suffix}`]: product.name,
+        [`description${suffix}`]: product.description.html || product.description.long,
+        [`description_extra1${suffix}`]: product.description.short,
+        [`features${suffix}`]: features,
+      },
+      images,
+    };
+
+    if (product.dimensions) {
+      Object.assign(payload, this.mapDimensions(product.dimensions));
+    }
+
+    return payload;
+  }
+
+  // Fetch (cached) inventories
+  private async getInventories(): Promise<BaseLinkerInventory[]> {
+    if (!this.inventories) {
+      this.inventories = await this.client.getInventories();
+    }
+    return this.inventories;
+  }
+
+  // Inventory from options, settings, or the account default
+  private async resolveInventory(inventoryId?: string): Promise<BaseLinkerInventory> {
+    const inventories = await this.getInventories();
+    const wantedId = inventoryId || (this.config.settings?.inventoryId as string | undefined);
+
+    const inventory = wantedId
+      ? inventories.find(inv => String(inv.inventory_id) === String(wantedId))
+      : inventories.find(inv => inv.is_default) || inventories[0];
+
+    if (!inventory) {
+      throw new Error(
+        wantedId
+          ? `BaseLinker inventory ${wantedId} not found`
+          : 'No BaseLinker inventory available'
+      );
+    }
+
+    return inventory;
+  }
+
+  // Stock key for the target warehouse ("bl_<id>"); bare numeric IDs are BaseLinker warehouses
+  private resolveWarehouseKey(inventory: BaseLinkerInventory, warehouseId?: string): string {
+    const wanted = warehouseId || (this.config.settings?.warehouseId as string | undefined);
+
+    if (!wanted) {
+      return inventory.default_warehouse;
+    }
+
+    const key = /^\d+$/.test(wanted) ? `bl_${wanted}` : wanted;
+
+    if (inventory.warehouses.length > 0 && !inventory.warehouses.includes(key)) {
+      throw new Error(`Warehouse ${key} is not assigned to inventory ${inventory.name}`);
+    }
+
+    return key;
+  }
+
+  // BaseLinker stores dimensions in cm
+  private mapDimensions(dimensions: ProductDimensions): Pick<BaseLinkerProduct, 'width' | 'height' | 'length'> {
+    const factor = dimensions.unit === 'mm' ? 0.1 : dimensions.unit === 'in' ? 2.54 : 1;
+    const toCm = (value: number) => Math.round(value * factor * 100) / 100;
+
+    return {
+      width: toCm(dimensions.width),
+      height: toCm(dimensions.height),
+      length: toCm(dimensions.depth),
+    };
+  }
+
+  // Build "Parent > Child" path for a category
+  private buildCategoryPath(
+    category: BaseLinkerCategory,
+    all: BaseLinkerCategory[]
+  ): string {
+    const names: string[] = [category.name];
+    let parentId = category.parent_id;
+    const seen = new Set<number>([category.category_id]);
+
+    while (parentId && !seen.has(parentId)) {
+      const parent = all.find(cat => cat.category_id === parentId);
+      if (!parent) break;
+      names.unshift(parent.name);
+      seen.add(parent.category_id);
+      parentId = parent.parent_id;
+    }
+
+    return names.join(' > ');
+  }
+}
+
+// Export factory function
+export function createBaseLinkerAdapter(config: PlatformConfig, fetchImpl?: FetchLike): BaseLinkerAdapter {
+  return new BaseLinkerAdapter(config, fetchImpl);
+}
@@ -1,17 +1,29 @@
 // Platform Adapters Index
 // Export all adapters and provide a registry
 
-import type { Platform, PlatformConfig, PlatformAdapter, AdapterFactory } from '@/types/adapters';
+import type { Platform, PlatformConfig, PlatformAdapter, AdapterFactory, FetchLike } from '@/types/adapters';
 import { PrestaShopAdapter, createPrestaShopAdapter } from './prestashop';
+import { WooCommerceAdapter, createWooCommerceAdapter } from './woocommerce';
+import { AllegroAdapter, createAllegroAdapter } from './allegro';
+import { BaseLinkerAdapter, createBaseLinkerAdapter } from './baselinker';
+import { AmazonAdapter, createAmazonAdapter } from './amazon';
 
 export { BasePlatformAdapter } from './base';
 export { PrestaShopAdapter, createPrestaShopAdapter };
+export { WooCommerceAdapter, createWooCommerceAdapter };
+export { AllegroAdapter, createAllegroAdapter };
+export { BaseLinkerAdapter, createBaseLinkerAdapter };
+export { AmazonAdapter, createAmazonAdapter };
 
 // Adapter registry
 const adapterFactories: Map<Platform, AdapterFactory> = new Map();
 
 // Register default adapters
 adapterFactories.set('prestashop', createPrestaShopAdapter);
+adapterFactories.set('woocommerce', createWooCommerceAdapter);
+adapterFactories.set('allegro', createAllegroAdapter);
+adapterFactories.set('baselinker', createBaseLinkerAdapter);
+adapterFactories.set('amazon', createAmazonAdapter);
 
 /**
  * Register a new adapter factory
@@ -23,14 +35,14 @@ export function registerAdapter(platform: Platform, factory: AdapterFactory): vo
 /**
  * Create an adapter instance
  */
-export function createAdapter(config: PlatformConfig): PlatformAdapter {
+export function createAdapter(config: PlatformConfig, fetchImpl?: FetchLike): PlatformAdapter {
   const factory = adapterFactories.get(config.platform);
 
   if (!factory) {
     throw new Error(`No adapter registered for platform: ${config.platform}`);
   }
 
-  return factory(config);
+  return factory(config, fetchImpl);
 }
 
 /**
@@ -57,4 +69,5 @@ export type {
   PlatformAttribute,
   PublishOptions,
   PublishResult,
+  FetchLike,
 } from '@/types/adapters';
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { XMLParser } from 'fast-xml-parser';
+import { PrestaShopXmlBuilder } from '../xml-builder';
+import { ViaMallXmlBuilder } from '../viamall-xml-builder';
+import type { UnifiedProduct } from '@/types/unified-product';
+
+const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '@_', parseTagValue: false });
+
+const product: UnifiedProduct = {
+  name: 'Mata wiklinowa 1,5 x 3 m',
+  description: { short: 'Mata z wikliny', long: 'Naturalna mata', html: '<p>Naturalna mata</p>' },
+  seo: { title: 'Mata wiklinowa', description: 'Mata wiklinowa na balkon', keywords: ['mata', 'wiklina'] },
+  pricing: { gross: 123, net: 100, currency: 'PLN', vatRate: 23 },
+  attributes: {},
+  categories: [],
+  images: [{ url: 'https://cdn.test/mata.jpg', position: 0 }],
+  identifiers: { sku: 'MATA-150', ean: '5901234123457' },
+  stock: { quantity: 1, availability: 'in_stock' },
+  condition: 'new',
+  weight: 2.5,
+  tags: [],
+  metadata: {},
+};
+
+describe('PrestaShopXmlBuilder', () => {
+  it('builds product XML with language nodes, pricing and categories', () => {
+    const xml = new PrestaShopXmlBuilder().buildProductXml(product, {
+      categoryId: '12',
+      categoryIds: ['12', '15'],
+      languageId: '2',
+    });
+    const { product: node } = parser.parse(xml).prestashop;
+
+    expect(node).toMatchObject({
+      id_category_default: '12',
+      id_tax_rules_group: '1',
+      reference: 'MATA-150',
+      ean13: '5901234123457',
+      price: '100.000000',
+      weight: '2.500000',
+      active: '1',
+      name: { language: { '@_id': '2', '#text': 'Mata wiklinowa 1,5 x 3 m' } },
+      meta_keywords: { language: { '#text': 'mata, wiklina' } },
+      link_rewrite: { language: { '#text': 'mata-wiklinowa-1-5-x-3-m' } },
+    });
+    expect(node.associations.categories.category).toEqual([{ id: '12' }, { id: '15' }]);
+    expect(node.description.language['#text']).toContain('p&gt;Naturalna mata');
+  });
+
+  it('escapes special characters in text content', () => {
+    const xml = new PrestaShopXmlBuilder().buildProductXml({ ...product, name: 'Mata "Premium" & <Duza>' });
+
+    expect(xml).not.toContain('<Duza>');
+    expect(xml).toContain('&amp;');
+  });
+
+  it('builds update and stock XML', () => {
+    const builder = new PrestaShopXmlBuilder();
+
+    expect(parser.parse(builder.buildProductUpdateXml(42, product)).prestashop.product).toMatchObject({
+      id: '42',
+      price: '100.000000',
+    });
+    expect(parser.parse(builder.buildStockXml(7, 15)).prestashop.stock_available).toEqual({ id: '7', quantity: '15' });
+  });
+});
+
+describe('ViaMallXmlBuilder', () => {
+  const builder = new ViaMallXmlBuilder({ categoryId: '5' });
+
+  it('slugifies German and Polish characters', () => {
+    expect(builder.slugify('Weidenmatte Größe XL')).toBe('weidenmatte-groesse-xl');
+    expect(builder.slugify('Płot leszczynowy łukowy')).toBe('plot-leszczynowy-lukowy');
+  });
+
+  it('builds single-language product XML', () => {
+    const xml = builder.buildProductXml({
+      name: 'Płot leszczynowy',
+      shortDescription: 'Płot z leszczyny',
+      longDescription: '<p>Ręcznie pleciony</p>',
+      price: 250,
+      categoryId: '',
+      sku: 'PLOT-1',
+    });
+    const { product: node } = parser.parse(xml).prestashop;
+
+    expect(node).toMatchObject({
+      id_category_default: '5',
+      reference: 'PLOT-1',
+      price: '250.000000',
+      state: '1',
+      link_rewrite: { language: { '@_id': '1', '#text': 'plot-leszczynowy' } },
+    });
+  });
+
+  it('builds one language node per language', () => {
+    const xml = builder.buildMultiLanguageProductXml(
+      [
+        { languageId: '1', name: 'Mata wiklinowa', shortDescription: 'Mata', longDescription: 'Opis', slug: 'mata-wiklinowa' },
+        { languageId: '3', name: 'Weidenmatte', shortDescription: 'Matte', longDescription: 'Beschreibung', slug: 'weidenmatte' },
+      ],
+      { price: 80, categoryId: '9' }
+    );
+    const { product: node } = parser.parse(xml).prestashop;
+
+    expect(node.id_category_default).toBe('9');
+    expect(node.name.language).toEqual([
+      { '@_id': '1', '#text': 'Mata wiklinowa' },
+      { '@_id': '3', '#text': 'Weidenmatte' },
+    ]);
+  });
+
+  it('associates all mapped categories with the multi-language product', () => {
+    const xml = builder.buildMultiLanguageProductXml(
+      [{ languageId: '1', name: 'Mata', shortDescription: 'Mata', longDescription: 'Opis', slug: 'mata' }],
+      { price: 80, categoryId: '12', categoryIds: ['12', '30'] }
+    );
+    const { product: node } = parser.parse(xml).prestashop;
+
+    expect(node.id_category_default).toBe('12');
+    expect(node.associations.categories.category).toEqual([{ id: '12' }, { id: '30' }]);
+  });
+});
@@ -4,6 +4,7 @@
 import { BasePlatformAdapter } from '../base';
 import { PrestaShopApiClient } from './api-client';
 import { PrestaShopXmlBuilder } from './xml-builder';
+import { viamallXmlBuilder, type ViaMallLanguageContent } from './viamall-xml-builder';
 import type {
   Platform,
   PlatformConfig,
@@ -123,6 +124,78 @@ export class PrestaShopAdapter extends BasePlatformAdapter {
     }
   }
 
+  // Publish one product with a language node per entry in contents
+  // (languageId must already be the PrestaShop language ID)
+  async publishMultiLanguageProduct(
+    product: UnifiedProduct,
+    contents: ViaMallLanguageContent[],
+    options: PublishOptions = {}
+  ): Promise<PublishResult> {
+    try {
+      if (contents.length === 0) {
+        return {
+          success: false,
+          error: 'No language content to publish',
+        };
+      }
+
+      const productXml = viamallXmlBuilder.buildMultiLanguageProductXml(
+        contents,
+        {
+          price: product.pricing.net,
+          categoryId: options.categoryId
+            || String((this.config.settings?.defaultCategoryId as number) || 2),
+          categoryIds: options.categoryIds,
+          sku: product.identifiers?.sku,
+          ean: product.identifiers?.ean,
+        },
+        {
+          active: options.active,
+          taxRulesGroupId: options.taxRuleId
+            || String((this.config.settings?.taxRulesGroupId as number) || 1),
+        }
+      );
+
+      const createResult = await this.client.createProduct(productXml);
+
+      if (!createResult.success || !createResult.productId) {
+        return {
+          success: false,
+          error: createResult.error || 'Failed to create product',
+        };
+      }
+
+      const productId = createResult.productId;
+
+      // Upload images
+      for (let i = 0; i < product.images.length; i++) {
+        const imageResult = await this.client.uploadImageFromUrl(
+          productId,
+          product.images[i].url
+        );
+
+        if (!imageResult.success) {
+          console.warn(`Failed to upload image ${i + 1}: ${imageResult.error}`);
+        }
+      }
+
+      const shopUrl = this.config.apiUrl.replace('/api', '');
+      const externalUrl = `${shopUrl}/index.php?controller=product&id_product=${productId}`;
+
+      return {
+        success: true,
+        externalId: String(productId),
+        externalUrl,
+        response: { languageIds: contents.map(c => c.languageId) },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
   async updateProduct(
     externalId: string,
     product: UnifiedProduct,
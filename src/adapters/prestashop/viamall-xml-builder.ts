@@ -104,11 +104,15 @@ export class ViaMallXmlBuilder {
   // Build product XML with multiple languages
   buildMultiLanguageProductXml(
     contents: ViaMallLanguageContent[],
-    baseProduct: { price: number; categoryId: string; sku?: string; ean?: string },
+    baseProduct: { price: number; categoryId: string; categoryIds?: string[]; sku?: string; ean?: string },
     options: ViaMallXmlOptions = {}
   ): string {
     const categoryId = baseProduct.categoryId || options.categoryId || this.defaultOptions.categoryId;
 
+    // Default category first, then the other associations
+    const categories = Array.from(new Set([categoryId, ...(baseProduct.categoryIds || [])]))
+      .map(id => ({ id }));
+
     const productData = {
       prestashop: {
         '@_xmlns:xlink': 'http://www.w3.org/1999/xlink',
@@ -146,7 +150,7 @@ export class ViaMallXmlBuilder {
           // Associations
           associations: {
             categories: {
-              category: [{ id: categoryId }],
+              category: categories,
             },
           },
         },
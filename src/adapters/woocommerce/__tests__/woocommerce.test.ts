@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import { WooCommerceAdapter } from '../index';
+import type { FetchLike } from '@/types/adapters';
+import type { UnifiedProduct } from '@/types/unified-product';
+
+const product: UnifiedProduct = {
+  name: 'Sony WH-1000XM5 sluchawki bezprzewodowe z ANC czarne',
+  description: {
+    short: 'Sluchawki z aktywna redukcja szumow',
+    long: 'Bezprzewodowe sluchawki nauszne z ANC',
+    html: '<p>Bezprzewodowe sluchawki nauszne z ANC</p>',
+  },
+  seo: { title: 'Sony WH-1000XM5', description: 'Sluchawki Sony z ANC', keywords: ['sony'] },
+  pricing: { gross: 1299, net: 1056.1, currency: 'PLN', vatRate: 23 },
+  attributes: { Kolor: 'czarny' },
+  categories: [],
+  images: [
+    { url: 'https://cdn.test/wh1000xm5-side.jpg', position: 1 },
+    { url: 'https://cdn.test/wh1000xm5.jpg', position: 0 },
+  ],
+  identifiers: { sku: 'WH1000XM5-B', ean: '4548736132610' },
+  stock: { quantity: 5, availability: 'in_stock' },
+  condition: 'new',
+  brand: 'Sony',
+  tags: ['audio'],
+  metadata: {},
+};
+
+type Route = (body: unknown) => Response;
+type StubFetch = FetchLike & { calls: Array<{ method: string; path: string; body?: unknown }> };
+
+// Serves "METHOD path" routes under /wp-json/wc/v3; anything else is a 404
+function createStubFetch(routes: Record<string, Route>): StubFetch {
+  const calls: StubFetch['calls'] = [];
+
+  const stub = (async (url: string, init?: RequestInit) => {
+    const parsed = new URL(url);
+    const method = (init?.method || 'GET').toUpperCase();
+    const path = `${parsed.pathname.replace('/wp-json/wc/v3/', '')}${parsed.search}`;
+    const body = typeof init?.body === 'string' ? JSON.parse(init.body) : undefined;
+    calls.push({ method, path, body });
+
+    const route = routes[`${method} ${path}`];
+    if (!route) {
+      return Response.json({ code: 'rest_no_route', message: 'No route was found' }, { status: 404 });
+    }
+    return route(body);
+  }) as StubFetch;
+
+  stub.calls = calls;
+  return stub;
+}
+
+function createAdapter(fetchImpl: FetchLike): WooCommerceAdapter {
+  return new WooCommerceAdapter({
+    platform: 'woocommerce',
+    apiUrl: 'https://shop.test/',
+    apiKey: 'ck_test:cs_test',
+  }, fetchImpl);
+}
+
+describe('WooCommerceAdapter (stubbed REST API)', () => {
+  it('creates a product with prices, stock and images in the payload', async () => {
+    const fetch = createStubFetch({
+      'POST products': () => Response.json({ id: 501, permalink: 'https://shop.test/produkt/wh1000xm5' }, { status: 201 }),
+    });
+    const adapter = createAdapter(fetch);
+
+    const result = await adapter.publishProduct(product, { categoryId: '15' });
+
+    expect(result).toMatchObject({
+      success: true,
+      externalId: '501',
+      externalUrl: 'https://shop.test/produkt/wh1000xm5',
+    });
+    expect(fetch.calls).toHaveLength(1);
+    expect(fetch.calls[0].body).toMatchObject({
+      name: product.name,
+      status: 'publish',
+      sku: 'WH1000XM5-B',
+      global_unique_id: '4548736132610',
+      regular_price: '1299.00',
+      stock_quantity: 5,
+      stock_status: 'instock',
+      categories: [{ id: 15 }],
+      tags: [{ name: 'audio' }],
+      images: [
+        { src: 'https://cdn.test/wh1000xm5.jpg', position: 0 },
+        { src: 'https://cdn.test/wh1000xm5-side.jpg', position: 1 },
+      ],
+      attributes: [{ name: 'Kolor', options: ['czarny'], visible: true }],
+    });
+  });
+
+  it('updates, reads and deletes a product by id', async () => {
+    const fetch = createStubFetch({
+      'PUT products/501': () => Response.json({ id: 501, permalink: 'https://shop.test/produkt/wh1000xm5' }),
+      'GET products/501': () => Response.json({ id: 501, name: product.name }),
+      'DELETE products/501?force=true': () => Response.json({ id: 501 }),
+    });
+    const adapter = createAdapter(fetch);
+
+    expect(await adapter.updateProduct('501', product, { active: false })).toMatchObject({
+      success: true,
+      externalId: '501',
+    });
+    expect(await adapter.getProduct('501')).toEqual({ id: 501, name: product.name });
+    expect(await adapter.deleteProduct('501')).toEqual({ success: true });
+
+    expect(fetch.calls.map(call => `${call.method} ${call.path}`)).toEqual([
+      'PUT products/501',
+      'GET products/501',
+      'DELETE products/501?force=true',
+    ]);
+    expect(fetch.calls[0].body).toMatchObject({ status: 'draft' });
+  });
+
+  it('builds the context from paged categories, attribute terms and tax rates', async () => {
+    const fetch = createStubFetch({
+      'GET products/categories?per_page=100&page=1': () => Response.json(
+        [{ id: 10, name: 'Elektronika', slug: 'elektronika', parent: 0 }],
+        { headers: { 'x-wp-totalpages': '2' } }
+      ),
+      'GET products/categories?per_page=100&page=2': () => Response.json(
+        [{ id: 15, name: 'Sluchawki', slug: 'sluchawki', parent: 10 }],
+        { headers: { 'x-wp-totalpages': '2' } }
+      ),
+      'GET products/attributes': () => Response.json([
+        { id: 1, name: 'Kolor', slug: 'pa_kolor', type: 'select' },
+        { id: 2, name: 'Model', slug: 'pa_model', type: 'select' },
+      ]),
+      'GET products/attributes/1/terms?per_page=100&page=1': () => Response.json([
+        { id: 7, name: 'czarny', slug: 'czarny' },
+        { id: 8, name: 'bialy', slug: 'bialy' },
+      ]),
+      'GET products/attributes/2/terms?per_page=100&page=1': () => Response.json([]),
+      'GET taxes?per_page=100&page=1': () => Response.json([
+        { id: 1, name: 'VAT', rate: '23.0000', class: '' },
+        { id: 2, name: 'VAT obnizony', rate: '8.0000', class: 'reduced-rate' },
+      ]),
+    });
+    const adapter = createAdapter(fetch);
+
+    const context = await adapter.getContext();
+
+    expect(context.categories).toEqual([
+      { id: '10', name: 'Elektronika', path: 'Elektronika', parentId: undefined, level: 1 },
+      { id: '15', name: 'Sluchawki', path: 'Elektronika > Sluchawki', parentId: '10', level: 2 },
+    ]);
+    expect(context.attributes).toEqual([
+      { id: '1', name: 'Kolor', type: 'select', values: ['czarny', 'bialy'] },
+      { id: '2', name: 'Model', type: 'text', values: undefined },
+    ]);
+    expect(context.taxRules).toEqual([
+      { id: 'standard', name: 'VAT', rate: 23 },
+      { id: 'reduced-rate', name: 'VAT obnizony', rate: 8 },
+    ]);
+  });
+
+  it('inserts an uploaded image at the requested position', async () => {
+    const fetch = createStubFetch({
+      'GET products/501': () => Response.json({ id: 501, images: [{ id: 31 }, { id: 32 }] }),
+      'PUT products/501': () => Response.json({ id: 501, images: [{ id: 31 }, { id: 40 }, { id: 32 }] }),
+    });
+    const adapter = createAdapter(fetch);
+
+    const result = await adapter.uploadImage('501', 'https://cdn.test/wh1000xm5-case.jpg', 1);
+
+    expect(result).toEqual({ success: true, imageId: '40', error: undefined });
+    expect(fetch.calls[1].body).toEqual({
+      images: [
+        { id: 31, position: 0 },
+        { src: 'https://cdn.test/wh1000xm5-case.jpg', position: 1 },
+        { id: 32, position: 2 },
+      ],
+    });
+  });
+
+  it('returns the WooCommerce error message of a rejected request', async () => {
+    const fetch = createStubFetch({
+      'POST products': () => Response.json(
+        { code: 'product_invalid_sku', message: 'Invalid or duplicated SKU.' },
+        { status: 400 }
+      ),
+    });
+    const adapter = createAdapter(fetch);
+
+    const result = await adapter.publishProduct(product);
+
+    expect(result).toEqual({
+      success: false,
+      error: 'HTTP 400: Invalid or duplicated SKU. (product_invalid_sku)',
+    });
+  });
+});
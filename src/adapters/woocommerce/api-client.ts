@@ -0,0 +1,367 @@
+// WooCommerce REST API Client
+// Handles communication with WooCommerce REST API v3 (wp-json/wc/v3)
+
+import type { FetchLike } from '@/types/adapters';
+
+export interface WooCommerceApiConfig {
+  apiUrl: string;
+  consumerKey: string;
+  consumerSecret: string;
+  // Send credentials as query string instead of Basic Auth
+  // (needed on servers that strip the Authorization header)
+  queryStringAuth?: boolean;
+  fetch?: FetchLike;
+  timeoutMs?: number;
+}
+
+export interface WooCommerceCategory {
+  id: number;
+  name: string;
+  slug: string;
+  parent: number;
+  count?: number;
+}
+
+export interface WooCommerceAttribute {
+  id: number;
+  name: string;
+  slug: string;
+  type: string;
+}
+
+export interface WooCommerceAttributeTerm {
+  id: number;
+  name: string;
+  slug: string;
+}
+
+export interface WooCommerceTaxRate {
+  id: number;
+  name: string;
+  rate: string;
+  class: string;
+}
+
+export interface WooCommerceImage {
+  id?: number;
+  src?: string;
+  alt?: string;
+  position?: number;
+}
+
+export interface WooCommerceProduct {
+  id?: number;
+  name: string;
+  type?: 'simple' | 'variable' | 'grouped' | 'external';
+  status?: 'draft' | 'pending' | 'private' | 'publish';
+  catalog_visibility?: 'visible' | 'catalog' | 'search' | 'hidden';
+  description?: string;
+  short_description?: string;
+  sku?: string;
+  global_unique_id?: string;
+  regular_price?: string;
+  tax_class?: string;
+  manage_stock?: boolean;
+  stock_quantity?: number;
+  stock_status?: 'instock' | 'outofstock' | 'onbackorder';
+  weight?: string;
+  dimensions?: { length: string; width: string; height: string };
+  categories?: Array<{ id: number }>;
+  tags?: Array<{ name: string }>;
+  images?: WooCommerceImage[];
+  attributes?: Array<{ id?: number; name?: string; options: string[]; visible?: boolean }>;
+  meta_data?: Array<{ key: string; value: string }>;
+  permalink?: string;
+}
+
+export class WooCommerceApiClient {
+  private config: WooCommerceApiConfig;
+  private fetchImpl: FetchLike;
+
+  constructor(config: WooCommerceApiConfig) {
+    this.config = config;
+    this.fetchImpl = config.fetch || ((url, init) => fetch(url, init));
+  }
+
+  // Build auth header
+  private getAuthHeader(): string {
+    const credentials = `${this.config.consumerKey}:${this.config.consumerSecret}`;
+    return `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  // Build full endpoint URL
+  private buildUrl(endpoint: string): string {
+    const baseUrl = this.config.apiUrl.replace(/\/+$/, '');
+    const url = new URL(`${baseUrl}/wp-json/wc/v3/${endpoint}`);
+
+    if (this.config.queryStringAuth) {
+      url.searchParams.set('consumer_key', this.config.consumerKey);
+      url.searchParams.set('consumer_secret', this.config.consumerSecret);
+    }
+
+    return url.toString();
+  }
+
+  // Make API request
+  private async request(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.config.timeoutMs ?? 30000);
+
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      ...(options.body ? { 'Content-Type': 'application/json' } : {}),
+      ...(options.headers as Record<string, string> | undefined),
+    };
+
+    if (!this.config.queryStringAuth) {
+      headers.Authorization = this.getAuthHeader();
+    }
+
+    try {
+      return await this.fetchImpl(this.buildUrl(endpoint), {
+        ...options,
+        headers,
+        signal: controller.signal,
+      });
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  // Extract a readable error from a WooCommerce error response
+  private async readError(response: Response): Promise<string> {
+    const text = await response.text();
+
+    try {
+      const data = JSON.parse(text) as { code?: string; message?: string };
+      if (data.message) {
+        return `HTTP ${response.status}: ${data.message}${data.code ? ` (${data.code})` : ''}`;
+      }
+    } catch {
+      // Not JSON - fall through to raw text
+    }
+
+    return `HTTP ${response.status}: ${text}`;
+  }
+
+  // Fetch every page of a collection endpoint
+  private async getAllPages<T>(endpoint: string, label: string): Promise<T[]> {
+    const items: T[] = [];
+    const separator = endpoint.includes('?') ? '&' : '?';
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const response = await this.request(`${endpoint}${separator}per_page=100&page=${page}`);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${label}: ${response.status}`);
+      }
+
+      const data = (await response.json()) as T[];
+      items.push(...data);
+
+      totalPages = parseInt(response.headers.get('x-wp-totalpages') || '1', 10) || 1;
+      page++;
+    } while (page <= totalPages);
+
+    return items;
+  }
+
+  // Test connection
+  async testConnection(): Promise<{ success: boolean; error?: string }> {
+    try {
+      const response = await this.request('products?per_page=1');
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: await this.readError(response),
+        };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  // Get product categories
+  async getCategories(): Promise<WooCommerceCategory[]> {
+    return this.getAllPages<WooCommerceCategory>('products/categories', 'categories');
+  }
+
+  // Get global product attributes
+  async getAttributes(): Promise<WooCommerceAttribute[]> {
+    const response = await this.request('products/attributes');
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch attributes: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  // Get terms (possible values) of a global attribute
+  async getAttributeTerms(attributeId: number): Promise<WooCommerceAttributeTerm[]> {
+    return this.getAllPages<WooCommerceAttributeTerm>(
+      `products/attributes/${attributeId}/terms`,
+      `terms of attribute ${attributeId}`
+    );
+  }
+
+  // Get tax rates
+  async getTaxRates(): Promise<WooCommerceTaxRate[]> {
+    return this.getAllPages<WooCommerceTaxRate>('taxes', 'tax rates');
+  }
+
+  // Create product
+  async createProduct(product: WooCommerceProduct): Promise<{
+    success: boolean;
+    product?: WooCommerceProduct;
+    error?: string;
+  }> {
+    try {
+      const response = await this.request('products', {
+        method: 'POST',
+        body: JSON.stringify(product),
+      });
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: await this.readError(response),
+        };
+      }
+
+      return {
+        success: true,
+        product: await response.json(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  // Update product
+  async updateProduct(
+    productId: number,
+    product: Partial<WooCommerceProduct>
+  ): Promise<{ success: boolean; product?: WooCommerceProduct; error?: string }> {
+    try {
+      const response = await this.request(`products/${productId}`, {
+        method: 'PUT',
+        body: JSON.stringify(product),
+      });
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: await this.readError(response),
+        };
+      }
+
+      return {
+        success: true,
+        product: await response.json(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  // Delete product (force = skip trash)
+  async deleteProduct(
+    productId: number,
+    force: boolean = true
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const response = await this.request(`products/${productId}?force=${force}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: await this.readError(response),
+        };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  // Get product by ID
+  async getProduct(productId: number): Promise<WooCommerceProduct> {
+    const response = await this.request(`products/${productId}`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to get product: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  // Attach image to product by URL
+  // WooCommerce has no standalone product image endpoint - the image is
+  // sideloaded by WordPress when it appears in the product's images array
+  async addProductImage(
+    productId: number,
+    imageUrl: string,
+    position?: number,
+    alt?: string
+  ): Promise<{
+    success: boolean;
+    imageId?: number;
+    error?: string;
+  }> {
+    try {
+      const existing = await this.getProduct(productId);
+      const currentImages = (existing.images || []).map(img => ({ id: img.id }));
+
+      const newImage: WooCommerceImage = { src: imageUrl, alt };
+      const images: WooCommerceImage[] = [...currentImages];
+      const insertAt = position !== undefined
+        ? Math.min(Math.max(position, 0), images.length)
+        : images.length;
+      images.splice(insertAt, 0, newImage);
+
+      const result = await this.updateProduct(productId, {
+        images: images.map((img, index) => ({ ...img, position: index })),
+      });
+
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      const uploaded = result.product?.images?.[insertAt];
+
+      return {
+        success: true,
+        imageId: uploaded?.id,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+}
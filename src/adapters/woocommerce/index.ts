@@ -0,0 +1,320 @@
+// WooCommerce Adapter
+// Implements PlatformAdapter interface for WooCommerce REST API v3
+
+import { BasePlatformAdapter } from '../base';
+import {
+  WooCommerceApiClient,
+  type WooCommerceCategory,
+  type WooCommerceProduct,
+} from './api-client';
+import type {
+  FetchLike,
+  Platform,
+  PlatformConfig,
+  PlatformContext,
+  PlatformCategory,
+  PlatformAttribute,
+  PublishOptions,
+  PublishResult,
+} from '@/types/adapters';
+import type { UnifiedProduct, ProductDimensions } from '@/types/unified-product';
+
+export class WooCommerceAdapter extends BasePlatformAdapter {
+  readonly platform: Platform = 'woocommerce';
+  readonly displayName = 'WooCommerce';
+
+  private client: WooCommerceApiClient;
+
+  constructor(config: PlatformConfig, fetchImpl?: FetchLike) {
+    super(config, fetchImpl);
+
+    // apiKey holds "consumer_key:consumer_secret" unless the secret is in settings
+    const [consumerKey, keySecret] = config.apiKey.split(':');
+    const consumerSecret = (config.settings?.consumerSecret as string) || keySecret || '';
+
+    this.client = new WooCommerceApiClient({
+      apiUrl: config.apiUrl,
+      consumerKey,
+      consumerSecret,
+      queryStringAuth: config.settings?.queryStringAuth === true,
+      fetch: this.fetchImpl,
+    });
+  }
+
+  async testConnection(): Promise<{ success: boolean; error?: string }> {
+    return this.client.testConnection();
+  }
+
+  async getContext(): Promise<PlatformContext> {
+    // Fetch categories
+    const rawCategories = await this.client.getCategories();
+    const categories: PlatformCategory[] = rawCategories.map(cat => ({
+      id: String(cat.id),
+      name: cat.name,
+      path: this.buildCategoryPath(cat, rawCategories),
+      parentId: cat.parent ? String(cat.parent) : undefined,
+      level: this.getCategoryLevel(cat, rawCategories),
+    }));
+
+    // Fetch global attributes with their terms
+    const rawAttributes = await this.client.getAttributes();
+    const attributes: PlatformAttribute[] = await Promise.all(
+      rawAttributes.map(async attr => {
+        const terms = await this.client.getAttributeTerms(attr.id);
+        return {
+          id: String(attr.id),
+          name: attr.name,
+          type: terms.length > 0 ? 'select' as const : 'text' as const,
+          values: terms.length > 0 ? terms.map(term => term.name) : undefined,
+        };
+      })
+    );
+
+    // Tax rates are optional (requires manage_woocommerce capability)
+    let taxRules: PlatformContext['taxRules'];
+    try {
+      const rawRates = await this.client.getTaxRates();
+      taxRules = rawRates.map(rate => ({
+        id: rate.class || 'standard',
+        name: rate.name,
+        rate: parseFloat(rate.rate),
+      }));
+    } catch (error) {
+      console.warn('Failed to fetch WooCommerce tax rates:', error);
+    }
+
+    return {
+      categories,
+      attributes,
+      taxRules,
+    };
+  }
+
+  async transformProduct(
+    product: UnifiedProduct,
+    options: PublishOptions = {}
+  ): Promise<WooCommerceProduct> {
+    return this.buildProductPayload(product, options);
+  }
+
+  async publishProduct(
+    product: UnifiedProduct,
+    options?: PublishOptions
+  ): Promise<PublishResult> {
+    try {
+      // Images are part of the payload - WordPress sideloads them from URL
+      const payload = this.buildProductPayload(product, options);
+      const createResult = await this.client.createProduct(payload);
+
+      if (!createResult.success || !createResult.product?.id) {
+        return {
+          success: false,
+          error: createResult.error || 'Failed to create product',
+        };
+      }
+
+      return {
+        success: true,
+        externalId: String(createResult.product.id),
+        externalUrl: createResult.product.permalink,
+        response: createResult.product,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  async updateProduct(
+    externalId: string,
+    product: UnifiedProduct,
+    options?: PublishOptions
+  ): Promise<PublishResult> {
+    try {
+      const productId = parseInt(externalId, 10);
+      const payload = this.buildProductPayload(product, options);
+
+      const updateResult = await this.client.updateProduct(productId, payload);
+
+      if (!updateResult.success) {
+        return {
+          success: false,
+          error: updateResult.error || 'Failed to update product',
+        };
+      }
+
+      return {
+        success: true,
+        externalId,
+        externalUrl: updateResult.product?.permalink,
+        response: updateResult.product,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  async deleteProduct(
+    externalId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    const productId = parseInt(externalId, 10);
+    return this.client.deleteProduct(productId);
+  }
+
+  async getProduct(externalId: string): Promise<unknown> {
+    const productId = parseInt(externalId, 10);
+    return this.client.getProduct(productId);
+  }
+
+  async uploadImage(
+    productId: string,
+    imageUrl: string,
+    position?: number
+  ): Promise<{ success: boolean; imageId?: string; error?: string }> {
+    const result = await this.client.addProductImage(
+      parseInt(productId, 10),
+      imageUrl,
+      position
+    );
+
+    return {
+      success: result.success,
+      imageId: result.imageId ? String(result.imageId) : undefined,
+      error: result.error,
+    };
+  }
+
+  // Build WooCommerce product payload from UnifiedProduct
+  private buildProductPayload(
+    product: UnifiedProduct,
+    options: PublishOptions = {}
+  ): WooCommerceProduct {
+    // Store prices are entered with tax by default (woocommerce_prices_include_tax)
+    const pricesIncludeTax = this.config.settings?.pricesIncludeTax !== false;
+    const price = pricesIncludeTax ? product.pricing.gross : product.pricing.net;
+
+    // Categories
+    const categoryIds = new Set<string>();
+    if (options.categoryId) categoryIds.add(options.categoryId);
+    options.categoryIds?.forEach(id => categoryIds.add(id));
+    if (categoryIds.size === 0 && this.config.settings?.defaultCategoryId) {
+      categoryIds.add(String(this.config.settings.defaultCategoryId));
+    }
+
+    // Attributes - mapped global attributes first, then free-form local attributes
+    const attributes: NonNullable<WooCommerceProduct['attributes']> = [];
+    for (const [attributeId, value] of Object.entries(options.attributeMapping || {})) {
+      attributes.push({ id: parseInt(attributeId, 10), options: [value], visible: true });
+    }
+    for (const [name, value] of Object.entries(product.attributes)) {
+      attributes.push({ name, options: [value], visible: true });
+    }
+
+    const images = [...product.images]
+      .sort((a, b) => a.position - b.position)
+      .map((image, index) => ({
+        src: image.url,
+        alt: image.alt || product.name,
+        position: index,
+      }));
+
+    const payload: WooCommerceProduct = {
+      name: product.name,
+      type: 'simple',
+      status: options.active === false ? 'draft' : 'publish',
+      catalog_visibility: options.visibility || 'visible',
+      description: product.description.html || product.description.long,
+      short_description: product.description.short,
+      sku: product.identifiers?.sku || undefined,
+      global_unique_id: product.identifiers?.ean || undefined,
+      regular_price: price.toFixed(2),
+      manage_stock: true,
+      stock_quantity: product.stock.quantity,
+      stock_status: this.mapStockStatus(product.stock.availability),
+      weight: product.weight !== undefined ? String(product.weight) : undefined,
+      dimensions: product.dimensions ? this.mapDimensions(product.dimensions) : undefined,
+      categories: Array.from(categoryIds).map(id => ({ id: parseInt(id, 10) })),
+      tags: product.tags.map(name => ({ name })),
+      images,
+      attributes,
+    };
+
+    // WooCommerce has no SEO fields of its own - write them for Yoast when enabled
+    if (this.config.settings?.seoPlugin === 'yoast') {
+      payload.meta_data = [
+        { key: '_yoast_wpseo_title', value: product.seo.title },
+        { key: '_yoast_wpseo_metadesc', value: product.seo.description },
+      ];
+    }
+
+    if (options.taxRuleId) {
+      payload.tax_class = options.taxRuleId === 'standard' ? '' : options.taxRuleId;
+    }
+
+    return payload;
+  }
+
+  // Map availability to WooCommerce stock status
+  private mapStockStatus(
+    availability: UnifiedProduct['stock']['availability']
+  ): WooCommerceProduct['stock_status'] {
+    switch (availability) {
+      case 'out_of_stock':
+        return 'outofstock';
+      case 'preorder':
+        return 'onbackorder';
+      default:
+        return 'instock';
+    }
+  }
+
+  // WooCommerce stores dimensions as strings in the shop unit (cm by default)
+  private mapDimensions(dimensions: ProductDimensions): NonNullable<WooCommerceProduct['dimensions']> {
+    const factor = dimensions.unit === 'mm' ? 0.1 : dimensions.unit === 'in' ? 2.54 : 1;
+    const toCm = (value: number) => String(Math.round(value * factor * 100) / 100);
+
+    return {
+      length: toCm(dimensions.depth),
+      width: toCm(dimensions.width),
+      height: toCm(dimensions.height),
+    };
+  }
+
+  // Build "Parent > Child" path for a category
+  private buildCategoryPath(
+    category: WooCommerceCategory,
+    all: WooCommerceCategory[]
+  ): string {
+    const names: string[] = [category.name];
+    let parentId = category.parent;
+    const seen = new Set<number>([category.id]);
+
+    while (parentId && !seen.has(parentId)) {
+      const parent = all.find(cat => cat.id === parentId);
+      if (!parent) break;
+      names.unshift(parent.name);
+      seen.add(parent.id);
+      parentId = parent.parent;
+    }
+
+    return names.join(' > ');
+  }
+
+  // Depth of a category in the tree (root = 1)
+  private getCategoryLevel(
+    category: WooCommerceCategory,
+    all: WooCommerceCategory[]
+  ): number {
+    return this.buildCategoryPath(category, all).split(' > ').length;
+  }
+}
+
+// Export factory function
+export function createWooCommerceAdapter(config: PlatformConfig, fetchImpl?: FetchLike): WooCommerceAdapter {
+  return new WooCommerceAdapter(config, fetchImpl);
+}
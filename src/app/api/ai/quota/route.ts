@@ -0,0 +1,22 @@
+// GET /api/ai/quota
+// Remaining rate limit budget (per minute / per day) for every AI provider
+
+import { NextResponse } from 'next/server';
+import { getProviderQuotaStatus } from '@/services/ai';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const providers = await getProviderQuotaStatus();
+
+    return NextResponse.json({ providers });
+  } catch (error) {
+    console.error('Get quota error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+// GET /api/ai/routing - Provider/model chain per pipeline stage
+// PUT /api/ai/routing - Replace the routing config (stages left out use the priority order)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getProviderStatus } from '@/services/ai';
+import { DEFAULT_PROVIDER_CONFIGS } from '@/services/ai/adapters';
+import {
+  ROUTING_STAGES,
+  RoutingConfigSchema,
+  getRoutingConfig,
+  saveRoutingConfig,
+} from '@/services/ai/routing';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Providers in default priority order, for editing the chains
+function getDefaults() {
+  return getProviderStatus().map(({ type, name, priority, configured, supportsVision }) => ({
+    provider: type,
+    name,
+    priority,
+    configured,
+    supportsVision,
+    defaultModel: DEFAULT_PROVIDER_CONFIGS[type].defaultModel,
+  }));
+}
+
+export async function GET() {
+  try {
+    const routing = await getRoutingConfig();
+
+    return NextResponse.json({
+      routing,
+      stages: ROUTING_STAGES,
+      providers: getDefaults(),
+    });
+  } catch (error) {
+    console.error('Get routing error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const parsed = RoutingConfigSchema.safeParse(body.routing);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: `Invalid routing: ${parsed.error.issues
+            .map(issue => `${issue.path.join('.')}: ${issue.message}`)
+            .join('; ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const routing = await saveRoutingConfig(parsed.data);
+
+    return NextResponse.json({ routing });
+  } catch (error) {
+    console.error('Update routing error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
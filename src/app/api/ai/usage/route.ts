@@ -0,0 +1,62 @@
+// GET /api/ai/usage
+// AI token and cost totals per day, provider and draft
+// Query: from, to (YYYY-MM-DD, UTC, default last 30 days), draftId, provider
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUsageReport } from '@/services/ai/usage';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RANGE_DAYS = 366;
+
+// YYYY-MM-DD -> start of that UTC day
+function parseDay(value: string | null): Date | null | undefined {
+  if (!value) return undefined;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const fromDay = parseDay(searchParams.get('from'));
+    const toDay = parseDay(searchParams.get('to'));
+
+    if (fromDay === null || toDay === null) {
+      return NextResponse.json(
+        { error: 'Invalid date - use YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
+
+    // `to` is inclusive
+    const to = toDay ? new Date(toDay.getTime() + DAY_MS) : new Date();
+    const from = fromDay || new Date(to.getTime() - 30 * DAY_MS);
+
+    if (from >= to || to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      return NextResponse.json(
+        { error: `Invalid range (from must be before to, maximum ${MAX_RANGE_DAYS} days)` },
+        { status: 400 }
+      );
+    }
+
+    const report = await getUsageReport({
+      from,
+      to,
+      draftId: searchParams.get('draftId') || undefined,
+      provider: searchParams.get('provider') || undefined,
+    });
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Get usage error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,134 @@
+// GET /api/drafts/[id]/categories - Platform categories for the draft's AI category suggestions
+//   (?platform=prestashop, ?llm=true adds an LLM pick among the best matches)
+// POST /api/drafts/[id]/categories - Confirm suggestion -> category mappings (remembered as rules)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { runWithAIContext } from '@/services/ai/usage';
+import { saveCategoryMappings, suggestCategories } from '@/services/categories';
+import { getPlatformCategories } from '@/services/platforms';
+import { CategoryMappingInputSchema } from '@/types/categories';
+import type { Platform } from '@/types/adapters';
+import type { UnifiedProduct } from '@/types/unified-product';
+import type { VisionAnalysis } from '@/types/pipeline';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const platform = (request.nextUrl.searchParams.get('platform') || 'prestashop') as Platform;
+    const useLlm = request.nextUrl.searchParams.get('llm') === 'true';
+
+    const draft = await prisma.draft.findUnique({
+      where: { id },
+      select: { id: true, product: true, visionAnalysis: true },
+    });
+
+    if (!draft) {
+      return NextResponse.json(
+        { error: 'Draft not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!draft.product) {
+      return NextResponse.json(
+        { error: 'Draft has no product data. Run the pipeline first.' },
+        { status: 400 }
+      );
+    }
+
+    const categories = await getPlatformCategories(platform);
+    if (!categories) {
+      return NextResponse.json(
+        { error: `Platform ${platform} is not configured` },
+        { status: 400 }
+      );
+    }
+
+    const product = draft.product as unknown as UnifiedProduct;
+    const vision = draft.visionAnalysis as VisionAnalysis | null;
+
+    const result = await runWithAIContext({ draftId: id }, () => suggestCategories({
+      platform,
+      suggestions: product.categories?.length ? product.categories : vision?.suggestedCategories || [],
+      categories,
+      useLlm,
+      product: { name: product.name, productType: vision?.productType },
+    }));
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Match categories error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const parsed = CategoryMappingInputSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: `Invalid category mapping: ${parsed.error.issues
+            .map(issue => `${issue.path.join('.')}: ${issue.message}`)
+            .join('; ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const draft = await prisma.draft.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!draft) {
+      return NextResponse.json(
+        { error: 'Draft not found' },
+        { status: 404 }
+      );
+    }
+
+    const categories = await getPlatformCategories(parsed.data.platform as Platform);
+    if (!categories) {
+      return NextResponse.json(
+        { error: `Platform ${parsed.data.platform} is not configured` },
+        { status: 400 }
+      );
+    }
+
+    const result = await saveCategoryMappings(parsed.data, categories);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      saved: result.saved,
+      categoryIds: Array.from(new Set(parsed.data.mappings.map(mapping => mapping.categoryId))),
+    });
+  } catch (error) {
+    console.error('Save category mappings error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+// POST /api/drafts/[id]/regenerate
+// Regenerate one product field (name, descriptions, SEO, keywords, tags, image alts)
+// from the stored vision analysis; all other fields stay as they are
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { regenerateProductField } from '@/services/pipeline';
+import { setProductField } from '@/services/pipeline/field-regeneration-stage';
+import { runWithAIContext } from '@/services/ai/usage';
+import { recordBaselineRevision, recordDraftRevision } from '@/services/revisions';
+import { FieldRegenerationRequestSchema } from '@/types/regeneration';
+import type { VisionAnalysis } from '@/types/pipeline';
+import type { UnifiedProduct } from '@/types/unified-product';
+import type { TranslationLanguage } from '@/types/translations';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const parsed = FieldRegenerationRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: `Invalid request: ${parsed.error.issues
+            .map(issue => `${issue.path.join('.')}: ${issue.message}`)
+            .join('; ')}`,
+        },
+        { status: 400 }
+      );
+    }
+    const { field, instruction } = parsed.data;
+
+    const draft = await prisma.draft.findUnique({
+      where: { id },
+    });
+
+    if (!draft) {
+      return NextResponse.json(
+        { error: 'Draft not found' },
+        { status: 404 }
+      );
+    }
+
+    if ((draft.status !== 'READY' && draft.status !== 'PUBLISHED') || !draft.product) {
+      return NextResponse.json(
+        { error: 'Draft must be READY or PUBLISHED with product data' },
+        { status: 400 }
+      );
+    }
+
+    const rawData = draft.rawData as Record<string, unknown> | null;
+    const language = ((rawData?.language as string) || 'de') as TranslationLanguage;
+    const product = draft.product as unknown as UnifiedProduct;
+
+    // Attributed to the draft in the AI usage ledger
+    const result = await runWithAIContext({ draftId: id }, () => regenerateProductField({
+      product,
+      field,
+      instruction,
+      visionAnalysis: (draft.visionAnalysis as unknown as VisionAnalysis | null) ?? undefined,
+      language,
+      useViaMallFormat: language === 'de' || language === 'pl',
+    }));
+
+    if (result.status !== 'completed' || !result.data) {
+      return NextResponse.json(
+        { error: result.error || 'Regeneration failed' },
+        { status: 500 }
+      );
+    }
+
+    await recordBaselineRevision(draft);
+
+    const updatedDraft = await prisma.draft.update({
+      where: { id },
+      data: {
+        product: setProductField(product, field, result.data.value) as object,
+      },
+      include: {
+        images: {
+          orderBy: { position: 'asc' },
+        },
+        publishLogs: {
+          orderBy: { createdAt: 'desc' },
+        },
+      },
+    });
+
+    await recordDraftRevision(updatedDraft, 'AI', {
+      provider: result.provider,
+      model: result.model,
+      note: instruction ? `regenerated ${field}: ${instruction}` : `regenerated ${field}`,
+    });
+
+    return NextResponse.json({
+      success: true,
+      field,
+      value: result.data.value,
+      draft: updatedDraft,
+      durationMs: result.durationMs,
+    });
+  } catch (error) {
+    console.error('Regenerate field error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
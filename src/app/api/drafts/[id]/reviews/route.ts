@@ -0,0 +1,91 @@
+// GET /api/drafts/[id]/reviews - Reviewer ratings of a draft, newest first
+// POST /api/drafts/[id]/reviews - Rate a draft 1-5 with optional reasons (feeds the experiment report)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { listDraftReviews, recordDraftReview } from '@/services/experiments';
+import { DraftReviewInputSchema, REVIEW_REASONS } from '@/types/experiments';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const draft = await prisma.draft.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!draft) {
+      return NextResponse.json(
+        { error: 'Draft not found' },
+        { status: 404 }
+      );
+    }
+
+    const reviews = await listDraftReviews(id);
+
+    return NextResponse.json({ reviews, reasons: REVIEW_REASONS });
+  } catch (error) {
+    console.error('List reviews error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const parsed = DraftReviewInputSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: `Invalid review: ${parsed.error.issues
+            .map(issue => `${issue.path.join('.')}: ${issue.message}`)
+            .join('; ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const draft = await prisma.draft.findUnique({
+      where: { id },
+      select: { id: true, product: true },
+    });
+
+    if (!draft) {
+      return NextResponse.json(
+        { error: 'Draft not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!draft.product) {
+      return NextResponse.json(
+        { error: 'Draft has no generated product to review' },
+        { status: 400 }
+      );
+    }
+
+    const review = await recordDraftReview(id, parsed.data);
+
+    return NextResponse.json({ success: true, review });
+  } catch (error) {
+    console.error('Create review error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
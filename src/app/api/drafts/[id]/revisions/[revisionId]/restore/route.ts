@@ -0,0 +1,36 @@
+// POST /api/drafts/[id]/revisions/[revisionId]/restore
+// Put a revision's content back on the draft (recorded as a RESTORE revision)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { restoreDraftRevision } from '@/services/revisions';
+
+export const runtime = 'nodejs';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    const { id, revisionId } = await params;
+
+    const draft = await restoreDraftRevision(id, revisionId);
+
+    if (!draft) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      draft,
+    });
+  } catch (error) {
+    console.error('Restore revision error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+// GET /api/drafts/[id]/revisions/[revisionId]
+// One revision with its product, vision analysis and translations
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDraftRevision } from '@/services/revisions';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    const { id, revisionId } = await params;
+
+    const revision = await getDraftRevision(id, revisionId);
+
+    if (!revision) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ revision });
+  } catch (error) {
+    console.error('Get revision error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
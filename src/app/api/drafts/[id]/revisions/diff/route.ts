@@ -0,0 +1,54 @@
+// GET /api/drafts/[id]/revisions/diff?from=<revisionId>&to=<revisionId>
+// Field-level diff of two revisions; without `to` the current draft is compared
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { diffRevisionSnapshots, getDraftRevision } from '@/services/revisions';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const fromId = searchParams.get('from');
+    const toId = searchParams.get('to');
+
+    if (!fromId) {
+      return NextResponse.json(
+        { error: 'Missing from (revision id)' },
+        { status: 400 }
+      );
+    }
+
+    const from = await getDraftRevision(id, fromId);
+    const to = toId
+      ? await getDraftRevision(id, toId)
+      : await prisma.draft.findUnique({
+          where: { id },
+          select: { product: true, visionAnalysis: true, translations: true },
+        });
+
+    if (!from || !to) {
+      return NextResponse.json(
+        { error: !from || toId ? 'Revision not found' : 'Draft not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      from: fromId,
+      to: toId ?? 'current',
+      changes: diffRevisionSnapshots(from, to),
+    });
+  } catch (error) {
+    console.error('Diff revisions error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+// GET /api/drafts/[id]/revisions
+// Revision history of a draft, newest first (snapshots via /revisions/[revisionId])
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { listDraftRevisions } from '@/services/revisions';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const draft = await prisma.draft.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!draft) {
+      return NextResponse.json(
+        { error: 'Draft not found' },
+        { status: 404 }
+      );
+    }
+
+    const revisions = await listDraftRevisions(id);
+
+    return NextResponse.json({ revisions });
+  } catch (error) {
+    console.error('List revisions error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { DraftTranslationsSchema } from '@/types/translations';
+import { recordBaselineRevision, recordDraftRevision } from '@/services/revisions';
 
 export const runtime = 'nodejs';
 
@@ -23,6 +25,10 @@ export async function GET(
         publishLogs: {
           orderBy: { createdAt: 'desc' },
         },
+        jobs: {
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+        },
       },
     });
 
@@ -79,6 +85,21 @@ export async function PUT(
       updateData.product = body.product;
     }
 
+    if (body.translations !== undefined) {
+      const parsed = DraftTranslationsSchema.safeParse(body.translations);
+      if (!parsed.success) {
+        return NextResponse.json(
+          {
+            error: `Invalid translations: ${parsed.error.issues
+              .map(issue => `${issue.path.join('.')}: ${issue.message}`)
+              .join('; ')}`,
+          },
+          { status: 400 }
+        );
+      }
+      updateData.translations = parsed.data;
+    }
+
     if (body.status !== undefined) {
       // Validate status
       const validStatuses = ['PENDING', 'PROCESSING', 'READY', 'PUBLISHED', 'FAILED'];
@@ -91,6 +112,11 @@ export async function PUT(
       updateData.status = body.status;
     }
 
+    const contentChanged = body.product !== undefined || body.translations !== undefined;
+    if (contentChanged) {
+      await recordBaselineRevision(existingDraft);
+    }
+
     // Update draft
     const updatedDraft = await prisma.draft.update({
       where: { id },
@@ -105,6 +131,11 @@ export async function PUT(
       },
     });
 
+    // Content edits are kept in the revision history
+    if (contentChanged) {
+      await recordDraftRevision(updatedDraft, 'MANUAL');
+    }
+
     return NextResponse.json({
       success: true,
       draft: updatedDraft,
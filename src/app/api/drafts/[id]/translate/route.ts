@@ -0,0 +1,158 @@
+// POST /api/drafts/[id]/translate
+// Generate content for another language from an existing draft (no vision re-run)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { runPipeline } from '@/services/pipeline';
+import { toPipelineImages } from '@/services/pipeline/draft-runner';
+import { runWithAIContext } from '@/services/ai/usage';
+import { recordBaselineRevision, recordDraftRevision } from '@/services/revisions';
+import { viamallXmlBuilder } from '@/adapters/prestashop/viamall-xml-builder';
+import {
+  TranslationLanguageSchema,
+  parseDraftTranslations,
+  productToTranslation,
+  type TranslationLanguage,
+} from '@/types/translations';
+import type { PipelineInput, VisionAnalysis } from '@/types/pipeline';
+import type { UnifiedProduct } from '@/types/unified-product';
+
+export const runtime = 'nodejs';
+export const maxDuration = 120; // 2 minutes for AI processing
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const parsedLanguage = TranslationLanguageSchema.safeParse(body.language);
+    if (!parsedLanguage.success) {
+      return NextResponse.json(
+        { error: `language must be one of: ${TranslationLanguageSchema.options.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const targetLanguage = parsedLanguage.data;
+
+    // Get draft with images
+    const draft = await prisma.draft.findUnique({
+      where: { id },
+      include: { images: true },
+    });
+
+    if (!draft) {
+      return NextResponse.json(
+        { error: 'Draft not found' },
+        { status: 404 }
+      );
+    }
+
+    if ((draft.status !== 'READY' && draft.status !== 'PUBLISHED') || !draft.product) {
+      return NextResponse.json(
+        { error: 'Draft must be READY or PUBLISHED with product data' },
+        { status: 400 }
+      );
+    }
+
+    if (!draft.visionAnalysis) {
+      return NextResponse.json(
+        { error: 'Draft has no stored vision analysis - run the pipeline first' },
+        { status: 400 }
+      );
+    }
+
+    const rawData = draft.rawData as Record<string, unknown> | null;
+    const sourceLanguage = ((rawData?.language as string) || 'de') as TranslationLanguage;
+
+    if (targetLanguage === sourceLanguage) {
+      return NextResponse.json(
+        { error: `Draft is already in ${sourceLanguage}` },
+        { status: 400 }
+      );
+    }
+
+    // Source texts come from the (possibly edited) product, keeping the stored slug
+    const translations = parseDraftTranslations(draft.translations);
+    const product = draft.product as unknown as UnifiedProduct;
+    const sourceContent = productToTranslation(
+      product,
+      translations[sourceLanguage]?.slug || viamallXmlBuilder.slugify(product.name)
+    );
+
+    const pipelineInput: PipelineInput = {
+      images: toPipelineImages(draft.images),
+      userHint: draft.userHint || undefined,
+      rawData: draft.rawData as PipelineInput['rawData'],
+    };
+
+    // Attributed to the draft in the AI usage ledger
+    const result = await runWithAIContext({ draftId: id }, () => runPipeline(pipelineInput, {
+      skipVision: true,
+      visionAnalysis: draft.visionAnalysis as unknown as VisionAnalysis,
+      language: targetLanguage,
+      useViaMallFormat: targetLanguage === 'de' || targetLanguage === 'pl',
+      translateFrom: {
+        language: sourceLanguage,
+        content: sourceContent,
+      },
+    }));
+
+    if (result.status !== 'completed' || !result.product) {
+      return NextResponse.json(
+        { error: result.errors?.join('; ') || 'Translation failed' },
+        { status: 500 }
+      );
+    }
+
+    const viamallSlug = (result.contentGeneration.data as { viamallSlug?: string } | undefined)?.viamallSlug;
+    const translation = productToTranslation(
+      result.product,
+      viamallSlug || viamallXmlBuilder.slugify(result.product.name)
+    );
+
+    await recordBaselineRevision(draft);
+
+    // Only the target language is written; the source keeps its own texts
+    const updatedDraft = await prisma.draft.update({
+      where: { id },
+      data: {
+        translations: {
+          ...translations,
+          [sourceLanguage]: translations[sourceLanguage] ?? sourceContent,
+          [targetLanguage]: translation,
+        },
+      },
+      include: {
+        images: {
+          orderBy: { position: 'asc' },
+        },
+        publishLogs: {
+          orderBy: { createdAt: 'desc' },
+        },
+      },
+    });
+
+    await recordDraftRevision(updatedDraft, 'TRANSLATION', {
+      provider: result.contentGeneration.provider,
+      model: result.contentGeneration.model,
+      note: `${sourceLanguage} -> ${targetLanguage}`,
+    });
+
+    return NextResponse.json({
+      success: true,
+      language: targetLanguage,
+      translation,
+      draft: updatedDraft,
+      totalDurationMs: result.totalDurationMs,
+    });
+  } catch (error) {
+    console.error('Translate draft error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+// GET /api/experiments/[id]
+// Experiment report: acceptance rate, edit distance and token cost per variant
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getExperimentReport } from '@/services/experiments';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const report = await getExperimentReport(id);
+
+    if (!report) {
+      return NextResponse.json(
+        { error: 'Experiment not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Experiment report error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+// POST /api/experiments/[id]/stop
+// Stop assigning drafts to an experiment; the report stays available
+
+import { NextRequest, NextResponse } from 'next/server';
+import { stopExperiment } from '@/services/experiments';
+
+export const runtime = 'nodejs';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const experiment = await stopExperiment(id);
+
+    if (!experiment) {
+      return NextResponse.json(
+        { error: 'Experiment not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, experiment });
+  } catch (error) {
+    console.error('Stop experiment error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
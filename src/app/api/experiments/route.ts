@@ -0,0 +1,56 @@
+// GET /api/experiments - All experiments, running first
+// POST /api/experiments - Start an A/B test of a stage prompt version or model chain
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createExperiment, ExperimentInputSchema, listExperiments } from '@/services/experiments';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const experiments = await listExperiments();
+
+    return NextResponse.json({ experiments });
+  } catch (error) {
+    console.error('List experiments error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const parsed = ExperimentInputSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: `Invalid experiment: ${parsed.error.issues
+            .map(issue => `${issue.path.join('.')}: ${issue.message}`)
+            .join('; ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await createExperiment(parsed.data);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, experiment: result.experiment });
+  } catch (error) {
+    console.error('Create experiment error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
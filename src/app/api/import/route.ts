@@ -0,0 +1,72 @@
+// POST /api/import
+// Bulk import drafts from a CSV/XLSX sheet (one draft per row)
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  readImportFile,
+  mapImportRows,
+  createImportedDrafts,
+  queueDraftsForPipeline,
+} from '@/services/import';
+
+export const runtime = 'nodejs';
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { error: 'File too large (maximum 5MB)' },
+        { status: 400 }
+      );
+    }
+
+    // Get optional fields
+    const language = (formData.get('language') as string | null) || undefined;
+    const queuePipeline = formData.get('queuePipeline') === 'true';
+
+    // Parse and validate rows
+    let parsed;
+    try {
+      const table = readImportFile(Buffer.from(await file.arrayBuffer()), file.name);
+      parsed = mapImportRows(table, { language });
+    } catch (parseError) {
+      return NextResponse.json(
+        { error: parseError instanceof Error ? parseError.message : 'Invalid file' },
+        { status: 400 }
+      );
+    }
+
+    // Valid rows are imported even if others failed
+    const created = await createImportedDrafts(parsed.rows);
+
+    const jobIds = queuePipeline && created.length > 0
+      ? await queueDraftsForPipeline(created.map(c => c.draftId))
+      : [];
+
+    return NextResponse.json({
+      success: parsed.errors.length === 0,
+      created,
+      errors: parsed.errors,
+      ignoredColumns: parsed.ignoredColumns,
+      queued: jobIds.length,
+    });
+  } catch (error) {
+    console.error('Import error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+// GET /api/jobs/[id]
+// Pipeline job status (poll until COMPLETED or FAILED)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPipelineJob } from '@/services/jobs';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const job = await getPipelineJob(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      job,
+      done: job.status === 'COMPLETED' || job.status === 'FAILED',
+    });
+  } catch (error) {
+    console.error('Get job error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
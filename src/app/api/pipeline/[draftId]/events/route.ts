@@ -0,0 +1,123 @@
+// GET /api/pipeline/[draftId]/events
+// Live pipeline progress as Server-Sent Events (stages, provider failover, job retries)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getLatestDraftJob } from '@/services/jobs';
+import {
+  getPipelineEventHistory,
+  subscribePipelineEvents,
+} from '@/services/pipeline/events';
+import type {
+  PipelineEventMessage,
+  PipelineJobStatus,
+  PipelineRunSummary,
+} from '@/types/pipeline';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Keeps proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ draftId: string }> }
+) {
+  try {
+    const { draftId } = await params;
+
+    const draft = await prisma.draft.findUnique({
+      where: { id: draftId },
+      select: { id: true, status: true },
+    });
+
+    if (!draft) {
+      return NextResponse.json(
+        { error: 'Draft not found' },
+        { status: 404 }
+      );
+    }
+
+    const latestJob = await getLatestDraftJob(draftId);
+    const job: PipelineJobStatus | null = latestJob
+      ? {
+          id: latestJob.id,
+          draftId: latestJob.draftId,
+          status: latestJob.status,
+          attempts: latestJob.attempts,
+          maxAttempts: latestJob.maxAttempts,
+          runAfter: latestJob.runAfter.toISOString(),
+          lastError: latestJob.lastError,
+          result: latestJob.result as PipelineRunSummary | null,
+        }
+      : null;
+
+    const encoder = new TextEncoder();
+    let close = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false;
+
+        const write = (chunk: string) => {
+          if (closed) return;
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            close();
+          }
+        };
+
+        const send = (message: PipelineEventMessage) => {
+          write(`data: ${JSON.stringify(message)}\n\n`);
+        };
+
+        // Current state first, then what already happened in this run
+        send({
+          type: 'snapshot',
+          draftStatus: draft.status,
+          job,
+          draftId,
+          at: new Date().toISOString(),
+        });
+        getPipelineEventHistory(draftId).forEach(send);
+
+        const unsubscribe = subscribePipelineEvents(draftId, send);
+        const heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+
+        close = () => {
+          if (closed) return;
+          closed = true;
+          clearInterval(heartbeat);
+          unsubscribe();
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client
+          }
+        };
+
+        request.signal.addEventListener('abort', () => close());
+      },
+      cancel() {
+        close();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error) {
+    console.error('Pipeline events error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+// POST /api/prompts/[id]/activate
+// Make a stored version the one the pipeline uses (e.g. roll back to an older version)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { activatePromptVersion } from '@/services/prompts';
+
+export const runtime = 'nodejs';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const template = await activatePromptVersion(id);
+
+    if (!template) {
+      return NextResponse.json(
+        { error: 'Prompt template not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, template });
+  } catch (error) {
+    console.error('Activate prompt error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
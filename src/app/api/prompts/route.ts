@@ -0,0 +1,69 @@
+// GET /api/prompts - All prompt template versions (seeded from the built-in prompts on first use)
+// POST /api/prompts - Store a new version of a template (active unless activate: false)
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createPromptVersion,
+  getPromptShop,
+  listPromptTemplates,
+  validatePromptTemplate,
+} from '@/services/prompts';
+import { PROMPT_PLACEHOLDERS, PROMPT_STAGES, PromptTemplateInputSchema } from '@/types/prompts';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const templates = await listPromptTemplates();
+
+    return NextResponse.json({
+      templates,
+      stages: PROMPT_STAGES,
+      placeholders: PROMPT_PLACEHOLDERS,
+      shop: getPromptShop(),
+    });
+  } catch (error) {
+    console.error('List prompts error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const parsed = PromptTemplateInputSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: `Invalid prompt template: ${parsed.error.issues
+            .map(issue => `${issue.path.join('.')}: ${issue.message}`)
+            .join('; ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const problems = validatePromptTemplate(parsed.data.stage, parsed.data);
+    if (problems.length > 0) {
+      return NextResponse.json(
+        { error: `Invalid prompt template: ${problems.join('; ')}` },
+        { status: 400 }
+      );
+    }
+
+    const template = await createPromptVersion(parsed.data);
+
+    return NextResponse.json({ success: true, template });
+  } catch (error) {
+    console.error('Create prompt error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,9 +3,17 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { createAdapter, type Platform, type PublishOptions } from '@/adapters';
+import { createAdapter, PrestaShopAdapter, type Platform, type PublishOptions, type PublishResult } from '@/adapters';
 import { PrestaShopApiClient } from '@/adapters/prestashop/api-client';
+import { viamallXmlBuilder } from '@/adapters/prestashop/viamall-xml-builder';
+import {
+  parseDraftTranslations,
+  productToTranslation,
+  type TranslationLanguage,
+} from '@/types/translations';
 import type { UnifiedProduct } from '@/types/unified-product';
+import { getPlatformConfig } from '@/services/platforms';
+import { suggestCategories } from '@/services/categories';
 
 // Language ISO code to PrestaShop ID mapping cache
 const languageIdCache: Map<string, string> = new Map();
@@ -20,9 +28,11 @@ export async function POST(
   try {
     const { id } = await params;
     const body = await request.json();
-    const { platform, options } = body as {
+    const { platform, options, languages } = body as {
       platform: Platform;
       options?: PublishOptions;
+      // ISO codes to publish as one multi-language product (PrestaShop only)
+      languages?: string[];
     };
 
     if (!platform) {
@@ -32,6 +42,13 @@ export async function POST(
       );
     }
 
+    if (languages && platform !== 'prestashop') {
+      return NextResponse.json(
+        { error: 'Multi-language publishing is only supported for prestashop' },
+        { status: 400 }
+      );
+    }
+
     // Get draft with product data
     const draft = await prisma.draft.findUnique({
       where: { id },
@@ -60,30 +77,17 @@ export async function POST(
     }
 
     // Get platform config from database or environment
-    const platformConfig = await prisma.platformConfig.findUnique({
-      where: { platform },
-    });
+    const platformConfig = await getPlatformConfig(platform);
 
     if (!platformConfig) {
-      // Try environment variables
-      const envUrl = process.env[`${platform.toUpperCase()}_URL`];
-      const envKey = process.env[`${platform.toUpperCase()}_API_KEY`];
-
-      if (!envUrl || !envKey) {
-        return NextResponse.json(
-          { error: `Platform ${platform} is not configured` },
-          { status: 400 }
-        );
-      }
+      return NextResponse.json(
+        { error: `Platform ${platform} is not configured` },
+        { status: 400 }
+      );
     }
 
     // Create adapter
-    const adapter = createAdapter({
-      platform,
-      apiUrl: platformConfig?.apiUrl || process.env[`${platform.toUpperCase()}_URL`]!,
-      apiKey: platformConfig?.apiKey || process.env[`${platform.toUpperCase()}_API_KEY`]!,
-      settings: platformConfig?.settings as Record<string, unknown> | undefined,
-    });
+    const adapter = createAdapter(platformConfig);
 
     // Test connection first
     const connectionTest = await adapter.testConnection();
@@ -95,48 +99,95 @@ export async function POST(
     }
 
     // Build final publish options with languageId
-    let finalOptions: PublishOptions = { ...options };
-
-    // Map language isoCode to PrestaShop languageId
-    if (platform === 'prestashop') {
-      const languageIso = (options as Record<string, unknown>)?.language as string;
-
-      if (languageIso && !finalOptions.languageId) {
-        // Check cache first
-        const cacheKey = `${platformConfig?.apiUrl || process.env.PRESTASHOP_URL}:${languageIso}`;
-
-        if (languageIdCache.has(cacheKey)) {
-          finalOptions.languageId = languageIdCache.get(cacheKey);
-        } else {
-          // Fetch languages from PrestaShop to find the ID
-          try {
-            const client = new PrestaShopApiClient({
-              apiUrl: platformConfig?.apiUrl || process.env.PRESTASHOP_URL!,
-              apiKey: platformConfig?.apiKey || process.env.PRESTASHOP_API_KEY!,
-              languageId: 1,
-            });
-
-            const languages = await client.getLanguages();
-            const matchedLang = languages.find(
-              l => l.iso_code.toLowerCase() === languageIso.toLowerCase()
-            );
-
-            if (matchedLang) {
-              const langId = String(matchedLang.id);
-              languageIdCache.set(cacheKey, langId);
-              finalOptions.languageId = langId;
-            }
-          } catch (langError) {
-            console.warn('Failed to fetch languages for mapping:', langError);
-            // Continue with default languageId
-          }
+    const finalOptions: PublishOptions = { ...options };
+    const prestaShopApiUrl = platformConfig.apiUrl;
+    const prestaShopApiKey = platformConfig.apiKey;
+    const product = draft.product as unknown as UnifiedProduct;
+
+    // No categories given: map the AI suggestions (stored rules, confident fuzzy matches).
+    // PrestaShop only - other adapters read categoryId differently (Allegro leaf, Amazon product type)
+    if (
+      adapter instanceof PrestaShopAdapter
+      && !finalOptions.categoryId
+      && !finalOptions.categoryIds?.length
+      && product.categories?.length
+    ) {
+      try {
+        const { categories } = await adapter.getContext();
+        const { categoryIds } = await suggestCategories({ platform, suggestions: product.categories, categories });
+
+        if (categoryIds.length > 0) {
+          finalOptions.categoryId = categoryIds[0];
+          finalOptions.categoryIds = categoryIds;
         }
+      } catch (categoryError) {
+        console.warn('[Categories] Could not map categories, using the default category:', categoryError);
       }
     }
 
-    // Publish product
-    const product = draft.product as unknown as UnifiedProduct;
-    const publishResult = await adapter.publishProduct(product, finalOptions);
+    let publishResult: PublishResult;
+
+    if (languages && adapter instanceof PrestaShopAdapter) {
+      // One product with a language node per translation;
+      // the draft's own language always uses the (possibly edited) product texts
+      const draftLanguage = ((draft.rawData as Record<string, unknown> | null)?.language as string) || 'de';
+      const stored = parseDraftTranslations(draft.translations);
+      const translations = {
+        ...stored,
+        [draftLanguage]: productToTranslation(
+          product,
+          stored[draftLanguage as TranslationLanguage]?.slug || viamallXmlBuilder.slugify(product.name)
+        ),
+      };
+
+      const requested = languages.length > 0 ? languages : Object.keys(translations);
+      const missing = requested.filter(iso => !translations[iso as TranslationLanguage]);
+
+      if (missing.length > 0) {
+        return NextResponse.json(
+          { error: `Draft has no content for: ${missing.join(', ')}` },
+          { status: 400 }
+        );
+      }
+
+      const contents = [];
+      const unmapped: string[] = [];
+
+      for (const iso of requested) {
+        const languageId = await resolvePrestaShopLanguageId(iso, prestaShopApiUrl, prestaShopApiKey);
+        if (!languageId) {
+          unmapped.push(iso);
+          continue;
+        }
+        contents.push({ languageId, ...translations[iso as TranslationLanguage]! });
+      }
+
+      if (unmapped.length > 0) {
+        return NextResponse.json(
+          { error: `Languages not found in PrestaShop: ${unmapped.join(', ')}` },
+          { status: 400 }
+        );
+      }
+
+      publishResult = await adapter.publishMultiLanguageProduct(product, contents, finalOptions);
+    } else {
+      // Map language isoCode to PrestaShop languageId
+      if (platform === 'prestashop') {
+        const languageIso = (options as Record<string, unknown>)?.language as string;
+
+        if (languageIso && !finalOptions.languageId) {
+          finalOptions.languageId = await resolvePrestaShopLanguageId(
+            languageIso,
+            prestaShopApiUrl,
+            prestaShopApiKey
+          );
+          // Falls back to the adapter's default languageId when not found
+        }
+      }
+
+      // Publish product
+      publishResult = await adapter.publishProduct(product, finalOptions);
+    }
 
     // Create publish log
     const publishLog = await prisma.publishLog.create({
@@ -174,3 +225,40 @@ export async function POST(
     );
   }
 }
+
+// Map language ISO code to PrestaShop language ID (cached per shop)
+async function resolvePrestaShopLanguageId(
+  isoCode: string,
+  apiUrl: string,
+  apiKey: string
+): Promise<string | undefined> {
+  const cacheKey = `${apiUrl}:${isoCode}`;
+
+  if (languageIdCache.has(cacheKey)) {
+    return languageIdCache.get(cacheKey);
+  }
+
+  // Fetch languages from PrestaShop to find the ID
+  try {
+    const client = new PrestaShopApiClient({
+      apiUrl,
+      apiKey,
+      languageId: 1,
+    });
+
+    const shopLanguages = await client.getLanguages();
+    const matchedLang = shopLanguages.find(
+      l => l.iso_code.toLowerCase() === isoCode.toLowerCase()
+    );
+
+    if (matchedLang) {
+      const langId = String(matchedLang.id);
+      languageIdCache.set(cacheKey, langId);
+      return langId;
+    }
+  } catch (langError) {
+    console.warn('Failed to fetch languages for mapping:', langError);
+  }
+
+  return undefined;
+}
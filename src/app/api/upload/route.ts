@@ -5,6 +5,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { uploadImage } from '@/services/storage';
+import { createImageVariants } from '@/services/storage/variants';
 import { isValidImageMimeType } from '@/lib/utils';
 
 export const runtime = 'nodejs';
@@ -94,6 +95,9 @@ export async function POST(request: NextRequest) {
         );
       }
 
+      // Thumbnail / medium / square derivatives (upload still succeeds without them)
+      const variants = await createImageVariants(uploadResult.key!, buffer);
+
       // Create image record
       const image = await prisma.image.create({
         data: {
@@ -103,6 +107,7 @@ export async function POST(request: NextRequest) {
           mimeType: file.type,
           size: file.size,
           position: i,
+          variants: variants ?? undefined,
         },
       });
 
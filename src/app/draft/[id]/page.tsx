@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { toast } from 'sonner';
 import Image from 'next/image';
@@ -22,14 +22,24 @@ import {
   AlertCircle,
   CheckCircle2,
   Sparkles,
+  Languages,
+  Star,
+  FolderTree,
 } from 'lucide-react';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
+import { Textarea } from '@/components/ui/Input';
 import { MtlProductTable, LANGUAGES } from '@/components/MtlProductTable';
 import type { LanguageCode } from '@/components/MtlProductTable';
 import type { UnifiedProduct } from '@/types/unified-product';
-import { apiUrl } from '@/lib/utils';
+import type { DraftTranslations } from '@/types/translations';
+import type { RegenerableField } from '@/types/regeneration';
+import type { DraftPromptVersions } from '@/types/prompts';
+import { REVIEW_REASONS, REVIEW_REASON_LABELS, type ReviewReason } from '@/types/experiments';
+import type { CategoryMatch, CategorySuggestionResult } from '@/types/categories';
+import { apiUrl, waitForPipelineJob, openPipelineEventStream, describePipelineEvent } from '@/lib/utils';
+import type { PipelineJobStatus, PipelineRunSummary, StageStatus, PipelineEventMessage, VisionEnsemble } from '@/types/pipeline';
 
 // Types
 interface DraftImage {
@@ -58,30 +68,22 @@ interface Draft {
   userHint: string | null;
   rawData: Record<string, unknown> | null;
   product: UnifiedProduct | null;
-  visionAnalysis: Record<string, unknown> | null;
+  visionAnalysis: (Record<string, unknown> & { ensemble?: VisionEnsemble }) | null;
+  translations: DraftTranslations | null;
+  promptVersions: DraftPromptVersions | null;
   errorMessage: string | null;
   images: DraftImage[];
   publishLogs: PublishLog[];
+  jobs?: PipelineJobStatus[];
   createdAt: string;
   updatedAt: string;
 }
 
-interface PipelineStage {
-  status: 'pending' | 'running' | 'completed' | 'failed';
-  durationMs?: number;
-  error?: string;
-}
+type PipelineResult = PipelineRunSummary;
 
-interface PipelineResult {
-  status: 'completed' | 'partial' | 'failed';
-  totalDurationMs: number;
-  stages: {
-    vision: PipelineStage;
-    content: PipelineStage;
-    validation: PipelineStage;
-  };
-  errors?: string[];
-}
+type LiveStages = Record<'vision' | 'content' | 'validation', StageStatus>;
+
+const PENDING_STAGES: LiveStages = { vision: 'pending', content: 'pending', validation: 'pending' };
 
 // Status badge variant mapping
 const statusVariants: Record<Draft['status'], 'default' | 'info' | 'success' | 'warning' | 'error'> = {
@@ -111,15 +113,30 @@ export default function DraftPage() {
   const [error, setError] = useState<string | null>(null);
   const [isPipelineRunning, setIsPipelineRunning] = useState(false);
   const [isPublishing, setIsPublishing] = useState(false);
+  const [translatingLang, setTranslatingLang] = useState<LanguageCode | null>(null);
   const [isEditing, setIsEditing] = useState(false);
   const [editedProduct, setEditedProduct] = useState<Partial<UnifiedProduct> | null>(null);
   const [isSaving, setIsSaving] = useState(false);
+  const [regeneratingField, setRegeneratingField] = useState<RegenerableField | null>(null);
+  const [categoryIds, setCategoryIds] = useState<string[]>([]);
   const [pipelineResult, setPipelineResult] = useState<PipelineResult | null>(null);
+  const [liveStages, setLiveStages] = useState<LiveStages>(PENDING_STAGES);
+  const [pipelineActivity, setPipelineActivity] = useState<string | null>(null);
+  // Job the page is already waiting for (or has waited for)
+  const followedJobIdRef = useRef<string | null>(null);
 
   // Get language from draft
   const currentLang = ((draft?.rawData as Record<string, unknown>)?.language as LanguageCode) || 'de';
   const langConfig = LANGUAGES[currentLang] || LANGUAGES.de;
 
+  // Languages the draft has content for (its own language always counts)
+  const availableLangs = Array.from(
+    new Set([currentLang, ...Object.keys(draft?.translations || {})])
+  ).filter((code): code is LanguageCode => code in LANGUAGES);
+  const missingLangs = (Object.keys(LANGUAGES) as LanguageCode[]).filter(
+    code => !availableLangs.includes(code)
+  );
+
   // Fetch draft data
   const fetchDraft = useCallback(async () => {
     try {
@@ -144,7 +161,64 @@ export default function DraftPage() {
     fetchDraft();
   }, [fetchDraft]);
 
-  // Run AI Pipeline
+  // Live stage and provider updates while the job runs
+  const handlePipelineEvent = useCallback((event: PipelineEventMessage) => {
+    const activity = describePipelineEvent(event);
+    if (activity) {
+      setPipelineActivity(activity);
+    }
+
+    if (event.type === 'progress') {
+      setLiveStages(prev => ({ ...prev, [event.stage]: event.status }));
+    } else if (event.type === 'job' && event.status === 'RUNNING') {
+      // Each attempt starts over from the first stage
+      setLiveStages(PENDING_STAGES);
+    }
+  }, []);
+
+  // Wait for a queued pipeline job and load its result
+  const followPipelineJob = useCallback(async (jobId: string) => {
+    followedJobIdRef.current = jobId;
+    setIsPipelineRunning(true);
+    setPipelineResult(null);
+    setLiveStages(PENDING_STAGES);
+    setPipelineActivity(null);
+
+    const closeEvents = openPipelineEventStream(draftId, handlePipelineEvent);
+
+    try {
+      const job = await waitForPipelineJob<PipelineJobStatus>(jobId);
+
+      if (job.result) {
+        setPipelineResult(job.result);
+      }
+      await fetchDraft();
+
+      if (job.status === 'FAILED') {
+        toast.error(job.lastError || 'Pipeline zakonczony z bledami');
+      } else if (job.result?.status === 'completed') {
+        toast.success('Pipeline AI zakonczony pomyslnie!');
+      } else {
+        toast.warning('Pipeline czesciowo ukonczony - sprawdz wyniki');
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Blad pipeline');
+    } finally {
+      closeEvents();
+      setIsPipelineRunning(false);
+      setPipelineActivity(null);
+    }
+  }, [draftId, fetchDraft, handlePipelineEvent]);
+
+  // Resume polling if the draft already has a queued or running job
+  const activeJobId = draft?.jobs?.find(job => job.status === 'QUEUED' || job.status === 'RUNNING')?.id;
+  useEffect(() => {
+    if (activeJobId && !isPipelineRunning && followedJobIdRef.current !== activeJobId) {
+      followPipelineJob(activeJobId);
+    }
+  }, [activeJobId, isPipelineRunning, followPipelineJob]);
+
+  // Run AI Pipeline (queued, processed by the background worker)
   const runPipeline = async () => {
     if (!draft) return;
 
@@ -164,26 +238,47 @@ export default function DraftPage() {
         throw new Error(data.error || 'Blad pipeline');
       }
 
-      setPipelineResult(data.pipelineResult);
-      setDraft(data.draft);
-      setEditedProduct(data.draft.product);
+      toast.info('Pipeline w kolejce...');
+      await followPipelineJob(data.jobId);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Blad pipeline');
+      setIsPipelineRunning(false);
+    }
+  };
 
-      if (data.pipelineResult.status === 'completed') {
-        toast.success('Pipeline AI zakonczony pomyslnie!');
-      } else if (data.pipelineResult.status === 'partial') {
-        toast.warning('Pipeline czesciowo ukonczony - sprawdz wyniki');
-      } else {
-        toast.error('Pipeline zakonczony z bledami');
+  // Generate content for another language from the existing draft
+  const translateDraft = async (language: LanguageCode) => {
+    if (!draft) return;
+
+    setTranslatingLang(language);
+
+    try {
+      const response = await fetch(apiUrl(`/api/drafts/${draft.id}/translate`), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ language }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Blad tlumaczenia');
       }
+
+      setDraft(data.draft);
+      toast.success(`Tlumaczenie ${LANGUAGES[language].name} gotowe!`);
     } catch (err) {
-      toast.error(err instanceof Error ? err.message : 'Blad pipeline');
+      toast.error(err instanceof Error ? err.message : 'Blad tlumaczenia');
     } finally {
-      setIsPipelineRunning(false);
+      setTranslatingLang(null);
     }
   };
 
   // Publish to platform
-  const publishToPlatform = async (platform: string = 'prestashop') => {
+  const publishToPlatform = async (
+    platform: string = 'prestashop',
+    languages?: LanguageCode[]
+  ) => {
     if (!draft || draft.status !== 'READY' && draft.status !== 'PUBLISHED') {
       toast.error('Draft musi byc w statusie READY lub PUBLISHED');
       return;
@@ -191,14 +286,18 @@ export default function DraftPage() {
 
     setIsPublishing(true);
 
+    // Chosen categories; without them the server maps the suggestions itself
+    const categoryOptions = categoryIds.length > 0 ? { categoryId: categoryIds[0], categoryIds } : {};
+
     try {
       const response = await fetch(apiUrl(`/api/publish/${draft.id}`), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          platform,
-          options: { language: currentLang },
-        }),
+        body: JSON.stringify(
+          languages
+            ? { platform, languages, options: categoryOptions }
+            : { platform, options: { language: currentLang, ...categoryOptions } }
+        ),
       });
 
       const data = await response.json();
@@ -245,6 +344,38 @@ export default function DraftPage() {
     }
   };
 
+  // Regenerate one product field with AI (optional instruction, e.g. "krocej")
+  const regenerateField = async (field: RegenerableField) => {
+    if (!draft) return;
+
+    const instruction = prompt('Wskazowka dla AI (opcjonalnie), np. "krocej" albo "podkresl wodoodpornosc":');
+    if (instruction === null) return;
+
+    setRegeneratingField(field);
+
+    try {
+      const response = await fetch(apiUrl(`/api/drafts/${draft.id}/regenerate`), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ field, instruction: instruction.trim() || undefined }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Blad generowania');
+      }
+
+      setDraft(data.draft);
+      setEditedProduct(data.draft.product);
+      toast.success('Pole wygenerowane ponownie!');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Blad generowania');
+    } finally {
+      setRegeneratingField(null);
+    }
+  };
+
   // Handle field change from MtlProductTable
   const handleFieldChange = (field: string, value: string) => {
     if (field === 'name') {
@@ -407,6 +538,8 @@ export default function DraftPage() {
                         fill
                         className="object-cover"
                         sizes="(max-width: 768px) 50vw, 150px"
+                        // Imported supplier URLs (size 0) are not covered by remotePatterns
+                        unoptimized={image.size === 0}
                       />
                     </div>
                   ))}
@@ -427,28 +560,40 @@ export default function DraftPage() {
                   <div className="space-y-2">
                     <PipelineStageRow
                       label="Vision"
-                      status={isPipelineRunning && !pipelineResult ? 'running' : pipelineResult?.stages.vision.status || 'pending'}
+                      status={pipelineResult?.stages.vision.status || liveStages.vision}
                       duration={pipelineResult?.stages.vision.durationMs}
                     />
                     <PipelineStageRow
                       label="Content"
-                      status={isPipelineRunning && !pipelineResult ? 'pending' : pipelineResult?.stages.content.status || 'pending'}
+                      status={pipelineResult?.stages.content.status || liveStages.content}
                       duration={pipelineResult?.stages.content.durationMs}
                     />
                     <PipelineStageRow
                       label="Validation"
-                      status={isPipelineRunning && !pipelineResult ? 'pending' : pipelineResult?.stages.validation.status || 'pending'}
+                      status={pipelineResult?.stages.validation.status || liveStages.validation}
                       duration={pipelineResult?.stages.validation.durationMs}
                     />
                   </div>
                 )}
 
+                {isPipelineRunning && pipelineActivity && (
+                  <p className="text-xs text-gray-500 truncate">{pipelineActivity}</p>
+                )}
+
                 {pipelineResult?.totalDurationMs && (
                   <p className="text-xs text-gray-500">
                     Czas: {(pipelineResult.totalDurationMs / 1000).toFixed(1)}s
                   </p>
                 )}
 
+                {draft.promptVersions && (
+                  <p className="text-xs text-gray-500">
+                    Prompty: {Object.entries(draft.promptVersions)
+                      .map(([stage, prompt]) => `${stage} ${prompt.name} v${prompt.version}`)
+                      .join(', ')}
+                  </p>
+                )}
+
                 {draft.errorMessage && (
                   <div className="p-2 bg-red-50 rounded-lg border border-red-200">
                     <p className="text-xs text-red-700">{draft.errorMessage}</p>
@@ -473,6 +618,11 @@ export default function DraftPage() {
               </CardFooter>
             </Card>
 
+            {/* Vision ensemble - fields the models disagreed on */}
+            {draft.visionAnalysis?.ensemble && (
+              <EnsemblePanel ensemble={draft.visionAnalysis.ensemble} />
+            )}
+
             {/* Publish Panel */}
             {draft.product && (
               <Card>
@@ -507,8 +657,45 @@ export default function DraftPage() {
                       ))}
                     </div>
                   )}
+
+                  {missingLangs.length > 0 && (
+                    <div className="space-y-1">
+                      <p className="flex items-center gap-1 text-xs text-gray-500">
+                        <Languages className="w-3 h-3" />
+                        Przetlumacz na:
+                      </p>
+                      <div className="flex gap-2">
+                        {missingLangs.map((code) => (
+                          <Button
+                            key={code}
+                            variant="outline"
+                            size="sm"
+                            onClick={() => translateDraft(code)}
+                            isLoading={translatingLang === code}
+                            disabled={translatingLang !== null || (draft.status !== 'READY' && draft.status !== 'PUBLISHED')}
+                            title={LANGUAGES[code].name}
+                          >
+                            {LANGUAGES[code].flag}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <CategoryPicker draftId={draft.id} onChange={setCategoryIds} />
+
+                  {availableLangs.length > 1 && (
+                    <div className="flex items-center gap-2 text-xs text-gray-500">
+                      Jezyki:
+                      {availableLangs.map((code) => (
+                        <span key={code} className="text-lg" title={LANGUAGES[code].name}>
+                          {LANGUAGES[code].flag}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </CardContent>
-                <CardFooter className="pt-0">
+                <CardFooter className="pt-0 flex-col gap-2">
                   <Button
                     variant="primary"
                     className="w-full"
@@ -520,9 +707,24 @@ export default function DraftPage() {
                     <Send className="w-4 h-4 mr-2" />
                     Publikuj
                   </Button>
+                  {availableLangs.length > 1 && (
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      size="sm"
+                      onClick={() => publishToPlatform('prestashop', availableLangs)}
+                      disabled={isPublishing || (draft.status !== 'READY' && draft.status !== 'PUBLISHED')}
+                    >
+                      <Send className="w-4 h-4 mr-2" />
+                      Publikuj wszystkie jezyki
+                    </Button>
+                  )}
                 </CardFooter>
               </Card>
             )}
+
+            {/* Reviewer rating (experiment report) */}
+            {draft.product && <ReviewPanel draftId={draft.id} />}
           </div>
 
           {/* Right column - MTL Product Data */}
@@ -588,6 +790,8 @@ export default function DraftPage() {
                     isEditing={isEditing}
                     language={currentLang}
                     onFieldChange={handleFieldChange}
+                    onRegenerate={draft.status === 'READY' || draft.status === 'PUBLISHED' ? regenerateField : undefined}
+                    regeneratingField={regeneratingField}
                   />
 
                   {/* Additional Info */}
@@ -665,13 +869,13 @@ function PipelineStageRow({
   duration,
 }: {
   label: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: StageStatus;
   duration?: number;
 }) {
   return (
     <div className="flex items-center justify-between p-2 rounded-lg bg-gray-50 text-xs">
       <div className="flex items-center gap-2">
-        {status === 'pending' && <div className="w-3 h-3 rounded-full bg-gray-300" />}
+        {(status === 'pending' || status === 'skipped') && <div className="w-3 h-3 rounded-full bg-gray-300" />}
         {status === 'running' && <Loader2 className="w-3 h-3 animate-spin text-blue-500" />}
         {status === 'completed' && <CheckCircle2 className="w-3 h-3 text-green-500" />}
         {status === 'failed' && <AlertCircle className="w-3 h-3 text-red-500" />}
@@ -681,3 +885,335 @@ function PipelineStageRow({
     </div>
   );
 }
+
+// Vision field labels for the ensemble panel
+const ENSEMBLE_FIELD_LABELS: Record<string, string> = {
+  productType: 'Typ produktu',
+  detectedBrand: 'Marka',
+  detectedModel: 'Model',
+  style: 'Styl',
+  condition: 'Stan',
+  colors: 'Kolory',
+  materials: 'Materialy',
+};
+
+// Vision Ensemble Panel Component
+function EnsemblePanel({ ensemble }: { ensemble: VisionEnsemble }) {
+  const agreement = Math.round(ensemble.agreement * 100);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-sm">
+          <span className="flex items-center gap-2">
+            <ImageIcon className="w-4 h-4 text-indigo-500" />
+            Analiza wielu modeli
+          </span>
+          <Badge variant={agreement >= 80 ? 'success' : agreement >= 50 ? 'warning' : 'error'}>
+            {agreement}% zgodnosci
+          </Badge>
+        </CardTitle>
+        <CardDescription className="text-xs">
+          {ensemble.providers.join(', ')}
+          {ensemble.failedProviders.length > 0 && ` (bez odpowiedzi: ${ensemble.failedProviders.join(', ')})`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {ensemble.disagreements.length === 0 ? (
+          <p className="text-xs text-gray-500">Modele zgodne we wszystkich polach</p>
+        ) : (
+          ensemble.disagreements.map(disagreement => (
+            <div key={disagreement.field} className="p-2 bg-amber-50 rounded-lg border border-amber-200 text-xs space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-amber-900">
+                  {ENSEMBLE_FIELD_LABELS[disagreement.field] || disagreement.field}
+                </span>
+                {disagreement.chosen && (
+                  <span className="text-amber-700 truncate">Wybrano: {disagreement.chosen}</span>
+                )}
+              </div>
+              {disagreement.values.map(({ provider, value }) => (
+                <div key={provider} className="flex justify-between gap-2 text-gray-600">
+                  <span>{provider}</span>
+                  <span className="truncate">{value || '-'}</span>
+                </div>
+              ))}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface DraftReview {
+  id: string;
+  score: number;
+  reasons: ReviewReason[];
+  comment: string | null;
+  createdAt: string;
+}
+
+// Review Panel Component - rate the generated content 1-5
+function ReviewPanel({ draftId }: { draftId: string }) {
+  const [reviews, setReviews] = useState<DraftReview[]>([]);
+  const [score, setScore] = useState<number | null>(null);
+  const [reasons, setReasons] = useState<ReviewReason[]>([]);
+  const [comment, setComment] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchReviews = useCallback(async () => {
+    try {
+      const response = await fetch(apiUrl(`/api/drafts/${draftId}/reviews`));
+      const data = await response.json();
+      if (response.ok) {
+        setReviews(data.reviews);
+      }
+    } catch {
+      // The panel still works without the history
+    }
+  }, [draftId]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  const toggleReason = (reason: ReviewReason) => {
+    setReasons(current => current.includes(reason)
+      ? current.filter(item => item !== reason)
+      : [...current, reason]);
+  };
+
+  const submitReview = async () => {
+    if (score === null) return;
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(apiUrl(`/api/drafts/${draftId}/reviews`), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ score, reasons, comment: comment.trim() || undefined }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Blad zapisu oceny');
+      }
+
+      setScore(null);
+      setReasons([]);
+      setComment('');
+      await fetchReviews();
+      toast.success('Ocena zapisana');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Blad zapisu oceny');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-sm">
+          <Star className="w-4 h-4 text-amber-500" />
+          Ocena tresci
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-1">
+          {[1, 2, 3, 4, 5].map(value => (
+            <Button
+              key={value}
+              variant={score === value ? 'primary' : 'outline'}
+              size="sm"
+              onClick={() => setScore(value)}
+            >
+              {value}
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-1">
+          {REVIEW_REASONS.map(reason => (
+            <button
+              key={reason}
+              type="button"
+              onClick={() => toggleReason(reason)}
+              className={`px-2 py-1 rounded-full border text-xs ${reasons.includes(reason) ? 'border-amber-400 bg-amber-50 text-amber-800' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+            >
+              {REVIEW_REASON_LABELS[reason]}
+            </button>
+          ))}
+        </div>
+
+        <Textarea
+          value={comment}
+          onChange={e => setComment(e.target.value)}
+          placeholder="Komentarz (opcjonalnie)"
+          className="w-full min-h-[60px] text-xs"
+        />
+
+        {reviews.length > 0 && (
+          <div className="space-y-1">
+            {reviews.slice(0, 3).map(review => (
+              <div key={review.id} className="p-2 bg-gray-50 rounded-lg text-xs">
+                <div className="flex justify-between">
+                  <span className="font-medium">{review.score}/5</span>
+                  <span className="text-gray-400">{new Date(review.createdAt).toLocaleDateString('pl-PL')}</span>
+                </div>
+                {review.reasons.length > 0 && (
+                  <p className="text-gray-500">{review.reasons.map(reason => REVIEW_REASON_LABELS[reason] || reason).join(', ')}</p>
+                )}
+                {review.comment && <p className="text-gray-600">{review.comment}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className="pt-0">
+        <Button
+          variant="primary"
+          className="w-full"
+          size="sm"
+          onClick={submitReview}
+          isLoading={isSubmitting}
+          disabled={isSubmitting || score === null}
+        >
+          Zapisz ocene
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
+// Category Picker Component - AI category suggestions mapped to shop categories
+function CategoryPicker({
+  draftId,
+  onChange,
+}: {
+  draftId: string;
+  onChange: (categoryIds: string[]) => void;
+}) {
+  const [matches, setMatches] = useState<CategoryMatch[] | null>(null);
+  const [chosen, setChosen] = useState<Record<string, string>>({});
+  const [useLlm, setUseLlm] = useState(false);
+  const [isMatching, setIsMatching] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const choose = (next: Record<string, string>) => {
+    setChosen(next);
+    onChange(Array.from(new Set(Object.values(next).filter(Boolean))));
+  };
+
+  const matchCategories = async () => {
+    setIsMatching(true);
+
+    try {
+      const response = await fetch(apiUrl(`/api/drafts/${draftId}/categories?platform=prestashop&llm=${useLlm}`));
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Blad dopasowania kategorii');
+      }
+
+      const result = data as CategorySuggestionResult;
+      setMatches(result.matches);
+      choose(Object.fromEntries(result.matches.map(match => [match.suggestion, match.selected?.categoryId || ''])));
+
+      if (result.llmError) {
+        toast.warning(`AI niedostepne, dopasowanie tekstowe: ${result.llmError}`);
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Blad dopasowania kategorii');
+    } finally {
+      setIsMatching(false);
+    }
+  };
+
+  // Remember the chosen categories for these suggestions
+  const saveMappings = async () => {
+    const mappings = Object.entries(chosen)
+      .filter(([, categoryId]) => categoryId)
+      .map(([suggestion, categoryId]) => ({ suggestion, categoryId }));
+    if (mappings.length === 0) return;
+
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(apiUrl(`/api/drafts/${draftId}/categories`), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ platform: 'prestashop', mappings }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Blad zapisu kategorii');
+      }
+
+      toast.success(`Zapamietano ${data.saved} przypisan kategorii`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Blad zapisu kategorii');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="flex items-center gap-1 text-xs text-gray-500">
+          <FolderTree className="w-3 h-3" />
+          Kategorie sklepu
+        </p>
+        <label className="flex items-center gap-1 text-xs text-gray-500">
+          <input type="checkbox" checked={useLlm} onChange={e => setUseLlm(e.target.checked)} />
+          z AI
+        </label>
+      </div>
+
+      {matches?.length === 0 && (
+        <p className="text-xs text-gray-400">Brak sugestii kategorii w drafcie</p>
+      )}
+
+      {matches?.map(match => (
+        <div key={match.suggestion} className="space-y-1">
+          <p className="text-xs text-gray-600 truncate" title={match.suggestion}>{match.suggestion}</p>
+          <select
+            value={chosen[match.suggestion] || ''}
+            onChange={e => choose({ ...chosen, [match.suggestion]: e.target.value })}
+            className="crystal-input py-1 w-full text-xs"
+          >
+            <option value="">Pomin</option>
+            {match.candidates.map(candidate => (
+              <option key={candidate.categoryId} value={candidate.categoryId}>
+                {candidate.path} ({candidate.source === 'rule' ? 'zapamietana' : candidate.source === 'llm' ? 'AI' : `${Math.round(candidate.score * 100)}%`})
+              </option>
+            ))}
+          </select>
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={matchCategories} isLoading={isMatching} disabled={isMatching}>
+          Dopasuj
+        </Button>
+        {matches && matches.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={saveMappings}
+            isLoading={isSaving}
+            disabled={isSaving || !Object.values(chosen).some(Boolean)}
+          >
+            Zapamietaj
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -15,18 +15,24 @@ import {
   ImageIcon,
   AlertCircle,
   Loader2,
+  FileSpreadsheet,
+  FileText,
+  FlaskConical,
 } from 'lucide-react';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
 import { Input } from '@/components/ui/Input';
 import { apiUrl } from '@/lib/utils';
+import { pickImageUrl, type ImageVariants } from '@/types/image-variants';
 
 // Types
 interface DraftImage {
   id: string;
   url: string;
   filename: string;
+  size: number;
+  variants: ImageVariants | null;
 }
 
 interface PublishLog {
@@ -165,6 +171,18 @@ export default function DraftsPage() {
               <RefreshCw className="w-4 h-4 mr-2" />
               Odswiez
             </Button>
+            <Button variant="outline" onClick={() => router.push('/import')}>
+              <FileSpreadsheet className="w-4 h-4 mr-2" />
+              Import CSV/XLSX
+            </Button>
+            <Button variant="outline" onClick={() => router.push('/prompts')}>
+              <FileText className="w-4 h-4 mr-2" />
+              Prompty
+            </Button>
+            <Button variant="outline" onClick={() => router.push('/experiments')}>
+              <FlaskConical className="w-4 h-4 mr-2" />
+              Eksperymenty
+            </Button>
             <Button variant="primary" onClick={() => router.push('/')}>
               <Plus className="w-4 h-4 mr-2" />
               Nowy draft
@@ -258,11 +276,14 @@ export default function DraftsPage() {
                   <div className="w-16 h-16 rounded-lg overflow-hidden bg-gray-100 flex-shrink-0">
                     {draft.images[0] ? (
                       <Image
-                        src={draft.images[0].url}
+                        src={pickImageUrl(draft.images[0], 'thumbnail', 'webp')}
                         alt={draft.product?.name || draft.userHint || `Miniatura draftu ${draft.id.slice(-8)}`}
                         width={64}
                         height={64}
                         className="w-full h-full object-cover"
+                        // Imported supplier URLs (size 0) are not covered by remotePatterns;
+                        // generated thumbnails are already small
+                        unoptimized={draft.images[0].size === 0 || !!draft.images[0].variants?.thumbnail}
                       />
                     ) : (
                       <div className="w-full h-full flex items-center justify-center">
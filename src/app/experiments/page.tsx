@@ -0,0 +1,381 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import {
+  ArrowLeft,
+  FlaskConical,
+  Play,
+  Square,
+  Loader2,
+} from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { Input } from '@/components/ui/Input';
+import { apiUrl } from '@/lib/utils';
+import { REVIEW_REASON_LABELS, type ExperimentVariantReport, type ReviewReason } from '@/types/experiments';
+
+// Types
+interface Experiment {
+  id: string;
+  name: string;
+  stage: string;
+  share: number;
+  promptTemplateId: string | null;
+  route: Array<{ provider: string; model?: string }> | null;
+  isActive: boolean;
+  createdAt: string;
+  endedAt: string | null;
+  _count?: { assignments: number };
+}
+
+interface ExperimentReport {
+  experiment: Experiment;
+  variants: ExperimentVariantReport[];
+}
+
+interface PromptTemplate {
+  id: string;
+  name: string;
+  stage: string;
+  language: string;
+  shop: string;
+  version: number;
+}
+
+interface FormState {
+  name: string;
+  stage: string;
+  share: string;
+  promptTemplateId: string;
+  route: string;
+}
+
+const STAGE_OPTIONS = [
+  { value: 'vision', label: 'Analiza zdjec (vision)' },
+  { value: 'viamall', label: 'Tresci ViaMall (de, pl)' },
+  { value: 'content', label: 'Tresci standardowe (en)' },
+];
+
+const EMPTY_FORM: FormState = { name: '', stage: 'viamall', share: '50', promptTemplateId: '', route: '' };
+
+// "groq:llama-3.3-70b-versatile, deepseek" -> route steps
+function parseRoute(text: string): Array<{ provider: string; model?: string }> {
+  return text
+    .split(',')
+    .map(step => step.trim())
+    .filter(Boolean)
+    .map(step => {
+      const [provider, ...model] = step.split(':');
+      return model.length > 0 ? { provider: provider.trim(), model: model.join(':').trim() } : { provider };
+    });
+}
+
+function percent(value: number | null): string {
+  return value === null ? '-' : `${Math.round(value * 100)}%`;
+}
+
+export default function ExperimentsPage() {
+  const router = useRouter();
+
+  // State
+  const [experiments, setExperiments] = useState<Experiment[]>([]);
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [isCreating, setIsCreating] = useState(false);
+  const [stoppingId, setStoppingId] = useState<string | null>(null);
+  const [report, setReport] = useState<ExperimentReport | null>(null);
+
+  const fetchExperiments = useCallback(async () => {
+    try {
+      const response = await fetch(apiUrl('/api/experiments'));
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Nie udalo sie pobrac eksperymentow');
+      }
+
+      setExperiments(data.experiments);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Nieznany blad');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchExperiments();
+
+    // Prompt versions for variant B
+    fetch(apiUrl('/api/prompts'))
+      .then(response => response.json())
+      .then(data => setTemplates(data.templates || []))
+      .catch(() => setTemplates([]));
+  }, [fetchExperiments]);
+
+  const showReport = async (id: string) => {
+    try {
+      const response = await fetch(apiUrl(`/api/experiments/${id}`));
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Nie udalo sie pobrac raportu');
+      }
+
+      setReport(data);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Nieznany blad');
+    }
+  };
+
+  const createExperiment = async () => {
+    setIsCreating(true);
+
+    try {
+      const response = await fetch(apiUrl('/api/experiments'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name,
+          stage: form.stage,
+          share: Number(form.share) / 100,
+          promptTemplateId: form.promptTemplateId || undefined,
+          route: form.route.trim() ? parseRoute(form.route) : undefined,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Blad zapisu');
+      }
+
+      setForm(EMPTY_FORM);
+      await fetchExperiments();
+      toast.success('Eksperyment uruchomiony');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Blad zapisu');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const stopExperiment = async (id: string) => {
+    setStoppingId(id);
+
+    try {
+      const response = await fetch(apiUrl(`/api/experiments/${id}/stop`), { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Blad zatrzymania');
+      }
+
+      await fetchExperiments();
+      toast.success('Eksperyment zatrzymany');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Blad zatrzymania');
+    } finally {
+      setStoppingId(null);
+    }
+  };
+
+  // Loading state
+  if (loading) {
+    return (
+      <main className="min-h-screen p-4 md:p-8">
+        <div className="max-w-7xl mx-auto">
+          <div className="flex items-center justify-center h-64">
+            <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  const stageTemplates = templates.filter(template => template.stage === form.stage);
+
+  return (
+    <main className="min-h-screen p-4 md:p-8">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" onClick={() => router.push('/drafts')}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Wróc
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Eksperymenty A/B</h1>
+            <p className="text-gray-500">
+              Wariant B (inny prompt lub lancuch modeli) dla czesci draftow; porownanie ocen, poprawek i kosztu
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-6">
+            {/* New experiment */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <FlaskConical className="w-5 h-5 text-purple-500" />
+                  Nowy eksperyment
+                </CardTitle>
+                <CardDescription>Wariant A to obecna konfiguracja etapu</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <Input
+                  label="Nazwa"
+                  value={form.name}
+                  onChange={e => setForm({ ...form, name: e.target.value })}
+                />
+                <select
+                  value={form.stage}
+                  onChange={e => setForm({ ...form, stage: e.target.value, promptTemplateId: '' })}
+                  className="crystal-input py-2 w-full"
+                >
+                  {STAGE_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <Input
+                  label="Udzial wariantu B (%)"
+                  type="number"
+                  min={1}
+                  max={99}
+                  value={form.share}
+                  onChange={e => setForm({ ...form, share: e.target.value })}
+                />
+                {stageTemplates.length > 0 && (
+                  <select
+                    value={form.promptTemplateId}
+                    onChange={e => setForm({ ...form, promptTemplateId: e.target.value })}
+                    className="crystal-input py-2 w-full"
+                  >
+                    <option value="">Prompt bez zmian</option>
+                    {stageTemplates.map(template => (
+                      <option key={template.id} value={template.id}>
+                        {template.name} v{template.version} ({template.language}/{template.shop})
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <Input
+                  label="Lancuch modeli (opcjonalnie)"
+                  value={form.route}
+                  onChange={e => setForm({ ...form, route: e.target.value })}
+                  placeholder="groq:llama-3.3-70b-versatile, deepseek"
+                />
+              </CardContent>
+              <CardFooter>
+                <Button
+                  variant="primary"
+                  onClick={createExperiment}
+                  isLoading={isCreating}
+                  disabled={isCreating || !form.name.trim() || (!form.promptTemplateId && !form.route.trim())}
+                >
+                  <Play className="w-4 h-4 mr-2" />
+                  Uruchom
+                </Button>
+              </CardFooter>
+            </Card>
+
+            {/* Experiments */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Eksperymenty</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {experiments.length === 0 && (
+                  <p className="text-sm text-gray-500">Brak eksperymentow</p>
+                )}
+                {experiments.map(experiment => (
+                  <div
+                    key={experiment.id}
+                    className={`p-3 rounded-lg border text-sm ${report?.experiment.id === experiment.id ? 'border-blue-400 bg-blue-50' : 'border-gray-200'}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <button type="button" onClick={() => showReport(experiment.id)} className="font-medium text-gray-900 text-left">
+                        {experiment.name}
+                      </button>
+                      {experiment.isActive ? <Badge variant="success">aktywny</Badge> : <Badge>zakonczony</Badge>}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {experiment.stage} | B: {Math.round(experiment.share * 100)}% | drafty: {experiment._count?.assignments ?? 0}
+                    </div>
+                    {experiment.isActive && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => stopExperiment(experiment.id)}
+                        isLoading={stoppingId === experiment.id}
+                        disabled={stoppingId !== null}
+                      >
+                        <Square className="w-4 h-4 mr-1" />
+                        Zatrzymaj
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Report */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>{report ? `Raport: ${report.experiment.name}` : 'Raport'}</CardTitle>
+              <CardDescription>
+                Akceptacja = srednia ocena co najmniej 4. Poprawki = odleglosc edycyjna miedzy tekstem AI a opublikowanym.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {!report ? (
+                <p className="text-sm text-gray-500">Wybierz eksperyment z listy</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-gray-700">
+                      <th className="py-2">Metryka</th>
+                      {report.variants.map(variant => (
+                        <th key={variant.variant} className="py-2">Wariant {variant.variant}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {[
+                      { label: 'Drafty', value: (v: ExperimentVariantReport) => String(v.drafts) },
+                      { label: 'Ocenione', value: (v: ExperimentVariantReport) => String(v.reviewed) },
+                      { label: 'Srednia ocena', value: (v: ExperimentVariantReport) => v.averageScore?.toFixed(2) ?? '-' },
+                      { label: 'Akceptacja', value: (v: ExperimentVariantReport) => percent(v.acceptanceRate) },
+                      { label: 'Opublikowane', value: (v: ExperimentVariantReport) => String(v.published) },
+                      { label: 'Poprawki', value: (v: ExperimentVariantReport) => percent(v.averageEditDistance) },
+                      { label: 'Tokeny', value: (v: ExperimentVariantReport) => v.totalTokens.toLocaleString('pl-PL') },
+                      { label: 'Koszt / draft', value: (v: ExperimentVariantReport) => v.costPerDraftUsd === null ? '-' : `$${v.costPerDraftUsd.toFixed(4)}` },
+                      {
+                        label: 'Powody',
+                        value: (v: ExperimentVariantReport) => Object.entries(v.reasons)
+                          .map(([reason, count]) => `${REVIEW_REASON_LABELS[reason as ReviewReason] || reason}: ${count}`)
+                          .join(', ') || '-',
+                      },
+                    ].map(row => (
+                      <tr key={row.label}>
+                        <td className="py-2 text-gray-500">{row.label}</td>
+                        {report.variants.map(variant => (
+                          <td key={variant.variant} className="py-2">{row.value(variant)}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,208 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import {
+  ArrowLeft,
+  FileSpreadsheet,
+  Upload,
+  CheckCircle2,
+  AlertCircle,
+  ChevronRight,
+} from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { apiUrl } from '@/lib/utils';
+
+// Types
+interface ImportResult {
+  success: boolean;
+  created: Array<{ line: number; draftId: string }>;
+  errors: Array<{ line: number; errors: string[] }>;
+  ignoredColumns: string[];
+  queued: number;
+}
+
+const LANGUAGE_OPTIONS = [
+  { value: 'de', label: 'Niemiecki (EUR)' },
+  { value: 'pl', label: 'Polski (PLN)' },
+  { value: 'en', label: 'Angielski' },
+];
+
+const EXAMPLE_HEADER = 'ean;sku;price;vat;brand;quantity;weight;categories;hint;images';
+
+export default function ImportPage() {
+  const router = useRouter();
+
+  // State
+  const [file, setFile] = useState<File | null>(null);
+  const [language, setLanguage] = useState('de');
+  const [queuePipeline, setQueuePipeline] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  // Upload sheet and create drafts
+  const runImport = async () => {
+    if (!file) return;
+
+    setIsImporting(true);
+    setResult(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('language', language);
+      formData.append('queuePipeline', String(queuePipeline));
+
+      const response = await fetch(apiUrl('/api/import'), {
+        method: 'POST',
+        body: formData,
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Blad importu');
+      }
+
+      setResult(data);
+
+      if (data.errors.length === 0) {
+        toast.success(`Zaimportowano ${data.created.length} produktow`);
+      } else {
+        toast.warning(`Zaimportowano ${data.created.length}, bledne wiersze: ${data.errors.length}`);
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Blad importu');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen p-4 md:p-8">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" onClick={() => router.push('/drafts')}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Wróc
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Import produktow</h1>
+            <p className="text-gray-500">Jeden wiersz arkusza = jeden draft</p>
+          </div>
+        </div>
+
+        {/* Upload */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileSpreadsheet className="w-5 h-5 text-green-500" />
+              Plik CSV lub XLSX
+            </CardTitle>
+            <CardDescription>
+              Kolumny: <code className="text-xs">{EXAMPLE_HEADER}</code>. Kilka zdjec rozdziel
+              znakiem | lub uzyj kolumn image1, image2, ...
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <input
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={e => {
+                setFile(e.target.files?.[0] || null);
+                setResult(null);
+              }}
+              className="crystal-input py-2 w-full"
+              disabled={isImporting}
+            />
+
+            <select
+              value={language}
+              onChange={e => setLanguage(e.target.value)}
+              className="crystal-input py-2 w-full"
+              disabled={isImporting}
+            >
+              {LANGUAGE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={queuePipeline}
+                onChange={e => setQueuePipeline(e.target.checked)}
+                disabled={isImporting}
+              />
+              Uruchom Pipeline AI dla wszystkich zaimportowanych draftow
+            </label>
+          </CardContent>
+          <CardFooter>
+            <Button
+              variant="primary"
+              onClick={runImport}
+              isLoading={isImporting}
+              disabled={!file || isImporting}
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Importuj
+            </Button>
+          </CardFooter>
+        </Card>
+
+        {/* Result */}
+        {result && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                {result.errors.length === 0 ? (
+                  <CheckCircle2 className="w-5 h-5 text-green-500" />
+                ) : (
+                  <AlertCircle className="w-5 h-5 text-amber-500" />
+                )}
+                Wynik importu
+              </CardTitle>
+              <CardDescription>
+                Utworzono: {result.created.length} | Bledne wiersze: {result.errors.length}
+                {result.queued > 0 && ` | W kolejce AI: ${result.queued}`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {result.ignoredColumns.length > 0 && (
+                <p className="text-sm text-gray-500">
+                  Pominiete kolumny: {result.ignoredColumns.join(', ')}
+                </p>
+              )}
+
+              {result.errors.length > 0 && (
+                <div className="space-y-2">
+                  {result.errors.map(rowError => (
+                    <div
+                      key={rowError.line}
+                      className="p-2 bg-red-50 rounded-lg border border-red-200 text-xs text-red-700"
+                    >
+                      <Badge variant="error">Wiersz {rowError.line}</Badge>{' '}
+                      {rowError.errors.join('; ')}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+            {result.created.length > 0 && (
+              <CardFooter>
+                <Button variant="outline" onClick={() => router.push('/drafts')}>
+                  Przejdz do draftow
+                  <ChevronRight className="w-4 h-4 ml-2" />
+                </Button>
+              </CardFooter>
+            )}
+          </Card>
+        )}
+      </div>
+    </main>
+  );
+}
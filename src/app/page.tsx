@@ -14,7 +14,8 @@ import { Input, Textarea } from '@/components/ui/Input';
 import { Badge } from '@/components/ui/Badge';
 import { ImageUploader } from '@/components/ImageUploader';
 import { LanguagePicker, DEFAULT_LANGUAGES, type Language } from '@/components/LanguagePicker';
-import { apiUrl } from '@/lib/utils';
+import { apiUrl, waitForPipelineJob, openPipelineEventStream, describePipelineEvent } from '@/lib/utils';
+import type { PipelineJobStatus, PipelineEventMessage, StageStatus } from '@/types/pipeline';
 import type { UnifiedProduct } from '@/types/unified-product';
 
 // Kategorie produktow
@@ -31,14 +32,30 @@ const PRODUCT_CATEGORIES = [
 
 type PipelineStage = 'idle' | 'uploading' | 'vision' | 'content' | 'validation' | 'completed' | 'failed';
 
+type StageRowStatus = 'pending' | 'running' | 'completed' | 'failed';
+
 interface PipelineProgress {
   stage: PipelineStage;
-  visionDone: boolean;
-  contentDone: boolean;
-  validationDone: boolean;
+  vision: StageRowStatus;
+  content: StageRowStatus;
+  validation: StageRowStatus;
+  activity?: string;
   error?: string;
 }
 
+const IDLE_PROGRESS: PipelineProgress = {
+  stage: 'idle',
+  vision: 'pending',
+  content: 'pending',
+  validation: 'pending',
+};
+
+// Skipped stages (e.g. vision on translation) count as done
+function toRowStatus(status: StageStatus | undefined): StageRowStatus {
+  if (!status) return 'pending';
+  return status === 'skipped' ? 'completed' : status;
+}
+
 export default function Home() {
   const router = useRouter();
 
@@ -59,12 +76,7 @@ export default function Home() {
   });
 
   // Pipeline state
-  const [pipelineProgress, setPipelineProgress] = useState<PipelineProgress>({
-    stage: 'idle',
-    visionDone: false,
-    contentDone: false,
-    validationDone: false,
-  });
+  const [pipelineProgress, setPipelineProgress] = useState<PipelineProgress>(IDLE_PROGRESS);
   const [draftId, setDraftId] = useState<string | null>(null);
   const [product, setProduct] = useState<UnifiedProduct | null>(null);
   const [editedProduct, setEditedProduct] = useState<UnifiedProduct | null>(null);
@@ -112,11 +124,13 @@ export default function Home() {
     }
 
     // Reset state
-    setPipelineProgress({ stage: 'uploading', visionDone: false, contentDone: false, validationDone: false });
+    setPipelineProgress({ ...IDLE_PROGRESS, stage: 'uploading' });
     setProduct(null);
     setEditedProduct(null);
     setDraftId(null);
 
+    let closeEvents = () => {};
+
     try {
       // Step 1: Upload images
       const formData = new FormData();
@@ -159,8 +173,9 @@ export default function Home() {
       setDraftId(uploadData.draft.id);
       toast.success('Zdjecia przeslane!');
 
-      // Step 2: Run AI Pipeline
+      // Step 2: Run AI Pipeline (rows follow the live events of the worker)
       setPipelineProgress(prev => ({ ...prev, stage: 'vision' }));
+      closeEvents = openPipelineEventStream(uploadData.draft.id, handlePipelineEvent);
 
       const pipelineResponse = await fetch(apiUrl('/api/pipeline'), {
         method: 'POST',
@@ -174,20 +189,30 @@ export default function Home() {
         throw new Error(pipelineData.error || 'Pipeline failed');
       }
 
+      // Wait for the background worker
+      const job = await waitForPipelineJob<PipelineJobStatus>(pipelineData.jobId);
+
+      if (job.status === 'FAILED') {
+        throw new Error(job.lastError || 'Pipeline failed');
+      }
+
       // Update progress based on result
       setPipelineProgress({
         stage: 'completed',
-        visionDone: pipelineData.pipelineResult?.stages?.vision?.status === 'completed',
-        contentDone: pipelineData.pipelineResult?.stages?.content?.status === 'completed',
-        validationDone: pipelineData.pipelineResult?.stages?.validation?.status === 'completed',
+        vision: toRowStatus(job.result?.stages?.vision?.status),
+        content: toRowStatus(job.result?.stages?.content?.status),
+        validation: toRowStatus(job.result?.stages?.validation?.status),
       });
 
-      if (pipelineData.draft?.product) {
+      const draftResponse = await fetch(apiUrl(`/api/drafts/${uploadData.draft.id}`));
+      const draftData = await draftResponse.json();
+
+      if (draftData.draft?.product) {
         // Apply currency from settings
         const productWithCurrency = {
-          ...pipelineData.draft.product,
+          ...draftData.draft.product,
           pricing: {
-            ...pipelineData.draft.product.pricing,
+            ...draftData.draft.product.pricing,
             currency: currency,
           }
         };
@@ -203,9 +228,37 @@ export default function Home() {
         error: error instanceof Error ? error.message : 'Nieznany blad'
       }));
       toast.error(error instanceof Error ? error.message : 'Blad pipeline');
+    } finally {
+      closeEvents();
     }
   };
 
+  // Update stage rows from a live pipeline event
+  const handlePipelineEvent = (event: PipelineEventMessage) => {
+    const activity = describePipelineEvent(event);
+
+    setPipelineProgress(prev => {
+      // Finished runs are shown from the job result
+      if (prev.stage === 'completed' || prev.stage === 'failed') return prev;
+
+      const next = activity ? { ...prev, activity } : { ...prev };
+
+      if (event.type === 'progress') {
+        next[event.stage] = toRowStatus(event.status);
+        if (event.status === 'running') {
+          next.stage = event.stage;
+        }
+      }
+
+      // A retry starts over from the first stage
+      if (event.type === 'job' && event.status === 'RUNNING' && event.attempt > 1) {
+        return { ...IDLE_PROGRESS, stage: 'vision', activity };
+      }
+
+      return next;
+    });
+  };
+
   // Save edited product
   const saveProduct = async () => {
     if (!draftId || !editedProduct) return;
@@ -276,7 +329,7 @@ export default function Home() {
       length: '',
       width: '',
     });
-    setPipelineProgress({ stage: 'idle', visionDone: false, contentDone: false, validationDone: false });
+    setPipelineProgress(IDLE_PROGRESS);
     setDraftId(null);
     setProduct(null);
     setEditedProduct(null);
@@ -489,27 +542,22 @@ export default function Home() {
                   />
                   <PipelineStageRow
                     label="Analiza obrazu (Vision AI)"
-                    status={
-                      pipelineProgress.stage === 'vision' ? 'running' :
-                      pipelineProgress.visionDone ? 'completed' : 'pending'
-                    }
+                    status={pipelineProgress.vision}
                   />
                   <PipelineStageRow
                     label="Generowanie tresci"
-                    status={
-                      pipelineProgress.stage === 'content' ? 'running' :
-                      pipelineProgress.contentDone ? 'completed' : 'pending'
-                    }
+                    status={pipelineProgress.content}
                   />
                   <PipelineStageRow
                     label="Walidacja"
-                    status={
-                      pipelineProgress.stage === 'validation' ? 'running' :
-                      pipelineProgress.validationDone ? 'completed' : 'pending'
-                    }
+                    status={pipelineProgress.validation}
                   />
                 </div>
 
+                {isPipelineRunning && pipelineProgress.activity && (
+                  <p className="text-xs text-gray-500 truncate">{pipelineProgress.activity}</p>
+                )}
+
                 {pipelineProgress.error && (
                   <div className="p-3 bg-red-50 rounded-lg border border-red-200">
                     <p className="text-sm text-red-700">{pipelineProgress.error}</p>
@@ -0,0 +1,386 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import {
+  ArrowLeft,
+  FileText,
+  History,
+  Save,
+  CheckCircle2,
+  Loader2,
+} from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { Input, Textarea } from '@/components/ui/Input';
+import { apiUrl } from '@/lib/utils';
+import type { PromptStage } from '@/types/prompts';
+
+// Types
+interface PromptTemplate {
+  id: string;
+  name: string;
+  stage: PromptStage;
+  language: string;
+  shop: string;
+  version: number;
+  systemPrompt: string;
+  userPrompt: string;
+  isActive: boolean;
+  note: string | null;
+  createdAt: string;
+}
+
+interface PromptsResponse {
+  templates: PromptTemplate[];
+  stages: PromptStage[];
+  placeholders: Record<PromptStage, string[]>;
+  shop: string;
+}
+
+interface EditorState {
+  stage: PromptStage;
+  language: string;
+  shop: string;
+  name: string;
+  systemPrompt: string;
+  userPrompt: string;
+  note: string;
+  activate: boolean;
+}
+
+const STAGE_LABELS: Record<PromptStage, string> = {
+  vision: 'Analiza zdjec (vision)',
+  content: 'Tresci standardowe (content)',
+  viamall: 'Tresci ViaMall (viamall)',
+};
+
+const LANGUAGE_OPTIONS = [
+  { value: '*', label: 'Kazdy jezyk' },
+  { value: 'de', label: 'Niemiecki' },
+  { value: 'pl', label: 'Polski' },
+  { value: 'en', label: 'Angielski' },
+];
+
+// Template key: stage + language + shop
+function templateKey(template: { stage: string; language: string; shop: string }): string {
+  return `${template.stage}/${template.language}/${template.shop}`;
+}
+
+function toEditor(template: PromptTemplate): EditorState {
+  return {
+    stage: template.stage,
+    language: template.language,
+    shop: template.shop,
+    name: template.name,
+    systemPrompt: template.systemPrompt,
+    userPrompt: template.userPrompt,
+    note: '',
+    activate: true,
+  };
+}
+
+export default function PromptsPage() {
+  const router = useRouter();
+
+  // State
+  const [data, setData] = useState<PromptsResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [activatingId, setActivatingId] = useState<string | null>(null);
+
+  // Load all versions
+  const fetchPrompts = useCallback(async () => {
+    try {
+      const response = await fetch(apiUrl('/api/prompts'));
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Nie udalo sie pobrac promptow');
+      }
+
+      setData(result);
+      return result as PromptsResponse;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Nieznany blad');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPrompts().then(result => {
+      const first = result?.templates.find(template => template.isActive);
+      if (first) {
+        setSelectedKey(templateKey(first));
+        setEditor(toEditor(first));
+      }
+    });
+  }, [fetchPrompts]);
+
+  // Versions grouped by template, newest first (API order)
+  const groups = new Map<string, PromptTemplate[]>();
+  for (const template of data?.templates || []) {
+    const key = templateKey(template);
+    groups.set(key, [...(groups.get(key) || []), template]);
+  }
+  const versions = selectedKey ? groups.get(selectedKey) || [] : [];
+
+  const selectTemplate = (key: string) => {
+    const group = groups.get(key) || [];
+    const active = group.find(template => template.isActive) || group[0];
+    setSelectedKey(key);
+    if (active) {
+      setEditor(toEditor(active));
+    }
+  };
+
+  // Store the editor content as a new version
+  const saveVersion = async () => {
+    if (!editor) return;
+
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(apiUrl('/api/prompts'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...editor, note: editor.note || undefined }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Blad zapisu');
+      }
+
+      await fetchPrompts();
+      setSelectedKey(templateKey(result.template));
+      setEditor(toEditor(result.template));
+      toast.success(`Zapisano wersje ${result.template.version}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Blad zapisu');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Switch the active version (e.g. roll back)
+  const activateVersion = async (id: string) => {
+    setActivatingId(id);
+
+    try {
+      const response = await fetch(apiUrl(`/api/prompts/${id}/activate`), { method: 'POST' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Blad aktywacji');
+      }
+
+      await fetchPrompts();
+      toast.success(`Aktywna wersja: ${result.template.version}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Blad aktywacji');
+    } finally {
+      setActivatingId(null);
+    }
+  };
+
+  // Loading state
+  if (loading) {
+    return (
+      <main className="min-h-screen p-4 md:p-8">
+        <div className="max-w-7xl mx-auto">
+          <div className="flex items-center justify-center h-64">
+            <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen p-4 md:p-8">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" onClick={() => router.push('/drafts')}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Wróc
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Prompty AI</h1>
+            <p className="text-gray-500">
+              Wersjonowane szablony per etap, jezyk i sklep (sklep pipeline: <code>{data?.shop}</code>)
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Templates and versions */}
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <FileText className="w-5 h-5 text-blue-500" />
+                  Szablony
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {Array.from(groups.entries()).map(([key, group]) => {
+                  const active = group.find(template => template.isActive);
+                  return (
+                    <button
+                      key={key}
+                      type="button"
+                      onClick={() => selectTemplate(key)}
+                      className={`w-full text-left p-3 rounded-lg border text-sm ${key === selectedKey ? 'border-blue-400 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'}`}
+                    >
+                      <div className="font-medium text-gray-900">{group[0].name}</div>
+                      <div className="text-xs text-gray-500">
+                        {STAGE_LABELS[group[0].stage]} | jezyk: {group[0].language} | sklep: {group[0].shop}
+                        {active ? ` | aktywna v${active.version}` : ' | brak aktywnej wersji'}
+                      </div>
+                    </button>
+                  );
+                })}
+              </CardContent>
+            </Card>
+
+            {versions.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <History className="w-5 h-5 text-purple-500" />
+                    Wersje
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {versions.map(template => (
+                    <div key={template.id} className="flex items-center justify-between gap-2 p-2 rounded-lg bg-gray-50 text-sm">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">v{template.version}</span>
+                          {template.isActive && <Badge variant="success">aktywna</Badge>}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {new Date(template.createdAt).toLocaleString('pl-PL')}
+                          {template.note && ` - ${template.note}`}
+                        </div>
+                      </div>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => setEditor(toEditor(template))}>
+                          Edytuj
+                        </Button>
+                        {!template.isActive && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => activateVersion(template.id)}
+                            isLoading={activatingId === template.id}
+                            disabled={activatingId !== null}
+                          >
+                            <CheckCircle2 className="w-4 h-4 mr-1" />
+                            Aktywuj
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          {/* Editor */}
+          {editor && data && (
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Nowa wersja</CardTitle>
+                <CardDescription>
+                  Dostepne zmienne: {data.placeholders[editor.stage].map(name => `{{${name}}}`).join(', ')}.
+                  Inny jezyk lub sklep tworzy osobny szablon.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <select
+                    value={editor.stage}
+                    onChange={e => setEditor({ ...editor, stage: e.target.value as PromptStage })}
+                    className="crystal-input py-2 w-full"
+                  >
+                    {data.stages.map(stage => (
+                      <option key={stage} value={stage}>{STAGE_LABELS[stage]}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={editor.language}
+                    onChange={e => setEditor({ ...editor, language: e.target.value })}
+                    className="crystal-input py-2 w-full"
+                  >
+                    {LANGUAGE_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                  <Input
+                    value={editor.shop}
+                    onChange={e => setEditor({ ...editor, shop: e.target.value })}
+                    placeholder="Sklep (* = kazdy)"
+                  />
+                </div>
+
+                <Input
+                  label="Nazwa"
+                  value={editor.name}
+                  onChange={e => setEditor({ ...editor, name: e.target.value })}
+                />
+                <Textarea
+                  label="System prompt"
+                  value={editor.systemPrompt}
+                  onChange={e => setEditor({ ...editor, systemPrompt: e.target.value })}
+                  className="w-full min-h-[160px] font-mono text-xs"
+                />
+                <Textarea
+                  label="User prompt"
+                  value={editor.userPrompt}
+                  onChange={e => setEditor({ ...editor, userPrompt: e.target.value })}
+                  className="w-full min-h-[320px] font-mono text-xs"
+                />
+                <Input
+                  label="Notatka (opcjonalnie)"
+                  value={editor.note}
+                  onChange={e => setEditor({ ...editor, note: e.target.value })}
+                  placeholder="Co sie zmienilo?"
+                />
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={editor.activate}
+                    onChange={e => setEditor({ ...editor, activate: e.target.checked })}
+                  />
+                  Uzywaj tej wersji od razu
+                </label>
+              </CardContent>
+              <CardFooter>
+                <Button
+                  variant="primary"
+                  onClick={saveVersion}
+                  isLoading={isSaving}
+                  disabled={isSaving || !editor.name.trim()}
+                >
+                  <Save className="w-4 h-4 mr-2" />
+                  Zapisz nowa wersje
+                </Button>
+              </CardFooter>
+            </Card>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
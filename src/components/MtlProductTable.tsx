@@ -7,9 +7,12 @@ import {
   Link2,
   Tag,
   Hash,
+  Sparkles,
+  Loader2,
 } from 'lucide-react';
 import { Input, Textarea } from '@/components/ui/Input';
 import type { UnifiedProduct } from '@/types/unified-product';
+import type { RegenerableField } from '@/types/regeneration';
 
 // Language config
 const LANGUAGES = {
@@ -52,6 +55,9 @@ function MtlRow({
   large = false,
   readonly = false,
   mono = false,
+  onRegenerate,
+  isRegenerating = false,
+  regenerateDisabled = false,
 }: {
   icon: React.ReactNode;
   label: string;
@@ -64,6 +70,9 @@ function MtlRow({
   large?: boolean;
   readonly?: boolean;
   mono?: boolean;
+  onRegenerate?: () => void;
+  isRegenerating?: boolean;
+  regenerateDisabled?: boolean;
 }) {
   return (
     <tr className="hover:bg-gray-50/50">
@@ -75,6 +84,22 @@ function MtlRow({
               {label}
             </code>
             <p className="text-xs text-gray-500 mt-1">{description}</p>
+            {onRegenerate && !isEditing && (
+              <button
+                type="button"
+                onClick={onRegenerate}
+                disabled={isRegenerating || regenerateDisabled}
+                title="Wygeneruj ponownie (AI)"
+                className="mt-2 inline-flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isRegenerating ? (
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                ) : (
+                  <Sparkles className="w-3 h-3" />
+                )}
+                Generuj ponownie
+              </button>
+            )}
           </div>
         </div>
       </td>
@@ -110,6 +135,9 @@ interface MtlProductTableProps {
   isEditing: boolean;
   language: LanguageCode;
   onFieldChange: (field: string, value: string) => void;
+  // Regenerate one field with AI (buttons hidden without it)
+  onRegenerate?: (field: RegenerableField) => void;
+  regeneratingField?: RegenerableField | null;
 }
 
 export function MtlProductTable({
@@ -118,9 +146,18 @@ export function MtlProductTable({
   isEditing,
   language,
   onFieldChange,
+  onRegenerate,
+  regeneratingField = null,
 }: MtlProductTableProps) {
   const langConfig = LANGUAGES[language] || LANGUAGES.de;
 
+  // Button props for a row; one regeneration at a time
+  const regenerate = (field: RegenerableField) => onRegenerate ? {
+    onRegenerate: () => onRegenerate(field),
+    isRegenerating: regeneratingField === field,
+    regenerateDisabled: regeneratingField !== null,
+  } : {};
+
   return (
     <div className="border rounded-lg overflow-hidden">
       <table className="w-full">
@@ -147,6 +184,7 @@ export function MtlProductTable({
             value={product.name}
             editValue={editedProduct?.name || ''}
             onChange={(v) => onFieldChange('name', v)}
+            {...regenerate('name')}
           />
 
           {/* Description Short */}
@@ -158,6 +196,7 @@ export function MtlProductTable({
             value={product.description.short}
             editValue={editedProduct?.description?.short || ''}
             onChange={(v) => onFieldChange('description.short', v)}
+            {...regenerate('description.short')}
             multiline
           />
 
@@ -170,6 +209,7 @@ export function MtlProductTable({
             value={product.description.long}
             editValue={editedProduct?.description?.long || ''}
             onChange={(v) => onFieldChange('description.long', v)}
+            {...regenerate('description.long')}
             multiline
             large
           />
@@ -196,6 +236,7 @@ export function MtlProductTable({
             value={product.seo.title}
             editValue={editedProduct?.seo?.title || ''}
             onChange={(v) => onFieldChange('seo.title', v)}
+            {...regenerate('seo.title')}
           />
 
           {/* Meta Description */}
@@ -207,6 +248,7 @@ export function MtlProductTable({
             value={product.seo.description}
             editValue={editedProduct?.seo?.description || ''}
             onChange={(v) => onFieldChange('seo.description', v)}
+            {...regenerate('seo.description')}
             multiline
           />
 
@@ -219,6 +261,7 @@ export function MtlProductTable({
             value={(product.seo.keywords || []).join(', ')}
             editValue={(editedProduct?.seo?.keywords || []).join(', ')}
             onChange={(v) => onFieldChange('seo.keywords', v)}
+            {...regenerate('seo.keywords')}
           />
         </tbody>
       </table>
@@ -0,0 +1,10 @@
+// Next.js instrumentation hook
+// Starts the background pipeline worker once per Node.js server process
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+  if (process.env.PIPELINE_WORKER_ENABLED === 'false') return;
+
+  const { startPipelineWorker } = await import('@/services/jobs/worker');
+  await startPipelineWorker();
+}
@@ -2,6 +2,7 @@
 
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import type { PipelineEventMessage } from '@/types/pipeline';
 
 /**
  * Merge Tailwind CSS classes with clsx
@@ -170,3 +171,80 @@ export function apiUrl(path: string): string {
   const normalizedPath = path.startsWith('/') ? path : `/${path}`;
   return `${basePath}${normalizedPath}`;
 }
+
+/**
+ * Poll a pipeline job until it is COMPLETED or FAILED
+ */
+export async function waitForPipelineJob<TJob extends { status: string }>(
+  jobId: string,
+  options: { intervalMs?: number; timeoutMs?: number; onUpdate?: (job: TJob) => void } = {}
+): Promise<TJob> {
+  const { intervalMs = 2000, timeoutMs = 15 * 60 * 1000, onUpdate } = options;
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    const response = await fetch(apiUrl(`/api/jobs/${jobId}`));
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Nie udalo sie pobrac statusu zadania');
+    }
+
+    onUpdate?.(data.job);
+
+    if (data.done) {
+      return data.job;
+    }
+
+    await sleep(intervalMs);
+  }
+
+  throw new Error('Przekroczono czas oczekiwania na pipeline');
+}
+
+/**
+ * Listen to live pipeline events of a draft (Server-Sent Events).
+ * Returns a function that closes the stream.
+ */
+export function openPipelineEventStream(
+  draftId: string,
+  onEvent: (event: PipelineEventMessage) => void
+): () => void {
+  const source = new EventSource(apiUrl(`/api/pipeline/${draftId}/events`));
+
+  source.onmessage = message => {
+    const event = safeJsonParse<PipelineEventMessage | null>(message.data, null);
+    if (event) {
+      onEvent(event);
+    }
+  };
+
+  return () => source.close();
+}
+
+/**
+ * Short status line for a live pipeline event (undefined if nothing to show)
+ */
+export function describePipelineEvent(event: PipelineEventMessage): string | undefined {
+  switch (event.type) {
+    case 'provider': {
+      const kind = event.kind === 'vision' ? 'analiza obrazu' : 'tekst';
+      if (event.status === 'trying') return `${event.providerName}: ${kind}...`;
+      if (event.status === 'skipped') return `${event.providerName} pominiety (chwilowo niedostepny)`;
+      if (event.status === 'failed') return `${event.providerName} nie odpowiada (${event.error}) - probuje kolejnego`;
+      return `${event.providerName}: gotowe (${((event.latencyMs || 0) / 1000).toFixed(1)}s)`;
+    }
+    case 'job':
+      if (event.status === 'QUEUED' && event.attempt === 0) return 'W kolejce...';
+      if (event.status === 'QUEUED') {
+        const retryAt = event.retryAt ? new Date(event.retryAt).toLocaleTimeString() : '';
+        return `Proba ${event.attempt}/${event.maxAttempts} nieudana, ponowienie o ${retryAt}`;
+      }
+      if (event.status === 'RUNNING' && event.attempt > 1) return `Proba ${event.attempt}/${event.maxAttempts}...`;
+      return undefined;
+    case 'progress':
+      return event.message;
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,53 @@
+// Category Ranking Prompts
+// Picks the shop category for each AI suggestion from the fuzzy-matched category paths
+
+export const CATEGORY_RANKING_SYSTEM_PROMPT = `You are an e-commerce catalog manager.
+
+You assign products to the categories of an existing shop:
+- Choose only from the listed candidate categories, by their ID
+- Prefer the most specific category that fits the product
+- Answer null for a suggestion when no candidate fits
+
+You MUST respond with a valid JSON object (no markdown, no code blocks, just raw JSON).`;
+
+export const CATEGORY_RANKING_USER_PROMPT = `Choose the shop category for each category suggestion of this product.
+
+## Product
+Name: {{NAME}}
+{{PRODUCT_TYPE}}
+
+## Suggestions and candidate categories
+{{SUGGESTIONS}}
+
+Respond with this exact JSON structure (one entry per suggestion, same order):
+{
+  "matches": [{ "suggestion": 1, "categoryId": "12" }]
+}`;
+
+export interface CategoryRankingPromptData {
+  name: string;
+  productType?: string;
+  suggestions: Array<{
+    suggestion: string;
+    candidates: Array<{ categoryId: string; path: string }>;
+  }>;
+}
+
+export function buildCategoryRankingPrompt(data: CategoryRankingPromptData): {
+  systemPrompt: string;
+  userPrompt: string;
+} {
+  const suggestions = data.suggestions
+    .map((item, index) => [
+      `${index + 1}. "${item.suggestion}"`,
+      ...item.candidates.map(candidate => `   - ${candidate.categoryId}: ${candidate.path}`),
+    ].join('\n'))
+    .join('\n\n');
+
+  const userPrompt = CATEGORY_RANKING_USER_PROMPT
+    .replace('{{NAME}}', data.name)
+    .replace('{{PRODUCT_TYPE}}', data.productType ? `Product type: ${data.productType}` : '')
+    .replace('{{SUGGESTIONS}}', suggestions);
+
+  return { systemPrompt: CATEGORY_RANKING_SYSTEM_PROMPT, userPrompt };
+}
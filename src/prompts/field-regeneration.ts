@@ -0,0 +1,147 @@
+// Field Regeneration Prompts
+// Rewrites a single section of an existing product listing, keeping the rest as context
+
+import { TRANSLATION_LANGUAGE_NAMES } from './translation';
+import type { RegenerableField } from '@/types/regeneration';
+
+export const FIELD_REGENERATION_SYSTEM_PROMPT = `You are an expert e-commerce copywriter for viaMall product listings.
+
+You rewrite exactly one field of an existing product listing:
+- Stay consistent with the rest of the listing (brand, model, facts, tone)
+- Do not invent features that are neither in the listing nor in the product analysis
+- Keep brand names, model numbers, sizes and units unchanged
+- Follow the user's instruction when one is given
+
+You MUST respond with a valid JSON object (no markdown, no code blocks, just raw JSON).`;
+
+export const FIELD_REGENERATION_USER_PROMPT = `Rewrite the {{FIELD_LABEL}} of this product listing. Write in {{LANGUAGE}}.
+
+## Current listing
+Name: {{NAME}}
+
+Short description (HTML):
+{{SHORT_DESCRIPTION}}
+
+{{PRODUCT_CONTEXT}}
+
+## Current {{FIELD_LABEL}}
+{{CURRENT_VALUE}}
+
+## Requirements
+{{FIELD_RULES}}
+{{INSTRUCTION}}
+
+Respond with this exact JSON structure:
+{
+  "value": {{VALUE_EXAMPLE}}
+}`;
+
+interface FieldPrompt {
+  label: string;
+  rules: string;
+  viamallRules?: string; // Replaces rules in the ViaMall format
+  example: string;
+}
+
+const FIELD_PROMPTS: Record<RegenerableField, FieldPrompt> = {
+  name: {
+    label: 'product name',
+    rules: '- 40-120 characters\n- Brand and product type first, then the most important variant details',
+    viamallRules: '- 60-120 characters\n- Format: [Brand] [Product name] [Variant/Size] [Color] | [Main benefit]',
+    example: '"New product name"',
+  },
+  'description.short': {
+    label: 'short description',
+    rules: '- HTML, 150-500 characters\n- The main benefits in 2-3 sentences',
+    viamallRules: '- HTML, 300-500 characters\n- One intro line <p><strong>...</strong></p>, then 4 bullets <p>✅ <strong>[Feature]:</strong> [Description]</p>',
+    example: '"<p>...</p>"',
+  },
+  'description.long': {
+    label: 'long description',
+    rules: '- HTML, 800-1500 characters\n- <h2> with the product name, intro paragraph, <h3> sections with a feature list and a technical data table',
+    example: '"<h2>...</h2><p>...</p>"',
+  },
+  'seo.title': {
+    label: 'SEO title',
+    rules: '- Plain text, at most 70 characters\n- Main keyword first',
+    example: '"SEO title"',
+  },
+  'seo.description': {
+    label: 'SEO meta description',
+    rules: '- Plain text, at most 160 characters\n- Main keyword and a call to action',
+    example: '"Meta description"',
+  },
+  'seo.keywords': {
+    label: 'SEO keywords',
+    rules: '- 5-10 search phrases customers would type, lowercase\n- No duplicates',
+    example: '["keyword 1", "keyword 2"]',
+  },
+  tags: {
+    label: 'tags',
+    rules: '- 5-10 short tags for shop search, lowercase\n- No duplicates',
+    example: '["tag1", "tag2"]',
+  },
+  'images.alt': {
+    label: 'image alt texts',
+    rules: '- Exactly {{IMAGE_COUNT}} alt texts, one per product image, in image order\n- Describe what the image shows, at most 125 characters each',
+    example: '["Alt text for image 1"]',
+  },
+};
+
+export interface FieldRegenerationPromptData {
+  field: RegenerableField;
+  language: 'de' | 'pl' | 'en';
+  name: string;
+  shortDescription: string;
+  currentValue: string | string[];
+  instruction?: string;
+  imageCount: number;
+  // Stored vision analysis
+  productType?: string;
+  brand?: string;
+  colors?: string[];
+  materials?: string[];
+  features?: string[];
+  // ViaMall conventions (emoji bullets, "| benefit" names)
+  useViaMallFormat?: boolean;
+}
+
+export function getFieldLabel(field: RegenerableField): string {
+  return FIELD_PROMPTS[field].label;
+}
+
+export function buildFieldRegenerationPrompt(data: FieldRegenerationPromptData): {
+  systemPrompt: string;
+  userPrompt: string;
+} {
+  const prompt = FIELD_PROMPTS[data.field];
+
+  const contextItems: string[] = [];
+  if (data.productType) contextItems.push(`- Product type: ${data.productType}`);
+  if (data.brand) contextItems.push(`- Brand: ${data.brand}`);
+  if (data.colors && data.colors.length > 0) contextItems.push(`- Colors: ${data.colors.join(', ')}`);
+  if (data.materials && data.materials.length > 0) contextItems.push(`- Materials: ${data.materials.join(', ')}`);
+  if (data.features && data.features.length > 0) contextItems.push(`- Features: ${data.features.join(', ')}`);
+
+  const currentValue = Array.isArray(data.currentValue)
+    ? data.currentValue.map(item => `- ${item}`).join('\n')
+    : data.currentValue;
+
+  const rules = (data.useViaMallFormat && prompt.viamallRules) || prompt.rules;
+
+  const userPrompt = FIELD_REGENERATION_USER_PROMPT
+    .replace(/{{FIELD_LABEL}}/g, prompt.label)
+    .replace('{{LANGUAGE}}', TRANSLATION_LANGUAGE_NAMES[data.language])
+    .replace('{{NAME}}', data.name)
+    .replace('{{SHORT_DESCRIPTION}}', data.shortDescription)
+    .replace(
+      '{{PRODUCT_CONTEXT}}',
+      contextItems.length > 0 ? `## Product analysis\n${contextItems.join('\n')}` : ''
+    )
+    .replace('{{CURRENT_VALUE}}', currentValue || '(empty)')
+    .replace('{{FIELD_RULES}}', rules.replace('{{IMAGE_COUNT}}', String(data.imageCount)))
+    .replace('{{INSTRUCTION}}', data.instruction ? `- User instruction: ${data.instruction}` : '')
+    .replace('{{VALUE_EXAMPLE}}', prompt.example);
+
+  return { systemPrompt: FIELD_REGENERATION_SYSTEM_PROMPT, userPrompt };
+}
@@ -1,6 +1,8 @@
 // Product Content Generation Prompts for Viamall Product Creator
 // Optimized for garden products, fences, mats, mattresses, beds
 
+import { renderPromptTemplate, type PromptTemplateText } from './template';
+
 export const CONTENT_SYSTEM_PROMPT = `You are an expert e-commerce copywriter specializing in creating compelling product listings for garden and home products.
 
 You write content for viamall.pl - a German e-commerce store selling:
@@ -138,36 +140,54 @@ export interface ContentPromptData {
   imageCount?: number;
 }
 
-export function buildContentPrompt(data: ContentPromptData): {
-  systemPrompt: string;
-  userPrompt: string;
-} {
-  const languageMap = {
-    pl: 'Polish (Polski)',
-    en: 'English',
-    de: 'German (Deutsch)',
-  };
+const LANGUAGE_LABELS = {
+  pl: 'Polish (Polski)',
+  en: 'English',
+  de: 'German (Deutsch)',
+};
 
-  const languageNameMap = {
-    pl: 'Polish',
-    en: 'English',
-    de: 'German',
-  };
+const LANGUAGE_NAMES = {
+  pl: 'Polish',
+  en: 'English',
+  de: 'German',
+};
 
-  const currencyMap = {
-    pl: 'PLN',
-    en: 'EUR',
-    de: 'EUR',
-  };
+const CURRENCIES = {
+  pl: 'PLN',
+  en: 'EUR',
+  de: 'EUR',
+};
+
+/**
+ * Built-in system prompt of a language (German has its own, the others
+ * fill language and currency into CONTENT_SYSTEM_PROMPT)
+ */
+export function getContentSystemPrompt(language: 'pl' | 'en' | 'de'): string {
+  if (language === 'de') {
+    return CONTENT_SYSTEM_PROMPT_DE;
+  }
+
+  return renderPromptTemplate(CONTENT_SYSTEM_PROMPT, {
+    LANGUAGE: LANGUAGE_LABELS[language],
+    CURRENCY: CURRENCIES[language],
+  });
+}
 
+/**
+ * Prompts for the content stage; template is the active registry version
+ * (services/prompts), the constants above without one
+ */
+export function buildContentPrompt(
+  data: ContentPromptData,
+  template?: PromptTemplateText
+): {
+  systemPrompt: string;
+  userPrompt: string;
+} {
   const lang = data.language || 'de';
 
-  // Use German-specific prompt for German
-  const systemPrompt = lang === 'de'
-    ? CONTENT_SYSTEM_PROMPT_DE
-    : CONTENT_SYSTEM_PROMPT
-        .replace('{{LANGUAGE}}', languageMap[lang])
-        .replace('{{CURRENCY}}', currencyMap[lang]);
+  const systemPrompt = template?.systemPrompt ?? getContentSystemPrompt(lang);
+  const userTemplate = template?.userPrompt ?? CONTENT_USER_PROMPT;
 
   // Build dimensions string
   const dimensions: string[] = [];
@@ -176,45 +196,28 @@ export function buildContentPrompt(data: ContentPromptData): {
   if (data.rawData?.width) dimensions.push(`Breite: ${data.rawData.width} cm`);
   const dimensionsStr = dimensions.length > 0 ? dimensions.join(', ') : 'Not specified';
 
-  let userPrompt = CONTENT_USER_PROMPT
-    .replace('{{PRODUCT_TYPE}}', data.productType)
-    .replace('{{CATEGORY}}', data.rawData?.category || data.categories.join(' > ') || 'Not specified')
-    .replace('{{BRAND}}', data.brand || data.rawData?.brand || 'Not specified')
-    .replace('{{MATERIALS}}', data.rawData?.material || data.materials.join(', ') || 'Not specified')
-    .replace('{{DIMENSIONS}}', dimensionsStr)
-    .replace('{{FEATURES}}', data.features.join(', ') || 'Not specified')
-    .replace('{{LANGUAGE_NAME}}', languageNameMap[lang]);
-
   // Add raw data if available
-  if (data.rawData) {
-    const rawDataEntries = Object.entries(data.rawData)
-      .filter(([key, v]) => v !== undefined && !['category', 'material', 'height', 'length', 'width'].includes(key))
-      .map(([k, v]) => {
-        const labelMap: Record<string, string> = {
-          ean: 'EAN Code',
-          priceGross: 'Price (gross)',
-          brand: 'Brand',
-        };
-        return `- ${labelMap[k] || k}: ${v}`;
-      });
-
-    userPrompt = userPrompt.replace(
-      '{{RAW_DATA}}',
-      rawDataEntries.length > 0 ? `\n## Additional Data\n${rawDataEntries.join('\n')}` : ''
-    );
-  } else {
-    userPrompt = userPrompt.replace('{{RAW_DATA}}', '');
-  }
-
-  // Add user hint if available
-  if (data.userHint && data.userHint.trim()) {
-    userPrompt = userPrompt.replace(
-      '{{USER_HINT}}',
-      `\n## User Note\n"${data.userHint}"`
-    );
-  } else {
-    userPrompt = userPrompt.replace('{{USER_HINT}}', '');
-  }
+  const labelMap: Record<string, string> = {
+    ean: 'EAN Code',
+    priceGross: 'Price (gross)',
+    brand: 'Brand',
+  };
+  const rawDataEntries = Object.entries(data.rawData || {})
+    .filter(([key, v]) => v !== undefined && !['category', 'material', 'height', 'length', 'width'].includes(key))
+    .map(([k, v]) => `- ${labelMap[k] || k}: ${v}`);
+
+  const userPrompt = renderPromptTemplate(userTemplate, {
+    PRODUCT_TYPE: data.productType,
+    CATEGORY: data.rawData?.category || data.categories.join(' > ') || 'Not specified',
+    BRAND: data.brand || data.rawData?.brand || 'Not specified',
+    MATERIALS: data.rawData?.material || data.materials.join(', ') || 'Not specified',
+    DIMENSIONS: dimensionsStr,
+    FEATURES: data.features.join(', ') || 'Not specified',
+    LANGUAGE_NAME: LANGUAGE_NAMES[lang],
+    RAW_DATA: rawDataEntries.length > 0 ? `\n## Additional Data\n${rawDataEntries.join('\n')}` : '',
+    // Add user hint if available
+    USER_HINT: data.userHint && data.userHint.trim() ? `\n## User Note\n"${data.userHint}"` : '',
+  });
 
   return { systemPrompt, userPrompt };
 }
@@ -0,0 +1,26 @@
+// Prompt Templates - {{PLACEHOLDER}} rendering shared by the prompt builders
+// Templates come from the prompt registry (services/prompts) or the constants in this folder
+
+const PLACEHOLDER = /{{([A-Z0-9_]+)}}/g;
+
+// Stored template text (system + user prompt)
+export interface PromptTemplateText {
+  systemPrompt: string;
+  userPrompt: string;
+}
+
+/**
+ * Replace every {{NAME}} that has a value; unknown placeholders stay as they are
+ */
+export function renderPromptTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(PLACEHOLDER, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match
+  );
+}
+
+/**
+ * Placeholder names used in a template, in order of first use
+ */
+export function findPlaceholders(template: string): string[] {
+  return Array.from(new Set(Array.from(template.matchAll(PLACEHOLDER), match => match[1])));
+}
@@ -0,0 +1,101 @@
+// Translation Prompts
+// Translates existing product content into another language without re-running vision
+
+export const TRANSLATION_LANGUAGE_NAMES: Record<'de' | 'pl' | 'en', string> = {
+  de: 'German',
+  pl: 'Polish',
+  en: 'English',
+};
+
+export const TRANSLATION_SYSTEM_PROMPT = `You are a professional e-commerce translator for viaMall product listings.
+
+You translate product content so it reads as if it was written natively in the target language:
+- Translate meaning, not word for word
+- Keep brand names, model numbers, sizes and units unchanged
+- Keep every HTML tag, its order and its nesting exactly as in the source
+- Keep every emoji (for example ✅) in the same position
+- Do not add or remove sections, bullets or table rows
+
+You MUST respond with a valid JSON object (no markdown, no code blocks, just raw JSON).`;
+
+export const TRANSLATION_USER_PROMPT = `Translate the following product content from {{SOURCE_LANGUAGE}} to {{TARGET_LANGUAGE}}.
+
+## Source content
+Name: {{NAME}}
+
+Short description (HTML):
+{{SHORT_DESCRIPTION}}
+
+Long description (HTML):
+{{LONG_DESCRIPTION}}
+
+{{PRODUCT_CONTEXT}}
+
+## Rules
+1. **Name**: keep the format of the source name{{NAME_FORMAT}}
+2. **Short description**: same HTML structure{{BULLET_FORMAT}}
+3. **Long description**: same HTML structure, translate headings and table labels
+4. **Slug** (URL-friendly, built from the translated name):
+   - Lowercase
+   - No spaces (use -)
+   - No umlauts or diacritics (ae instead of ä, oe instead of ö, ue instead of ü, ss instead of ß, a instead of ą)
+
+Respond with this exact JSON structure:
+{
+  "name": "Translated product name",
+  "shortDescription": "<p>...</p>",
+  "longDescription": "<h2>...</h2><p>...</p>",
+  "slug": "translated-url-slug"
+}`;
+
+export interface TranslationPromptData {
+  sourceLanguage: 'de' | 'pl' | 'en';
+  targetLanguage: 'de' | 'pl' | 'en';
+  name: string;
+  shortDescription: string;
+  longDescription: string;
+  // Stored vision analysis, used as context for ambiguous terms
+  productType?: string;
+  materials?: string[];
+  colors?: string[];
+  // Target uses ViaMall conventions (emoji bullets, "| benefit" names)
+  useViaMallFormat?: boolean;
+}
+
+export interface TranslationResult {
+  name: string;
+  shortDescription: string;
+  longDescription: string;
+  slug: string;
+}
+
+export function buildTranslationPrompt(data: TranslationPromptData): {
+  systemPrompt: string;
+  userPrompt: string;
+} {
+  const contextItems: string[] = [];
+  if (data.productType) contextItems.push(`- Product type: ${data.productType}`);
+  if (data.materials && data.materials.length > 0) contextItems.push(`- Materials: ${data.materials.join(', ')}`);
+  if (data.colors && data.colors.length > 0) contextItems.push(`- Colors: ${data.colors.join(', ')}`);
+
+  const userPrompt = TRANSLATION_USER_PROMPT
+    .replace('{{SOURCE_LANGUAGE}}', TRANSLATION_LANGUAGE_NAMES[data.sourceLanguage])
+    .replace('{{TARGET_LANGUAGE}}', TRANSLATION_LANGUAGE_NAMES[data.targetLanguage])
+    .replace('{{NAME}}', data.name)
+    .replace('{{SHORT_DESCRIPTION}}', data.shortDescription)
+    .replace('{{LONG_DESCRIPTION}}', data.longDescription)
+    .replace(
+      '{{PRODUCT_CONTEXT}}',
+      contextItems.length > 0 ? `## Product context\n${contextItems.join('\n')}` : ''
+    )
+    .replace(
+      '{{NAME_FORMAT}}',
+      data.useViaMallFormat ? ' ([Brand] [Product name] [Variant] [Color] | [Main benefit])' : ''
+    )
+    .replace(
+      '{{BULLET_FORMAT}}',
+      data.useViaMallFormat ? ', one <p>✅ <strong>[Feature]:</strong> [Description]</p> per bullet' : ''
+    );
+
+  return { systemPrompt: TRANSLATION_SYSTEM_PROMPT, userPrompt };
+}
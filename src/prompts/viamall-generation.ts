@@ -1,6 +1,8 @@
 // ViaMall-specific Content Generation Prompts
 // Generates product content in viaMall format with emoji bullet points
 
+import { renderPromptTemplate, type PromptTemplateText } from './template';
+
 export const VIAMALL_SYSTEM_PROMPT_DE = `Du bist ein erfahrener E-Commerce-Texter fur viaMall.de, spezialisiert auf uberzeugende Produktbeschreibungen.
 
 Dein Content muss:
@@ -168,55 +170,44 @@ export interface ViaMallContentResult {
   slug: string;
 }
 
-export function buildViaMallContentPrompt(data: ViaMallPromptData): {
+/**
+ * Prompts for the ViaMall content stage; template is the active registry
+ * version (services/prompts), the constants above without one
+ */
+export function buildViaMallContentPrompt(
+  data: ViaMallPromptData,
+  template?: PromptTemplateText
+): {
   systemPrompt: string;
   userPrompt: string;
 } {
   const isGerman = data.language === 'de';
+  const notSpecified = isGerman ? 'Nicht angegeben' : 'Nie okreslono';
 
-  const systemPrompt = isGerman ? VIAMALL_SYSTEM_PROMPT_DE : VIAMALL_SYSTEM_PROMPT_PL;
-  let userPrompt = isGerman ? VIAMALL_USER_PROMPT_DE : VIAMALL_USER_PROMPT_PL;
-
-  // Replace placeholders
-  userPrompt = userPrompt
-    .replace('{{PRODUCT_TYPE}}', data.productType || (isGerman ? 'Nicht angegeben' : 'Nie okreslono'))
-    .replace('{{BRAND}}', data.brand || data.rawData?.brand || (isGerman ? 'Unbekannt' : 'Nieznana'))
-    .replace('{{MODEL}}', data.model || (isGerman ? 'Nicht angegeben' : 'Nie okreslono'))
-    .replace('{{COLORS}}', data.colors.join(', ') || (isGerman ? 'Nicht angegeben' : 'Nie okreslono'))
-    .replace('{{MATERIALS}}', data.materials.join(', ') || (isGerman ? 'Nicht angegeben' : 'Nie okreslono'))
-    .replace('{{STYLE}}', data.style || (isGerman ? 'Nicht angegeben' : 'Nie okreslono'))
-    .replace('{{FEATURES}}', data.features.join(', ') || (isGerman ? 'Nicht angegeben' : 'Nie okreslono'))
-    .replace('{{CATEGORIES}}', data.categories.join(' > ') || (isGerman ? 'Nicht angegeben' : 'Nie okreslono'));
+  const systemPrompt = template?.systemPrompt ?? (isGerman ? VIAMALL_SYSTEM_PROMPT_DE : VIAMALL_SYSTEM_PROMPT_PL);
+  const userTemplate = template?.userPrompt ?? (isGerman ? VIAMALL_USER_PROMPT_DE : VIAMALL_USER_PROMPT_PL);
 
   // Add raw data if available
-  if (data.rawData) {
-    const rawDataItems = Object.entries(data.rawData)
-      .filter(([, v]) => v !== undefined && v !== '')
-      .map(([k, v]) => `- ${k}: ${v}`);
-
-    if (rawDataItems.length > 0) {
-      const header = isGerman ? '## Zusatzliche Daten' : '## Dodatkowe dane';
-      userPrompt = userPrompt.replace(
-        '{{RAW_DATA}}',
-        `\n${header}\n${rawDataItems.join('\n')}`
-      );
-    } else {
-      userPrompt = userPrompt.replace('{{RAW_DATA}}', '');
-    }
-  } else {
-    userPrompt = userPrompt.replace('{{RAW_DATA}}', '');
-  }
+  const rawDataItems = Object.entries(data.rawData || {})
+    .filter(([, v]) => v !== undefined && v !== '')
+    .map(([k, v]) => `- ${k}: ${v}`);
+  const rawDataHeader = isGerman ? '## Zusatzliche Daten' : '## Dodatkowe dane';
 
   // Add user hint if available
-  if (data.userHint && data.userHint.trim()) {
-    const header = isGerman ? '## Benutzerhinweis' : '## Wskazowka uzytkownika';
-    userPrompt = userPrompt.replace(
-      '{{USER_HINT}}',
-      `\n${header}\n"${data.userHint}"`
-    );
-  } else {
-    userPrompt = userPrompt.replace('{{USER_HINT}}', '');
-  }
+  const userHintHeader = isGerman ? '## Benutzerhinweis' : '## Wskazowka uzytkownika';
+
+  const userPrompt = renderPromptTemplate(userTemplate, {
+    PRODUCT_TYPE: data.productType || notSpecified,
+    BRAND: data.brand || data.rawData?.brand || (isGerman ? 'Unbekannt' : 'Nieznana'),
+    MODEL: data.model || notSpecified,
+    COLORS: data.colors.join(', ') || notSpecified,
+    MATERIALS: data.materials.join(', ') || notSpecified,
+    STYLE: data.style || notSpecified,
+    FEATURES: data.features.join(', ') || notSpecified,
+    CATEGORIES: data.categories.join(' > ') || notSpecified,
+    RAW_DATA: rawDataItems.length > 0 ? `\n${rawDataHeader}\n${rawDataItems.join('\n')}` : '',
+    USER_HINT: data.userHint && data.userHint.trim() ? `\n${userHintHeader}\n"${data.userHint}"` : '',
+  });
 
   return { systemPrompt, userPrompt };
 }
@@ -1,6 +1,8 @@
 // Vision Analysis Prompts for Viamall Product Creator
 // Optimized for garden products, fences, mats, mattresses, beds
 
+import { renderPromptTemplate } from './template';
+
 export const VISION_SYSTEM_PROMPT = `You are an expert product analyst specializing in garden and home products for e-commerce.
 
 You analyze products for viamall.pl which sells:
@@ -90,19 +92,16 @@ Respond with this exact JSON structure:
   "analysisNotes": "string - additional observations"
 }`;
 
-export function buildVisionPrompt(userHint?: string): string {
-  let prompt = VISION_USER_PROMPT;
-
-  if (userHint && userHint.trim()) {
-    prompt = prompt.replace(
-      '{{USER_HINT}}',
-      `\nAdditional information from user: "${userHint}"\nUse this hint to guide your analysis and confirm product details.`
-    );
-  } else {
-    prompt = prompt.replace('{{USER_HINT}}', '');
-  }
-
-  return prompt;
+/**
+ * User prompt for the vision stage; template is the active registry version
+ * (services/prompts), VISION_USER_PROMPT without one
+ */
+export function buildVisionPrompt(userHint?: string, template: string = VISION_USER_PROMPT): string {
+  return renderPromptTemplate(template, {
+    USER_HINT: userHint && userHint.trim()
+      ? `\nAdditional information from user: "${userHint}"\nUse this hint to guide your analysis and confirm product details.`
+      : '',
+  });
 }
 
 // German-specific analysis prompt
@@ -0,0 +1,287 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const PROVIDER_KEYS = [
+  'GROQ_API_KEY',
+  'CEREBRAS_API_KEY',
+  'GOOGLE_AI_API_KEY',
+  'MISTRAL_API_KEY',
+  'DEEPSEEK_API_KEY',
+  'OPENROUTER_API_KEY',
+  'LOCAL_AI_BASE_URL',
+  'AI_MOCK_PROVIDER',
+];
+
+// OpenAI-style chat completion answer
+function chatResponse(content: string): Response {
+  return new Response(JSON.stringify({
+    model: 'test-model',
+    choices: [{ message: { content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+  }), { status: 200 });
+}
+
+// Stub fetch with one handler per host; returns the hosts called, in order
+function stubProviders(handlers: Record<string, () => Response>, models: string[] = []): string[] {
+  const hosts: string[] = [];
+
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+    const host = new URL(url).host;
+    hosts.push(host);
+    models.push(JSON.parse(String(init?.body)).model);
+    const handler = handlers[host];
+    if (!handler) throw new Error(`Unexpected request to ${host}`);
+    return handler();
+  }));
+
+  return hosts;
+}
+
+const rateLimited = () => new Response('Rate limit exceeded', { status: 429 });
+
+// Fresh module state (adapters, circuit breaker, rate limiter) per test
+async function loadAI(keys: Record<string, string>) {
+  PROVIDER_KEYS.forEach(key => vi.stubEnv(key, ''));
+  Object.entries(keys).forEach(([key, value]) => vi.stubEnv(key, value));
+  vi.resetModules();
+  return import('@/services/ai');
+}
+
+describe('G.A.C.A. failover', () => {
+  beforeEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('tries providers in priority order until one succeeds', async () => {
+    const ai = await loadAI({ GROQ_API_KEY: 'g', CEREBRAS_API_KEY: 'c', DEEPSEEK_API_KEY: 'd' });
+    const hosts = stubProviders({
+      'api.groq.com': rateLimited,
+      'api.cerebras.ai': () => chatResponse('z Cerebras'),
+      'api.deepseek.com': () => chatResponse('z DeepSeek'),
+    });
+
+    const response = await ai.generateContent('Opisz okulary');
+
+    expect(response.content).toBe('z Cerebras');
+    expect(hosts).toEqual(['api.groq.com', 'api.cerebras.ai']);
+  });
+
+  it('skips a provider whose circuit opened after a 429', async () => {
+    const ai = await loadAI({ GROQ_API_KEY: 'g', CEREBRAS_API_KEY: 'c' });
+    const hosts = stubProviders({
+      'api.groq.com': rateLimited,
+      'api.cerebras.ai': () => chatResponse('ok'),
+    });
+
+    await ai.generateContent('pierwsze');
+    await ai.generateContent('drugie');
+
+    expect(hosts).toEqual(['api.groq.com', 'api.cerebras.ai', 'api.cerebras.ai']);
+    expect(ai.getProviderStatus().find(p => p.type === 'groq')?.health.state).toBe('open');
+  });
+
+  it('reports every provider error when all of them fail', async () => {
+    const ai = await loadAI({ GROQ_API_KEY: 'g', CEREBRAS_API_KEY: 'c' });
+    stubProviders({
+      'api.groq.com': rateLimited,
+      'api.cerebras.ai': () => new Response('boom', { status: 500 }),
+    });
+
+    await expect(ai.generateContent('x')).rejects.toThrow(/All AI providers failed:\ngroq: .*429[\s\S]*cerebras: .*500/);
+  });
+
+  it('tries the mock provider first and repairs its malformed JSON with the next provider', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'mock-ai-'));
+    const fixtures = join(dir, 'fixtures.json');
+    writeFileSync(fixtures, JSON.stringify({ text: { fail: 'malformed_json' } }));
+
+    const ai = await loadAI({ AI_MOCK_PROVIDER: 'true', AI_MOCK_FIXTURES: fixtures, GROQ_API_KEY: 'g' });
+    const hosts = stubProviders({
+      'api.groq.com': () => chatResponse('{"name": "Okulary przeciwsloneczne"}'),
+    });
+
+    const response = await ai.generateContent('Nazwij produkt', undefined, {
+      schema: z.object({ name: z.string() }),
+    });
+
+    expect(response.data).toEqual({ name: 'Okulary przeciwsloneczne' });
+    expect(response.attempts).toBe(2);
+    expect(hosts).toEqual(['api.groq.com']);
+  });
+
+  it('follows the routing chain with its models instead of the priority order', async () => {
+    const ai = await loadAI({ GROQ_API_KEY: 'g', CEREBRAS_API_KEY: 'c', DEEPSEEK_API_KEY: 'd' });
+    const models: string[] = [];
+    const hosts = stubProviders({
+      'api.groq.com': () => chatResponse('z Groq'),
+      'api.deepseek.com': rateLimited,
+    }, models);
+
+    const response = await ai.generateContent('x', undefined, {
+      route: [{ provider: 'deepseek', model: 'deepseek-reasoner' }, { provider: 'mistral' }, { provider: 'groq' }],
+    });
+
+    expect(response.content).toBe('z Groq');
+    expect(hosts).toEqual(['api.deepseek.com', 'api.groq.com']);
+    expect(models).toEqual(['deepseek-reasoner', 'llama-3.3-70b-versatile']);
+  });
+
+  it('falls back to the priority order when no provider of the chain is configured', async () => {
+    const ai = await loadAI({ GROQ_API_KEY: 'g' });
+    const hosts = stubProviders({ 'api.groq.com': () => chatResponse('ok') });
+
+    await ai.generateContent('x', undefined, { route: [{ provider: 'mistral' }] });
+
+    expect(hosts).toEqual(['api.groq.com']);
+  });
+
+  it('fails over from Google to the Groq vision model', async () => {
+    const ai = await loadAI({ GOOGLE_AI_API_KEY: 'k', GROQ_API_KEY: 'g', CEREBRAS_API_KEY: 'c' });
+    const hosts = stubProviders({
+      'generativelanguage.googleapis.com': () => new Response('unavailable', { status: 503 }),
+      'api.groq.com': () => chatResponse('{"productType": "Zegarek"}'),
+    });
+
+    const response = await ai.analyzeImages([{ base64: 'AAAA', mimeType: 'image/jpeg' }], 'Co to jest?');
+
+    expect(response.content).toBe('{"productType": "Zegarek"}');
+    expect(hosts).toEqual(['generativelanguage.googleapis.com', 'api.groq.com']);
+  });
+
+  it('sends a pinned vision model only to the providers that serve it', async () => {
+    const ai = await loadAI({ GOOGLE_AI_API_KEY: 'k', GROQ_API_KEY: 'g', MISTRAL_API_KEY: 'm' });
+    const { prisma } = await import('@/lib/prisma');
+    vi.mocked(prisma.aiUsage.create).mockClear();
+    const models: string[] = [];
+    const hosts = stubProviders({
+      'api.groq.com': () => chatResponse('{"productType": "Zegarek"}'),
+    }, models);
+
+    for (let run = 0; run < 3; run++) {
+      await ai.analyzeImages([{ base64: 'AAAA', mimeType: 'image/jpeg' }], 'Co to jest?', undefined, {
+        model: 'meta-llama/llama-4-maverick-17b-128e-instruct',
+      });
+    }
+
+    expect(hosts).toEqual(['api.groq.com', 'api.groq.com', 'api.groq.com']);
+    expect(models).toEqual(Array(3).fill('meta-llama/llama-4-maverick-17b-128e-instruct'));
+    // Google and Mistral were never attempted: no failures, no circuit, no usage rows
+    const status = ai.getProviderStatus();
+    expect(status.find(p => p.type === 'google')?.health).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+    expect(status.find(p => p.type === 'mistral')?.health).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+    expect(vi.mocked(prisma.aiUsage.create).mock.calls.map(([args]) => args.data.provider)).toEqual(['groq', 'groq', 'groq']);
+    const quota = await ai.getProviderQuotaStatus();
+    expect(quota.find(p => p.type === 'google')?.quota.rpd.used).toBe(0);
+    expect(quota.find(p => p.type === 'groq')?.quota.rpd.used).toBe(3);
+
+    await expect(ai.analyzeImages([{ base64: 'AAAA', mimeType: 'image/jpeg' }], 'x', undefined, { model: 'llama-3.3-70b-versatile' }))
+      .rejects.toThrow('No vision provider supports the requested model');
+    expect(hosts).toHaveLength(3);
+  });
+
+  describe('rate limit budget', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('skips a provider whose minute budget is used up without calling it', async () => {
+      const ai = await loadAI({ GROQ_API_KEY: 'g', CEREBRAS_API_KEY: 'c', AI_RATE_LIMIT_RPM_GROQ: '1' });
+      const hosts = stubProviders({
+        'api.groq.com': () => chatResponse('z Groq'),
+        'api.cerebras.ai': () => chatResponse('z Cerebras'),
+      });
+
+      expect((await ai.generateContent('pierwsze')).content).toBe('z Groq');
+      expect((await ai.generateContent('drugie')).content).toBe('z Cerebras');
+
+      expect(hosts).toEqual(['api.groq.com', 'api.cerebras.ai']);
+      // A budget skip is not a failure
+      expect(ai.getProviderStatus().find(p => p.type === 'groq')?.health).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+    });
+
+    it('waits for the next token when every provider is at its minute limit', async () => {
+      vi.useFakeTimers();
+      const ai = await loadAI({ GROQ_API_KEY: 'g', AI_RATE_LIMIT_RPM_GROQ: '1' });
+      const hosts = stubProviders({ 'api.groq.com': () => chatResponse('ok') });
+
+      await ai.generateContent('pierwsze');
+      const second = ai.generateContent('drugie');
+
+      // One request per minute: a 60s wait, the longest the failover accepts (MAX_BUDGET_WAIT_MS)
+      await vi.advanceTimersByTimeAsync(59_000);
+      expect(hosts).toEqual(['api.groq.com']);
+
+      await vi.advanceTimersByTimeAsync(1_000);
+      await expect(second).resolves.toMatchObject({ content: 'ok' });
+      expect(hosts).toEqual(['api.groq.com', 'api.groq.com']);
+    });
+
+    it('does not wait for a provider whose daily budget is used up', async () => {
+      vi.useFakeTimers();
+      const ai = await loadAI({ GROQ_API_KEY: 'g', AI_RATE_LIMIT_RPD_GROQ: '1' });
+      const hosts = stubProviders({ 'api.groq.com': () => chatResponse('ok') });
+
+      await ai.generateContent('pierwsze');
+
+      await expect(ai.generateContent('drugie')).rejects.toThrow(/All AI providers failed:\ngroq: .*rate limit budget used up/);
+      expect(hosts).toEqual(['api.groq.com']);
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('persists daily requests and continues from the stored count after a restart', async () => {
+      vi.useFakeTimers({ now: new Date('2026-10-18T12:00:00Z'), toFake: ['Date'] });
+      const ai = await loadAI({ GROQ_API_KEY: 'g', CEREBRAS_API_KEY: 'c', AI_RATE_LIMIT_RPD_GROQ: '6' });
+      const { prisma } = await import('@/lib/prisma');
+      vi.mocked(prisma.providerUsageDaily.upsert).mockClear();
+      vi.mocked(prisma.providerUsageDaily.findMany).mockResolvedValueOnce([
+        { provider: 'groq', day: new Date('2026-10-18'), requests: 5 },
+      ] as never);
+      const hosts = stubProviders({
+        'api.groq.com': () => chatResponse('z Groq'),
+        'api.cerebras.ai': () => chatResponse('z Cerebras'),
+      });
+
+      await ai.generateContent('pierwsze');
+      await ai.generateContent('drugie');
+
+      expect(hosts).toEqual(['api.groq.com', 'api.cerebras.ai']);
+      expect(prisma.providerUsageDaily.findMany).toHaveBeenCalledWith({ where: { day: new Date('2026-10-18') } });
+      expect(vi.mocked(prisma.providerUsageDaily.upsert).mock.calls.map(([args]) => args)).toEqual([
+        {
+          where: { provider_day: { provider: 'groq', day: new Date('2026-10-18') } },
+          create: { provider: 'groq', day: new Date('2026-10-18'), requests: 1 },
+          update: { requests: { increment: 1 } },
+        },
+        {
+          where: { provider_day: { provider: 'cerebras', day: new Date('2026-10-18') } },
+          create: { provider: 'cerebras', day: new Date('2026-10-18'), requests: 1 },
+          update: { requests: { increment: 1 } },
+        },
+      ]);
+    });
+
+    it('reports the remaining minute and day budget per provider', async () => {
+      vi.useFakeTimers({ now: new Date('2026-10-18T12:00:00Z'), toFake: ['Date'] });
+      const ai = await loadAI({ GROQ_API_KEY: 'g', AI_RATE_LIMIT_RPM_GROQ: '2', AI_RATE_LIMIT_RPD_GROQ: '100' });
+      stubProviders({ 'api.groq.com': () => chatResponse('ok') });
+
+      await ai.generateContent('pierwsze');
+      await ai.generateContent('drugie');
+      const quota = await ai.getProviderQuotaStatus();
+
+      expect(quota.find(p => p.type === 'groq')).toEqual({
+        type: 'groq',
+        name: 'Groq',
+        configured: true,
+        quota: {
+          rpm: { limit: 2, remaining: 0, nextTokenInMs: 30_000 },
+          rpd: { limit: 100, used: 2, remaining: 98, resetsAt: '2026-10-19T00:00:00.000Z' },
+        },
+      });
+      expect(quota.find(p => p.type === 'cerebras')).toMatchObject({ configured: false, quota: { rpd: { used: 0 } } });
+    });
+  });
+});
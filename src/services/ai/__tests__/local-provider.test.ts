@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { z } from 'zod';
+
+const PROVIDER_KEYS = [
+  'GROQ_API_KEY',
+  'CEREBRAS_API_KEY',
+  'GOOGLE_AI_API_KEY',
+  'MISTRAL_API_KEY',
+  'DEEPSEEK_API_KEY',
+  'OPENROUTER_API_KEY',
+  'AI_MOCK_PROVIDER',
+  'LOCAL_AI_VISION',
+  'LOCAL_AI_VISION_MODEL',
+  'LOCAL_AI_JSON_MODE',
+];
+
+interface ChatRequest {
+  url: string;
+  authorization: string | null;
+  body: {
+    model: string;
+    messages: Array<{ role: string; content: unknown }>;
+    response_format?: { type: string };
+  };
+}
+
+// Stub server answering /v1/chat/completions like Ollama does
+function stubLocalServer(content: string): ChatRequest[] {
+  const requests: ChatRequest[] = [];
+
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+    if (!url.startsWith('http://llm.test:11434/v1/chat/completions')) {
+      throw new Error(`Unexpected request to ${url}`);
+    }
+    requests.push({
+      url,
+      authorization: new Headers(init?.headers).get('Authorization'),
+      body: JSON.parse(String(init?.body)),
+    });
+    const { model } = JSON.parse(String(init?.body));
+    return new Response(JSON.stringify({
+      model,
+      choices: [{ message: { content }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 12, completion_tokens: 4, total_tokens: 16 },
+    }), { status: 200 });
+  }));
+
+  return requests;
+}
+
+// Only the local provider, configured from LOCAL_AI_* env
+async function loadAI(env: Record<string, string> = {}) {
+  PROVIDER_KEYS.forEach(key => vi.stubEnv(key, ''));
+  vi.stubEnv('LOCAL_AI_BASE_URL', 'http://llm.test:11434/v1/');
+  vi.stubEnv('LOCAL_AI_MODELS', 'llama3.1, qwen2.5');
+  Object.entries(env).forEach(([key, value]) => vi.stubEnv(key, value));
+  vi.resetModules();
+  return import('@/services/ai');
+}
+
+const image = { base64: 'AAAA', mimeType: 'image/jpeg' };
+
+describe('local OpenAI-compatible provider', () => {
+  beforeEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends text prompts to the first configured model with JSON mode', async () => {
+    const ai = await loadAI();
+    const requests = stubLocalServer('{"name": "Okulary"}');
+
+    const response = await ai.generateContent('Nazwij produkt', 'Copywriter', {
+      schema: z.object({ name: z.string() }),
+    });
+
+    expect(response.data).toEqual({ name: 'Okulary' });
+    expect(response.model).toBe('llama3.1');
+    expect(requests).toHaveLength(1);
+    expect(requests[0].authorization).toBe('Bearer local');
+    expect(requests[0].body).toMatchObject({
+      model: 'llama3.1',
+      messages: [
+        { role: 'system', content: 'Copywriter' },
+        { role: 'user', content: 'Nazwij produkt' },
+      ],
+      response_format: { type: 'json_object' },
+    });
+  });
+
+  it('keeps a configured model and rejects a model the server does not have', async () => {
+    const ai = await loadAI();
+    const requests = stubLocalServer('ok');
+
+    await ai.generateContent('x', undefined, { model: 'qwen2.5' });
+    await expect(ai.generateContent('x', undefined, { model: 'gemma-3-27b-it' }))
+      .rejects.toThrow('Local AI model gemma-3-27b-it is not configured (models: llama3.1, qwen2.5)');
+
+    expect(requests.map(request => request.body.model)).toEqual(['qwen2.5']);
+  });
+
+  it('omits response_format when LOCAL_AI_JSON_MODE=false', async () => {
+    const ai = await loadAI({ LOCAL_AI_JSON_MODE: 'false' });
+    const requests = stubLocalServer('{"name": "Okulary"}');
+
+    await ai.generateContent('Nazwij produkt', undefined, {
+      schema: z.object({ name: z.string() }),
+    });
+
+    expect(requests[0].body).not.toHaveProperty('response_format');
+  });
+
+  it('answers vision requests with the vision model when LOCAL_AI_VISION=true', async () => {
+    const ai = await loadAI({ LOCAL_AI_VISION: 'true', LOCAL_AI_VISION_MODEL: 'llava' });
+    const requests = stubLocalServer('{"productType": "Okulary"}');
+
+    const response = await ai.analyzeImages([image], 'Co to jest?');
+
+    expect(response.model).toBe('llava');
+    expect(requests[0].body.messages).toEqual([{
+      role: 'user',
+      content: [
+        { type: 'image_url', image_url: { url: 'data:image/jpeg;base64,AAAA' } },
+        { type: 'text', text: 'Co to jest?' },
+      ],
+    }]);
+  });
+
+  it('is not a vision provider without LOCAL_AI_VISION', async () => {
+    const ai = await loadAI();
+    const requests = stubLocalServer('ok');
+
+    await expect(ai.analyzeImages([image], 'Co to jest?')).rejects.toThrow('No vision-capable AI providers configured');
+    expect(requests).toEqual([]);
+  });
+});
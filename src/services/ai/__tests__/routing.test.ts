@@ -0,0 +1,29 @@
+import { describe, it, expect, vi } from 'vitest';
+import { prisma } from '@/lib/prisma';
+import { RoutingConfigSchema, getRoutingConfig } from '../routing';
+
+describe('routing config', () => {
+  it('loads one chain per stage and skips invalid rows', async () => {
+    vi.mocked(prisma.aiRoute.findMany).mockResolvedValueOnce([
+      { id: '1', stage: 'vision', chain: [{ provider: 'google', model: 'gemini-2.0-flash' }], createdAt: new Date(), updatedAt: new Date() },
+      { id: '2', stage: 'content', chain: [{ provider: 'nope' }], createdAt: new Date(), updatedAt: new Date() },
+    ]);
+
+    await expect(getRoutingConfig()).resolves.toEqual({
+      vision: [{ provider: 'google', model: 'gemini-2.0-flash' }],
+    });
+  });
+
+  it('falls back to an empty config when the database is unavailable', async () => {
+    vi.mocked(prisma.aiRoute.findMany).mockRejectedValueOnce(new Error('connection refused'));
+
+    await expect(getRoutingConfig()).resolves.toEqual({});
+  });
+
+  it('rejects unknown stages, providers and empty chains', () => {
+    expect(RoutingConfigSchema.safeParse({ vision: [{ provider: 'groq' }] }).success).toBe(true);
+    expect(RoutingConfigSchema.safeParse({ seo: [{ provider: 'groq' }] }).success).toBe(false);
+    expect(RoutingConfigSchema.safeParse({ content: [{ provider: 'openai' }] }).success).toBe(false);
+    expect(RoutingConfigSchema.safeParse({ content: [] }).success).toBe(false);
+  });
+});
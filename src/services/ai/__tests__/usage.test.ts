@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest';
+import { prisma } from '@/lib/prisma';
+import { getUsageReport } from '../usage';
+
+function group(day: string, provider: string, draftId: string | null, success: boolean, calls: number, priced: number, costUsd: number | null) {
+  return {
+    day: new Date(day),
+    provider,
+    draftId,
+    success,
+    _sum: { promptTokens: calls * 100, completionTokens: calls * 50, totalTokens: calls * 150, costUsd },
+    _count: { _all: calls, costUsd: priced },
+  };
+}
+
+describe('getUsageReport', () => {
+  it('sums usage in the database and folds the groups per day, provider and draft', async () => {
+    vi.mocked(prisma.aiUsage.groupBy).mockResolvedValueOnce([
+      group('2026-10-01', 'groq', 'draft-1', true, 3, 3, 0.03),
+      group('2026-10-01', 'groq', 'draft-1', false, 1, 1, 0),
+      group('2026-10-02', 'local', null, true, 2, 0, null),
+    ] as never);
+
+    const report = await getUsageReport({
+      from: new Date('2026-10-01T00:00:00Z'),
+      to: new Date('2026-10-03T00:00:00Z'),
+      provider: 'groq',
+    });
+
+    expect(prisma.aiUsage.groupBy).toHaveBeenCalledWith(expect.objectContaining({
+      by: ['day', 'provider', 'draftId', 'success'],
+      where: {
+        createdAt: { gte: new Date('2026-10-01T00:00:00Z'), lt: new Date('2026-10-03T00:00:00Z') },
+        provider: 'groq',
+      },
+    }));
+    expect(prisma.aiUsage.findMany).not.toHaveBeenCalled();
+
+    expect(report.totals).toEqual({
+      calls: 6,
+      failures: 1,
+      promptTokens: 600,
+      completionTokens: 300,
+      totalTokens: 900,
+      costUsd: 0.03,
+      unpricedCalls: 2,
+    });
+    expect(report.byDay.map(({ day, calls }) => ({ day, calls }))).toEqual([
+      { day: '2026-10-01', calls: 4 },
+      { day: '2026-10-02', calls: 2 },
+    ]);
+    expect(report.byProvider.map(({ provider, failures }) => ({ provider, failures }))).toEqual([
+      { provider: 'groq', failures: 1 },
+      { provider: 'local', failures: 0 },
+    ]);
+    expect(report.byDraft.map(({ draftId, unpricedCalls }) => ({ draftId, unpricedCalls }))).toEqual([
+      { draftId: 'draft-1', unpricedCalls: 0 },
+      { draftId: null, unpricedCalls: 2 },
+    ]);
+  });
+});
@@ -7,6 +7,7 @@ export interface AICompletionRequest {
   model?: string;
   temperature?: number;
   maxTokens?: number;
+  jsonMode?: boolean; // Ask for a JSON object (ignored by adapters without JSON mode)
 }
 
 export interface AIVisionRequest extends AICompletionRequest {
@@ -20,8 +21,17 @@ export interface AICompletionResponse {
   content: string;
   model: string;
   tokensUsed?: number;
+  promptTokens?: number;
+  completionTokens?: number;
   latencyMs: number;
   finishReason?: string;
+  provider?: string; // Set by the failover loop (services/ai)
+}
+
+// Per-request image limits of a vision API
+export interface VisionLimits {
+  maxImages: number;
+  maxImageBytes: number; // Size of the base64-encoded image
 }
 
 export interface ProviderConfig {
@@ -51,16 +61,66 @@ export abstract class BaseAdapter {
     return this.providerName;
   }
 
+  getDefaultModel(): string | undefined {
+    return this.config.defaultModel;
+  }
+
   // Check if adapter supports vision
   supportsVision(): boolean {
     return false;
   }
 
+  // Whether completeWithVision accepts this model - override in adapters with a fixed list
+  supportsVisionModel(model: string): boolean {
+    return this.supportsVision();
+  }
+
+  // Provider-native JSON output - override in adapters that support it
+  supportsJsonMode(model?: string): boolean {
+    return false;
+  }
+
   // Vision completion - override in vision-capable adapters
   async completeWithVision(request: AIVisionRequest): Promise<AICompletionResponse> {
     throw new Error(`${this.providerName} does not support vision`);
   }
 
+  // Requested model if it accepts images, the first vision model if none was requested.
+  // Throws for other models so failover moves on instead of silently using another model
+  protected resolveVisionModel(model: string | undefined, visionModels: string[]): string {
+    if (!model) {
+      return visionModels[0];
+    }
+
+    if (!visionModels.includes(model)) {
+      throw new Error(`${this.providerName} model ${model} does not support images (vision models: ${visionModels.join(', ')})`);
+    }
+
+    return model;
+  }
+
+  // Drops images over the provider's limits (first images win); throws if none fit
+  protected fitImagesToLimits(
+    images: AIVisionRequest['images'],
+    limits: VisionLimits
+  ): AIVisionRequest['images'] {
+    const fitting = images.filter(image => image.base64.length <= limits.maxImageBytes);
+
+    if (fitting.length === 0) {
+      throw new Error(`${this.providerName} vision: all images exceed ${Math.round(limits.maxImageBytes / 1024 / 1024)}MB`);
+    }
+
+    if (fitting.length < images.length) {
+      console.warn(`[${this.providerName}] Skipping ${images.length - fitting.length} image(s) over the size limit`);
+    }
+
+    if (fitting.length > limits.maxImages) {
+      console.warn(`[${this.providerName}] Sending only the first ${limits.maxImages} of ${fitting.length} images`);
+    }
+
+    return fitting.slice(0, limits.maxImages);
+  }
+
   protected async fetchWithTimeout(
     url: string,
     options: RequestInit,
@@ -80,6 +140,13 @@ export abstract class BaseAdapter {
     }
   }
 
+  // Error category used by the failover circuit breaker
+  classifyError(error: unknown): 'rate_limit' | 'quota' | 'error' {
+    if (this.isRateLimitError(error)) return 'rate_limit';
+    if (this.isQuotaError(error)) return 'quota';
+    return 'error';
+  }
+
   protected isRateLimitError(error: unknown): boolean {
     if (error instanceof Error) {
       return (
@@ -54,6 +54,7 @@ export class CerebrasAdapter extends BaseAdapter {
           messages,
           temperature: request.temperature ?? 0.3,
           max_tokens: request.maxTokens ?? 2000,
+          ...(request.jsonMode && this.supportsJsonMode(model) && { response_format: { type: 'json_object' } }),
         }),
       },
       30000
@@ -76,11 +77,18 @@ export class CerebrasAdapter extends BaseAdapter {
       content: data.choices[0].message.content,
       model: data.model || model,
       tokensUsed: data.usage?.total_tokens,
+      promptTokens: data.usage?.prompt_tokens,
+      completionTokens: data.usage?.completion_tokens,
       latencyMs,
       finishReason: data.choices[0].finish_reason,
     };
   }
 
+  // OpenAI-compatible response_format: json_object
+  supportsJsonMode(model?: string): boolean {
+    return true;
+  }
+
   async testConnection(): Promise<{ success: boolean; error?: string; latencyMs?: number }> {
     try {
       const startTime = Date.now();
@@ -48,6 +48,10 @@ export class GoogleAIAdapter extends BaseAdapter {
     return true;
   }
 
+  supportsVisionModel(model: string): boolean {
+    return VISION_CAPABLE_MODELS.includes(model);
+  }
+
   async complete(request: AICompletionRequest): Promise<AICompletionResponse> {
     const startTime = Date.now();
     const model = request.model || this.config.defaultModel!;
@@ -74,6 +78,7 @@ export class GoogleAIAdapter extends BaseAdapter {
           generationConfig: {
             temperature: request.temperature ?? 0.3,
             maxOutputTokens: request.maxTokens ?? 2000,
+            ...(request.jsonMode && this.supportsJsonMode(model) && { responseMimeType: 'application/json' }),
           },
           safetySettings: [
             { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' },
@@ -106,6 +111,8 @@ export class GoogleAIAdapter extends BaseAdapter {
       content: data.candidates[0].content.parts[0].text,
       model: model,
       tokensUsed: data.usageMetadata?.totalTokenCount,
+      promptTokens: data.usageMetadata?.promptTokenCount,
+      completionTokens: data.usageMetadata?.candidatesTokenCount,
       latencyMs,
       finishReason: data.candidates[0].finishReason,
     };
@@ -156,6 +163,7 @@ export class GoogleAIAdapter extends BaseAdapter {
           generationConfig: {
             temperature: request.temperature ?? 0.3,
             maxOutputTokens: request.maxTokens ?? 4000,
+            ...(request.jsonMode && this.supportsJsonMode(model) && { responseMimeType: 'application/json' }),
           },
           safetySettings: [
             { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' },
@@ -188,11 +196,18 @@ export class GoogleAIAdapter extends BaseAdapter {
       content: data.candidates[0].content.parts[0].text,
       model: model,
       tokensUsed: data.usageMetadata?.totalTokenCount,
+      promptTokens: data.usageMetadata?.promptTokenCount,
+      completionTokens: data.usageMetadata?.candidatesTokenCount,
       latencyMs,
       finishReason: data.candidates[0].finishReason,
     };
   }
 
+  // JSON mode is available for Gemini models only (Gemma rejects responseMimeType)
+  supportsJsonMode(model?: string): boolean {
+    return (model || this.config.defaultModel || '').startsWith('gemini');
+  }
+
   async testConnection(): Promise<{ success: boolean; error?: string; latencyMs?: number }> {
     try {
       const startTime = Date.now();
@@ -1,7 +1,14 @@
 // Groq Adapter - Ultra-fast inference
 // Free tier: 30 RPM, 14,400 RPD, 6,000 tokens/min
 
-import { BaseAdapter, AICompletionRequest, AICompletionResponse, ProviderConfig } from './BaseAdapter';
+import {
+  BaseAdapter,
+  AICompletionRequest,
+  AICompletionResponse,
+  AIVisionRequest,
+  ProviderConfig,
+  VisionLimits
+} from './BaseAdapter';
 
 const GROQ_API_URL = 'https://api.groq.com/openai/v1/chat/completions';
 
@@ -18,6 +25,18 @@ const GROQ_MODELS = [
   'moonshotai/kimi-k2-instruct',                  // 1,000 RPD
 ];
 
+// Llama 4 models accept images (OpenAI image_url parts)
+const GROQ_VISION_MODELS = [
+  'meta-llama/llama-4-scout-17b-16e-instruct',
+  'meta-llama/llama-4-maverick-17b-128e-instruct',
+];
+
+// Groq: max 5 images per request, 4MB per base64 image
+const GROQ_VISION_LIMITS: VisionLimits = {
+  maxImages: 5,
+  maxImageBytes: 4 * 1024 * 1024,
+};
+
 export class GroqAdapter extends BaseAdapter {
   constructor(config: ProviderConfig) {
     super(
@@ -57,6 +76,7 @@ export class GroqAdapter extends BaseAdapter {
           messages,
           temperature: request.temperature ?? 0.3,
           max_tokens: request.maxTokens ?? 2000,
+          ...(request.jsonMode && this.supportsJsonMode(model) && { response_format: { type: 'json_object' } }),
         }),
       },
       30000
@@ -79,11 +99,93 @@ export class GroqAdapter extends BaseAdapter {
       content: data.choices[0].message.content,
       model: data.model || model,
       tokensUsed: data.usage?.total_tokens,
+      promptTokens: data.usage?.prompt_tokens,
+      completionTokens: data.usage?.completion_tokens,
+      latencyMs,
+      finishReason: data.choices[0].finish_reason,
+    };
+  }
+
+  supportsVision(): boolean {
+    return true;
+  }
+
+  supportsVisionModel(model: string): boolean {
+    return GROQ_VISION_MODELS.includes(model);
+  }
+
+  async completeWithVision(request: AIVisionRequest): Promise<AICompletionResponse> {
+    const startTime = Date.now();
+    // Llama 4 Scout unless another vision model is requested
+    const model = this.resolveVisionModel(request.model, GROQ_VISION_MODELS);
+
+    const images = this.fitImagesToLimits(request.images, GROQ_VISION_LIMITS);
+
+    const messages: Array<{ role: string; content: unknown }> = [];
+
+    if (request.systemPrompt) {
+      messages.push({ role: 'system', content: request.systemPrompt });
+    }
+
+    messages.push({
+      role: 'user',
+      content: [
+        { type: 'text', text: request.prompt },
+        ...images.map(image => ({
+          type: 'image_url',
+          image_url: { url: `data:${image.mimeType};base64,${image.base64}` },
+        })),
+      ],
+    });
+
+    const response = await this.fetchWithTimeout(
+      this.config.baseUrl!,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.config.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          temperature: request.temperature ?? 0.3,
+          max_tokens: request.maxTokens ?? 4000,
+          ...(request.jsonMode && this.supportsJsonMode(model) && { response_format: { type: 'json_object' } }),
+        }),
+      },
+      90000 // 90s timeout for vision requests
+    );
+
+    const latencyMs = Date.now() - startTime;
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Groq Vision error: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+
+    if (!data.choices || !data.choices[0]?.message?.content) {
+      throw new Error('Invalid Groq Vision response format');
+    }
+
+    return {
+      content: data.choices[0].message.content,
+      model: data.model || model,
+      tokensUsed: data.usage?.total_tokens,
+      promptTokens: data.usage?.prompt_tokens,
+      completionTokens: data.usage?.completion_tokens,
       latencyMs,
       finishReason: data.choices[0].finish_reason,
     };
   }
 
+  // OpenAI-compatible response_format: json_object
+  supportsJsonMode(model?: string): boolean {
+    return true;
+  }
+
   async testConnection(): Promise<{ success: boolean; error?: string; latencyMs?: number }> {
     try {
       const startTime = Date.now();
@@ -1,7 +1,14 @@
 // Mistral AI Adapter
 // Free tier: ~1 RPM, 500 RPD (limited free tier)
 
-import { BaseAdapter, AICompletionRequest, AICompletionResponse, ProviderConfig } from './BaseAdapter';
+import {
+  BaseAdapter,
+  AICompletionRequest,
+  AICompletionResponse,
+  AIVisionRequest,
+  ProviderConfig,
+  VisionLimits
+} from './BaseAdapter';
 
 const MISTRAL_API_URL = 'https://api.mistral.ai/v1/chat/completions';
 
@@ -15,6 +22,20 @@ const MISTRAL_MODELS = [
   'codestral-latest',
 ];
 
+// Pixtral and Mistral Small/Medium 3.x accept images (data URL strings)
+const MISTRAL_VISION_MODELS = [
+  'pixtral-12b-2409',
+  'pixtral-large-latest',
+  'mistral-small-latest',
+  'mistral-medium-latest',
+];
+
+// Mistral: max 8 images per request, 10MB per image
+const MISTRAL_VISION_LIMITS: VisionLimits = {
+  maxImages: 8,
+  maxImageBytes: 10 * 1024 * 1024,
+};
+
 export class MistralAdapter extends BaseAdapter {
   constructor(config: ProviderConfig) {
     super(
@@ -54,6 +75,7 @@ export class MistralAdapter extends BaseAdapter {
           messages,
           temperature: request.temperature ?? 0.3,
           max_tokens: request.maxTokens ?? 2000,
+          ...(request.jsonMode && this.supportsJsonMode(model) && { response_format: { type: 'json_object' } }),
         }),
       },
       30000
@@ -76,11 +98,93 @@ export class MistralAdapter extends BaseAdapter {
       content: data.choices[0].message.content,
       model: data.model || model,
       tokensUsed: data.usage?.total_tokens,
+      promptTokens: data.usage?.prompt_tokens,
+      completionTokens: data.usage?.completion_tokens,
+      latencyMs,
+      finishReason: data.choices[0].finish_reason,
+    };
+  }
+
+  supportsVision(): boolean {
+    return true;
+  }
+
+  supportsVisionModel(model: string): boolean {
+    return MISTRAL_VISION_MODELS.includes(model);
+  }
+
+  async completeWithVision(request: AIVisionRequest): Promise<AICompletionResponse> {
+    const startTime = Date.now();
+    // Pixtral 12B unless another vision model is requested
+    const model = this.resolveVisionModel(request.model, MISTRAL_VISION_MODELS);
+
+    const images = this.fitImagesToLimits(request.images, MISTRAL_VISION_LIMITS);
+
+    const messages: Array<{ role: string; content: unknown }> = [];
+
+    if (request.systemPrompt) {
+      messages.push({ role: 'system', content: request.systemPrompt });
+    }
+
+    messages.push({
+      role: 'user',
+      content: [
+        { type: 'text', text: request.prompt },
+        ...images.map(image => ({
+          type: 'image_url',
+          image_url: `data:${image.mimeType};base64,${image.base64}`,
+        })),
+      ],
+    });
+
+    const response = await this.fetchWithTimeout(
+      this.config.baseUrl!,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.config.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          temperature: request.temperature ?? 0.3,
+          max_tokens: request.maxTokens ?? 4000,
+          ...(request.jsonMode && this.supportsJsonMode(model) && { response_format: { type: 'json_object' } }),
+        }),
+      },
+      90000 // 90s timeout for vision requests
+    );
+
+    const latencyMs = Date.now() - startTime;
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Mistral Vision error: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+
+    if (!data.choices || !data.choices[0]?.message?.content) {
+      throw new Error('Invalid Mistral Vision response format');
+    }
+
+    return {
+      content: data.choices[0].message.content,
+      model: data.model || model,
+      tokensUsed: data.usage?.total_tokens,
+      promptTokens: data.usage?.prompt_tokens,
+      completionTokens: data.usage?.completion_tokens,
       latencyMs,
       finishReason: data.choices[0].finish_reason,
     };
   }
 
+  // OpenAI-compatible response_format: json_object
+  supportsJsonMode(model?: string): boolean {
+    return true;
+  }
+
   async testConnection(): Promise<{ success: boolean; error?: string; latencyMs?: number }> {
     try {
       const startTime = Date.now();
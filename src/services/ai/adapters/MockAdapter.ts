@@ -0,0 +1,170 @@
+// Mock Adapter - Deterministic provider for tests and offline development
+// Answers come from fixtures keyed by prompt hash; can simulate 429s, timeouts and broken JSON
+
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import {
+  BaseAdapter,
+  AICompletionRequest,
+  AIVisionRequest,
+  AICompletionResponse,
+  ProviderConfig
+} from './BaseAdapter';
+
+export interface MockResponse {
+  content?: string;  // Raw answer
+  json?: unknown;    // Answer serialized with JSON.stringify
+  fail?: 'rate_limit' | 'quota' | 'timeout' | 'malformed_json' | 'server_error';
+  delayMs?: number;
+}
+
+// A list is played in order, the last entry repeats
+type MockEntry = MockResponse | MockResponse[];
+
+export interface MockFixtures {
+  prompts?: Record<string, MockEntry>; // Key: hashPrompt(prompt)
+  text?: MockEntry;                    // Fallback for complete()
+  vision?: MockEntry;                  // Fallback for completeWithVision()
+}
+
+export interface MockAdapterConfig extends Partial<ProviderConfig> {
+  fixtures?: MockFixtures;
+  supportsVision?: boolean;
+}
+
+/**
+ * Fixture key of a prompt (first 16 hex chars of its SHA-256)
+ */
+export function hashPrompt(prompt: string): string {
+  return createHash('sha256').update(prompt).digest('hex').slice(0, 16);
+}
+
+/**
+ * Mock provider settings from AI_MOCK_* env variables (null unless AI_MOCK_PROVIDER=true)
+ */
+export function getMockProviderConfig(): MockAdapterConfig | null {
+  if (process.env.AI_MOCK_PROVIDER !== 'true') {
+    return null;
+  }
+
+  const fixturesPath = process.env.AI_MOCK_FIXTURES;
+
+  return {
+    fixtures: fixturesPath ? JSON.parse(readFileSync(fixturesPath, 'utf-8')) : {},
+    supportsVision: process.env.AI_MOCK_VISION !== 'false',
+  };
+}
+
+export class MockAdapter extends BaseAdapter {
+  private fixtures: MockFixtures;
+  private visionEnabled: boolean;
+  private playCounts: Map<string, number> = new Map();
+
+  // Every request received, for assertions in tests
+  readonly calls: Array<{ kind: 'text' | 'vision'; hash: string; request: AICompletionRequest }> = [];
+
+  constructor(config: MockAdapterConfig = {}) {
+    super(
+      {
+        apiKey: 'mock',
+        defaultModel: 'mock-model',
+        rateLimitRpm: 1000,
+        rateLimitRpd: 1000000,
+        ...config,
+      },
+      'Mock AI'
+    );
+    this.fixtures = config.fixtures || {};
+    this.visionEnabled = config.supportsVision ?? true;
+  }
+
+  // Next response of an entry (sequence position tracked per key)
+  private play(key: string, entry: MockEntry): MockResponse {
+    if (!Array.isArray(entry)) {
+      return entry;
+    }
+
+    const count = this.playCounts.get(key) || 0;
+    this.playCounts.set(key, count + 1);
+    return entry[Math.min(count, entry.length - 1)];
+  }
+
+  private async respond(kind: 'text' | 'vision', request: AICompletionRequest): Promise<AICompletionResponse> {
+    const hash = hashPrompt(request.prompt);
+    this.calls.push({ kind, hash, request });
+
+    const byPrompt = this.fixtures.prompts?.[hash];
+    const fallback = this.fixtures[kind];
+
+    const response = byPrompt
+      ? this.play(hash, byPrompt)
+      : fallback
+        ? this.play(kind, fallback)
+        : null;
+
+    if (!response) {
+      throw new Error(`${this.providerName} has no fixture for prompt ${hash}`);
+    }
+
+    if (response.delayMs) {
+      await new Promise(resolve => setTimeout(resolve, response.delayMs));
+    }
+
+    // Same messages as the real adapters, so classifyError() sees them the same way
+    switch (response.fail) {
+      case 'rate_limit':
+        throw new Error(`${this.providerName} API error: 429 - Rate limit exceeded`);
+      case 'quota':
+        throw new Error(`${this.providerName} API error: 403 - insufficient_quota`);
+      case 'timeout':
+        throw new Error('This operation was aborted');
+      case 'server_error':
+        throw new Error(`${this.providerName} API error: 500 - Internal Server Error`);
+    }
+
+    const content = response.fail === 'malformed_json'
+      ? '{"name": "Unterminated'
+      : response.content ?? JSON.stringify(response.json ?? {});
+
+    const promptTokens = Math.ceil(((request.systemPrompt?.length || 0) + request.prompt.length) / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+
+    return {
+      content,
+      model: request.model || this.config.defaultModel!,
+      tokensUsed: promptTokens + completionTokens,
+      promptTokens,
+      completionTokens,
+      latencyMs: response.delayMs || 0,
+      finishReason: 'stop',
+    };
+  }
+
+  async complete(request: AICompletionRequest): Promise<AICompletionResponse> {
+    return this.respond('text', request);
+  }
+
+  supportsVision(): boolean {
+    return this.visionEnabled;
+  }
+
+  async completeWithVision(request: AIVisionRequest): Promise<AICompletionResponse> {
+    if (!this.visionEnabled) {
+      return super.completeWithVision(request);
+    }
+
+    return this.respond('vision', request);
+  }
+
+  supportsJsonMode(): boolean {
+    return true;
+  }
+
+  async testConnection(): Promise<{ success: boolean; error?: string; latencyMs?: number }> {
+    return { success: true, latencyMs: 0 };
+  }
+
+  getAvailableModels(): string[] {
+    return [this.config.defaultModel!];
+  }
+}
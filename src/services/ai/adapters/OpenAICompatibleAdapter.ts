@@ -0,0 +1,230 @@
+// OpenAI-compatible Adapter - Local / self-hosted models
+// Works with Ollama, llama.cpp server, vLLM, LM Studio (any /v1/chat/completions server)
+// No rate limits or costs - offline fallback for text and vision
+
+import {
+  BaseAdapter,
+  AICompletionRequest,
+  AIVisionRequest,
+  AICompletionResponse,
+  ProviderConfig
+} from './BaseAdapter';
+
+export interface OpenAICompatibleConfig extends ProviderConfig {
+  baseUrl: string;          // e.g. http://localhost:11434/v1 (Ollama)
+  models: string[];         // First one is the default text model
+  supportsVision?: boolean;
+  visionModel?: string;     // Defaults to the default text model
+  jsonMode?: boolean;       // response_format: json_object (default true)
+  timeoutMs?: number;
+  providerName?: string;
+}
+
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * Local provider settings from LOCAL_AI_* env variables (null if LOCAL_AI_BASE_URL is not set)
+ */
+export function getLocalProviderConfig(): OpenAICompatibleConfig | null {
+  const baseUrl = process.env.LOCAL_AI_BASE_URL;
+  if (!baseUrl) {
+    return null;
+  }
+
+  const models = (process.env.LOCAL_AI_MODELS || 'llama3.1')
+    .split(',')
+    .map(model => model.trim())
+    .filter(Boolean);
+
+  return {
+    apiKey: process.env.LOCAL_AI_API_KEY || 'local',
+    baseUrl,
+    models,
+    supportsVision: process.env.LOCAL_AI_VISION === 'true',
+    visionModel: process.env.LOCAL_AI_VISION_MODEL || undefined,
+    jsonMode: process.env.LOCAL_AI_JSON_MODE !== 'false',
+    timeoutMs: Number(process.env.LOCAL_AI_TIMEOUT_MS) || undefined,
+  };
+}
+
+export class OpenAICompatibleAdapter extends BaseAdapter {
+  private models: string[];
+  private visionEnabled: boolean;
+  private visionModel: string;
+  private jsonModeEnabled: boolean;
+  private timeoutMs: number;
+
+  constructor(config: OpenAICompatibleConfig) {
+    const models = config.models.length > 0 ? config.models : ['llama3.1'];
+
+    super(
+      {
+        ...config,
+        baseUrl: config.baseUrl.replace(/\/+$/, ''),
+        defaultModel: config.defaultModel || models[0],
+        rateLimitRpm: config.rateLimitRpm || 1000,
+        rateLimitRpd: config.rateLimitRpd || 1_000_000,
+      },
+      config.providerName || 'Local AI'
+    );
+
+    this.models = config.visionModel && !models.includes(config.visionModel)
+      ? [...models, config.visionModel]
+      : models;
+    this.visionEnabled = config.supportsVision ?? false;
+    this.visionModel = config.visionModel || this.config.defaultModel!;
+    this.jsonModeEnabled = config.jsonMode ?? true;
+    this.timeoutMs = config.timeoutMs || 120000; // Local models are slow on CPU
+  }
+
+  // Requested model if it is configured here, the fallback if none was requested.
+  // A hosted model name (e.g. 'gemma-3-27b-it') is rejected like a hosted API would.
+  private resolveModel(requested: string | undefined, fallback: string): string {
+    if (!requested) {
+      return fallback;
+    }
+
+    if (!this.models.includes(requested)) {
+      throw new Error(`${this.providerName} model ${requested} is not configured (models: ${this.models.join(', ')})`);
+    }
+
+    return requested;
+  }
+
+  private async chat(
+    model: string,
+    messages: Array<{ role: string; content: unknown }>,
+    request: AICompletionRequest
+  ): Promise<AICompletionResponse> {
+    const startTime = Date.now();
+
+    const response = await this.fetchWithTimeout(
+      `${this.config.baseUrl}/chat/completions`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.config.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          temperature: request.temperature ?? 0.3,
+          max_tokens: request.maxTokens ?? 2000,
+          ...(request.jsonMode && this.supportsJsonMode(model) && { response_format: { type: 'json_object' } }),
+        }),
+      },
+      this.timeoutMs
+    );
+
+    const latencyMs = Date.now() - startTime;
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`${this.providerName} API error: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+
+    if (!data.choices || !data.choices[0]?.message?.content) {
+      throw new Error(`Invalid ${this.providerName} response format`);
+    }
+
+    return {
+      content: data.choices[0].message.content,
+      model: data.model || model,
+      tokensUsed: data.usage?.total_tokens,
+      promptTokens: data.usage?.prompt_tokens,
+      completionTokens: data.usage?.completion_tokens,
+      latencyMs,
+      finishReason: data.choices[0].finish_reason,
+    };
+  }
+
+  async complete(request: AICompletionRequest): Promise<AICompletionResponse> {
+    const model = this.resolveModel(request.model, this.config.defaultModel!);
+
+    const messages: Array<{ role: string; content: string }> = [];
+
+    if (request.systemPrompt) {
+      messages.push({ role: 'system', content: request.systemPrompt });
+    }
+
+    messages.push({ role: 'user', content: request.prompt });
+
+    return this.chat(model, messages, request);
+  }
+
+  supportsVision(): boolean {
+    return this.visionEnabled;
+  }
+
+  supportsVisionModel(model: string): boolean {
+    return this.visionEnabled && this.models.includes(model);
+  }
+
+  // Images as data URLs in OpenAI image_url content parts
+  async completeWithVision(request: AIVisionRequest): Promise<AICompletionResponse> {
+    if (!this.visionEnabled) {
+      return super.completeWithVision(request);
+    }
+
+    const model = this.resolveModel(request.model, this.visionModel);
+
+    const messages: Array<{ role: string; content: unknown }> = [];
+
+    if (request.systemPrompt) {
+      messages.push({ role: 'system', content: request.systemPrompt });
+    }
+
+    messages.push({
+      role: 'user',
+      content: [
+        ...request.images.map(image => ({
+          type: 'image_url',
+          image_url: { url: `data:${image.mimeType};base64,${image.base64}` },
+        })),
+        { type: 'text', text: request.prompt },
+      ],
+    });
+
+    return this.chat(model, messages, request);
+  }
+
+  supportsJsonMode(model?: string): boolean {
+    return this.jsonModeEnabled;
+  }
+
+  // Lists models instead of generating - a cold local model can take a minute to load
+  async testConnection(): Promise<{ success: boolean; error?: string; latencyMs?: number }> {
+    try {
+      const startTime = Date.now();
+
+      const response = await this.fetchWithTimeout(
+        `${this.config.baseUrl}/models`,
+        {
+          method: 'GET',
+          headers: {
+            'Authorization': `Bearer ${this.config.apiKey}`,
+          },
+        },
+        15000
+      );
+
+      const latencyMs = Date.now() - startTime;
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        return { success: false, error: `${response.status}: ${errorText}` };
+      }
+
+      return { success: true, latencyMs };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  getAvailableModels(): string[] {
+    return this.models;
+  }
+}
@@ -6,7 +6,9 @@ import {
   BaseAdapter,
   AICompletionRequest,
   AICompletionResponse,
-  ProviderConfig
+  AIVisionRequest,
+  ProviderConfig,
+  VisionLimits
 } from './BaseAdapter';
 
 const OPENROUTER_API_URL = 'https://openrouter.ai/api/v1/chat/completions';
@@ -33,6 +35,20 @@ const OPENROUTER_FREE_MODELS = [
   'tngtech/deepseek-r1t-chimera:free',
 ];
 
+// Free models that accept images (OpenAI image_url parts)
+const OPENROUTER_VISION_MODELS = [
+  'google/gemma-3-27b-it:free',
+  'mistralai/mistral-small-3.1-24b-instruct:free',
+  'google/gemma-3-12b-it:free',
+  'nvidia/nemotron-nano-12b-v2-vl:free',
+];
+
+// Limits vary by upstream provider - stay within the strictest common ones
+const OPENROUTER_VISION_LIMITS: VisionLimits = {
+  maxImages: 5,
+  maxImageBytes: 5 * 1024 * 1024,
+};
+
 export class OpenRouterAdapter extends BaseAdapter {
   constructor(config: ProviderConfig) {
     super(
@@ -74,6 +90,7 @@ export class OpenRouterAdapter extends BaseAdapter {
           messages,
           temperature: request.temperature ?? 0.7,
           max_tokens: request.maxTokens ?? 2000,
+          ...(request.jsonMode && this.supportsJsonMode(model) && { response_format: { type: 'json_object' } }),
         }),
       },
       60000 // 60s timeout
@@ -96,11 +113,95 @@ export class OpenRouterAdapter extends BaseAdapter {
       content: data.choices[0].message.content,
       model: data.model || model,
       tokensUsed: data.usage?.total_tokens,
+      promptTokens: data.usage?.prompt_tokens,
+      completionTokens: data.usage?.completion_tokens,
       latencyMs,
       finishReason: data.choices[0].finish_reason,
     };
   }
 
+  supportsVision(): boolean {
+    return true;
+  }
+
+  supportsVisionModel(model: string): boolean {
+    return OPENROUTER_VISION_MODELS.includes(model);
+  }
+
+  async completeWithVision(request: AIVisionRequest): Promise<AICompletionResponse> {
+    const startTime = Date.now();
+    // Gemma 3 27B unless another vision model is requested
+    const model = this.resolveVisionModel(request.model, OPENROUTER_VISION_MODELS);
+
+    const images = this.fitImagesToLimits(request.images, OPENROUTER_VISION_LIMITS);
+
+    const messages: Array<{ role: string; content: unknown }> = [];
+
+    if (request.systemPrompt) {
+      messages.push({ role: 'system', content: request.systemPrompt });
+    }
+
+    messages.push({
+      role: 'user',
+      content: [
+        { type: 'text', text: request.prompt },
+        ...images.map(image => ({
+          type: 'image_url',
+          image_url: { url: `data:${image.mimeType};base64,${image.base64}` },
+        })),
+      ],
+    });
+
+    const response = await this.fetchWithTimeout(
+      this.config.baseUrl!,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.config.apiKey}`,
+          'Content-Type': 'application/json',
+          'HTTP-Referer': 'https://bartoszgaca.pl/product-ai-creator',
+          'X-Title': 'Product AI Creator',
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          temperature: request.temperature ?? 0.3,
+          max_tokens: request.maxTokens ?? 4000,
+          ...(request.jsonMode && this.supportsJsonMode(model) && { response_format: { type: 'json_object' } }),
+        }),
+      },
+      90000 // 90s timeout for vision requests
+    );
+
+    const latencyMs = Date.now() - startTime;
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`OpenRouter Vision error: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+
+    if (!data.choices || !data.choices[0]?.message?.content) {
+      throw new Error('Invalid OpenRouter Vision response format');
+    }
+
+    return {
+      content: data.choices[0].message.content,
+      model: data.model || model,
+      tokensUsed: data.usage?.total_tokens,
+      promptTokens: data.usage?.prompt_tokens,
+      completionTokens: data.usage?.completion_tokens,
+      latencyMs,
+      finishReason: data.choices[0].finish_reason,
+    };
+  }
+
+  // OpenAI-compatible response_format: json_object
+  supportsJsonMode(model?: string): boolean {
+    return true;
+  }
+
   async testConnection(): Promise<{ success: boolean; error?: string; latencyMs?: number }> {
     try {
       const startTime = Date.now();
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { MockAdapter, hashPrompt } from '../MockAdapter';
+
+describe('MockAdapter', () => {
+  it('answers from the fixture keyed by prompt hash', async () => {
+    const adapter = new MockAdapter({
+      fixtures: {
+        prompts: { [hashPrompt('Opisz produkt')]: { json: { name: 'Okulary' } } },
+        text: { content: 'fallback' },
+      },
+    });
+
+    const matched = await adapter.complete({ prompt: 'Opisz produkt' });
+    const unmatched = await adapter.complete({ prompt: 'Inny prompt' });
+
+    expect(JSON.parse(matched.content)).toEqual({ name: 'Okulary' });
+    expect(unmatched.content).toBe('fallback');
+    expect(adapter.calls.map(call => call.hash)).toEqual([hashPrompt('Opisz produkt'), hashPrompt('Inny prompt')]);
+  });
+
+  it('plays a fixture list in order and repeats the last entry', async () => {
+    const adapter = new MockAdapter({
+      fixtures: { text: [{ fail: 'rate_limit' }, { content: 'ok' }] },
+    });
+
+    await expect(adapter.complete({ prompt: 'a' })).rejects.toThrow('429');
+    await expect(adapter.complete({ prompt: 'a' })).resolves.toMatchObject({ content: 'ok' });
+    await expect(adapter.complete({ prompt: 'a' })).resolves.toMatchObject({ content: 'ok' });
+  });
+
+  it('simulates failures the way real providers report them', async () => {
+    const failing = (fail: 'rate_limit' | 'quota' | 'timeout' | 'server_error') =>
+      new MockAdapter({ fixtures: { text: { fail } } }).complete({ prompt: 'x' }).catch(error => error);
+
+    const adapter = new MockAdapter();
+    expect(adapter.classifyError(await failing('rate_limit'))).toBe('rate_limit');
+    expect(adapter.classifyError(await failing('quota'))).toBe('quota');
+    expect(adapter.classifyError(await failing('timeout'))).toBe('error');
+    expect(adapter.classifyError(await failing('server_error'))).toBe('error');
+  });
+
+  it('returns malformed JSON on request', async () => {
+    const adapter = new MockAdapter({ fixtures: { text: { fail: 'malformed_json' } } });
+    const response = await adapter.complete({ prompt: 'x' });
+
+    expect(() => JSON.parse(response.content)).toThrow();
+  });
+
+  it('uses the vision fixture for image requests and fails without a fixture', async () => {
+    const adapter = new MockAdapter({ fixtures: { vision: { json: { productType: 'Zegarek' } } } });
+
+    const vision = await adapter.completeWithVision({
+      prompt: 'Co to jest?',
+      images: [{ base64: 'AAAA', mimeType: 'image/jpeg' }],
+    });
+
+    expect(JSON.parse(vision.content)).toEqual({ productType: 'Zegarek' });
+    await expect(adapter.complete({ prompt: 'Co to jest?' })).rejects.toThrow('no fixture');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GroqAdapter } from '../GroqAdapter';
+import { MistralAdapter } from '../MistralAdapter';
+import { OpenRouterAdapter } from '../OpenRouterAdapter';
+
+// Capture the request body and answer like an OpenAI-compatible API
+function stubChatApi() {
+  const bodies: Array<{ model: string; messages: Array<{ role: string; content: unknown }> }> = [];
+
+  vi.stubGlobal('fetch', vi.fn(async (_url: string, init?: RequestInit) => {
+    bodies.push(JSON.parse(String(init?.body)));
+    return new Response(JSON.stringify({
+      choices: [{ message: { content: '{"productType": "Okulary"}' }, finish_reason: 'stop' }],
+    }), { status: 200 });
+  }));
+
+  return bodies;
+}
+
+const image = (sizeBytes = 100) => ({ base64: 'A'.repeat(sizeBytes), mimeType: 'image/jpeg' });
+
+describe('vision adapters', () => {
+  it('Groq sends OpenAI image_url parts to a Llama 4 vision model', async () => {
+    const bodies = stubChatApi();
+
+    const response = await new GroqAdapter({ apiKey: 'g' }).completeWithVision({
+      prompt: 'Co to jest?',
+      systemPrompt: 'Analityk produktow',
+      images: [image()],
+    });
+
+    expect(response.model).toBe('meta-llama/llama-4-scout-17b-16e-instruct');
+    expect(bodies[0].messages).toEqual([
+      { role: 'system', content: 'Analityk produktow' },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Co to jest?' },
+          { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${image().base64}` } },
+        ],
+      },
+    ]);
+  });
+
+  it('Groq keeps at most 5 images and drops images over 4MB', async () => {
+    const bodies = stubChatApi();
+    const images = [image(5 * 1024 * 1024), ...Array.from({ length: 6 }, () => image())];
+
+    await new GroqAdapter({ apiKey: 'g' }).completeWithVision({ prompt: 'x', images });
+
+    const parts = bodies[0].messages[0].content as Array<{ type: string }>;
+    expect(parts.filter(part => part.type === 'image_url')).toHaveLength(5);
+  });
+
+  it('Mistral sends data URL strings to Pixtral', async () => {
+    const bodies = stubChatApi();
+
+    await new MistralAdapter({ apiKey: 'm' }).completeWithVision({ prompt: 'x', images: [image()] });
+
+    expect(bodies[0].model).toBe('pixtral-12b-2409');
+    expect(bodies[0].messages[0].content).toContainEqual({
+      type: 'image_url',
+      image_url: `data:image/jpeg;base64,${image().base64}`,
+    });
+  });
+
+  it('OpenRouter keeps a requested vision model and fails when no image fits', async () => {
+    const bodies = stubChatApi();
+    const adapter = new OpenRouterAdapter({ apiKey: 'o' });
+
+    await adapter.completeWithVision({
+      prompt: 'x',
+      images: [image()],
+      model: 'mistralai/mistral-small-3.1-24b-instruct:free',
+    });
+
+    expect(bodies[0].model).toBe('mistralai/mistral-small-3.1-24b-instruct:free');
+    await expect(adapter.completeWithVision({ prompt: 'x', images: [image(6 * 1024 * 1024)] }))
+      .rejects.toThrow('all images exceed 5MB');
+  });
+
+  it('rejects models without image support instead of switching models', async () => {
+    const bodies = stubChatApi();
+
+    await expect(new GroqAdapter({ apiKey: 'g' }).completeWithVision({
+      prompt: 'x',
+      images: [image()],
+      model: 'llama-3.3-70b-versatile',
+    })).rejects.toThrow('model llama-3.3-70b-versatile does not support images');
+    await expect(new MistralAdapter({ apiKey: 'm' }).completeWithVision({
+      prompt: 'x',
+      images: [image()],
+      model: 'open-mistral-7b',
+    })).rejects.toThrow('model open-mistral-7b does not support images');
+
+    expect(bodies).toEqual([]);
+  });
+});
@@ -7,6 +7,8 @@ export * from './GoogleAIAdapter';
 export * from './MistralAdapter';
 export * from './DeepSeekAdapter';
 export * from './OpenRouterAdapter';
+export * from './OpenAICompatibleAdapter';
+export * from './MockAdapter';
 
 // Adapter factory
 import { BaseAdapter, ProviderConfig } from './BaseAdapter';
@@ -16,8 +18,10 @@ import { GoogleAIAdapter } from './GoogleAIAdapter';
 import { MistralAdapter } from './MistralAdapter';
 import { DeepSeekAdapter } from './DeepSeekAdapter';
 import { OpenRouterAdapter } from './OpenRouterAdapter';
+import { OpenAICompatibleAdapter, getLocalProviderConfig, DEFAULT_LOCAL_BASE_URL } from './OpenAICompatibleAdapter';
+import { MockAdapter, getMockProviderConfig } from './MockAdapter';
 
-export type ProviderType = 'groq' | 'cerebras' | 'google' | 'mistral' | 'deepseek' | 'openrouter';
+export type ProviderType = 'groq' | 'cerebras' | 'google' | 'mistral' | 'deepseek' | 'openrouter' | 'local' | 'mock';
 
 export function createAdapter(type: ProviderType, config: ProviderConfig): BaseAdapter {
   switch (type) {
@@ -33,6 +37,17 @@ export function createAdapter(type: ProviderType, config: ProviderConfig): BaseA
       return new DeepSeekAdapter(config);
     case 'openrouter':
       return new OpenRouterAdapter(config);
+    case 'local': {
+      const local = getLocalProviderConfig();
+      return new OpenAICompatibleAdapter({
+        models: [],
+        ...local,
+        ...config,
+        baseUrl: config.baseUrl || local?.baseUrl || DEFAULT_LOCAL_BASE_URL,
+      });
+    }
+    case 'mock':
+      return new MockAdapter({ ...getMockProviderConfig(), ...config });
     default:
       throw new Error(`Unknown provider type: ${type}`);
   }
@@ -47,7 +62,13 @@ export const DEFAULT_PROVIDER_CONFIGS: Record<ProviderType, {
   defaultModel: string;
   rateLimitRpm: number;
   rateLimitRpd: number;
+  // Parallel requests allowed (override with AI_MAX_CONCURRENCY_<PROVIDER>)
+  maxConcurrency: number;
   supportsVision: boolean;
+  // Order among vision providers (lower = first); falls back to priority
+  visionPriority?: number;
+  // Longest image side worth sending (images are downscaled before vision)
+  visionMaxDimension?: number;
 }> = {
   groq: {
     priority: 1,
@@ -56,7 +77,10 @@ export const DEFAULT_PROVIDER_CONFIGS: Record<ProviderType, {
     defaultModel: 'llama-3.3-70b-versatile',
     rateLimitRpm: 30,
     rateLimitRpd: 14400,
-    supportsVision: false,
+    maxConcurrency: 2,
+    supportsVision: true,
+    visionPriority: 2,
+    visionMaxDimension: 1536,
   },
   cerebras: {
     priority: 2,
@@ -65,6 +89,7 @@ export const DEFAULT_PROVIDER_CONFIGS: Record<ProviderType, {
     defaultModel: 'llama-3.3-70b',
     rateLimitRpm: 30,
     rateLimitRpd: 14400,
+    maxConcurrency: 2,
     supportsVision: false,
   },
   google: {
@@ -74,7 +99,10 @@ export const DEFAULT_PROVIDER_CONFIGS: Record<ProviderType, {
     defaultModel: 'gemma-3-27b-it',
     rateLimitRpm: 30,
     rateLimitRpd: 14400,
+    maxConcurrency: 2,
     supportsVision: true,
+    visionPriority: 1,
+    visionMaxDimension: 2048,
   },
   mistral: {
     priority: 4,
@@ -83,7 +111,10 @@ export const DEFAULT_PROVIDER_CONFIGS: Record<ProviderType, {
     defaultModel: 'mistral-small-latest',
     rateLimitRpm: 1,
     rateLimitRpd: 500,
-    supportsVision: false,
+    maxConcurrency: 1,
+    supportsVision: true,
+    visionPriority: 3,
+    visionMaxDimension: 1024,
   },
   deepseek: {
     priority: 5,
@@ -92,6 +123,7 @@ export const DEFAULT_PROVIDER_CONFIGS: Record<ProviderType, {
     defaultModel: 'deepseek-chat',
     rateLimitRpm: 60,
     rateLimitRpd: 10000,
+    maxConcurrency: 4,
     supportsVision: false,
   },
   openrouter: {
@@ -101,7 +133,33 @@ export const DEFAULT_PROVIDER_CONFIGS: Record<ProviderType, {
     defaultModel: 'meta-llama/llama-3.3-70b-instruct:free',
     rateLimitRpm: 20,
     rateLimitRpd: 200,
-    supportsVision: false,
+    maxConcurrency: 1,
+    supportsVision: true,
+    visionPriority: 4,
+    visionMaxDimension: 1536,
+  },
+  // Ollama / llama.cpp / vLLM / LM Studio - offline fallback, configured with LOCAL_AI_*
+  local: {
+    priority: 7,
+    name: 'Local (OpenAI-compatible)',
+    tier: 'LOCAL',
+    defaultModel: process.env.LOCAL_AI_MODELS?.split(',')[0].trim() || 'llama3.1',
+    rateLimitRpm: 1000,
+    rateLimitRpd: 1000000,
+    maxConcurrency: 1,
+    supportsVision: process.env.LOCAL_AI_VISION === 'true',
+    visionMaxDimension: 1024,
+  },
+  // Deterministic fixtures for tests (AI_MOCK_PROVIDER=true) - always tried first when enabled
+  mock: {
+    priority: 0,
+    name: 'Mock AI',
+    tier: 'TEST',
+    defaultModel: 'mock-model',
+    rateLimitRpm: 1000,
+    rateLimitRpd: 1000000,
+    maxConcurrency: 4,
+    supportsVision: true,
   },
 };
 
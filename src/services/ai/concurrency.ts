@@ -0,0 +1,78 @@
+// Per-provider concurrency limits
+// Caps parallel requests per provider so background jobs do not burst free-tier limits
+
+import { DEFAULT_PROVIDER_CONFIGS, type ProviderType } from './adapters';
+
+// Counting semaphore with FIFO waiters
+export class Semaphore {
+  private active = 0;
+  private waiters: Array<() => void> = [];
+
+  constructor(private readonly limit: number) {}
+
+  async acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return;
+    }
+
+    await new Promise<void>(resolve => this.waiters.push(resolve));
+  }
+
+  release(): void {
+    const next = this.waiters.shift();
+    if (next) {
+      // Hand the slot over directly - active count stays the same
+      next();
+    } else {
+      this.active = Math.max(0, this.active - 1);
+    }
+  }
+
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await fn();
+    } finally {
+      this.release();
+    }
+  }
+
+  getStats(): { active: number; waiting: number; limit: number } {
+    return { active: this.active, waiting: this.waiters.length, limit: this.limit };
+  }
+}
+
+const semaphores: Map<ProviderType, Semaphore> = new Map();
+
+// Limit from AI_MAX_CONCURRENCY_<PROVIDER> or the provider default
+export function getProviderConcurrencyLimit(type: ProviderType): number {
+  const fromEnv = Number(process.env[`AI_MAX_CONCURRENCY_${type.toUpperCase()}`]);
+  return Number.isInteger(fromEnv) && fromEnv > 0
+    ? fromEnv
+    : DEFAULT_PROVIDER_CONFIGS[type].maxConcurrency;
+}
+
+function getSemaphore(type: ProviderType): Semaphore {
+  let semaphore = semaphores.get(type);
+  if (!semaphore) {
+    semaphore = new Semaphore(getProviderConcurrencyLimit(type));
+    semaphores.set(type, semaphore);
+  }
+  return semaphore;
+}
+
+/**
+ * Run a provider call once a slot for that provider is free
+ */
+export function withProviderSlot<T>(type: ProviderType, fn: () => Promise<T>): Promise<T> {
+  return getSemaphore(type).run(fn);
+}
+
+export function getProviderConcurrencyStats(): Partial<Record<ProviderType, { active: number; waiting: number; limit: number }>> {
+  const stats: Partial<Record<ProviderType, { active: number; waiting: number; limit: number }>> = {};
+  semaphores.forEach((semaphore, type) => {
+    stats[type] = semaphore.getStats();
+  });
+  return stats;
+}
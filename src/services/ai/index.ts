@@ -2,14 +2,36 @@
 // G.A.C.A. Multi-Provider Failover System
 // Automatically switches to next provider when rate limits are hit
 
+import type { z } from 'zod';
 import { GroqAdapter } from './adapters/GroqAdapter';
 import { CerebrasAdapter } from './adapters/CerebrasAdapter';
 import { GoogleAIAdapter } from './adapters/GoogleAIAdapter';
 import { MistralAdapter } from './adapters/MistralAdapter';
 import { DeepSeekAdapter } from './adapters/DeepSeekAdapter';
 import { OpenRouterAdapter } from './adapters/OpenRouterAdapter';
+import { OpenAICompatibleAdapter, getLocalProviderConfig } from './adapters/OpenAICompatibleAdapter';
+import { MockAdapter, getMockProviderConfig } from './adapters/MockAdapter';
 import { BaseAdapter } from './adapters/BaseAdapter';
 import { ProviderType, DEFAULT_PROVIDER_CONFIGS, getProvidersByPriority } from './adapters';
+import { withProviderSlot } from './concurrency';
+import {
+  tryAcquireProvider,
+  recordProviderSuccess,
+  recordProviderFailure,
+  releaseProviderProbe,
+  getProviderHealth,
+  type ProviderHealth,
+} from './provider-health';
+import {
+  tryConsumeProviderBudget,
+  getShortestBudgetWaitMs,
+  getProviderQuota,
+  type ProviderQuota,
+} from './rate-limiter';
+import { recordAIUsage } from './usage';
+import { DEFAULT_STRUCTURED_ATTEMPTS, parseStructuredOutput, buildRepairPrompt } from './structured-output';
+import type { RouteStep } from './routing';
+import { sleep } from '@/lib/utils';
 import type { AICompletionRequest, AIVisionRequest, AICompletionResponse } from './adapters/BaseAdapter';
 
 export type { AICompletionRequest, AIVisionRequest, AICompletionResponse };
@@ -17,13 +39,67 @@ export type { AICompletionRequest, AIVisionRequest, AICompletionResponse };
 // Singleton adapter instances
 const adapters: Map<ProviderType, BaseAdapter> = new Map();
 
+// Failover attempt notification (live pipeline progress)
+export interface ProviderAttemptEvent {
+  kind: 'text' | 'vision';
+  provider: ProviderType;
+  providerName: string;
+  status: 'trying' | 'succeeded' | 'failed' | 'skipped';
+  error?: string;
+  latencyMs?: number;
+}
+
+const attemptListeners: Set<(event: ProviderAttemptEvent) => void> = new Set();
+
+/**
+ * Listen to every provider attempt made by the failover loops
+ */
+export function onProviderAttempt(listener: (event: ProviderAttemptEvent) => void): () => void {
+  attemptListeners.add(listener);
+  return () => attemptListeners.delete(listener);
+}
+
+function notifyAttempt(event: ProviderAttemptEvent): void {
+  attemptListeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.warn('[G.A.C.A.] Attempt listener failed:', error);
+    }
+  });
+}
+
 // Get or create adapter
 function getAdapter(type: ProviderType): BaseAdapter | null {
   if (adapters.has(type)) {
     return adapters.get(type)!;
   }
 
-  const envKeyMap: Record<ProviderType, string> = {
+  // Local provider needs a base URL instead of an API key
+  if (type === 'local') {
+    const localConfig = getLocalProviderConfig();
+    if (!localConfig) {
+      return null;
+    }
+
+    const adapter = new OpenAICompatibleAdapter(localConfig);
+    adapters.set(type, adapter);
+    return adapter;
+  }
+
+  // Mock provider is switched on explicitly (tests, offline development)
+  if (type === 'mock') {
+    const mockConfig = getMockProviderConfig();
+    if (!mockConfig) {
+      return null;
+    }
+
+    const adapter = new MockAdapter(mockConfig);
+    adapters.set(type, adapter);
+    return adapter;
+  }
+
+  const envKeyMap: Record<Exclude<ProviderType, 'local' | 'mock'>, string> = {
     groq: 'GROQ_API_KEY',
     cerebras: 'CEREBRAS_API_KEY',
     google: 'GOOGLE_AI_API_KEY',
@@ -63,10 +139,17 @@ function getAdapter(type: ProviderType): BaseAdapter | null {
   return adapter;
 }
 
+// Provider (and model, if not its default) tried by the failover loops
+interface Candidate {
+  type: ProviderType;
+  adapter: BaseAdapter;
+  model?: string;
+}
+
 // Get all available adapters sorted by priority
-function getAvailableAdapters(): Array<{ type: ProviderType; adapter: BaseAdapter }> {
+function getAvailableAdapters(): Candidate[] {
   const providers = getProvidersByPriority();
-  const available: Array<{ type: ProviderType; adapter: BaseAdapter }> = [];
+  const available: Candidate[] = [];
 
   for (const type of providers) {
     const adapter = getAdapter(type);
@@ -78,100 +161,339 @@ function getAvailableAdapters(): Array<{ type: ProviderType; adapter: BaseAdapte
   return available;
 }
 
-// Get vision-capable adapters
-function getVisionAdapters(): Array<{ type: ProviderType; adapter: BaseAdapter }> {
-  return getAvailableAdapters().filter(({ adapter }) => adapter.supportsVision());
+// Get vision-capable adapters in vision priority order (Google first)
+function getVisionAdapters(): Candidate[] {
+  const visionPriority = (type: ProviderType) =>
+    DEFAULT_PROVIDER_CONFIGS[type].visionPriority ?? DEFAULT_PROVIDER_CONFIGS[type].priority;
+
+  return getAvailableAdapters()
+    .filter(({ adapter }) => adapter.supportsVision())
+    .sort((a, b) => visionPriority(a.type) - visionPriority(b.type));
+}
+
+/**
+ * Candidates in routing chain order (unconfigured providers are left out).
+ * Without a chain - or if none of its providers is available - the priority order is used.
+ */
+function routeCandidates(available: Candidate[], route: RouteStep[] | undefined, model: string | undefined): Candidate[] {
+  const routed = (route || []).flatMap(step => {
+    const candidate = available.find(({ type }) => type === step.provider);
+    return candidate ? [{ ...candidate, model: step.model ?? model }] : [];
+  });
+
+  if (route?.length && routed.length === 0) {
+    console.warn(`[G.A.C.A.] No provider of the routing chain is available (${route.map(step => step.provider).join(', ')}) - using priority order`);
+  }
+
+  return routed.length > 0 ? routed : available.map(candidate => ({ ...candidate, model }));
+}
+
+// Longest wait for a minute budget before giving up on all providers
+const MAX_BUDGET_WAIT_MS = 60_000;
+
+type AttemptOutcome =
+  | { result: AICompletionResponse }
+  | { skipped: 'circuit' | 'budget'; reason: string };
+
+/**
+ * One failover attempt: skips providers with an open circuit or no rate
+ * budget left, waits for a concurrency slot and records the outcome in
+ * provider health and the usage ledger. Throws if the provider call fails.
+ */
+async function attemptProvider(
+  kind: 'text' | 'vision',
+  type: ProviderType,
+  adapter: BaseAdapter,
+  model: string | undefined,
+  call: () => Promise<AICompletionResponse>
+): Promise<AttemptOutcome> {
+  const providerName = adapter.getProviderName();
+  const logPrefix = kind === 'vision' ? '[G.A.C.A. Vision]' : '[G.A.C.A.]';
+
+  const skip = (skipped: 'circuit' | 'budget', reason: string): AttemptOutcome => {
+    console.log(`${logPrefix} Skipping ${providerName}: ${reason}`);
+    notifyAttempt({ kind, provider: type, providerName, status: 'skipped', error: reason });
+    return { skipped, reason };
+  };
+
+  if (!tryAcquireProvider(type)) {
+    const { openUntil, lastErrorKind } = getProviderHealth(type);
+    return skip('circuit', `circuit open (${lastErrorKind}) until ${openUntil}`);
+  }
+
+  if (!(await tryConsumeProviderBudget(type))) {
+    releaseProviderProbe(type);
+    return skip('budget', 'rate limit budget used up');
+  }
+
+  const startTime = Date.now();
+
+  try {
+    console.log(`${logPrefix} Trying ${providerName}...`);
+    notifyAttempt({ kind, provider: type, providerName, status: 'trying' });
+
+    const result = await withProviderSlot(type, call);
+
+    recordProviderSuccess(type);
+    recordAIUsage({
+      provider: type,
+      model: result.model,
+      kind,
+      latencyMs: result.latencyMs,
+      success: true,
+      promptTokens: result.promptTokens,
+      completionTokens: result.completionTokens,
+      totalTokens: result.tokensUsed,
+    });
+    console.log(`${logPrefix} Success with ${providerName} (${result.latencyMs}ms)`);
+    notifyAttempt({ kind, provider: type, providerName, status: 'succeeded', latencyMs: result.latencyMs });
+    return { result };
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+    const errorKind = adapter.classifyError(error);
+    recordProviderFailure(type, errorKind, errorMsg);
+    recordAIUsage({
+      provider: type,
+      model: model || adapter.getDefaultModel() || 'unknown',
+      kind,
+      latencyMs: Date.now() - startTime,
+      success: false,
+      errorKind,
+      error: errorMsg,
+    });
+    console.warn(`${logPrefix} ${providerName} failed: ${errorMsg}`);
+    notifyAttempt({ kind, provider: type, providerName, status: 'failed', error: errorMsg });
+    throw error;
+  }
+}
+
+/**
+ * Try providers in order until one succeeds. If the only thing in the way
+ * is a used-up minute budget, waits for the next token instead of failing.
+ */
+async function runFailover(
+  kind: 'text' | 'vision',
+  candidates: Candidate[],
+  call: (candidate: Candidate) => Promise<AICompletionResponse>
+): Promise<AICompletionResponse> {
+  const errors: string[] = [];
+  let round = candidates;
+
+  while (round.length > 0) {
+    const outOfBudget: typeof candidates = [];
+
+    for (const candidate of round) {
+      const { type, adapter, model } = candidate;
+
+      try {
+        const outcome = await attemptProvider(kind, type, adapter, model, () => call(candidate));
+
+        if ('result' in outcome) {
+          return { ...outcome.result, provider: type };
+        }
+
+        if (outcome.skipped === 'budget') {
+          outOfBudget.push(candidate);
+        }
+        errors.push(`${type}: ${outcome.reason}`);
+      } catch (error) {
+        errors.push(`${type}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      // Continue to next provider
+    }
+
+    const waitMs = getShortestBudgetWaitMs(outOfBudget.map(({ type }) => type));
+    if (waitMs === null || waitMs > MAX_BUDGET_WAIT_MS) {
+      break;
+    }
+
+    console.log(`[G.A.C.A.] All remaining providers at their rate limit, waiting ${waitMs}ms`);
+    await sleep(waitMs);
+    round = outOfBudget;
+  }
+
+  const label = kind === 'vision' ? 'vision' : 'AI';
+  throw new Error(`All ${label} providers failed:\n${errors.join('\n')}`);
+}
+
+// Structured output: answer must be JSON matching the schema
+export interface StructuredOptions<T> {
+  schema: z.ZodType<T>;
+  maxAttempts?: number; // Answers tried (first + repairs), default AI_STRUCTURED_MAX_ATTEMPTS or 3
+}
+
+export interface StructuredResponse<T> extends AICompletionResponse {
+  data: T;
+  attempts: number;
+}
+
+export interface GenerateContentOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  route?: RouteStep[]; // Provider/model chain instead of the priority order
+}
+
+export interface AnalyzeImagesOptions {
+  model?: string;
+  route?: RouteStep[];
+}
+
+/**
+ * Failover with schema validation: an invalid answer is sent back with the
+ * validation errors, to the next provider first (or the same one if it is the only one)
+ */
+async function runStructuredFailover<T>(
+  kind: 'text' | 'vision',
+  candidates: Candidate[],
+  prompt: string,
+  structured: StructuredOptions<T>,
+  call: (candidate: Candidate, prompt: string) => Promise<AICompletionResponse>
+): Promise<StructuredResponse<T>> {
+  const maxAttempts = structured.maxAttempts ?? DEFAULT_STRUCTURED_ATTEMPTS;
+  let order = candidates;
+  let currentPrompt = prompt;
+  let lastErrors: string[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    let answeredBy: Candidate | null = null;
+
+    const response = await runFailover(kind, order, candidate => {
+      answeredBy = candidate;
+      return call(candidate, currentPrompt);
+    });
+
+    const parsed = parseStructuredOutput(response.content, structured.schema);
+    if (parsed.success) {
+      return { ...response, data: parsed.data, attempts: attempt };
+    }
+
+    lastErrors = parsed.errors;
+    console.warn(
+      `[G.A.C.A.] Invalid JSON from ${answeredBy!.adapter.getProviderName()} (attempt ${attempt}/${maxAttempts}): ${parsed.errors.join('; ')}`
+    );
+
+    currentPrompt = buildRepairPrompt(prompt, response.content, parsed.errors);
+    order = [
+      ...order.filter(candidate => candidate !== answeredBy),
+      ...order.filter(candidate => candidate === answeredBy),
+    ];
+  }
+
+  throw new Error(`No valid JSON after ${maxAttempts} attempts: ${lastErrors.join('; ')}`);
 }
 
 /**
  * Generate content with G.A.C.A. failover
- * Tries each provider in priority order until one succeeds
+ * Tries each provider in priority order until one succeeds,
+ * skipping providers whose circuit is open or whose rate budget is used up.
+ * With a schema, returns validated `data` (JSON mode where supported, repair loop otherwise).
  */
+export async function generateContent<T>(
+  prompt: string,
+  systemPrompt: string | undefined,
+  options: GenerateContentOptions & StructuredOptions<T>
+): Promise<StructuredResponse<T>>;
 export async function generateContent(
   prompt: string,
   systemPrompt?: string,
-  options?: {
-    model?: string;
-    temperature?: number;
-    maxTokens?: number;
-  }
-): Promise<AICompletionResponse> {
+  options?: GenerateContentOptions
+): Promise<AICompletionResponse>;
+export async function generateContent<T>(
+  prompt: string,
+  systemPrompt?: string,
+  options?: GenerateContentOptions & Partial<StructuredOptions<T>>
+): Promise<AICompletionResponse | StructuredResponse<T>> {
   const availableAdapters = getAvailableAdapters();
 
   if (availableAdapters.length === 0) {
     throw new Error('No AI providers configured. Check your API keys in .env');
   }
 
-  const errors: string[] = [];
-
-  for (const { type, adapter } of availableAdapters) {
-    try {
-      console.log(`[G.A.C.A.] Trying ${adapter.getProviderName()}...`);
-
-      const result = await adapter.complete({
-        prompt,
-        systemPrompt,
-        model: options?.model,
-        temperature: options?.temperature ?? 0.7,
-        maxTokens: options?.maxTokens ?? 2000,
-      });
-
-      console.log(`[G.A.C.A.] Success with ${adapter.getProviderName()} (${result.latencyMs}ms)`);
-      return result;
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-      console.warn(`[G.A.C.A.] ${adapter.getProviderName()} failed: ${errorMsg}`);
-      errors.push(`${type}: ${errorMsg}`);
-
-      // Continue to next provider
-      continue;
-    }
+  const candidates = routeCandidates(availableAdapters, options?.route, options?.model);
+
+  const complete = ({ adapter, model }: Candidate, currentPrompt: string) => adapter.complete({
+    prompt: currentPrompt,
+    systemPrompt,
+    model,
+    temperature: options?.temperature ?? 0.7,
+    maxTokens: options?.maxTokens ?? 2000,
+    jsonMode: !!options?.schema,
+  });
+
+  if (options?.schema) {
+    return runStructuredFailover('text', candidates, prompt, {
+      schema: options.schema,
+      maxAttempts: options.maxAttempts,
+    }, complete);
   }
 
-  throw new Error(`All AI providers failed:\n${errors.join('\n')}`);
+  return runFailover('text', candidates, candidate => complete(candidate, prompt));
 }
 
 /**
- * Analyze images using vision-capable provider (Google AI)
- * Falls back to other vision providers if available
+ * Analyze images using vision-capable providers
+ * Google AI first, then Groq (Llama 4), Mistral (Pixtral) and OpenRouter
  */
+export async function analyzeImages<T>(
+  images: Array<{ base64: string; mimeType: string }>,
+  prompt: string,
+  systemPrompt: string | undefined,
+  options: AnalyzeImagesOptions & StructuredOptions<T>
+): Promise<StructuredResponse<T>>;
 export async function analyzeImages(
   images: Array<{ base64: string; mimeType: string }>,
   prompt: string,
-  systemPrompt?: string
-): Promise<AICompletionResponse> {
+  systemPrompt?: string,
+  options?: AnalyzeImagesOptions
+): Promise<AICompletionResponse>;
+export async function analyzeImages<T>(
+  images: Array<{ base64: string; mimeType: string }>,
+  prompt: string,
+  systemPrompt?: string,
+  options?: AnalyzeImagesOptions & Partial<StructuredOptions<T>>
+): Promise<AICompletionResponse | StructuredResponse<T>> {
   const visionAdapters = getVisionAdapters();
 
   if (visionAdapters.length === 0) {
-    throw new Error('No vision-capable AI providers configured. Add GOOGLE_AI_API_KEY to .env');
+    throw new Error('No vision-capable AI providers configured. Add GOOGLE_AI_API_KEY, GROQ_API_KEY, MISTRAL_API_KEY or OPENROUTER_API_KEY to .env');
   }
 
-  const errors: string[] = [];
+  // Each adapter falls back to its own vision model when no model is routed
+  const routed = routeCandidates(visionAdapters, options?.route, options?.model);
 
-  for (const { type, adapter } of visionAdapters) {
-    try {
-      console.log(`[G.A.C.A. Vision] Trying ${adapter.getProviderName()}...`);
-
-      const result = await adapter.completeWithVision({
-        images,
-        prompt,
-        systemPrompt,
-        model: 'gemma-3-27b-it',
-        temperature: 0.3,
-        maxTokens: 4000,
-      });
-
-      console.log(`[G.A.C.A. Vision] Success with ${adapter.getProviderName()} (${result.latencyMs}ms)`);
-      return result;
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-      console.warn(`[G.A.C.A. Vision] ${adapter.getProviderName()} failed: ${errorMsg}`);
-      errors.push(`${type}: ${errorMsg}`);
-      continue;
-    }
+  // A pinned model only goes to providers that serve it - the others would use up
+  // their rate budget and count a failure against their circuit for nothing
+  const candidates = routed.filter(({ adapter, model }) => !model || adapter.supportsVisionModel(model));
+
+  if (candidates.length === 0) {
+    throw new Error(`No vision provider supports the requested model: ${routed.map(({ type, model }) => `${type} (${model})`).join(', ')}`);
+  }
+
+  if (candidates.length < routed.length) {
+    const skipped = routed.filter(candidate => !candidates.includes(candidate));
+    console.warn(`[G.A.C.A. Vision] Skipping providers without the requested model: ${skipped.map(({ type, model }) => `${type} (${model})`).join(', ')}`);
+  }
+
+  const completeWithVision = ({ adapter, model }: Candidate, currentPrompt: string) => adapter.completeWithVision({
+    images,
+    prompt: currentPrompt,
+    systemPrompt,
+    model,
+    temperature: 0.3,
+    maxTokens: 4000,
+    jsonMode: !!options?.schema,
+  });
+
+  if (options?.schema) {
+    return runStructuredFailover('vision', candidates, prompt, {
+      schema: options.schema,
+      maxAttempts: options.maxAttempts,
+    }, completeWithVision);
   }
 
-  throw new Error(`All vision providers failed:\n${errors.join('\n')}`);
+  return runFailover('vision', candidates, candidate => completeWithVision(candidate, prompt));
 }
 
 /**
@@ -238,6 +560,31 @@ export function getAvailableModels(): Record<ProviderType, string[]> {
   return result as Record<ProviderType, string[]>;
 }
 
+/**
+ * Configured vision-capable providers in vision priority order
+ */
+export function getVisionProviders(): ProviderType[] {
+  return getVisionAdapters().map(({ type }) => type);
+}
+
+// Used when the first vision provider has no visionMaxDimension
+const DEFAULT_VISION_MAX_DIMENSION = 1536;
+
+/**
+ * Longest image side for the vision provider tried first (routing chain or
+ * vision priority order). VISION_MAX_DIMENSION overrides it.
+ */
+export function getVisionMaxDimension(route?: RouteStep[]): number {
+  const override = Number(process.env.VISION_MAX_DIMENSION);
+  if (override > 0) {
+    return override;
+  }
+
+  const [first] = routeCandidates(getVisionAdapters(), route, undefined);
+
+  return (first && DEFAULT_PROVIDER_CONFIGS[first.type].visionMaxDimension) || DEFAULT_VISION_MAX_DIMENSION;
+}
+
 /**
  * Get provider status for UI display
  */
@@ -248,6 +595,7 @@ export function getProviderStatus(): Array<{
   tier: string;
   configured: boolean;
   supportsVision: boolean;
+  health: ProviderHealth;
 }> {
   const providers = getProvidersByPriority();
 
@@ -258,5 +606,27 @@ export function getProviderStatus(): Array<{
     tier: DEFAULT_PROVIDER_CONFIGS[type].tier,
     configured: !!getAdapter(type),
     supportsVision: DEFAULT_PROVIDER_CONFIGS[type].supportsVision,
+    health: getProviderHealth(type),
   }));
 }
+
+/**
+ * Remaining rate limit budget per provider for UI display
+ */
+export async function getProviderQuotaStatus(): Promise<Array<{
+  type: ProviderType;
+  name: string;
+  configured: boolean;
+  quota: ProviderQuota;
+}>> {
+  const providers = getProvidersByPriority();
+
+  return Promise.all(
+    providers.map(async type => ({
+      type,
+      name: DEFAULT_PROVIDER_CONFIGS[type].name,
+      configured: !!getAdapter(type),
+      quota: await getProviderQuota(type),
+    }))
+  );
+}
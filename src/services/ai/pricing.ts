@@ -0,0 +1,79 @@
+// AI price table (USD per 1M tokens)
+// Free tiers cost nothing; paid models are priced here or via AI_PRICING_JSON
+
+import type { ProviderType } from './adapters';
+
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// Keys: 'provider' (all models), 'provider:model' or 'provider:*suffix' (e.g. OpenRouter ':free' models)
+export const DEFAULT_PRICING: Record<string, ModelPrice> = {
+  groq: { inputPerMillion: 0, outputPerMillion: 0 },
+  cerebras: { inputPerMillion: 0, outputPerMillion: 0 },
+  google: { inputPerMillion: 0, outputPerMillion: 0 },
+  mistral: { inputPerMillion: 0, outputPerMillion: 0 },
+  'deepseek:deepseek-chat': { inputPerMillion: 0.28, outputPerMillion: 0.42 },
+  'deepseek:deepseek-reasoner': { inputPerMillion: 0.28, outputPerMillion: 0.42 },
+  'openrouter:*:free': { inputPerMillion: 0, outputPerMillion: 0 },
+  local: { inputPerMillion: 0, outputPerMillion: 0 },
+  mock: { inputPerMillion: 0, outputPerMillion: 0 },
+};
+
+let pricingCache: Record<string, ModelPrice> | null = null;
+
+/**
+ * Price table: defaults merged with AI_PRICING_JSON, e.g.
+ * {"openrouter:anthropic/claude-3.5-haiku": {"inputPerMillion": 0.8, "outputPerMillion": 4}}
+ */
+export function getPricingTable(): Record<string, ModelPrice> {
+  if (pricingCache) return pricingCache;
+
+  let overrides: Record<string, ModelPrice> = {};
+  if (process.env.AI_PRICING_JSON) {
+    try {
+      overrides = JSON.parse(process.env.AI_PRICING_JSON);
+    } catch {
+      console.warn('[Pricing] AI_PRICING_JSON is not valid JSON - using default prices');
+    }
+  }
+
+  pricingCache = { ...DEFAULT_PRICING, ...overrides };
+  return pricingCache;
+}
+
+// Most specific entry: exact model, then suffix pattern, then provider-wide
+export function getModelPrice(provider: ProviderType, model: string): ModelPrice | null {
+  const table = getPricingTable();
+
+  const exact = table[`${provider}:${model}`];
+  if (exact) return exact;
+
+  const suffixKey = Object.keys(table).find(key =>
+    key.startsWith(`${provider}:*`) && model.endsWith(key.slice(provider.length + 2))
+  );
+  if (suffixKey) return table[suffixKey];
+
+  return table[provider] || null;
+}
+
+/**
+ * Cost of one call in USD (null if the model has no price or tokens are unknown)
+ */
+export function calculateCostUsd(
+  provider: ProviderType,
+  model: string,
+  promptTokens?: number,
+  completionTokens?: number
+): number | null {
+  const price = getModelPrice(provider, model);
+  if (price && price.inputPerMillion === 0 && price.outputPerMillion === 0) {
+    return 0;
+  }
+  if (!price || promptTokens === undefined || completionTokens === undefined) {
+    return null;
+  }
+
+  return (promptTokens * price.inputPerMillion + completionTokens * price.outputPerMillion) / 1_000_000;
+}
@@ -0,0 +1,153 @@
+// Provider health tracking and circuit breaker
+// Providers that keep failing are skipped for a cooldown window, then probed again
+
+import type { ProviderType } from './adapters';
+
+export type ProviderErrorKind = 'rate_limit' | 'quota' | 'error';
+
+// closed: normal, open: skipped until cooldown ends, half_open: one probe request allowed
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface ProviderHealth {
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastErrorKind: ProviderErrorKind | null;
+  lastError: string | null;
+  lastFailureAt: string | null;
+  lastSuccessAt: string | null;
+  openUntil: string | null;
+}
+
+interface HealthEntry {
+  consecutiveFailures: number;
+  trips: number; // times opened since the last success
+  lastErrorKind: ProviderErrorKind | null;
+  lastError: string | null;
+  lastFailureAt: number | null;
+  lastSuccessAt: number | null;
+  openUntil: number | null;
+  probeInFlight: boolean;
+}
+
+// Failures in a row that open the circuit (rate limit and quota open it at once)
+const FAILURE_THRESHOLD: Record<ProviderErrorKind, number> = {
+  rate_limit: 1,
+  quota: 1,
+  error: 3,
+};
+
+// First cooldown per error kind, doubled on every re-open
+const BASE_COOLDOWN_MS: Record<ProviderErrorKind, number> = {
+  rate_limit: 60_000,
+  quota: 60 * 60_000,
+  error: 30_000,
+};
+
+const MAX_COOLDOWN_MS = 6 * 60 * 60_000;
+
+const entries: Map<ProviderType, HealthEntry> = new Map();
+
+function getEntry(type: ProviderType): HealthEntry {
+  let entry = entries.get(type);
+  if (!entry) {
+    entry = {
+      consecutiveFailures: 0,
+      trips: 0,
+      lastErrorKind: null,
+      lastError: null,
+      lastFailureAt: null,
+      lastSuccessAt: null,
+      openUntil: null,
+      probeInFlight: false,
+    };
+    entries.set(type, entry);
+  }
+  return entry;
+}
+
+function getState(entry: HealthEntry, now: number = Date.now()): CircuitState {
+  if (entry.openUntil === null) return 'closed';
+  return now < entry.openUntil ? 'open' : 'half_open';
+}
+
+/**
+ * Whether the failover loop may call this provider now.
+ * In half-open state only one caller gets through (the probe).
+ */
+export function tryAcquireProvider(type: ProviderType): boolean {
+  const entry = getEntry(type);
+  const state = getState(entry);
+
+  if (state === 'closed') return true;
+  if (state === 'open' || entry.probeInFlight) return false;
+
+  entry.probeInFlight = true;
+  return true;
+}
+
+// Successful call closes the circuit
+export function recordProviderSuccess(type: ProviderType): void {
+  const entry = getEntry(type);
+
+  entry.consecutiveFailures = 0;
+  entry.trips = 0;
+  entry.openUntil = null;
+  entry.probeInFlight = false;
+  entry.lastSuccessAt = Date.now();
+}
+
+// Failed call; opens (or re-opens) the circuit once the threshold is reached
+export function recordProviderFailure(
+  type: ProviderType,
+  kind: ProviderErrorKind,
+  message: string
+): void {
+  const entry = getEntry(type);
+  const now = Date.now();
+  const wasProbe = entry.probeInFlight;
+
+  entry.consecutiveFailures++;
+  entry.lastErrorKind = kind;
+  entry.lastError = message;
+  entry.lastFailureAt = now;
+  entry.probeInFlight = false;
+
+  if (wasProbe || entry.consecutiveFailures >= FAILURE_THRESHOLD[kind]) {
+    entry.trips++;
+    const cooldownMs = Math.min(BASE_COOLDOWN_MS[kind] * 2 ** (entry.trips - 1), MAX_COOLDOWN_MS);
+    entry.openUntil = now + cooldownMs;
+
+    console.warn(`[G.A.C.A.] Circuit open for ${type} (${kind}), cooldown ${Math.round(cooldownMs / 1000)}s`);
+  }
+}
+
+// Release a half-open probe that never reached the provider
+export function releaseProviderProbe(type: ProviderType): void {
+  getEntry(type).probeInFlight = false;
+}
+
+/**
+ * Current health of a provider
+ */
+export function getProviderHealth(type: ProviderType): ProviderHealth {
+  const entry = getEntry(type);
+
+  return {
+    state: getState(entry),
+    consecutiveFailures: entry.consecutiveFailures,
+    lastErrorKind: entry.lastErrorKind,
+    lastError: entry.lastError,
+    lastFailureAt: entry.lastFailureAt ? new Date(entry.lastFailureAt).toISOString() : null,
+    lastSuccessAt: entry.lastSuccessAt ? new Date(entry.lastSuccessAt).toISOString() : null,
+    openUntil: entry.openUntil ? new Date(entry.openUntil).toISOString() : null,
+  };
+}
+
+// Forget collected state (all providers if no type given)
+export function resetProviderHealth(type?: ProviderType): void {
+  if (type) {
+    entries.delete(type);
+  } else {
+    entries.clear();
+  }
+}
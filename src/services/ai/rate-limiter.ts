@@ -0,0 +1,163 @@
+// Client-side rate limiter
+// Token bucket per provider for rateLimitRpm, daily counter (persisted) for rateLimitRpd
+
+import { prisma } from '@/lib/prisma';
+import { DEFAULT_PROVIDER_CONFIGS, type ProviderType } from './adapters';
+
+export interface ProviderQuota {
+  rpm: { limit: number; remaining: number; nextTokenInMs: number };
+  rpd: { limit: number; used: number; remaining: number; resetsAt: string };
+}
+
+// Token bucket refilled continuously at `refillPerMinute`
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(private readonly capacity: number, private readonly refillPerMinute: number) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const refilled = ((now - this.lastRefill) / 60_000) * this.refillPerMinute;
+    this.tokens = Math.min(this.capacity, this.tokens + refilled);
+    this.lastRefill = now;
+  }
+
+  tryTake(): boolean {
+    this.refill();
+    if (this.tokens < 1) return false;
+    this.tokens -= 1;
+    return true;
+  }
+
+  getRemaining(): number {
+    this.refill();
+    return Math.floor(this.tokens);
+  }
+
+  msUntilToken(): number {
+    this.refill();
+    return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) / this.refillPerMinute) * 60_000);
+  }
+}
+
+// Limits from AI_RATE_LIMIT_RPM_<PROVIDER> / AI_RATE_LIMIT_RPD_<PROVIDER> or the provider defaults
+export function getProviderRateLimits(type: ProviderType): { rpm: number; rpd: number } {
+  const fromEnv = (name: string) => {
+    const value = Number(process.env[`AI_RATE_LIMIT_${name}_${type.toUpperCase()}`]);
+    return Number.isInteger(value) && value > 0 ? value : null;
+  };
+
+  return {
+    rpm: fromEnv('RPM') ?? DEFAULT_PROVIDER_CONFIGS[type].rateLimitRpm,
+    rpd: fromEnv('RPD') ?? DEFAULT_PROVIDER_CONFIGS[type].rateLimitRpd,
+  };
+}
+
+const buckets: Map<ProviderType, TokenBucket> = new Map();
+
+// Requests per provider for `day` (UTC date, loaded from the database)
+const daily: { day: string; counts: Map<ProviderType, number> } = { day: '', counts: new Map() };
+let dailyLoad: Promise<void> | null = null;
+
+function getBucket(type: ProviderType): TokenBucket {
+  let bucket = buckets.get(type);
+  if (!bucket) {
+    const { rpm } = getProviderRateLimits(type);
+    bucket = new TokenBucket(rpm, rpm);
+    buckets.set(type, bucket);
+  }
+  return bucket;
+}
+
+function utcDay(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Load today's counts once per day; the limiter keeps working in memory if the database is down
+function ensureDailyCounts(): Promise<void> {
+  const today = utcDay();
+
+  if (daily.day !== today) {
+    daily.day = today;
+    daily.counts = new Map();
+    dailyLoad = prisma.providerUsageDaily
+      .findMany({ where: { day: new Date(today) } })
+      .then(rows => {
+        rows.forEach(row => {
+          const type = row.provider as ProviderType;
+          // Requests made while loading are already counted in memory
+          daily.counts.set(type, (daily.counts.get(type) || 0) + row.requests);
+        });
+      })
+      .catch(error => {
+        console.warn('[RateLimiter] Could not load daily usage:', error instanceof Error ? error.message : error);
+      });
+  }
+
+  return dailyLoad || Promise.resolve();
+}
+
+function persistRequest(type: ProviderType, day: string): void {
+  prisma.providerUsageDaily
+    .upsert({
+      where: { provider_day: { provider: type, day: new Date(day) } },
+      create: { provider: type, day: new Date(day), requests: 1 },
+      update: { requests: { increment: 1 } },
+    })
+    .catch(error => {
+      console.warn('[RateLimiter] Could not save daily usage:', error instanceof Error ? error.message : error);
+    });
+}
+
+/**
+ * Take one request from the provider's budget.
+ * Returns false (nothing consumed) if the minute or day budget is used up.
+ */
+export async function tryConsumeProviderBudget(type: ProviderType): Promise<boolean> {
+  await ensureDailyCounts();
+
+  const { rpd } = getProviderRateLimits(type);
+  const usedToday = daily.counts.get(type) || 0;
+
+  if (usedToday >= rpd || !getBucket(type).tryTake()) {
+    return false;
+  }
+
+  daily.counts.set(type, usedToday + 1);
+  persistRequest(type, daily.day);
+  return true;
+}
+
+/**
+ * Shortest wait until any of the given providers has minute budget again
+ * (null if all of them are out of daily budget)
+ */
+export function getShortestBudgetWaitMs(types: ProviderType[]): number | null {
+  const waits = types
+    .filter(type => (daily.counts.get(type) || 0) < getProviderRateLimits(type).rpd)
+    .map(type => getBucket(type).msUntilToken());
+
+  return waits.length > 0 ? Math.min(...waits) : null;
+}
+
+/**
+ * Remaining budget of a provider
+ */
+export async function getProviderQuota(type: ProviderType): Promise<ProviderQuota> {
+  await ensureDailyCounts();
+
+  const limits = getProviderRateLimits(type);
+  const bucket = getBucket(type);
+  const used = daily.counts.get(type) || 0;
+  const resetsAt = new Date(`${daily.day}T00:00:00.000Z`);
+  resetsAt.setUTCDate(resetsAt.getUTCDate() + 1);
+
+  return {
+    rpm: { limit: limits.rpm, remaining: bucket.getRemaining(), nextTokenInMs: bucket.msUntilToken() },
+    rpd: { limit: limits.rpd, used, remaining: Math.max(0, limits.rpd - used), resetsAt: resetsAt.toISOString() },
+  };
+}
@@ -0,0 +1,74 @@
+// AI routing config
+// Ordered provider/model chain per pipeline stage, stored in AiRoute (one row per stage)
+
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { DEFAULT_PROVIDER_CONFIGS, type ProviderType } from './adapters';
+
+export const ROUTING_STAGES = ['vision', 'content', 'viamall', 'translation'] as const;
+
+export type RoutingStage = typeof ROUTING_STAGES[number];
+
+// One link of a chain; without a model the provider's default model is used
+export interface RouteStep {
+  provider: ProviderType;
+  model?: string;
+}
+
+// Stages without a chain use the default priority order
+export type RoutingConfig = Partial<Record<RoutingStage, RouteStep[]>>;
+
+export const RouteStepSchema = z.object({
+  provider: z.enum(Object.keys(DEFAULT_PROVIDER_CONFIGS) as [ProviderType, ...ProviderType[]]),
+  model: z.string().trim().min(1).optional(),
+});
+
+export const RoutingConfigSchema = z.partialRecord(
+  z.enum(ROUTING_STAGES),
+  z.array(RouteStepSchema).min(1).max(20)
+);
+
+/**
+ * Stored routing config (empty if the database is unavailable - the pipeline
+ * then falls back to the default priority order)
+ */
+export async function getRoutingConfig(): Promise<RoutingConfig> {
+  try {
+    const rows = await prisma.aiRoute.findMany();
+    const config: RoutingConfig = {};
+
+    for (const row of rows) {
+      const stage = RoutingConfigSchema.safeParse({ [row.stage]: row.chain });
+      if (stage.success) {
+        Object.assign(config, stage.data);
+      } else {
+        console.warn(`[Routing] Ignoring invalid chain for stage ${row.stage}`);
+      }
+    }
+
+    return config;
+  } catch (error) {
+    console.warn('[Routing] Could not load routing config:', error instanceof Error ? error.message : error);
+    return {};
+  }
+}
+
+/**
+ * Replace the stored routing config (stages left out go back to the default order)
+ */
+export async function saveRoutingConfig(config: RoutingConfig): Promise<RoutingConfig> {
+  const stages = Object.keys(config) as RoutingStage[];
+
+  await prisma.$transaction([
+    prisma.aiRoute.deleteMany({ where: { stage: { notIn: stages } } }),
+    ...stages.map(stage =>
+      prisma.aiRoute.upsert({
+        where: { stage },
+        create: { stage, chain: config[stage] as object },
+        update: { chain: config[stage] as object },
+      })
+    ),
+  ]);
+
+  return config;
+}
@@ -0,0 +1,80 @@
+// Structured output
+// Parses JSON answers, validates them against a Zod schema and builds repair prompts
+
+import type { z } from 'zod';
+import { extractJsonFromMarkdown } from '@/lib/utils';
+
+// Answers tried per structured request (first answer + repairs)
+export const DEFAULT_STRUCTURED_ATTEMPTS = Number(process.env.AI_STRUCTURED_MAX_ATTEMPTS) || 3;
+
+// Longest previous answer quoted back to the model in a repair prompt
+const MAX_QUOTED_RESPONSE_CHARS = 6000;
+
+export type StructuredParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: string[] };
+
+// Models send null for fields they could not fill - treat them as missing
+function dropNulls(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.filter(item => item !== null).map(dropNulls);
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, entry]) => entry !== null)
+        .map(([key, entry]) => [key, dropNulls(entry)])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Parse a model answer and validate it against the schema
+ */
+export function parseStructuredOutput<T>(
+  content: string,
+  schema: z.ZodType<T>
+): StructuredParseResult<T> {
+  let json: unknown;
+
+  try {
+    json = JSON.parse(extractJsonFromMarkdown(content));
+  } catch (error) {
+    return {
+      success: false,
+      errors: [`Response is not valid JSON (${error instanceof Error ? error.message : 'parse error'})`],
+    };
+  }
+
+  const result = schema.safeParse(dropNulls(json));
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    errors: result.error.issues
+      .slice(0, 20)
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+  };
+}
+
+/**
+ * Original prompt plus the validation errors of the previous answer
+ */
+export function buildRepairPrompt(prompt: string, previousResponse: string, errors: string[]): string {
+  return `${prompt}
+
+---
+Your previous answer could not be used:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Previous answer:
+${previousResponse.slice(0, MAX_QUOTED_RESPONSE_CHARS)}
+
+Answer again with the complete, corrected JSON object only (no markdown, no comments).`;
+}
@@ -0,0 +1,170 @@
+// AI usage ledger
+// Records every provider call (tokens, latency, cost, outcome) with the draft and stage it belongs to
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { prisma } from '@/lib/prisma';
+import { calculateCostUsd } from './pricing';
+import type { ProviderType } from './adapters';
+
+// Caller context attached to usage records (set by the pipeline)
+export interface AIContext {
+  draftId?: string;
+  stage?: string;
+}
+
+const aiContext = new AsyncLocalStorage<AIContext>();
+
+/**
+ * Run fn with a caller context; nested calls extend the outer context
+ */
+export function runWithAIContext<T>(context: AIContext, fn: () => Promise<T>): Promise<T> {
+  return aiContext.run({ ...aiContext.getStore(), ...context }, fn);
+}
+
+export function withAIStage<T>(stage: string, fn: () => Promise<T>): Promise<T> {
+  return runWithAIContext({ stage }, fn);
+}
+
+export function getAIContext(): AIContext | undefined {
+  return aiContext.getStore();
+}
+
+export interface AIUsageRecord {
+  provider: ProviderType;
+  model: string;
+  kind: 'text' | 'vision';
+  latencyMs: number;
+  success: boolean;
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+  errorKind?: 'rate_limit' | 'quota' | 'error';
+  error?: string;
+}
+
+/**
+ * Store one provider call (never throws - the ledger must not break AI calls)
+ */
+export function recordAIUsage(record: AIUsageRecord): void {
+  const context = getAIContext();
+  const now = new Date();
+
+  prisma.aiUsage
+    .create({
+      data: {
+        ...record,
+        createdAt: now,
+        day: new Date(now.toISOString().slice(0, 10)),
+        error: record.error?.slice(0, 1000),
+        stage: context?.stage,
+        draftId: context?.draftId,
+        costUsd: record.success
+          ? calculateCostUsd(record.provider, record.model, record.promptTokens, record.completionTokens)
+          : 0,
+      },
+    })
+    .catch(error => {
+      console.warn('[Usage] Could not record AI usage:', error instanceof Error ? error.message : error);
+    });
+}
+
+export interface UsageTotals {
+  calls: number;
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  unpricedCalls: number; // successful calls without a price (not in costUsd)
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  totals: UsageTotals;
+  byDay: Array<UsageTotals & { day: string }>;
+  byProvider: Array<UsageTotals & { provider: string }>;
+  byDraft: Array<UsageTotals & { draftId: string | null }>;
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    calls: 0,
+    failures: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    costUsd: 0,
+    unpricedCalls: 0,
+  };
+}
+
+/**
+ * Token and cost totals per day (UTC), provider and draft.
+ * Summed in the database - one group per day, provider, draft and outcome.
+ */
+export async function getUsageReport(filter: {
+  from: Date;
+  to: Date;
+  draftId?: string;
+  provider?: string;
+}): Promise<UsageReport> {
+  const groups = await prisma.aiUsage.groupBy({
+    by: ['day', 'provider', 'draftId', 'success'],
+    where: {
+      createdAt: { gte: filter.from, lt: filter.to },
+      ...(filter.draftId ? { draftId: filter.draftId } : {}),
+      ...(filter.provider ? { provider: filter.provider } : {}),
+    },
+    _sum: {
+      promptTokens: true,
+      completionTokens: true,
+      totalTokens: true,
+      costUsd: true,
+    },
+    // costUsd counts only priced calls
+    _count: { _all: true, costUsd: true },
+  });
+
+  const totals = emptyTotals();
+  const byDay = new Map<string, UsageTotals>();
+  const byProvider = new Map<string, UsageTotals>();
+  const byDraft = new Map<string | null, UsageTotals>();
+
+  const bucket = <K>(map: Map<K, UsageTotals>, key: K): UsageTotals => {
+    let entry = map.get(key);
+    if (!entry) {
+      entry = emptyTotals();
+      map.set(key, entry);
+    }
+    return entry;
+  };
+
+  for (const group of groups) {
+    const targets = [
+      totals,
+      bucket(byDay, group.day.toISOString().slice(0, 10)),
+      bucket(byProvider, group.provider),
+      bucket(byDraft, group.draftId),
+    ];
+
+    for (const target of targets) {
+      target.calls += group._count._all;
+      if (!group.success) target.failures += group._count._all;
+      target.promptTokens += group._sum.promptTokens || 0;
+      target.completionTokens += group._sum.completionTokens || 0;
+      target.totalTokens += group._sum.totalTokens || 0;
+      target.costUsd += group._sum.costUsd || 0;
+      target.unpricedCalls += group._count._all - group._count.costUsd;
+    }
+  }
+
+  return {
+    from: filter.from.toISOString(),
+    to: filter.to.toISOString(),
+    totals,
+    byDay: Array.from(byDay, ([day, t]) => ({ day, ...t })).sort((a, b) => a.day.localeCompare(b.day)),
+    byProvider: Array.from(byProvider, ([provider, t]) => ({ provider, ...t })).sort((a, b) => b.costUsd - a.costUsd || b.calls - a.calls),
+    byDraft: Array.from(byDraft, ([draftId, t]) => ({ draftId, ...t })).sort((a, b) => b.costUsd - a.costUsd || b.calls - a.calls),
+  };
+}
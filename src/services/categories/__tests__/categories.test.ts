@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { prisma } from '@/lib/prisma';
+import type { PlatformCategory } from '@/types/adapters';
+import type { MockFixtures } from '@/services/ai/adapters/MockAdapter';
+import { normalizeCategoryText, rankCategories, withCategoryPaths } from '../matcher';
+import { saveCategoryMappings, suggestCategories } from '../index';
+
+// PrestaShop-like tree: Root (level 0) > Home > ...
+const categories: PlatformCategory[] = [
+  { id: '1', name: 'Root', level: 0 },
+  { id: '2', name: 'Home', parentId: '1', level: 1 },
+  { id: '10', name: 'Garten', parentId: '2', level: 2 },
+  { id: '11', name: 'Gartenmöbel', parentId: '10', level: 3 },
+  { id: '12', name: 'Kissen & Auflagen', parentId: '11', level: 4 },
+  { id: '20', name: 'Wohnen', parentId: '2', level: 2 },
+  { id: '21', name: 'Dekokissen', parentId: '20', level: 3 },
+  { id: '30', name: 'Elektronik', parentId: '2', level: 2 },
+];
+
+// Only the mock provider answers, from the given fixtures
+async function loadCategories(fixtures: MockFixtures) {
+  const fixturesPath = join(mkdtempSync(join(tmpdir(), 'mock-ai-')), 'fixtures.json');
+  writeFileSync(fixturesPath, JSON.stringify(fixtures));
+
+  ['GROQ_API_KEY', 'CEREBRAS_API_KEY', 'GOOGLE_AI_API_KEY', 'MISTRAL_API_KEY', 'DEEPSEEK_API_KEY', 'OPENROUTER_API_KEY', 'LOCAL_AI_BASE_URL']
+    .forEach(key => vi.stubEnv(key, ''));
+  vi.stubEnv('AI_MOCK_PROVIDER', 'true');
+  vi.stubEnv('AI_MOCK_FIXTURES', fixturesPath);
+  vi.resetModules();
+
+  return import('@/services/categories');
+}
+
+describe('category matcher', () => {
+  it('builds paths from the parents without the root', () => {
+    const paths = withCategoryPaths(categories);
+
+    expect(paths.find(category => category.id === '12')?.path).toBe('Home > Garten > Gartenmöbel > Kissen & Auflagen');
+    expect(normalizeCategoryText('Gartenmöbel & Kissen')).toBe('gartenmobel kissen');
+  });
+
+  it('ranks the matching branch first and never offers the root', () => {
+    const ranked = rankCategories('Garten > Gartenmöbel', withCategoryPaths(categories), 3);
+
+    expect(ranked[0]).toMatchObject({ categoryId: '11', score: 1, source: 'fuzzy' });
+    expect(ranked.map(candidate => candidate.categoryId)).not.toContain('1');
+  });
+
+  it('uses the whole suggestion to pick the branch', () => {
+    const ranked = rankCategories('Garten > Sitzkissen', withCategoryPaths(categories));
+
+    expect(ranked[0].categoryId).toBe('12');
+  });
+});
+
+describe('suggestCategories', () => {
+  it('prefers a stored rule over fuzzy matches', async () => {
+    vi.mocked(prisma.categoryMappingRule.findMany).mockResolvedValueOnce([
+      { suggestion: 'outdoor kissen', categoryId: '12' },
+    ] as never);
+
+    const result = await suggestCategories({
+      platform: 'prestashop',
+      suggestions: ['Outdoor-Kissen', 'Elektronik'],
+      categories,
+    });
+
+    expect(result.matches[0].selected).toMatchObject({ categoryId: '12', source: 'rule', score: 1 });
+    expect(result.matches[1].selected).toMatchObject({ categoryId: '30', source: 'fuzzy' });
+    expect(result.categoryIds).toEqual(['12', '30']);
+  });
+
+  it('leaves weak fuzzy matches for review', async () => {
+    const result = await suggestCategories({ platform: 'prestashop', suggestions: ['Sitzkissen'], categories });
+
+    expect(result.matches[0].candidates.length).toBeGreaterThan(0);
+    expect(result.matches[0].selected).toBeNull();
+    expect(result.categoryIds).toEqual([]);
+  });
+
+  it('applies the LLM pick among the candidates', async () => {
+    const { suggestCategories: suggest } = await loadCategories({
+      text: { json: { matches: [{ suggestion: 1, categoryId: '21' }] } },
+    });
+
+    const result = await suggest({
+      platform: 'prestashop',
+      suggestions: ['Sitzkissen'],
+      categories,
+      useLlm: true,
+      product: { name: 'Dekokissen Samt 45x45', productType: 'Kissen' },
+    });
+
+    expect(result.matches[0].selected).toMatchObject({ categoryId: '21', source: 'llm' });
+    expect(result.categoryIds).toEqual(['21']);
+  });
+});
+
+describe('saveCategoryMappings', () => {
+  it('stores rules under the normalized suggestion', async () => {
+    const result = await saveCategoryMappings(
+      { platform: 'prestashop', mappings: [{ suggestion: 'Outdoor-Kissen', categoryId: '12' }] },
+      categories
+    );
+
+    expect(result).toEqual({ success: true, saved: 1 });
+    expect(prisma.categoryMappingRule.upsert).toHaveBeenLastCalledWith({
+      where: { platform_suggestion: { platform: 'prestashop', suggestion: 'outdoor kissen' } },
+      create: {
+        platform: 'prestashop',
+        suggestion: 'outdoor kissen',
+        label: 'Outdoor-Kissen',
+        categoryId: '12',
+        categoryPath: 'Home > Garten > Gartenmöbel > Kissen & Auflagen',
+      },
+      update: {
+        label: 'Outdoor-Kissen',
+        categoryId: '12',
+        categoryPath: 'Home > Garten > Gartenmöbel > Kissen & Auflagen',
+      },
+    });
+  });
+
+  it('rejects categories the platform does not have', async () => {
+    const result = await saveCategoryMappings(
+      { platform: 'prestashop', mappings: [{ suggestion: 'Kissen', categoryId: '999' }] },
+      categories
+    );
+
+    expect(result).toEqual({ success: false, error: 'Unknown prestashop categories: 999' });
+  });
+});
@@ -0,0 +1,185 @@
+// Category Mapping - AI category suggestions to real platform category IDs
+// Confirmed mappings are stored as CategoryMappingRule; other suggestions are
+// ranked by fuzzy text match and, optionally, an LLM pick among the best paths
+
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { generateContent } from '@/services/ai';
+import { withAIStage } from '@/services/ai/usage';
+import { getRoutingConfig } from '@/services/ai/routing';
+import { buildCategoryRankingPrompt } from '@/prompts/category-ranking';
+import type { PlatformCategory } from '@/types/adapters';
+import type {
+  CategoryCandidate,
+  CategoryMappingInput,
+  CategoryMatch,
+  CategorySuggestionResult,
+} from '@/types/categories';
+import { normalizeCategoryText, rankCategories, withCategoryPaths } from './matcher';
+
+export { normalizeCategoryText, rankCategories, withCategoryPaths } from './matcher';
+
+// Fuzzy matches from this score up are applied without review
+export const AUTO_MATCH_SCORE = 0.8;
+
+// Candidates shown per suggestion (and offered to the LLM)
+const CANDIDATE_LIMIT = 8;
+
+export interface SuggestCategoriesInput {
+  platform: string;
+  suggestions: string[];           // Usually product.categories (vision.suggestedCategories)
+  categories: PlatformCategory[];  // PlatformContext.categories
+  useLlm?: boolean;
+  product?: { name: string; productType?: string };
+}
+
+/**
+ * Stored rules for the given suggestions, keyed by normalized suggestion.
+ * Best effort: without the database every suggestion is matched fresh.
+ */
+async function loadRules(platform: string, suggestions: string[]): Promise<Map<string, string>> {
+  try {
+    const rules = await prisma.categoryMappingRule.findMany({
+      where: { platform, suggestion: { in: suggestions.map(normalizeCategoryText) } },
+      select: { suggestion: true, categoryId: true },
+    });
+    return new Map(rules.map(rule => [rule.suggestion, rule.categoryId]));
+  } catch (error) {
+    console.warn('[Categories] Could not load mapping rules:', error instanceof Error ? error.message : error);
+    return new Map();
+  }
+}
+
+/**
+ * LLM pick per suggestion among its candidates (index -> category ID or null)
+ */
+async function rankWithLlm(
+  product: { name: string; productType?: string },
+  matches: CategoryMatch[]
+): Promise<Map<number, string | null>> {
+  const { systemPrompt, userPrompt } = buildCategoryRankingPrompt({
+    name: product.name,
+    productType: product.productType,
+    suggestions: matches.map(match => ({ suggestion: match.suggestion, candidates: match.candidates })),
+  });
+
+  const routing = await getRoutingConfig();
+  const response = await withAIStage('categories', () => generateContent(userPrompt, systemPrompt, {
+    temperature: 0.1,
+    maxTokens: 500,
+    schema: z.object({
+      matches: z.array(z.object({
+        suggestion: z.number().int().min(1).max(matches.length),
+        categoryId: z.string().nullable(),
+      })),
+    }),
+    route: routing.content,
+  }));
+
+  return new Map(response.data.matches.map(pick => [pick.suggestion - 1, pick.categoryId]));
+}
+
+/**
+ * Rank platform categories for each suggestion. A stored rule wins, then the
+ * LLM pick (when requested), then a fuzzy match of at least AUTO_MATCH_SCORE.
+ */
+export async function suggestCategories(input: SuggestCategoriesInput): Promise<CategorySuggestionResult> {
+  const categories = withCategoryPaths(input.categories);
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const suggestions = Array.from(new Set(input.suggestions.map(text => text.trim()).filter(Boolean)));
+  const rules = await loadRules(input.platform, suggestions);
+
+  const matches: CategoryMatch[] = suggestions.map(suggestion => {
+    const candidates = rankCategories(suggestion, categories, CANDIDATE_LIMIT);
+    const ruled = byId.get(rules.get(normalizeCategoryText(suggestion)) ?? '');
+
+    if (ruled) {
+      const rule: CategoryCandidate = { categoryId: ruled.id, name: ruled.name, path: ruled.path, score: 1, source: 'rule' };
+      return {
+        suggestion,
+        candidates: [rule, ...candidates.filter(candidate => candidate.categoryId !== ruled.id)],
+        selected: rule,
+      };
+    }
+
+    const best = candidates[0];
+    return { suggestion, candidates, selected: best && best.score >= AUTO_MATCH_SCORE ? best : null };
+  });
+
+  let llmError: string | undefined;
+  const open = matches.filter(match => match.selected?.source !== 'rule' && match.candidates.length > 0);
+
+  if (input.useLlm && open.length > 0) {
+    try {
+      const picks = await rankWithLlm(input.product ?? { name: suggestions.join(', ') }, open);
+
+      open.forEach((match, index) => {
+        const picked = match.candidates.find(candidate => candidate.categoryId === picks.get(index));
+        if (picked) {
+          const llm: CategoryCandidate = { ...picked, source: 'llm' };
+          match.candidates = [llm, ...match.candidates.filter(candidate => candidate !== picked)];
+          match.selected = llm;
+        } else if (picks.has(index)) {
+          // The model found no fitting candidate
+          match.selected = null;
+        }
+      });
+    } catch (error) {
+      llmError = error instanceof Error ? error.message : 'Unknown error';
+      console.warn('[Categories] LLM ranking failed, using fuzzy matches:', llmError);
+    }
+  }
+
+  return {
+    matches,
+    categoryIds: Array.from(new Set(
+      matches.flatMap(match => (match.selected ? [match.selected.categoryId] : []))
+    )),
+    ...(llmError && { llmError }),
+  };
+}
+
+/**
+ * Remember confirmed mappings, so the same suggestions map automatically next time
+ */
+export async function saveCategoryMappings(
+  input: CategoryMappingInput,
+  categories: PlatformCategory[]
+): Promise<{ success: boolean; saved?: number; error?: string }> {
+  const byId = new Map(withCategoryPaths(categories).map(category => [category.id, category]));
+  const unknown = input.mappings.filter(mapping => !byId.has(mapping.categoryId));
+
+  if (unknown.length > 0) {
+    return {
+      success: false,
+      error: `Unknown ${input.platform} categories: ${unknown.map(mapping => mapping.categoryId).join(', ')}`,
+    };
+  }
+
+  for (const mapping of input.mappings) {
+    const suggestion = normalizeCategoryText(mapping.suggestion);
+    const data = {
+      label: mapping.suggestion,
+      categoryId: mapping.categoryId,
+      categoryPath: byId.get(mapping.categoryId)?.path,
+    };
+
+    await prisma.categoryMappingRule.upsert({
+      where: { platform_suggestion: { platform: input.platform, suggestion } },
+      create: { platform: input.platform, suggestion, ...data },
+      update: data,
+    });
+  }
+
+  return { success: true, saved: input.mappings.length };
+}
+
+/**
+ * Stored rules of a platform, alphabetically
+ */
+export async function listCategoryMappings(platform: string) {
+  return prisma.categoryMappingRule.findMany({
+    where: { platform },
+    orderBy: { suggestion: 'asc' },
+  });
+}
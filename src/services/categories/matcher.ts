@@ -0,0 +1,134 @@
+// Category Matcher - fuzzy ranking of platform categories for a free-text suggestion
+// Character trigrams, so compounds ("Gartenkissen") still match their parts ("Kissen")
+
+import type { PlatformCategory } from '@/types/adapters';
+import type { CategoryCandidate } from '@/types/categories';
+
+// Weight of the last suggestion segment vs. the category name (rest: suggestion covered by the path)
+const NAME_WEIGHT = 0.6;
+
+/**
+ * Lowercase, without diacritics and punctuation - also the key of mapping rules
+ */
+export function normalizeCategoryText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .replace(/ł/g, 'l')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function trigrams(text: string): string[] {
+  const grams: string[] = [];
+  for (const word of normalizeCategoryText(text).split(' ').filter(Boolean)) {
+    const padded = `  ${word} `;
+    for (let i = 0; i < padded.length - 2; i++) {
+      grams.push(padded.slice(i, i + 3));
+    }
+  }
+  return grams;
+}
+
+// Trigrams of a that also occur in b (each occurrence of b used once)
+function sharedTrigrams(a: string[], b: string[]): number {
+  const remaining = new Map<string, number>();
+  for (const gram of b) {
+    remaining.set(gram, (remaining.get(gram) ?? 0) + 1);
+  }
+
+  let shared = 0;
+  for (const gram of a) {
+    const count = remaining.get(gram) ?? 0;
+    if (count > 0) {
+      shared++;
+      remaining.set(gram, count - 1);
+    }
+  }
+  return shared;
+}
+
+/**
+ * Dice coefficient of character trigrams: 0 = nothing in common, 1 = same text
+ */
+export function textSimilarity(a: string, b: string): number {
+  const left = trigrams(a);
+  const right = trigrams(b);
+  if (left.length === 0 || right.length === 0) {
+    return 0;
+  }
+  return (2 * sharedTrigrams(left, right)) / (left.length + right.length);
+}
+
+/**
+ * Share of the text's trigrams found in the container (a long path is not penalized)
+ */
+export function textCoverage(text: string, container: string): number {
+  const grams = trigrams(text);
+  return grams.length === 0 ? 0 : sharedTrigrams(grams, trigrams(container)) / grams.length;
+}
+
+/**
+ * Categories with a full path ("Garten > Gartenmoebel > Kissen"), built from
+ * the parents when the platform does not send one. The root (level 0) is left out.
+ */
+export function withCategoryPaths(categories: PlatformCategory[]): Array<PlatformCategory & { path: string }> {
+  const byId = new Map(categories.map(category => [category.id, category]));
+
+  return categories.map(category => {
+    if (category.path) {
+      return { ...category, path: category.path };
+    }
+
+    const names: string[] = [];
+    const seen = new Set<string>();
+    let current: PlatformCategory | undefined = category;
+
+    // Guard against cycles in broken trees
+    while (current && !seen.has(current.id) && current.level !== 0) {
+      seen.add(current.id);
+      names.unshift(current.name);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+
+    return { ...category, path: names.join(' > ') || category.name };
+  });
+}
+
+/**
+ * Best matching categories for a suggestion such as "Garten > Sitzkissen".
+ * The last segment is compared with the category name; the path should contain the whole suggestion.
+ */
+export function rankCategories(
+  suggestion: string,
+  categories: Array<PlatformCategory & { path: string }>,
+  limit = 5
+): CategoryCandidate[] {
+  const segments = suggestion.split(/>|\/|»|\|/).map(segment => segment.trim()).filter(Boolean);
+  const last = segments[segments.length - 1] || suggestion;
+
+  return categories
+    .filter(category => category.level !== 0)
+    .map(category => {
+      const exact = normalizeCategoryText(last) === normalizeCategoryText(category.name);
+      const score = exact
+        ? 1
+        : NAME_WEIGHT * textSimilarity(last, category.name)
+          + (1 - NAME_WEIGHT) * textCoverage(suggestion, category.path);
+
+      return { category, score: Math.round(score * 1000) / 1000 };
+    })
+    .filter(({ score }) => score > 0)
+    // Deeper (more specific) categories first on equal scores
+    .sort((a, b) => b.score - a.score || (b.category.level ?? 0) - (a.category.level ?? 0))
+    .slice(0, limit)
+    .map(({ category, score }) => ({
+      categoryId: category.id,
+      name: category.name,
+      path: category.path,
+      score,
+      source: 'fuzzy',
+    }));
+}
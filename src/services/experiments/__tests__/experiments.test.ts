@@ -0,0 +1,146 @@
+import { describe, it, expect, vi } from 'vitest';
+import { prisma } from '@/lib/prisma';
+import { assignExperiments, ExperimentInputSchema, getExperimentReport, summarizeVariant } from '../index';
+import { editDistanceRatio, productText } from '../metrics';
+
+function experiment(overrides: { id: string; stage: string; share: number; promptTemplateId?: string; route?: unknown }) {
+  return {
+    name: overrides.id,
+    promptTemplateId: null,
+    route: null,
+    isActive: true,
+    createdAt: new Date('2026-10-01T10:00:00Z'),
+    endedAt: null,
+    ...overrides,
+  };
+}
+
+describe('assignExperiments', () => {
+  it('puts drafts below the share into variant B and returns its overrides', async () => {
+    vi.mocked(prisma.experiment.findMany).mockResolvedValueOnce([
+      experiment({ id: 'prompt', stage: 'viamall', share: 0.3, promptTemplateId: 'tpl-2' }),
+      experiment({ id: 'model', stage: 'vision', share: 0.3, route: [{ provider: 'groq' }] }),
+    ] as never);
+    const assign = (async (args: { create: object }) => args.create) as never;
+    vi.mocked(prisma.experimentAssignment.upsert).mockImplementationOnce(assign).mockImplementationOnce(assign);
+
+    const random = vi.fn().mockReturnValueOnce(0.1).mockReturnValueOnce(0.9);
+    const overrides = await assignExperiments('draft-1', ['vision', 'viamall'], random);
+
+    expect(overrides).toEqual({
+      routing: {},
+      promptTemplateIds: { viamall: 'tpl-2' },
+      assignments: [
+        { experimentId: 'prompt', variant: 'B' },
+        { experimentId: 'model', variant: 'A' },
+      ],
+    });
+  });
+
+  it('keeps the stored variant of a draft', async () => {
+    vi.mocked(prisma.experiment.findMany).mockResolvedValueOnce([
+      experiment({ id: 'model', stage: 'vision', share: 0.01, route: [{ provider: 'groq', model: 'llama' }] }),
+    ] as never);
+    vi.mocked(prisma.experimentAssignment.upsert).mockResolvedValueOnce({ variant: 'B' } as never);
+
+    const overrides = await assignExperiments('draft-1', ['vision', 'viamall'], () => 0.99);
+
+    expect(overrides.routing).toEqual({ vision: [{ provider: 'groq', model: 'llama' }] });
+  });
+
+  it('only assigns experiments on the stages the run calls', async () => {
+    await assignExperiments('draft-1', ['vision', 'content']);
+
+    expect(prisma.experiment.findMany).toHaveBeenLastCalledWith({
+      where: { isActive: true, stage: { in: ['vision', 'content'] } },
+      orderBy: { createdAt: 'asc' },
+    });
+  });
+
+  it('runs without experiments when the database fails', async () => {
+    vi.mocked(prisma.experiment.findMany).mockRejectedValueOnce(new Error('connection refused'));
+
+    const overrides = await assignExperiments('draft-1', ['vision', 'content']);
+
+    expect(overrides).toEqual({ routing: {}, promptTemplateIds: {}, assignments: [] });
+  });
+});
+
+describe('ExperimentInputSchema', () => {
+  it('rejects translation experiments', () => {
+    const parsed = ExperimentInputSchema.safeParse({ name: 'deepl', stage: 'translation', route: [{ provider: 'groq' }] });
+
+    expect(parsed.success).toBe(false);
+  });
+});
+
+describe('experiment metrics', () => {
+  it('compares the listing text word by word without HTML', () => {
+    const generated = productText({ name: 'Sitzkissen Grau', description: { short: '<p>Weich</p>', long: '<h2>Lang</h2>' } });
+    const published = productText({ name: 'Sitzkissen Blau', description: { short: '<p>Weich</p>', long: '<h2>Lang</h2>' } });
+
+    expect(generated).toBe('Sitzkissen Grau Weich Lang');
+    expect(editDistanceRatio(generated, published)).toBe(0.25);
+    expect(editDistanceRatio(generated, generated)).toBe(0);
+  });
+
+  it('summarizes acceptance, reasons and cost of a variant', () => {
+    const report = summarizeVariant('B', [
+      { scores: [5, 4], reasons: [], published: true, editDistance: 0.1, totalTokens: 1000, costUsd: 0.002 },
+      { scores: [2], reasons: ['too_long', 'bad_seo'], published: false, editDistance: null, totalTokens: 800, costUsd: 0.001 },
+      { scores: [], reasons: [], published: false, editDistance: null, totalTokens: 700, costUsd: 0 },
+    ]);
+
+    expect(report).toMatchObject({
+      variant: 'B',
+      drafts: 3,
+      reviewed: 2,
+      averageScore: 11 / 3,
+      acceptanceRate: 0.5,
+      reasons: { too_long: 1, bad_seo: 1 },
+      published: 1,
+      averageEditDistance: 0.1,
+      totalTokens: 2500,
+      costPerDraftUsd: 0.001,
+    });
+  });
+});
+
+describe('getExperimentReport', () => {
+  it('uses the first AI revision and usage after the assignment', async () => {
+    const assignedAt = new Date('2026-10-02T10:00:00Z');
+    vi.mocked(prisma.experiment.findUnique).mockResolvedValueOnce({
+      ...experiment({ id: 'exp', stage: 'viamall', share: 0.5, promptTemplateId: 'tpl-2' }),
+      assignments: [{
+        draftId: 'draft-1',
+        variant: 'B',
+        createdAt: assignedAt,
+        draft: {
+          status: 'PUBLISHED',
+          product: { name: 'Kissen Blau' },
+          reviews: [{ score: 4, reasons: [] }],
+          revisions: [
+            { product: { name: 'Alt Grau' }, createdAt: new Date('2026-10-01T12:00:00Z') },
+            { product: { name: 'Kissen Grau' }, createdAt: new Date('2026-10-02T10:01:00Z') },
+          ],
+        },
+      }],
+    } as never);
+    vi.mocked(prisma.aiUsage.findMany).mockResolvedValueOnce([
+      { draftId: 'draft-1', totalTokens: 300, costUsd: 0.01, createdAt: new Date('2026-10-01T12:00:00Z') },
+      { draftId: 'draft-1', totalTokens: 500, costUsd: 0.02, createdAt: new Date('2026-10-02T10:00:30Z') },
+    ] as never);
+
+    const report = await getExperimentReport('exp');
+
+    expect(report?.variants[0]).toMatchObject({ variant: 'A', drafts: 0, acceptanceRate: null });
+    expect(report?.variants[1]).toMatchObject({
+      variant: 'B',
+      drafts: 1,
+      acceptanceRate: 1,
+      averageEditDistance: 0.5,
+      totalTokens: 500,
+      costUsd: 0.02,
+    });
+  });
+});
@@ -0,0 +1,319 @@
+// Experiments - A/B tests of a stage prompt version or model chain
+// A share of drafts gets variant B (sticky per draft); reviews, edits and AI cost are compared per variant
+
+import { z } from 'zod';
+import type { Experiment, ExperimentVariant } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { RouteStepSchema, type RoutingConfig, type RoutingStage } from '@/services/ai/routing';
+import { PROMPT_STAGES, type PromptStage } from '@/types/prompts';
+import {
+  ACCEPTED_SCORE,
+  type DraftReviewInput,
+  type ExperimentVariantName,
+  type ExperimentVariantReport,
+  type ReviewReason,
+} from '@/types/experiments';
+import { editDistanceRatio, productText } from './metrics';
+
+// Stages draft pipeline runs call; translations run outside them (translate route)
+export const EXPERIMENT_STAGES = ['vision', 'content', 'viamall'] as const;
+
+export const ExperimentInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  stage: z.enum(EXPERIMENT_STAGES),
+  share: z.number().gt(0).lt(1).default(0.5),
+  promptTemplateId: z.string().min(1).optional(),
+  route: z.array(RouteStepSchema).min(1).max(20).optional(),
+})
+  .refine(input => input.promptTemplateId || input.route, {
+    message: 'Variant B needs a promptTemplateId or a route',
+    path: ['promptTemplateId'],
+  })
+  .refine(input => !input.promptTemplateId || isPromptStage(input.stage), {
+    message: `Prompt variants are only supported for ${PROMPT_STAGES.join(', ')}`,
+    path: ['promptTemplateId'],
+  });
+
+export type ExperimentInput = z.infer<typeof ExperimentInputSchema>;
+
+// Pipeline overrides of the variants a draft got
+export interface ExperimentOverrides {
+  routing: RoutingConfig;
+  promptTemplateIds: Partial<Record<PromptStage, string>>;
+  assignments: Array<{ experimentId: string; variant: ExperimentVariant }>;
+}
+
+// One assigned draft, reduced to what the report compares
+export interface ExperimentDraftOutcome {
+  scores: number[];
+  reasons: string[];
+  published: boolean;
+  editDistance: number | null;
+  totalTokens: number;
+  costUsd: number;
+}
+
+function isPromptStage(stage: string): stage is PromptStage {
+  return (PROMPT_STAGES as readonly string[]).includes(stage);
+}
+
+/**
+ * Start an experiment. Returns an error when the stage already has a running
+ * experiment or the prompt version does not belong to the stage.
+ */
+export async function createExperiment(
+  input: ExperimentInput
+): Promise<{ success: boolean; experiment?: Experiment; error?: string }> {
+  const running = await prisma.experiment.findFirst({
+    where: { stage: input.stage, isActive: true },
+    select: { name: true },
+  });
+  if (running) {
+    return { success: false, error: `Experiment "${running.name}" is already running for ${input.stage}` };
+  }
+
+  if (input.promptTemplateId) {
+    const template = await prisma.promptTemplate.findUnique({
+      where: { id: input.promptTemplateId },
+      select: { stage: true },
+    });
+    if (!template || template.stage !== input.stage) {
+      return { success: false, error: `Prompt template ${input.promptTemplateId} not found for ${input.stage}` };
+    }
+  }
+
+  const experiment = await prisma.experiment.create({
+    data: {
+      name: input.name,
+      stage: input.stage,
+      share: input.share,
+      promptTemplateId: input.promptTemplateId,
+      route: input.route,
+    },
+  });
+
+  return { success: true, experiment };
+}
+
+/**
+ * Stop assigning new drafts (the collected data stays for the report)
+ */
+export async function stopExperiment(id: string): Promise<Experiment | null> {
+  const experiment = await prisma.experiment.findUnique({ where: { id } });
+  if (!experiment) {
+    return null;
+  }
+  if (!experiment.isActive) {
+    return experiment;
+  }
+
+  return prisma.experiment.update({
+    where: { id },
+    data: { isActive: false, endedAt: new Date() },
+  });
+}
+
+/**
+ * All experiments, running first, with the number of assigned drafts
+ */
+export async function listExperiments() {
+  return prisma.experiment.findMany({
+    orderBy: [{ isActive: 'desc' }, { createdAt: 'desc' }],
+    include: { _count: { select: { assignments: true } } },
+  });
+}
+
+/**
+ * Put a draft into a variant of every running experiment on the given stages
+ * (the ones its pipeline run calls) and return the pipeline overrides of its
+ * B variants. A draft keeps its variant on reruns.
+ * Best effort: without the database the pipeline runs on the current config.
+ */
+export async function assignExperiments(
+  draftId: string,
+  stages: readonly RoutingStage[],
+  random: () => number = Math.random
+): Promise<ExperimentOverrides> {
+  const overrides: ExperimentOverrides = { routing: {}, promptTemplateIds: {}, assignments: [] };
+
+  if (stages.length === 0) {
+    return overrides;
+  }
+
+  try {
+    const experiments = await prisma.experiment.findMany({
+      where: { isActive: true, stage: { in: [...stages] } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    for (const experiment of experiments) {
+      const assignment = await prisma.experimentAssignment.upsert({
+        where: { experimentId_draftId: { experimentId: experiment.id, draftId } },
+        create: {
+          experimentId: experiment.id,
+          draftId,
+          variant: random() < experiment.share ? 'B' : 'A',
+        },
+        update: {},
+      });
+
+      overrides.assignments.push({ experimentId: experiment.id, variant: assignment.variant });
+
+      if (assignment.variant === 'B') {
+        applyVariantB(experiment, overrides);
+      }
+    }
+  } catch (error) {
+    console.warn(`[Experiments] Could not assign draft ${draftId}:`, error instanceof Error ? error.message : error);
+  }
+
+  return overrides;
+}
+
+function applyVariantB(experiment: Experiment, overrides: ExperimentOverrides): void {
+  const stage = experiment.stage as RoutingStage;
+
+  if (experiment.route) {
+    const route = z.array(RouteStepSchema).safeParse(experiment.route);
+    if (route.success) {
+      overrides.routing[stage] = route.data;
+    } else {
+      console.warn(`[Experiments] Invalid route in experiment ${experiment.id}, using the current one`);
+    }
+  }
+
+  if (experiment.promptTemplateId && isPromptStage(stage)) {
+    overrides.promptTemplateIds[stage] = experiment.promptTemplateId;
+  }
+}
+
+/**
+ * Store a reviewer rating of a draft
+ */
+export async function recordDraftReview(draftId: string, input: DraftReviewInput) {
+  return prisma.draftReview.create({
+    data: {
+      draftId,
+      score: input.score,
+      reasons: input.reasons,
+      comment: input.comment || null,
+    },
+  });
+}
+
+/**
+ * Ratings of a draft, newest first
+ */
+export async function listDraftReviews(draftId: string) {
+  return prisma.draftReview.findMany({
+    where: { draftId },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+/**
+ * Compare the drafts of one variant. A draft counts as accepted when its
+ * average score reaches ACCEPTED_SCORE.
+ */
+export function summarizeVariant(
+  variant: ExperimentVariantName,
+  outcomes: ExperimentDraftOutcome[]
+): ExperimentVariantReport {
+  const reviewed = outcomes.filter(outcome => outcome.scores.length > 0);
+  const accepted = reviewed.filter(outcome => (average(outcome.scores) ?? 0) >= ACCEPTED_SCORE);
+
+  const reasons: Partial<Record<ReviewReason, number>> = {};
+  for (const reason of outcomes.flatMap(outcome => outcome.reasons)) {
+    reasons[reason as ReviewReason] = (reasons[reason as ReviewReason] ?? 0) + 1;
+  }
+
+  const editDistances = outcomes
+    .map(outcome => outcome.editDistance)
+    .filter((distance): distance is number => distance !== null);
+  const costUsd = outcomes.reduce((sum, outcome) => sum + outcome.costUsd, 0);
+
+  return {
+    variant,
+    drafts: outcomes.length,
+    reviewed: reviewed.length,
+    averageScore: average(reviewed.flatMap(outcome => outcome.scores)),
+    acceptanceRate: reviewed.length > 0 ? accepted.length / reviewed.length : null,
+    reasons,
+    published: outcomes.filter(outcome => outcome.published).length,
+    averageEditDistance: average(editDistances),
+    totalTokens: outcomes.reduce((sum, outcome) => sum + outcome.totalTokens, 0),
+    costUsd,
+    costPerDraftUsd: outcomes.length > 0 ? costUsd / outcomes.length : null,
+  };
+}
+
+/**
+ * Report of an experiment: both variants side by side (null if not found).
+ * Edit distance compares the first AI revision after the assignment with the
+ * published product; tokens and cost count the draft's AI calls since then.
+ */
+export async function getExperimentReport(id: string) {
+  const experiment = await prisma.experiment.findUnique({
+    where: { id },
+    include: {
+      assignments: {
+        include: {
+          draft: {
+            select: {
+              status: true,
+              product: true,
+              reviews: { select: { score: true, reasons: true } },
+              revisions: {
+                where: { source: 'AI' },
+                orderBy: { createdAt: 'asc' },
+                select: { product: true, createdAt: true },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!experiment) {
+    return null;
+  }
+
+  const { assignments, ...details } = experiment;
+
+  const usage = await prisma.aiUsage.findMany({
+    where: {
+      draftId: { in: assignments.map(assignment => assignment.draftId) },
+      createdAt: { gte: experiment.createdAt },
+    },
+    select: { draftId: true, totalTokens: true, costUsd: true, createdAt: true },
+  });
+
+  const outcomes: Record<ExperimentVariantName, ExperimentDraftOutcome[]> = { A: [], B: [] };
+
+  for (const { draft, draftId, variant, createdAt } of assignments) {
+    const calls = usage.filter(call => call.draftId === draftId && call.createdAt >= createdAt);
+    const generated = draft.revisions.find(revision => revision.createdAt >= createdAt);
+    const published = draft.status === 'PUBLISHED';
+
+    outcomes[variant].push({
+      scores: draft.reviews.map(review => review.score),
+      reasons: draft.reviews.flatMap(review => review.reasons),
+      published,
+      editDistance: published && generated?.product && draft.product
+        ? editDistanceRatio(productText(generated.product), productText(draft.product))
+        : null,
+      totalTokens: calls.reduce((sum, call) => sum + (call.totalTokens ?? 0), 0),
+      costUsd: calls.reduce((sum, call) => sum + (call.costUsd ?? 0), 0),
+    });
+  }
+
+  return {
+    experiment: details,
+    variants: [summarizeVariant('A', outcomes.A), summarizeVariant('B', outcomes.B)],
+  };
+}
@@ -0,0 +1,52 @@
+// Experiment Metrics - how much reviewers changed the generated text
+// Word-level edit distance between the AI output and the published product
+
+import type { UnifiedProduct } from '@/types/unified-product';
+
+/**
+ * Listing text of a product: name, short and long description without HTML
+ */
+export function productText(product: unknown): string {
+  const data = (product ?? {}) as Partial<UnifiedProduct>;
+
+  return [data.name, data.description?.short, data.description?.html || data.description?.long]
+    .filter((part): part is string => typeof part === 'string')
+    .join(' ')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Levenshtein distance over words (insert, delete, replace a word)
+ */
+export function wordEditDistance(a: string, b: string): number {
+  const from = a.split(' ').filter(Boolean);
+  const to = b.split(' ').filter(Boolean);
+
+  // Two rows are enough
+  let previous = Array.from({ length: to.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= from.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= to.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (from[i - 1] === to[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[to.length];
+}
+
+/**
+ * Edit distance relative to the longer text: 0 = unchanged, 1 = rewritten
+ */
+export function editDistanceRatio(generated: string, published: string): number {
+  const words = Math.max(generated.split(' ').filter(Boolean).length, published.split(' ').filter(Boolean).length);
+  return words === 0 ? 0 : wordEditDistance(generated, published) / words;
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'zlib';
+import { parseXlsx } from '../xlsx';
+
+// Minimal ZIP writer (deflated entries, no CRC check on read)
+function zip(files: Record<string, Buffer | string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const raw = Buffer.isBuffer(content) ? content : Buffer.from(content);
+    const data = deflateRawSync(raw);
+    const nameBuffer = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBuffer, data);
+    centrals.push(central, nameBuffer);
+    offset += local.length + nameBuffer.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(files).length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, eocd]);
+}
+
+const SHEET = `<worksheet><sheetData>
+  <row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="inlineStr"><is><t>price</t></is></c></row>
+  <row r="2"><c r="A2" t="s"><v>1</v></c><c r="C2"><v>49.99</v></c></row>
+</sheetData></worksheet>`;
+
+const SHARED_STRINGS = '<sst><si><t>name</t></si><si><r><t>Sitz</t></r><r><t>kissen</t></r></si></sst>';
+
+describe('parseXlsx', () => {
+  it('reads the first worksheet with shared and inline strings', () => {
+    const rows = parseXlsx(zip({
+      'xl/worksheets/sheet1.xml': SHEET,
+      'xl/sharedStrings.xml': SHARED_STRINGS,
+    }));
+
+    expect(rows).toEqual([
+      ['name', '', 'price'],
+      ['Sitzkissen', '', '49.99'],
+    ]);
+  });
+
+  it('does not unpack parts it does not read', () => {
+    const rows = parseXlsx(zip({
+      'xl/worksheets/sheet1.xml': SHEET,
+      'xl/sharedStrings.xml': SHARED_STRINGS,
+      'xl/media/huge.bin': Buffer.alloc(40 * 1024 * 1024),
+    }));
+
+    expect(rows).toHaveLength(2);
+  });
+
+  it('refuses parts that unpack beyond the size limit', () => {
+    const file = zip({
+      'xl/worksheets/sheet1.xml': Buffer.alloc(40 * 1024 * 1024, ' '),
+    });
+
+    expect(file.length).toBeLessThan(5 * 1024 * 1024);
+    expect(() => parseXlsx(file)).toThrow('XLSX part xl/worksheets/sheet1.xml is too large (over 32MB unpacked)');
+  });
+});
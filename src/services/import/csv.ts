@@ -0,0 +1,84 @@
+// CSV Parser for bulk import
+// RFC 4180 quoting, delimiter auto-detection (Excel exports use ";" in PL/DE locales)
+
+const DELIMITERS = [',', ';', '\t'] as const;
+
+// Pick the delimiter that occurs most often in the header line (outside quotes)
+export function detectDelimiter(text: string): string {
+  const headerLine = text.split(/\r?\n/, 1)[0] || '';
+  let best: string = ',';
+  let bestCount = 0;
+
+  for (const delimiter of DELIMITERS) {
+    let count = 0;
+    let inQuotes = false;
+
+    for (const char of headerLine) {
+      if (char === '"') inQuotes = !inQuotes;
+      else if (char === delimiter && !inQuotes) count++;
+    }
+
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+// Parse CSV text into rows of cells (empty lines are skipped)
+export function parseCsv(text: string, delimiter?: string): string[][] {
+  // Strip UTF-8 BOM added by Excel
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const sep = delimiter || detectDelimiter(input);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === sep) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
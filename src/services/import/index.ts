@@ -0,0 +1,332 @@
+// Bulk Import Service
+// Turns supplier CSV/XLSX sheets into drafts (raw data + image URLs), one per row
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { PipelineInputSchema } from '@/types/pipeline';
+import { enqueuePipelineJob } from '@/services/jobs';
+import { recordDraftRevision } from '@/services/revisions';
+import { parseCsv } from './csv';
+import { parseXlsx } from './xlsx';
+
+export { parseCsv, parseXlsx };
+
+// Same limit as a manual upload
+export const MAX_IMAGES_PER_ROW = 10;
+export const MAX_IMPORT_ROWS = 1000;
+
+export type ImportField =
+  | 'ean'
+  | 'sku'
+  | 'priceGross'
+  | 'priceNet'
+  | 'vatRate'
+  | 'currency'
+  | 'brand'
+  | 'manufacturer'
+  | 'quantity'
+  | 'weight'
+  | 'categories'
+  | 'hint'
+  | 'images'
+  | 'language';
+
+// Accepted header names per field (normalized: lowercase, no diacritics, no separators)
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  ean: ['ean', 'ean13', 'gtin', 'barcode', 'kodkreskowy'],
+  sku: ['sku', 'reference', 'ref', 'indeks', 'index', 'artikelnummer'],
+  priceGross: ['price', 'pricegross', 'gross', 'brutto', 'cena', 'cenabrutto', 'preis'],
+  priceNet: ['pricenet', 'net', 'netto', 'cenanetto'],
+  vatRate: ['vat', 'vatrate', 'tax', 'mwst', 'stawkavat'],
+  currency: ['currency', 'waluta', 'wahrung'],
+  brand: ['brand', 'marka', 'marke'],
+  manufacturer: ['manufacturer', 'producent', 'hersteller'],
+  quantity: ['quantity', 'qty', 'stock', 'ilosc', 'stan', 'menge'],
+  weight: ['weight', 'waga', 'gewicht'],
+  categories: ['categories', 'category', 'kategoria', 'kategorie', 'kategorien'],
+  hint: ['hint', 'userhint', 'uwagi', 'hinweis', 'notes'],
+  images: ['images', 'image', 'imageurl', 'imageurls', 'photos', 'zdjecia', 'bilder'],
+  language: ['language', 'lang', 'jezyk', 'sprache'],
+};
+
+// image1, image_2, zdjecie3, bild4 ...
+const NUMBERED_IMAGE_COLUMN = /^(image|img|photo|zdjecie|bild)\d+$/;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+const LANGUAGES = ['de', 'pl', 'en'] as const;
+
+export interface ImportImage {
+  url: string;
+  filename: string;
+  mimeType: string;
+}
+
+export interface ImportRow {
+  // Line number in the sheet (header is line 1)
+  line: number;
+  userHint?: string;
+  rawData: Record<string, unknown>;
+  images: ImportImage[];
+}
+
+export interface ImportRowError {
+  line: number;
+  errors: string[];
+}
+
+export interface ParsedImport {
+  rows: ImportRow[];
+  errors: ImportRowError[];
+  ignoredColumns: string[];
+}
+
+export function normalizeHeader(header: string): string {
+  return header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\u0142/gi, 'l')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+// Read an uploaded file into rows of cells by extension
+export function readImportFile(buffer: Buffer, filename: string): string[][] {
+  const extension = filename.split('.').pop()?.toLowerCase();
+
+  if (extension === 'xlsx') {
+    return parseXlsx(buffer);
+  }
+
+  if (extension === 'csv' || extension === 'txt') {
+    return parseCsv(buffer.toString('utf8'));
+  }
+
+  throw new Error(`Unsupported file type: .${extension}. Allowed: .csv, .xlsx`);
+}
+
+// "12,99" / "12.99" / "23%" / "1 299,00" -> number
+function parseNumber(value: string): number | undefined {
+  const cleaned = value.replace(/[\s%]/g, '').replace(/[^\d,.-]/g, '');
+  if (!cleaned) return undefined;
+
+  // Decimal comma unless a dot comes after it ("1,299.00")
+  const normalized = cleaned.lastIndexOf(',') > cleaned.lastIndexOf('.')
+    ? cleaned.replace(/\./g, '').replace(',', '.')
+    : cleaned.replace(/,/g, '');
+
+  const number = Number(normalized);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function toImportImage(url: string): ImportImage | string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return `invalid image URL: ${url}`;
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return `image URL must be http(s): ${url}`;
+  }
+
+  const filename = decodeURIComponent(parsed.pathname.split('/').pop() || '') || 'image';
+  const extension = filename.includes('.') ? filename.split('.').pop()!.toLowerCase() : '';
+
+  if (extension && !IMAGE_EXTENSIONS[extension]) {
+    return `not an image (.${extension}): ${url}`;
+  }
+
+  // Supplier CDNs often omit the extension - the vision stage reads the real type
+  return {
+    url,
+    filename,
+    mimeType: IMAGE_EXTENSIONS[extension] || 'image/jpeg',
+  };
+}
+
+/**
+ * Map sheet rows (first row = header) to validated import rows.
+ * Invalid rows are reported per line and left out of `rows`.
+ */
+export function mapImportRows(
+  table: string[][],
+  defaults: { language?: string } = {}
+): ParsedImport {
+  if (table.length < 2) {
+    throw new Error('File must contain a header row and at least one product row');
+  }
+
+  if (table.length - 1 > MAX_IMPORT_ROWS) {
+    throw new Error(`Too many rows: ${table.length - 1} (maximum ${MAX_IMPORT_ROWS})`);
+  }
+
+  // Resolve header columns
+  const [header, ...dataRows] = table;
+  const columns = new Map<number, ImportField>();
+  const ignoredColumns: string[] = [];
+
+  header.forEach((name, index) => {
+    const normalized = normalizeHeader(name);
+    if (!normalized) return;
+
+    const field = (Object.keys(COLUMN_ALIASES) as ImportField[]).find(
+      key => COLUMN_ALIASES[key].includes(normalized)
+    );
+
+    if (field) {
+      columns.set(index, field);
+    } else if (NUMBERED_IMAGE_COLUMN.test(normalized)) {
+      columns.set(index, 'images');
+    } else {
+      ignoredColumns.push(name);
+    }
+  });
+
+  if (![...columns.values()].includes('images')) {
+    throw new Error('Missing image column (expected "images" or "image1", "image2", ...)');
+  }
+
+  const rawDataSchema = PipelineInputSchema.shape.rawData;
+  const rows: ImportRow[] = [];
+  const errors: ImportRowError[] = [];
+
+  dataRows.forEach((cells, rowIndex) => {
+    const line = rowIndex + 2;
+    const rowErrors: string[] = [];
+    const rawData: Record<string, unknown> = {};
+    const imageUrls: string[] = [];
+    let userHint: string | undefined;
+    let language = defaults.language;
+
+    columns.forEach((field, index) => {
+      const value = (cells[index] ?? '').trim();
+      if (!value) return;
+
+      switch (field) {
+        case 'images':
+          imageUrls.push(...value.split(/[\s|;,]+/).filter(Boolean));
+          break;
+        case 'categories':
+          rawData.categories = value.split(/\s*[|;]\s*/).filter(Boolean);
+          break;
+        case 'hint':
+          userHint = value;
+          break;
+        case 'language':
+          language = value.toLowerCase();
+          break;
+        case 'priceGross':
+        case 'priceNet':
+        case 'vatRate':
+        case 'quantity':
+        case 'weight': {
+          const number = parseNumber(value);
+          if (number === undefined) {
+            rowErrors.push(`${field}: "${value}" is not a number`);
+          } else {
+            rawData[field] = number;
+          }
+          break;
+        }
+        case 'currency':
+          rawData.currency = value.toUpperCase();
+          break;
+        default:
+          rawData[field] = value;
+      }
+    });
+
+    // Images
+    const images: ImportImage[] = [];
+    for (const url of imageUrls) {
+      const image = toImportImage(url);
+      if (typeof image === 'string') rowErrors.push(image);
+      else images.push(image);
+    }
+
+    if (imageUrls.length === 0) {
+      rowErrors.push('at least one image URL is required');
+    } else if (imageUrls.length > MAX_IMAGES_PER_ROW) {
+      rowErrors.push(`too many images: ${imageUrls.length} (maximum ${MAX_IMAGES_PER_ROW})`);
+    }
+
+    if (language && !(LANGUAGES as readonly string[]).includes(language)) {
+      rowErrors.push(`language must be one of: ${LANGUAGES.join(', ')}`);
+    }
+
+    // Same rules as pipeline input
+    const validation = rawDataSchema.safeParse(rawData);
+    if (!validation.success) {
+      rowErrors.push(...validation.error.issues.map(
+        issue => `${issue.path.join('.')}: ${issue.message}`
+      ));
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push({ line, errors: rowErrors });
+      return;
+    }
+
+    rows.push({
+      line,
+      userHint,
+      rawData: language ? { ...rawData, language } : rawData,
+      images,
+    });
+  });
+
+  return { rows, errors, ignoredColumns };
+}
+
+/**
+ * Create one draft with its image rows per import row
+ */
+export async function createImportedDrafts(rows: ImportRow[]): Promise<Array<{ line: number; draftId: string }>> {
+  const created: Array<{ line: number; draftId: string }> = [];
+
+  for (const row of rows) {
+    const draft = await prisma.draft.create({
+      data: {
+        status: 'PENDING',
+        userHint: row.userHint,
+        rawData: row.rawData as Prisma.InputJsonValue,
+        images: {
+          create: row.images.map((image, position) => ({
+            url: image.url,
+            filename: image.filename,
+            mimeType: image.mimeType,
+            size: 0, // Remote image, not downloaded
+            position,
+          })),
+        },
+      },
+    });
+
+    // Starting point of the history; the pipeline run adds the AI revision
+    await recordDraftRevision(draft, 'IMPORT', { note: `Import line ${row.line}` });
+
+    created.push({ line: row.line, draftId: draft.id });
+  }
+
+  return created;
+}
+
+/**
+ * Queue a pipeline job for each draft (picked up by the background worker)
+ */
+export async function queueDraftsForPipeline(draftIds: string[]): Promise<string[]> {
+  const jobIds: string[] = [];
+  for (const draftId of draftIds) {
+    const job = await enqueuePipelineJob(draftId);
+    jobIds.push(job.id);
+  }
+  return jobIds;
+}
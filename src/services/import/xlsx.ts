@@ -0,0 +1,192 @@
+// XLSX Reader for bulk import
+// Reads the first worksheet of an .xlsx file into rows of cell text
+// Only what supplier spreadsheets need: shared/inline strings, numbers, booleans
+
+import { inflateRawSync } from 'zlib';
+import { XMLParser } from 'fast-xml-parser';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+// Unpacked size limit per part - a 5MB upload must not inflate to gigabytes (zip bomb)
+const MAX_ENTRY_SIZE = 32 * 1024 * 1024;
+
+// Compressed ZIP entry, inflated only when read
+interface ZipEntry {
+  method: number;
+  data: Buffer;
+}
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  parseTagValue: false,
+  isArray: name => ['sheet', 'Relationship', 'si', 'r', 'row', 'c'].includes(name),
+});
+
+// Locate the entries of a ZIP archive without unpacking them
+function readZipEntries(buffer: Buffer): Map<string, ZipEntry> {
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+
+  if (eocd === -1) {
+    throw new Error('Not a valid XLSX file (ZIP directory not found)');
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Not a valid XLSX file (corrupt ZIP directory)');
+    }
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    if (buffer.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Not a valid XLSX file (bad entry ${name})`);
+    }
+
+    const dataStart = localOffset + 30
+      + buffer.readUInt16LE(localOffset + 26)
+      + buffer.readUInt16LE(localOffset + 28);
+    entries.set(name, { method, data: buffer.subarray(dataStart, dataStart + compressedSize) });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+// Unpack one entry (stored or deflated), at most MAX_ENTRY_SIZE bytes
+function readEntry(entries: Map<string, ZipEntry>, name: string): Buffer | undefined {
+  const entry = entries.get(name);
+  if (!entry || (entry.method !== 0 && entry.method !== 8)) {
+    return undefined;
+  }
+
+  if (entry.method === 0) {
+    return entry.data;
+  }
+
+  try {
+    return inflateRawSync(entry.data, { maxOutputLength: MAX_ENTRY_SIZE });
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new Error(`XLSX part ${name} is too large (over ${MAX_ENTRY_SIZE / 1024 / 1024}MB unpacked)`);
+    }
+    throw new Error(`Not a valid XLSX file (cannot unpack ${name})`);
+  }
+}
+
+// Text of a <t> node (plain string or { '#text', '@_xml:space' })
+function textOf(node: unknown): string {
+  if (node === undefined || node === null) return '';
+  if (typeof node === 'object') return String((node as Record<string, unknown>)['#text'] ?? '');
+  return String(node);
+}
+
+// Shared string table entry: plain <t> or rich text runs <r><t>
+function sharedStringText(si: Record<string, unknown>): string {
+  if (si.t !== undefined) return textOf(si.t);
+  const runs = (si.r as Array<Record<string, unknown>> | undefined) || [];
+  return runs.map(run => textOf(run.t)).join('');
+}
+
+// "C12" -> 2
+function columnIndex(ref: string): number {
+  const letters = ref.replace(/[0-9]/g, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+// Resolve the path of the first worksheet via workbook relationships
+function firstSheetPath(entries: Map<string, ZipEntry>): string {
+  const workbookXml = readEntry(entries, 'xl/workbook.xml');
+  const relsXml = readEntry(entries, 'xl/_rels/workbook.xml.rels');
+
+  if (workbookXml && relsXml) {
+    const workbook = parser.parse(workbookXml.toString('utf8'));
+    const rels = parser.parse(relsXml.toString('utf8'));
+
+    const sheet = workbook.workbook?.sheets?.sheet?.[0];
+    const relId = sheet?.['@_r:id'];
+    const rel = (rels.Relationships?.Relationship || []).find(
+      (r: Record<string, string>) => r['@_Id'] === relId
+    );
+
+    if (rel?.['@_Target']) {
+      const target = String(rel['@_Target']);
+      return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+
+  return 'xl/worksheets/sheet1.xml';
+}
+
+// Parse the first worksheet into rows of cells (empty rows are skipped)
+export function parseXlsx(buffer: Buffer): string[][] {
+  const entries = readZipEntries(buffer);
+
+  const sharedStringsXml = readEntry(entries, 'xl/sharedStrings.xml');
+  const sharedStrings: string[] = sharedStringsXml
+    ? (parser.parse(sharedStringsXml.toString('utf8')).sst?.si || []).map(sharedStringText)
+    : [];
+
+  const sheetXml = readEntry(entries, firstSheetPath(entries));
+  if (!sheetXml) {
+    throw new Error('XLSX file has no worksheet');
+  }
+
+  const sheet = parser.parse(sheetXml.toString('utf8'));
+  const xmlRows: Array<Record<string, unknown>> = sheet.worksheet?.sheetData?.row || [];
+  const rows: string[][] = [];
+
+  for (const xmlRow of xmlRows) {
+    const cells: string[] = [];
+    const xmlCells = (xmlRow.c as Array<Record<string, unknown>> | undefined) || [];
+
+    xmlCells.forEach((cell, position) => {
+      const ref = cell['@_r'] as string | undefined;
+      const index = ref ? columnIndex(ref) : position;
+      const type = cell['@_t'] as string | undefined;
+      const raw = textOf(cell.v);
+
+      let value: string;
+      if (type === 's') {
+        value = sharedStrings[Number(raw)] ?? '';
+      } else if (type === 'inlineStr') {
+        value = sharedStringText((cell.is as Record<string, unknown>) || {});
+      } else if (type === 'b') {
+        value = raw === '1' ? 'true' : 'false';
+      } else {
+        value = raw;
+      }
+
+      while (cells.length < index) cells.push('');
+      cells[index] = value;
+    });
+
+    if (cells.some(value => value.trim() !== '')) {
+      rows.push(cells);
+    }
+  }
+
+  return rows;
+}
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { StoredPipelineOptionsSchema } from '../index';
+
+describe('stored pipeline options', () => {
+  it('accepts serializable options including routing and prompt versions', () => {
+    const options = {
+      language: 'de',
+      useViaMallFormat: true,
+      visionEnsemble: 2,
+      routing: { vision: [{ provider: 'google', model: 'gemini-2.0-flash' }] },
+      promptTemplateIds: { viamall: 'tpl-1' },
+    };
+
+    expect(StoredPipelineOptionsSchema.parse(options)).toEqual(options);
+  });
+
+  it('rejects unknown keys, invalid routing and wrong types', () => {
+    expect(StoredPipelineOptionsSchema.safeParse({ onProgress: 'x' }).success).toBe(false);
+    expect(StoredPipelineOptionsSchema.safeParse({ routing: { seo: [{ provider: 'groq' }] } }).success).toBe(false);
+    expect(StoredPipelineOptionsSchema.safeParse({ routing: { content: [] } }).success).toBe(false);
+    expect(StoredPipelineOptionsSchema.safeParse({ language: 'fr' }).success).toBe(false);
+    expect(StoredPipelineOptionsSchema.safeParse({ skipVision: 'yes' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,96 @@
+// Pipeline Job Queue
+// Persistent queue of pipeline runs, processed by the background worker (./worker)
+
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { RoutingConfigSchema } from '@/services/ai/routing';
+import { emitPipelineEvent } from '@/services/pipeline/events';
+import { VisionAnalysisSchema, type PipelineOptions } from '@/types/pipeline';
+import { PromptStageSchema } from '@/types/prompts';
+import { ProductTranslationSchema } from '@/types/translations';
+
+export const DEFAULT_MAX_ATTEMPTS = Number(process.env.PIPELINE_JOB_MAX_ATTEMPTS) || 3;
+
+// Only serializable options can be stored (no onProgress callback)
+export type StoredPipelineOptions = Omit<PipelineOptions, 'onProgress'>;
+
+const LanguageSchema = z.enum(['pl', 'en', 'de']);
+
+// Options accepted from API clients - unknown keys are rejected, not stored
+export const StoredPipelineOptionsSchema = z.object({
+  skipVision: z.boolean().optional(),
+  skipContent: z.boolean().optional(),
+  visionAnalysis: VisionAnalysisSchema.optional(),
+  translateFrom: z.object({
+    language: LanguageSchema,
+    content: ProductTranslationSchema,
+  }).optional(),
+  visionModel: z.string().trim().min(1).optional(),
+  contentModel: z.string().trim().min(1).optional(),
+  routing: RoutingConfigSchema.optional(),
+  promptShop: z.string().trim().min(1).max(64).optional(),
+  promptTemplateIds: z.partialRecord(PromptStageSchema, z.string().min(1)).optional(),
+  visionEnsemble: z.number().int().min(0).max(3).optional(),
+  language: LanguageSchema.optional(),
+  visionSystemPrompt: z.string().trim().min(1).optional(),
+  contentSystemPrompt: z.string().trim().min(1).optional(),
+  useViaMallFormat: z.boolean().optional(),
+}).strict() satisfies z.ZodType<StoredPipelineOptions>;
+
+/**
+ * Queue a pipeline run for a draft.
+ * Returns the existing job if the draft is already queued or running.
+ */
+export async function enqueuePipelineJob(
+  draftId: string,
+  options: StoredPipelineOptions = {}
+) {
+  const activeJob = await prisma.pipelineJob.findFirst({
+    where: { draftId, status: { in: ['QUEUED', 'RUNNING'] } },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (activeJob) {
+    return activeJob;
+  }
+
+  const [job] = await prisma.$transaction([
+    prisma.pipelineJob.create({
+      data: {
+        draftId,
+        options: options as Prisma.InputJsonValue,
+        maxAttempts: DEFAULT_MAX_ATTEMPTS,
+      },
+    }),
+    prisma.draft.update({
+      where: { id: draftId },
+      data: { status: 'PENDING', errorMessage: null },
+    }),
+  ]);
+
+  emitPipelineEvent(draftId, {
+    type: 'job',
+    jobId: job.id,
+    status: 'QUEUED',
+    attempt: 0,
+    maxAttempts: job.maxAttempts,
+  });
+
+  return job;
+}
+
+// Get job by ID
+export async function getPipelineJob(jobId: string) {
+  return prisma.pipelineJob.findUnique({
+    where: { id: jobId },
+  });
+}
+
+// Latest job for a draft (any status)
+export async function getLatestDraftJob(draftId: string) {
+  return prisma.pipelineJob.findFirst({
+    where: { draftId },
+    orderBy: { createdAt: 'desc' },
+  });
+}
@@ -0,0 +1,326 @@
+// Pipeline Worker
+// Polls the PipelineJob table, runs drafts through the pipeline, retries with backoff
+// Started once per server process from src/instrumentation.ts
+
+import type { PipelineJob } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { runDraftPipeline } from '@/services/pipeline/draft-runner';
+import { emitPipelineEvent } from '@/services/pipeline/events';
+import type { PipelineOptions, PipelineOutput, PipelineRunSummary } from '@/types/pipeline';
+import { enqueuePipelineJob } from './index';
+
+const WORKER_CONCURRENCY = Number(process.env.PIPELINE_WORKER_CONCURRENCY) || 2;
+const POLL_INTERVAL_MS = Number(process.env.PIPELINE_WORKER_POLL_MS) || 2000;
+const RETRY_BASE_MS = Number(process.env.PIPELINE_RETRY_BASE_MS) || 30_000;
+const STALE_JOB_MS = Number(process.env.PIPELINE_JOB_STALE_MS) || 15 * 60_000;
+// Running jobs refresh lockedAt well within the stale cutoff
+const HEARTBEAT_MS = Math.max(1000, Math.floor(STALE_JOB_MS / 3));
+
+let started = false;
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+// Jobs running in this process (never treated as stale)
+const runningJobIds = new Set<string>();
+
+// Pipeline summary stored on the job (same shape the pipeline API used to return)
+export function summarizePipelineResult(result: PipelineOutput): PipelineRunSummary {
+  return {
+    status: result.status,
+    totalDurationMs: result.totalDurationMs,
+    stages: {
+      vision: {
+        status: result.visionAnalysis.status,
+        durationMs: result.visionAnalysis.durationMs,
+      },
+      content: {
+        status: result.contentGeneration.status,
+        durationMs: result.contentGeneration.durationMs,
+      },
+      validation: {
+        status: result.validation.status,
+        durationMs: result.validation.durationMs,
+      },
+    },
+    errors: result.errors,
+  };
+}
+
+// 30s, 60s, 120s ... with +-20% jitter so retried jobs do not hit providers together
+export function getRetryDelayMs(attempt: number): number {
+  const base = RETRY_BASE_MS * 2 ** Math.max(0, attempt - 1);
+  const jitter = base * 0.2 * (Math.random() * 2 - 1);
+  return Math.round(base + jitter);
+}
+
+/**
+ * Put interrupted jobs back into the queue.
+ * A RUNNING job is interrupted when it is not owned by this process and its lock was
+ * not refreshed since `lockedBefore` - jobs of other live instances keep their heartbeat.
+ * On startup, drafts left in PROCESSING without an active job also get a new job.
+ */
+export async function recoverInterruptedJobs(lockedBefore: Date, startup: boolean = false): Promise<number> {
+  const requeued = await prisma.pipelineJob.updateMany({
+    where: {
+      status: 'RUNNING',
+      id: { notIn: [...runningJobIds] },
+      OR: [{ lockedAt: null }, { lockedAt: { lt: lockedBefore } }],
+    },
+    data: {
+      status: 'QUEUED',
+      lockedAt: null,
+      runAfter: new Date(),
+      lastError: 'Interrupted - requeued by worker',
+    },
+  });
+
+  await prisma.draft.updateMany({
+    where: {
+      status: 'PROCESSING',
+      jobs: { some: { status: 'QUEUED' } },
+    },
+    data: { status: 'PENDING' },
+  });
+
+  // Drafts that were processing without a job (request died mid-run)
+  const orphaned = !startup
+    ? []
+    : await prisma.draft.findMany({
+        where: {
+          status: 'PROCESSING',
+          jobs: { none: { status: { in: ['QUEUED', 'RUNNING'] } } },
+        },
+        select: { id: true },
+      });
+
+  for (const draft of orphaned) {
+    await enqueuePipelineJob(draft.id);
+  }
+
+  const recovered = requeued.count + orphaned.length;
+  if (recovered > 0) {
+    console.log(`[Worker] Recovered ${recovered} interrupted pipeline run(s)`);
+  }
+
+  return recovered;
+}
+
+// Claim the oldest due job (optimistic lock on status)
+async function claimNextJob(): Promise<PipelineJob | null> {
+  for (let tries = 0; tries < 3; tries++) {
+    const candidate = await prisma.pipelineJob.findFirst({
+      where: { status: 'QUEUED', runAfter: { lte: new Date() } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (!candidate) {
+      return null;
+    }
+
+    const claimed = await prisma.pipelineJob.updateMany({
+      where: { id: candidate.id, status: 'QUEUED' },
+      data: {
+        status: 'RUNNING',
+        lockedAt: new Date(),
+        attempts: { increment: 1 },
+      },
+    });
+
+    if (claimed.count === 1) {
+      return { ...candidate, status: 'RUNNING', attempts: candidate.attempts + 1 };
+    }
+  }
+
+  return null;
+}
+
+// Schedule a retry or mark the job (and draft) as failed
+async function failJob(job: PipelineJob, errorMessage: string, result?: PipelineOutput): Promise<void> {
+  const willRetry = job.attempts < job.maxAttempts;
+  const summary = result ? (summarizePipelineResult(result) as object) : undefined;
+
+  if (willRetry) {
+    const delayMs = getRetryDelayMs(job.attempts);
+
+    await prisma.$transaction([
+      prisma.pipelineJob.update({
+        where: { id: job.id },
+        data: {
+          status: 'QUEUED',
+          lockedAt: null,
+          runAfter: new Date(Date.now() + delayMs),
+          lastError: errorMessage,
+          result: summary,
+        },
+      }),
+      prisma.draft.update({
+        where: { id: job.draftId },
+        data: {
+          status: 'PENDING',
+          errorMessage: `Attempt ${job.attempts}/${job.maxAttempts} failed, retrying in ${Math.round(delayMs / 1000)}s: ${errorMessage}`,
+        },
+      }),
+    ]);
+
+    emitPipelineEvent(job.draftId, {
+      type: 'job',
+      jobId: job.id,
+      status: 'QUEUED',
+      attempt: job.attempts,
+      maxAttempts: job.maxAttempts,
+      error: errorMessage,
+      retryAt: new Date(Date.now() + delayMs).toISOString(),
+    });
+
+    console.warn(`[Worker] Job ${job.id} attempt ${job.attempts} failed, retry in ${delayMs}ms: ${errorMessage}`);
+    return;
+  }
+
+  await prisma.$transaction([
+    prisma.pipelineJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'FAILED',
+        lockedAt: null,
+        lastError: errorMessage,
+        result: summary,
+        finishedAt: new Date(),
+      },
+    }),
+    prisma.draft.update({
+      where: { id: job.draftId },
+      data: { status: 'FAILED', errorMessage },
+    }),
+  ]);
+
+  emitPipelineEvent(job.draftId, {
+    type: 'job',
+    jobId: job.id,
+    status: 'FAILED',
+    attempt: job.attempts,
+    maxAttempts: job.maxAttempts,
+    error: errorMessage,
+  });
+  emitPipelineEvent(job.draftId, { type: 'done', status: 'failed' });
+
+  console.error(`[Worker] Job ${job.id} failed after ${job.attempts} attempt(s): ${errorMessage}`);
+}
+
+// Refresh the lock so other instances do not treat a long run as stale
+function startHeartbeat(jobId: string): ReturnType<typeof setInterval> {
+  return setInterval(() => {
+    prisma.pipelineJob.updateMany({
+      where: { id: jobId, status: 'RUNNING' },
+      data: { lockedAt: new Date() },
+    }).catch(error => {
+      console.warn(`[Worker] Could not refresh lock of job ${jobId}:`, error);
+    });
+  }, HEARTBEAT_MS);
+}
+
+// Run one job
+async function processJob(job: PipelineJob): Promise<void> {
+  runningJobIds.add(job.id);
+  const heartbeat = startHeartbeat(job.id);
+
+  emitPipelineEvent(job.draftId, {
+    type: 'job',
+    jobId: job.id,
+    status: 'RUNNING',
+    attempt: job.attempts,
+    maxAttempts: job.maxAttempts,
+  });
+
+  try {
+    const { result } = await runDraftPipeline(
+      job.draftId,
+      (job.options as PipelineOptions | null) || {}
+    );
+
+    // Nothing usable came out (e.g. every provider rate-limited) - worth retrying
+    if (result.status === 'failed') {
+      await failJob(job, result.errors?.join('; ') || 'Pipeline failed', result);
+      return;
+    }
+
+    await prisma.pipelineJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'COMPLETED',
+        lockedAt: null,
+        lastError: null,
+        result: summarizePipelineResult(result) as object,
+        finishedAt: new Date(),
+      },
+    });
+
+    emitPipelineEvent(job.draftId, {
+      type: 'job',
+      jobId: job.id,
+      status: 'COMPLETED',
+      attempt: job.attempts,
+      maxAttempts: job.maxAttempts,
+    });
+    emitPipelineEvent(job.draftId, { type: 'done', status: result.status });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    try {
+      await failJob(job, errorMessage);
+    } catch (updateError) {
+      // Draft (and its jobs) deleted while running
+      console.warn(`[Worker] Could not update job ${job.id}:`, updateError);
+    }
+  } finally {
+    clearInterval(heartbeat);
+    runningJobIds.delete(job.id);
+  }
+}
+
+// One polling round: recover stale jobs, then fill free worker slots
+async function tick(): Promise<void> {
+  try {
+    await recoverInterruptedJobs(new Date(Date.now() - STALE_JOB_MS));
+
+    while (runningJobIds.size < WORKER_CONCURRENCY) {
+      const job = await claimNextJob();
+      if (!job) break;
+
+      void processJob(job);
+    }
+  } catch (error) {
+    console.error('[Worker] Polling failed:', error);
+  } finally {
+    if (started) {
+      timer = setTimeout(tick, POLL_INTERVAL_MS);
+    }
+  }
+}
+
+/**
+ * Start the worker loop (idempotent)
+ */
+export async function startPipelineWorker(): Promise<void> {
+  if (started) return;
+  started = true;
+
+  console.log(`[Worker] Starting pipeline worker (concurrency ${WORKER_CONCURRENCY})`);
+
+  try {
+    await recoverInterruptedJobs(new Date(Date.now() - STALE_JOB_MS), true);
+  } catch (error) {
+    console.error('[Worker] Recovery failed:', error);
+  }
+
+  void tick();
+}
+
+/**
+ * Stop polling (running jobs finish on their own)
+ */
+export function stopPipelineWorker(): void {
+  started = false;
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { emitPipelineEvent, getPipelineEventHistory, subscribePipelineEvents } from '../events';
+
+const attempt = { type: 'provider', kind: 'text', provider: 'groq', providerName: 'Groq', status: 'trying' } as const;
+
+describe('pipeline events', () => {
+  it('sends events outside a job run to live subscribers without keeping them', () => {
+    const received: string[] = [];
+    const unsubscribe = subscribePipelineEvents('draft-translate', message => received.push(message.type));
+
+    emitPipelineEvent('draft-translate', attempt);
+    emitPipelineEvent('draft-translate', attempt);
+    unsubscribe();
+
+    expect(received).toEqual(['provider', 'provider']);
+    expect(getPipelineEventHistory('draft-translate')).toEqual([]);
+  });
+
+  it('keeps the events of a job run up to done and nothing after it', () => {
+    emitPipelineEvent('draft-job', attempt);
+    emitPipelineEvent('draft-job', { type: 'job', jobId: 'job-1', status: 'QUEUED', attempt: 0, maxAttempts: 3 });
+    emitPipelineEvent('draft-job', { type: 'job', jobId: 'job-1', status: 'RUNNING', attempt: 1, maxAttempts: 3 });
+    emitPipelineEvent('draft-job', attempt);
+    emitPipelineEvent('draft-job', { type: 'done', status: 'completed' });
+    emitPipelineEvent('draft-job', attempt);
+
+    expect(getPipelineEventHistory('draft-job').map(message => message.type)).toEqual([
+      'job', 'job', 'provider', 'done',
+    ]);
+
+    // The next job replaces the finished run
+    emitPipelineEvent('draft-job', { type: 'job', jobId: 'job-2', status: 'RUNNING', attempt: 1, maxAttempts: 3 });
+    expect(getPipelineEventHistory('draft-job')).toMatchObject([{ type: 'job', jobId: 'job-2' }]);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { UnifiedProductSchema, type UnifiedProduct } from '@/types/unified-product';
+import { buildFieldRegenerationPrompt } from '@/prompts/field-regeneration';
+import { setProductField } from '../field-regeneration-stage';
+import type { MockFixtures } from '@/services/ai/adapters/MockAdapter';
+
+// Only the mock provider answers, from the given fixtures
+async function loadPipeline(fixtures: MockFixtures) {
+  const fixturesPath = join(mkdtempSync(join(tmpdir(), 'mock-ai-')), 'fixtures.json');
+  writeFileSync(fixturesPath, JSON.stringify(fixtures));
+
+  ['GROQ_API_KEY', 'CEREBRAS_API_KEY', 'GOOGLE_AI_API_KEY', 'MISTRAL_API_KEY', 'DEEPSEEK_API_KEY', 'OPENROUTER_API_KEY', 'LOCAL_AI_BASE_URL']
+    .forEach(key => vi.stubEnv(key, ''));
+  vi.stubEnv('AI_MOCK_PROVIDER', 'true');
+  vi.stubEnv('AI_MOCK_FIXTURES', fixturesPath);
+  vi.resetModules();
+
+  return import('@/services/pipeline');
+}
+
+const product: UnifiedProduct = UnifiedProductSchema.parse({
+  name: 'Outdoor Sitzkissen 4er Set Grau | Wasserabweisend',
+  description: { short: '<p>Kurz</p>', long: '<h2>Lang</h2>', html: '<h2>Lang</h2>' },
+  seo: { title: 'Sitzkissen Grau', description: 'Sitzkissen fur Garten', keywords: ['sitzkissen'] },
+  pricing: { gross: 49.99, net: 42.01, currency: 'EUR', vatRate: 19 },
+  images: [
+    { url: 'https://cdn.test/1.jpg', alt: 'Vorne', position: 0 },
+    { url: 'https://cdn.test/2.jpg', alt: 'Seite', position: 1 },
+  ],
+  stock: { quantity: 5 },
+  tags: ['garten'],
+});
+
+describe('regenerateProductField (mock provider)', () => {
+  it('replaces only the requested field', async () => {
+    const { regenerateProductField } = await loadPipeline({ text: { json: { value: '<p>Neu und kurzer</p>' } } });
+
+    const result = await regenerateProductField({ product, field: 'description.short', language: 'de', instruction: 'kurzer' });
+
+    expect(result.status).toBe('completed');
+    expect(result.provider).toBe('mock');
+    const updated = setProductField(product, 'description.short', result.data!.value);
+    expect(updated).toEqual({ ...product, description: { ...product.description, short: '<p>Neu und kurzer</p>' } });
+  });
+
+  it('fails instead of saving alt texts that do not match the images', async () => {
+    const { regenerateProductField } = await loadPipeline({ text: { json: { value: ['Nur eins'] } } });
+
+    const result = await regenerateProductField({ product, field: 'images.alt', language: 'de' });
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toContain('Field regeneration failed');
+  });
+});
+
+describe('field regeneration helpers', () => {
+  it('keeps html and long description in sync', () => {
+    const updated = setProductField(product, 'description.long', '<h2>Neu</h2>');
+
+    expect(updated.description).toEqual({ short: '<p>Kurz</p>', long: '<h2>Neu</h2>', html: '<h2>Neu</h2>' });
+  });
+
+  it('puts the instruction and the image count into the prompt', () => {
+    const { userPrompt } = buildFieldRegenerationPrompt({
+      field: 'images.alt',
+      language: 'pl',
+      name: product.name,
+      shortDescription: product.description.short,
+      currentValue: ['Vorne', 'Seite'],
+      instruction: 'podkresl wodoodpornosc',
+      imageCount: 2,
+    });
+
+    expect(userPrompt).toContain('Write in Polish');
+    expect(userPrompt).toContain('Exactly 2 alt texts');
+    expect(userPrompt).toContain('- User instruction: podkresl wodoodpornosc');
+    expect(userPrompt).not.toMatch(/{{\w+}}/);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import sharp from 'sharp';
+import { getImage, putObject } from '@/services/storage';
+import { preprocessImage, prepareVisionImage, getVariantKey } from '../image-preprocessing';
+
+// Phone-style photo: 3000x2000, EXIF orientation 6 (rotate 90deg) and a camera model
+function phonePhoto(): Promise<Buffer> {
+  return sharp({ create: { width: 3000, height: 2000, channels: 3, background: '#8a5a2b' } })
+    .jpeg()
+    .withMetadata({ orientation: 6 })
+    .withExif({ IFD0: { Make: 'TestPhone', Model: 'X1' } })
+    .toBuffer();
+}
+
+function serve(buffer: Buffer, contentType = 'image/jpeg') {
+  const fetchMock = vi.fn(async () => new Response(new Uint8Array(buffer), { headers: { 'content-type': contentType } }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('preprocessImage', () => {
+  it('rotates by EXIF, downscales and strips metadata', async () => {
+    const output = await preprocessImage(await phonePhoto(), 1024);
+    const metadata = await sharp(output).metadata();
+
+    expect(metadata.format).toBe('jpeg');
+    expect([metadata.width, metadata.height]).toEqual([683, 1024]);
+    expect(metadata.exif).toBeUndefined();
+    expect(metadata.orientation).toBeUndefined();
+  });
+
+  it('converts WebP with transparency to JPEG without upscaling', async () => {
+    const webp = await sharp({ create: { width: 400, height: 300, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+      .webp()
+      .toBuffer();
+
+    const metadata = await sharp(await preprocessImage(webp, 1024)).metadata();
+
+    expect(metadata.format).toBe('jpeg');
+    expect([metadata.width, metadata.height]).toEqual([400, 300]);
+    expect(metadata.hasAlpha).toBe(false);
+  });
+});
+
+describe('prepareVisionImage', () => {
+  beforeEach(() => {
+    vi.unstubAllGlobals();
+    vi.mocked(getImage).mockClear();
+    vi.mocked(putObject).mockClear();
+  });
+
+  it('processes the image and caches the variant in storage', async () => {
+    serve(await phonePhoto());
+
+    const image = await prepareVisionImage('https://cdn.test/mata.jpg', { maxDimension: 1024 });
+
+    expect(image.mimeType).toBe('image/jpeg');
+    expect(putObject).toHaveBeenCalledWith(
+      getVariantKey('https://cdn.test/mata.jpg', 1024),
+      Buffer.from(image.base64, 'base64'),
+      'image/jpeg'
+    );
+  });
+
+  it('reuses a cached variant without downloading the original', async () => {
+    const cached = Buffer.from('cached-jpeg');
+    vi.mocked(getImage).mockResolvedValueOnce({ success: true, buffer: cached, mimeType: 'image/jpeg' });
+    const fetchMock = serve(await phonePhoto());
+
+    const image = await prepareVisionImage('https://cdn.test/mata.jpg', { maxDimension: 1024 });
+
+    expect(image).toEqual({ base64: cached.toString('base64'), mimeType: 'image/jpeg' });
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(putObject).not.toHaveBeenCalled();
+  });
+
+  it('sends an image it cannot decode unchanged', async () => {
+    const heic = Buffer.from('not really an image');
+    serve(heic, 'image/heic');
+
+    const image = await prepareVisionImage('https://cdn.test/foto.heic', { maxDimension: 1024, cache: false });
+
+    expect(image).toEqual({ base64: heic.toString('base64'), mimeType: 'image/heic' });
+    expect(getImage).not.toHaveBeenCalled();
+  });
+
+  it('keys variants by URL and size', () => {
+    expect(getVariantKey('https://cdn.test/a.jpg', 1024)).not.toBe(getVariantKey('https://cdn.test/a.jpg', 2048));
+    expect(getVariantKey('https://cdn.test/a.jpg', 1024)).toMatch(/^vision\/[0-9a-f]{32}-1024\.jpg$/);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { XMLParser } from 'fast-xml-parser';
+import sharp from 'sharp';
+import type { MockFixtures } from '@/services/ai/adapters/MockAdapter';
+import type { PipelineInput } from '@/types/pipeline';
+
+const TEST_IMAGES_DIR = join(process.cwd(), 'test-images');
+const FIXTURES_DIR = join(__dirname, 'fixtures');
+const IMAGE_HOST = 'https://cdn.test';
+
+// Serve test-images/ at https://cdn.test/<file>
+function stubImageFetch() {
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+    const file = new URL(url).pathname.slice(1);
+    return new Response(readFileSync(join(TEST_IMAGES_DIR, file)), {
+      headers: { 'content-type': 'image/jpeg' },
+    });
+  }));
+}
+
+// Only the mock provider answers, from the given fixtures
+async function loadPipeline(fixtures: MockFixtures | string) {
+  let fixturesPath = typeof fixtures === 'string' ? join(FIXTURES_DIR, `${fixtures}.json`) : '';
+  if (typeof fixtures !== 'string') {
+    fixturesPath = join(mkdtempSync(join(tmpdir(), 'mock-ai-')), 'fixtures.json');
+    writeFileSync(fixturesPath, JSON.stringify(fixtures));
+  }
+
+  ['GROQ_API_KEY', 'CEREBRAS_API_KEY', 'GOOGLE_AI_API_KEY', 'MISTRAL_API_KEY', 'DEEPSEEK_API_KEY', 'OPENROUTER_API_KEY', 'LOCAL_AI_BASE_URL']
+    .forEach(key => vi.stubEnv(key, ''));
+  vi.stubEnv('AI_MOCK_PROVIDER', 'true');
+  vi.stubEnv('AI_MOCK_FIXTURES', fixturesPath);
+  vi.resetModules();
+
+  return import('@/services/pipeline');
+}
+
+function pipelineInput(image: string, rawData?: PipelineInput['rawData']): PipelineInput {
+  return {
+    images: [{ url: `${IMAGE_HOST}/${image}.jpg`, mimeType: 'image/jpeg', filename: `${image}.jpg` }],
+    rawData,
+  };
+}
+
+describe('runPipeline (mock provider)', () => {
+  beforeEach(() => {
+    stubImageFetch();
+  });
+
+  it.each(['okulary', 'sluchawki', 'zegarek'])('builds a valid product from test-images/%s.jpg', async image => {
+    const { runPipeline } = await loadPipeline(image);
+    const fixture = JSON.parse(readFileSync(join(FIXTURES_DIR, `${image}.json`), 'utf-8'));
+    const progress: string[] = [];
+
+    const result = await runPipeline(pipelineInput(image, { priceGross: 123, sku: `SKU-${image}` }), {
+      onProgress: event => progress.push(`${event.stage}:${event.status}`),
+    });
+
+    expect(result.status).toBe('completed');
+    expect(result.errors).toBeUndefined();
+    expect(result.visionAnalysis.data?.productType).toBe(fixture.vision.json.productType);
+    expect(result.product?.name).toBe(fixture.text.json.name);
+    expect(result.contentGeneration.prompt).toEqual({ id: null, name: 'content-pl', version: 1 });
+    expect(result.product?.pricing).toEqual({ gross: 123, net: 100, currency: 'PLN', vatRate: 23 });
+    expect(result.product?.images).toEqual([
+      { url: `${IMAGE_HOST}/${image}.jpg`, alt: fixture.text.json.imageAlts[0], position: 0 },
+    ]);
+    expect(progress).toEqual([
+      'vision:running', 'vision:completed',
+      'content:running', 'content:completed',
+      'validation:running', 'validation:completed',
+    ]);
+  });
+
+  it('sends the preprocessed image to the vision provider', async () => {
+    const { runPipeline } = await loadPipeline('zegarek');
+    const { MockAdapter } = await import('@/services/ai/adapters/MockAdapter');
+    const spy = vi.spyOn(MockAdapter.prototype, 'completeWithVision');
+    await runPipeline(pipelineInput('zegarek'));
+
+    const [image] = spy.mock.calls[0][0].images;
+    const metadata = await sharp(Buffer.from(image.base64, 'base64')).metadata();
+    expect(image.mimeType).toBe('image/jpeg');
+    expect({ format: metadata.format, width: metadata.width, height: metadata.height })
+      .toEqual({ format: 'jpeg', width: 800, height: 581 });
+  });
+
+  it('uses the ViaMall content stage and slugifies its answer', async () => {
+    const { runPipeline } = await loadPipeline('okulary');
+    const result = await runPipeline(pipelineInput('okulary'), { useViaMallFormat: true, language: 'de' });
+
+    expect(result.status).toBe('completed');
+    expect((result.contentGeneration.data as { viamallSlug?: string }).viamallSlug).toBe('okulary-ray-ban-aviator');
+  });
+
+  it('fails when every vision attempt is rate limited', async () => {
+    const { runPipeline } = await loadPipeline({ vision: { fail: 'rate_limit' } });
+    const result = await runPipeline(pipelineInput('okulary'));
+
+    expect(result.status).toBe('failed');
+    expect(result.contentGeneration.status).toBe('skipped');
+    expect(result.errors?.[0]).toMatch(/Vision analysis failed: All vision providers failed:\nmock: .*429/);
+  });
+
+  it('returns a partial result when content stays malformed JSON', async () => {
+    const okulary = JSON.parse(readFileSync(join(FIXTURES_DIR, 'okulary.json'), 'utf-8'));
+    const { runPipeline } = await loadPipeline({ vision: okulary.vision, text: { fail: 'malformed_json' } });
+    const result = await runPipeline(pipelineInput('okulary'));
+
+    expect(result.status).toBe('partial');
+    expect(result.visionAnalysis.status).toBe('completed');
+    expect(result.contentGeneration.error).toMatch(/No valid JSON after 3 attempts/);
+    expect(result.product).toBeUndefined();
+  });
+
+  it('fails the content stage when the only provider times out', async () => {
+    const okulary = JSON.parse(readFileSync(join(FIXTURES_DIR, 'okulary.json'), 'utf-8'));
+    const { runPipeline } = await loadPipeline({ vision: okulary.vision, text: { fail: 'timeout' } });
+    const result = await runPipeline(pipelineInput('okulary'));
+
+    expect(result.status).toBe('partial');
+    expect(result.contentGeneration.status).toBe('failed');
+    expect(result.contentGeneration.error).toMatch(/All AI providers failed:\nmock: This operation was aborted/);
+  });
+});
+
+describe('PrestaShop XML from a pipeline product', () => {
+  beforeEach(() => {
+    stubImageFetch();
+  });
+
+  it('builds standard and ViaMall product XML for test-images/okulary.jpg', async () => {
+    const { runPipeline } = await loadPipeline('okulary');
+    const { PrestaShopXmlBuilder } = await import('@/adapters/prestashop/xml-builder');
+    const { viamallXmlBuilder } = await import('@/adapters/prestashop/viamall-xml-builder');
+
+    const { product } = await runPipeline(pipelineInput('okulary', { priceGross: 123, ean: '5901234123457' }));
+    expect(product).toBeDefined();
+
+    const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '@_', parseTagValue: false });
+
+    const standard = parser.parse(new PrestaShopXmlBuilder().buildProductXml(product!, { categoryId: '12' }));
+    expect(standard.prestashop.product).toMatchObject({
+      id_category_default: '12',
+      ean13: '5901234123457',
+      price: '100.000000',
+      name: { language: { '@_id': '1', '#text': product!.name } },
+      associations: { categories: { category: { id: '12' } } },
+    });
+    expect(standard.prestashop.product.link_rewrite.language['#text']).toMatch(/^[a-z0-9-]+$/);
+
+    const viamall = parser.parse(viamallXmlBuilder.buildMultiLanguageProductXml(
+      [
+        { languageId: '1', name: product!.name, shortDescription: product!.description.short, longDescription: product!.description.long, slug: viamallXmlBuilder.slugify(product!.name) },
+        { languageId: '2', name: 'Sonnenbrille Ray-Ban Aviator', shortDescription: 'Klassische Pilotenbrille', longDescription: 'Größe: M', slug: viamallXmlBuilder.slugify('Sonnenbrille Größe M') },
+      ],
+      { price: product!.pricing.net, categoryId: '12', ean: product!.identifiers?.ean }
+    ));
+    expect(viamall.prestashop.product.link_rewrite.language).toEqual([
+      { '@_id': '1', '#text': 'okulary-przeciwsloneczne-ray-ban-aviator-zlote' },
+      { '@_id': '2', '#text': 'sonnenbrille-groesse-m' },
+    ]);
+    expect(viamall.prestashop.product.price).toBe('100.000000');
+  });
+});
+
+describe('getPipelineStages', () => {
+  it('names the content stage the language runs through', async () => {
+    const { getPipelineStages } = await import('@/services/pipeline');
+
+    expect(getPipelineStages({ language: 'de', useViaMallFormat: true })).toEqual(['vision', 'viamall']);
+    expect(getPipelineStages({ language: 'en', useViaMallFormat: true })).toEqual(['vision', 'content']);
+    expect(getPipelineStages({ skipVision: true, translateFrom: { language: 'de', content: {} as never } }))
+      .toEqual(['translation']);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { runValidationStage } from '../validation-stage';
+import type { ContentGeneration, PipelineInput, VisionAnalysis } from '@/types/pipeline';
+
+const vision: VisionAnalysis = {
+  productType: 'Zegarek na rękę',
+  colors: ['srebrny'],
+  materials: ['stal'],
+  features: ['datownik'],
+  suggestedCategories: ['Moda > Zegarki'],
+  confidence: 0.9,
+};
+
+const content: ContentGeneration = {
+  name: 'Zegarek męski ze skórzanym paskiem',
+  shortDescription: 'Elegancki zegarek męski w stalowej kopercie z czarną tarczą i skórzanym paskiem.',
+  longDescription: 'Stalowa koperta i czarna tarcza z datownikiem.',
+  htmlDescription: '<p>Stalowa koperta i czarna tarcza z datownikiem.</p>',
+  seoTitle: 'Zegarek męski stalowy',
+  seoDescription: 'Elegancki zegarek męski ze skórzanym paskiem.',
+  keywords: ['zegarek', 'zegarek męski', 'skórzany pasek'],
+  attributes: { Marka: 'Timex' },
+  tags: ['zegarki'],
+  imageAlts: ['Zegarek z przodu'],
+};
+
+const input: PipelineInput = {
+  images: [
+    { url: 'https://cdn.test/zegarek.jpg', mimeType: 'image/jpeg', filename: 'zegarek.jpg' },
+    { url: 'https://cdn.test/zegarek-2.jpg', mimeType: 'image/jpeg', filename: 'zegarek-2.jpg' },
+  ],
+};
+
+describe('runValidationStage', () => {
+  it('combines vision, content and raw data into a valid product', async () => {
+    const result = await runValidationStage({
+      pipelineInput: { ...input, rawData: { priceGross: 246, ean: '5901234123457', quantity: 5 } },
+      visionAnalysis: vision,
+      contentGeneration: content,
+    });
+
+    expect(result.status).toBe('completed');
+    expect(result.data).toEqual({ isValid: true, warnings: undefined });
+    expect(result.product).toMatchObject({
+      name: content.name,
+      brand: 'Timex',
+      categories: ['Moda > Zegarki'],
+      pricing: { gross: 246, net: 200, currency: 'PLN', vatRate: 23 },
+      identifiers: { ean: '5901234123457' },
+      stock: { quantity: 5, availability: 'in_stock' },
+      condition: 'new',
+      metadata: { visionConfidence: 0.9 },
+    });
+    expect(result.product?.images).toEqual([
+      { url: 'https://cdn.test/zegarek.jpg', alt: 'Zegarek z przodu', position: 0 },
+      { url: 'https://cdn.test/zegarek-2.jpg', alt: 'Product image 2', position: 1 },
+    ]);
+  });
+
+  it('prefers raw data over vision over content attributes for the brand', async () => {
+    const result = await runValidationStage({
+      pipelineInput: { ...input, rawData: { brand: 'Casio' } },
+      visionAnalysis: { ...vision, detectedBrand: 'Seiko' },
+      contentGeneration: content,
+    });
+
+    expect(result.product?.brand).toBe('Casio');
+  });
+
+  it('truncates SEO fields to their limits and warns about weak content', async () => {
+    const result = await runValidationStage({
+      pipelineInput: { images: [input.images[0]] },
+      visionAnalysis: vision,
+      contentGeneration: {
+        ...content,
+        shortDescription: 'Zegarek.',
+        seoTitle: 'T'.repeat(100),
+        keywords: ['zegarek'],
+        attributes: {},
+      },
+    });
+
+    expect(result.status).toBe('completed');
+    expect(result.product?.seo.title).toHaveLength(70);
+    expect(result.product?.seo.title.endsWith('...')).toBe(true);
+    expect(result.product?.pricing.gross).toBe(99.99);
+    expect(result.data?.warnings).toEqual([
+      'Short description might be too short for good SEO',
+      'Consider adding more SEO keywords',
+      'Products with multiple images typically perform better',
+      'Brand is not specified - this may affect searchability',
+    ]);
+  });
+
+  it('fails with the schema errors when required content is missing', async () => {
+    const result = await runValidationStage({
+      pipelineInput: input,
+      visionAnalysis: vision,
+      contentGeneration: { ...content, name: '', seoDescription: '' },
+    });
+
+    expect(result.status).toBe('failed');
+    expect(result.data?.isValid).toBe(false);
+    expect(result.data?.errors?.map(error => error.split(':')[0])).toEqual(['name', 'seo.description']);
+    expect(result.product).toBeUndefined();
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { mergeVisionAnalyses, getEnsembleSize, type EnsembleAnswer } from '../vision-ensemble';
+import type { VisionAnalysis } from '@/types/pipeline';
+
+const PROVIDER_KEYS = [
+  'GROQ_API_KEY',
+  'CEREBRAS_API_KEY',
+  'GOOGLE_AI_API_KEY',
+  'MISTRAL_API_KEY',
+  'DEEPSEEK_API_KEY',
+  'OPENROUTER_API_KEY',
+  'LOCAL_AI_BASE_URL',
+  'AI_MOCK_PROVIDER',
+];
+
+function analysis(overrides: Partial<VisionAnalysis>): VisionAnalysis {
+  return {
+    productType: 'Mata wiklinowa',
+    colors: ['brazowy'],
+    materials: ['wiklina'],
+    features: [],
+    suggestedCategories: [],
+    confidence: 0.8,
+    ...overrides,
+  };
+}
+
+function answer(provider: EnsembleAnswer['provider'], overrides: Partial<VisionAnalysis>): EnsembleAnswer {
+  return { provider, analysis: analysis(overrides), content: '{}' };
+}
+
+// OpenAI-style chat completion answer
+function chatResponse(data: Partial<VisionAnalysis>): Response {
+  return new Response(JSON.stringify({
+    model: 'test-model',
+    choices: [{ message: { content: JSON.stringify(analysis(data)) }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+  }), { status: 200 });
+}
+
+describe('mergeVisionAnalyses', () => {
+  it('votes on single values, unions lists and records the disagreements', () => {
+    const merged = mergeVisionAnalyses([
+      answer('google', { productType: 'Mata wiklinowa', detectedBrand: 'Viamall', colors: ['brazowy'] }),
+      answer('groq', { productType: 'mata  WIKLINOWA', colors: ['Brazowy', 'bezowy'], features: ['impregnowana'] }),
+      answer('mistral', { productType: 'Plot leszczynowy', detectedBrand: 'Viamall', features: ['Impregnowana', 'zwijana'] }),
+    ]);
+
+    expect(merged.productType).toBe('Mata wiklinowa');
+    expect(merged.detectedBrand).toBe('Viamall');
+    expect(merged.colors).toEqual(['brazowy', 'bezowy']);
+    expect(merged.features).toEqual(['impregnowana', 'zwijana']);
+
+    const fields = merged.ensemble!.disagreements.map(({ field }) => field);
+    expect(fields).toEqual(['productType', 'detectedBrand', 'colors']);
+
+    const productType = merged.ensemble!.disagreements[0];
+    expect(productType.chosen).toBe('Mata wiklinowa');
+    expect(productType.values).toContainEqual({ provider: 'mistral', value: 'Plot leszczynowy' });
+
+    // Missing brand counts as a disagreement, but not as a vote
+    expect(merged.ensemble!.disagreements[1].values).toContainEqual({ provider: 'groq', value: undefined });
+  });
+
+  it('scales confidence by how much the providers agree', () => {
+    const unanimous = mergeVisionAnalyses([
+      answer('google', { confidence: 0.9 }),
+      answer('groq', { confidence: 0.7 }),
+    ]);
+    const split = mergeVisionAnalyses([
+      answer('google', { confidence: 0.9, productType: 'Materac', materials: ['pianka'] }),
+      answer('groq', { confidence: 0.7 }),
+    ]);
+
+    expect(unanimous.ensemble!.agreement).toBe(1);
+    expect(unanimous.confidence).toBe(0.8);
+    expect(unanimous.ensemble!.disagreements).toEqual([]);
+    expect(split.confidence).toBeLessThan(unanimous.confidence);
+  });
+
+  it('breaks a tie with the more confident provider', () => {
+    const merged = mergeVisionAnalyses([
+      answer('google', { productType: 'Lozko', confidence: 0.4 }),
+      answer('groq', { productType: 'Rama lozka', confidence: 0.9 }),
+    ]);
+
+    expect(merged.productType).toBe('Rama lozka');
+  });
+});
+
+describe('getEnsembleSize', () => {
+  it('uses the run option over the env default and caps at three providers', () => {
+    vi.stubEnv('VISION_ENSEMBLE_PROVIDERS', '2');
+
+    expect(getEnsembleSize()).toBe(2);
+    expect(getEnsembleSize(5)).toBe(3);
+    expect(getEnsembleSize(0)).toBe(0);
+    expect(getEnsembleSize(1)).toBe(0);
+  });
+});
+
+describe('vision stage ensemble', () => {
+  beforeEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  async function loadVisionStage(keys: Record<string, string>) {
+    PROVIDER_KEYS.forEach(key => vi.stubEnv(key, ''));
+    Object.entries(keys).forEach(([key, value]) => vi.stubEnv(key, value));
+    vi.resetModules();
+    return import('../vision-stage');
+  }
+
+  it('asks the providers in parallel and merges the answers that came back', async () => {
+    const { runVisionStage } = await loadVisionStage({ GROQ_API_KEY: 'g', MISTRAL_API_KEY: 'm', OPENROUTER_API_KEY: 'o' });
+    const hosts: string[] = [];
+
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      const host = new URL(url).host;
+      hosts.push(host);
+      if (host === 'api.groq.com') return chatResponse({ detectedBrand: 'Viamall' });
+      if (host === 'api.mistral.ai') return chatResponse({ detectedBrand: 'Viamall', colors: ['zielony'] });
+      return new Response('unavailable', { status: 503 });
+    }));
+
+    const result = await runVisionStage({
+      images: [{ base64: 'AAAA', mimeType: 'image/jpeg' }],
+      ensemble: 3,
+    });
+
+    expect(result.status).toBe('completed');
+    expect(hosts.sort()).toEqual(['api.groq.com', 'api.mistral.ai', 'openrouter.ai']);
+    expect(result.data!.detectedBrand).toBe('Viamall');
+    expect(result.data!.colors).toEqual(['brazowy', 'zielony']);
+    expect(result.data!.ensemble).toMatchObject({
+      providers: ['groq', 'mistral'],
+      failedProviders: ['openrouter'],
+    });
+  });
+
+  it('runs a single provider when only one vision provider is configured', async () => {
+    const { runVisionStage } = await loadVisionStage({ GROQ_API_KEY: 'g' });
+    vi.stubGlobal('fetch', vi.fn(async () => chatResponse({})));
+
+    const result = await runVisionStage({
+      images: [{ base64: 'AAAA', mimeType: 'image/jpeg' }],
+      ensemble: 2,
+    });
+
+    expect(result.status).toBe('completed');
+    expect(result.data!.ensemble).toBeUndefined();
+  });
+});
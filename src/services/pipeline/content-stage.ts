@@ -1,10 +1,16 @@
 // Content Stage - Generates product content using AI
 // Uses OpenRouter (Llama 3.3 70B) for text generation
 
-import { generateContentWithFallback } from '@/services/ai';
+import { generateContent } from '@/services/ai';
 import { buildContentPrompt, type ContentPromptData } from '@/prompts/product-generation';
-import { extractJsonFromMarkdown, safeJsonParse } from '@/lib/utils';
-import type { VisionAnalysis, ContentGeneration, StageResult } from '@/types/pipeline';
+import { resolvePromptTemplate } from '@/services/prompts';
+import {
+  ContentGenerationSchema,
+  type VisionAnalysis,
+  type ContentGeneration,
+  type StageResult,
+} from '@/types/pipeline';
+import type { RouteStep } from '@/services/ai/routing';
 
 export interface ContentStageInput {
   visionAnalysis: VisionAnalysis;
@@ -16,8 +22,15 @@ export interface ContentStageInput {
   };
   language?: 'pl' | 'en' | 'de';
   imageCount?: number;
+  model?: string;
+  route?: RouteStep[]; // Provider/model chain (routing config)
+  promptShop?: string; // Prompt registry shop (see services/prompts)
+  promptTemplateId?: string; // Prompt version instead of the active one
 }
 
+// What the model has to return (rawResponse is added by the stage)
+const ContentResponseSchema = ContentGenerationSchema.omit({ rawResponse: true });
+
 export async function runContentStage(
   input: ContentStageInput
 ): Promise<StageResult<ContentGeneration>> {
@@ -40,39 +53,30 @@ export async function runContentStage(
       imageCount: input.imageCount,
     };
 
-    // Build prompts
-    const { systemPrompt, userPrompt } = buildContentPrompt(promptData);
+    // Build prompts from the active content template of the language
+    const template = await resolvePromptTemplate('content', {
+      language: promptData.language,
+      shop: input.promptShop,
+      templateId: input.promptTemplateId,
+    });
+    const { systemPrompt, userPrompt } = buildContentPrompt(promptData, template);
 
-    // Call the AI service
-    const response = await generateContentWithFallback(
+    // Call the AI service (answer validated against the schema, repaired if needed)
+    const response = await generateContent(
       userPrompt,
       systemPrompt,
       {
         temperature: 0.7,
         maxTokens: 3000,
+        schema: ContentResponseSchema,
+        model: input.model,
+        route: input.route,
       }
     );
 
-    // Parse the response
-    const jsonStr = extractJsonFromMarkdown(response.content);
-    const parsed = safeJsonParse<Partial<ContentGeneration>>(jsonStr, {});
-
-    // Validate and normalize the response
     const contentGeneration: ContentGeneration = {
-      name: parsed.name || `${promptData.brand || ''} ${promptData.productType}`.trim(),
-      shortDescription: parsed.shortDescription || '',
-      longDescription: parsed.longDescription || '',
-      htmlDescription: parsed.htmlDescription || formatAsHtml(parsed.longDescription || ''),
-      seoTitle: parsed.seoTitle || parsed.name || '',
-      seoDescription: parsed.seoDescription || parsed.shortDescription || '',
-      keywords: Array.isArray(parsed.keywords) ? parsed.keywords : [],
-      attributes: typeof parsed.attributes === 'object' && parsed.attributes
-        ? parsed.attributes
-        : buildDefaultAttributes(input.visionAnalysis),
-      tags: Array.isArray(parsed.tags) ? parsed.tags : [],
-      imageAlts: Array.isArray(parsed.imageAlts)
-        ? parsed.imageAlts
-        : generateDefaultImageAlts(input.imageCount || 1, parsed.name || promptData.productType),
+      ...response.data,
+      htmlDescription: response.data.htmlDescription || formatAsHtml(response.data.longDescription),
       rawResponse: response.content,
     };
 
@@ -80,6 +84,9 @@ export async function runContentStage(
       status: 'completed',
       data: contentGeneration,
       durationMs: Date.now() - startTime,
+      provider: response.provider,
+      model: response.model,
+      prompt: template.ref,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -107,57 +114,3 @@ function formatAsHtml(text: string): string {
     .map(p => `<p>${p.trim()}</p>`)
     .join('\n');
 }
-
-// Build default attributes from vision analysis
-function buildDefaultAttributes(vision: VisionAnalysis): Record<string, string> {
-  const attrs: Record<string, string> = {};
-
-  if (vision.colors.length > 0) {
-    attrs['Kolor'] = vision.colors[0];
-    if (vision.colors.length > 1) {
-      attrs['Kolory dodatkowe'] = vision.colors.slice(1).join(', ');
-    }
-  }
-
-  if (vision.materials.length > 0) {
-    attrs['Materiał'] = vision.materials.join(', ');
-  }
-
-  if (vision.style) {
-    attrs['Styl'] = vision.style;
-  }
-
-  if (vision.detectedBrand) {
-    attrs['Marka'] = vision.detectedBrand;
-  }
-
-  if (vision.condition) {
-    const conditionMap = {
-      new: 'Nowy',
-      used: 'Używany',
-      refurbished: 'Odnowiony',
-    };
-    attrs['Stan'] = conditionMap[vision.condition];
-  }
-
-  return attrs;
-}
-
-// Generate default image alt texts
-function generateDefaultImageAlts(count: number, productName: string): string[] {
-  const alts: string[] = [];
-
-  for (let i = 0; i < count; i++) {
-    if (i === 0) {
-      alts.push(`${productName} - widok główny`);
-    } else if (i === 1) {
-      alts.push(`${productName} - widok z boku`);
-    } else if (i === 2) {
-      alts.push(`${productName} - szczegół`);
-    } else {
-      alts.push(`${productName} - zdjęcie ${i + 1}`);
-    }
-  }
-
-  return alts;
-}
@@ -0,0 +1,175 @@
+// Draft Runner - Runs the AI pipeline for a stored draft and saves the results
+// Shared by POST /api/pipeline and the bulk import queue
+
+import { prisma } from '@/lib/prisma';
+import { getPipelineStages, runPipeline } from './index';
+import { emitPipelineEvent, runWithPipelineEvents } from './events';
+import { viamallXmlBuilder } from '@/adapters/prestashop/viamall-xml-builder';
+import {
+  parseDraftTranslations,
+  productToTranslation,
+  type TranslationLanguage,
+} from '@/types/translations';
+import { parseImageVariants } from '@/types/image-variants';
+import { recordBaselineRevision, recordDraftRevision } from '@/services/revisions';
+import { assignExperiments } from '@/services/experiments';
+import type { PipelineInput, PipelineOptions, PipelineOutput } from '@/types/pipeline';
+import type { DraftPromptVersions } from '@/types/prompts';
+
+/**
+ * Stored draft images as pipeline input images (with their variants, if any)
+ */
+export function toPipelineImages(
+  images: Array<{ url: string; mimeType: string; filename: string; variants: unknown }>
+): PipelineInput['images'] {
+  return images.map(img => {
+    const variants = parseImageVariants(img.variants);
+    return {
+      url: img.url,
+      mimeType: img.mimeType,
+      filename: img.filename,
+      ...(Object.keys(variants).length > 0 && { variants }),
+    };
+  });
+}
+
+/**
+ * Run the pipeline on a draft: marks it PROCESSING, runs all stages and
+ * stores product, vision analysis, translation and final status.
+ * Marks the draft FAILED and rethrows if the pipeline throws.
+ * Stage progress and provider attempts are published as live pipeline events.
+ */
+export async function runDraftPipeline(
+  draftId: string,
+  options: PipelineOptions = {}
+) {
+  // Get draft with images
+  const draft = await prisma.draft.findUnique({
+    where: { id: draftId },
+    include: { images: true },
+  });
+
+  if (!draft) {
+    throw new Error('Draft not found');
+  }
+
+  if (draft.images.length === 0) {
+    throw new Error('Draft has no images');
+  }
+
+  // Update status to processing
+  await prisma.draft.update({
+    where: { id: draftId },
+    data: { status: 'PROCESSING' },
+  });
+
+  try {
+    // Extract language from rawData
+    const rawData = draft.rawData as Record<string, unknown> | null;
+    const language = (rawData?.language as string) || 'de';
+
+    // Build pipeline input
+    const pipelineInput: PipelineInput = {
+      images: toPipelineImages(draft.images.sort((a, b) => a.position - b.position)),
+      userHint: draft.userHint || undefined,
+      rawData: draft.rawData as PipelineInput['rawData'],
+    };
+
+    const runOptions: PipelineOptions = {
+      ...options,
+      language: language as 'pl' | 'en' | 'de',
+      useViaMallFormat: language === 'de' || language === 'pl',
+    };
+
+    // Variant B of experiments on the stages this run calls; explicit options still win
+    const experiments = await assignExperiments(draftId, getPipelineStages(runOptions));
+
+    // Build pipeline options with language
+    const pipelineOptions: PipelineOptions = {
+      ...runOptions,
+      routing: { ...experiments.routing, ...options.routing },
+      promptTemplateIds: { ...experiments.promptTemplateIds, ...options.promptTemplateIds },
+      onProgress: progress => {
+        emitPipelineEvent(draftId, { type: 'progress', ...progress });
+        options.onProgress?.(progress);
+      },
+    };
+
+    // Run pipeline
+    const result: PipelineOutput = await runWithPipelineEvents(draftId, () =>
+      runPipeline(pipelineInput, pipelineOptions)
+    );
+
+    // Update draft with results
+    const updateData: Record<string, unknown> = {
+      visionAnalysis: result.visionAnalysis.data || null,
+    };
+
+    if (result.status === 'completed' && result.product) {
+      updateData.status = 'READY';
+      updateData.product = result.product;
+      updateData.errorMessage = null;
+    } else if (result.status === 'partial') {
+      updateData.status = 'READY';
+      updateData.product = result.product || null;
+      updateData.errorMessage = result.errors?.join('; ') || null;
+    } else {
+      updateData.status = 'FAILED';
+      updateData.errorMessage = result.errors?.join('; ') || 'Pipeline failed';
+    }
+
+    // Prompt template versions this run used
+    const promptVersions: DraftPromptVersions = {
+      ...(result.visionAnalysis.prompt && { vision: result.visionAnalysis.prompt }),
+      ...(result.contentGeneration.prompt && { content: result.contentGeneration.prompt }),
+    };
+    if (Object.keys(promptVersions).length > 0) {
+      updateData.promptVersions = promptVersions;
+    }
+
+    // Keep the generated texts as this language's translation
+    if (result.product) {
+      const viamallSlug = (result.contentGeneration.data as { viamallSlug?: string } | undefined)?.viamallSlug;
+      const slug = viamallSlug || viamallXmlBuilder.slugify(result.product.name);
+
+      updateData.translations = {
+        ...parseDraftTranslations(draft.translations),
+        [language as TranslationLanguage]: productToTranslation(result.product, slug),
+      };
+    }
+
+    // Content from before revisions were kept would otherwise be lost
+    await recordBaselineRevision(draft);
+
+    const updatedDraft = await prisma.draft.update({
+      where: { id: draftId },
+      data: updateData,
+      include: { images: true },
+    });
+
+    // Revision attributed to the content model; the vision model goes in the note
+    if (result.product || result.visionAnalysis.data) {
+      const { contentGeneration: content, visionAnalysis: vision } = result;
+      await recordDraftRevision(updatedDraft, 'AI', {
+        provider: content.provider ?? vision.provider,
+        model: content.model ?? vision.model,
+        note: vision.provider ? `vision: ${vision.provider}${vision.model ? ` (${vision.model})` : ''}` : undefined,
+      });
+    }
+
+    return { draft: updatedDraft, result };
+  } catch (pipelineError) {
+    // Update draft status to failed
+    await prisma.draft.update({
+      where: { id: draftId },
+      data: {
+        status: 'FAILED',
+        errorMessage: pipelineError instanceof Error
+          ? pipelineError.message
+          : 'Pipeline error',
+      },
+    });
+
+    throw pipelineError;
+  }
+}
@@ -0,0 +1,104 @@
+// Pipeline Events - in-process event bus for live pipeline progress
+// Worker and pipeline emit per-draft events; the SSE endpoint subscribes to them
+
+import { EventEmitter } from 'events';
+import { onProviderAttempt } from '@/services/ai';
+import { getAIContext, runWithAIContext } from '@/services/ai/usage';
+import type { PipelineEvent, PipelineEventMessage } from '@/types/pipeline';
+
+// Events kept per draft so late subscribers can catch up on the current run
+const MAX_HISTORY = 100;
+// How long a finished run stays replayable
+const HISTORY_TTL_MS = 10 * 60 * 1000;
+
+interface PipelineEventBus {
+  emitter: EventEmitter;
+  history: Map<string, PipelineEventMessage[]>;
+}
+
+// Shared across route handler and instrumentation bundles (same pattern as lib/prisma)
+const globalForEvents = globalThis as unknown as {
+  pipelineEventBus: PipelineEventBus | undefined;
+};
+
+const bus: PipelineEventBus = globalForEvents.pipelineEventBus ?? {
+  emitter: new EventEmitter().setMaxListeners(0),
+  history: new Map(),
+};
+globalForEvents.pipelineEventBus = bus;
+
+/**
+ * Publish an event for a draft.
+ * History covers job runs only - from the job's first event to 'done'. Events outside
+ * a run (provider attempts of translate or regenerate calls) reach live subscribers only.
+ */
+export function emitPipelineEvent(draftId: string, event: PipelineEvent): void {
+  const message = { ...event, draftId, at: new Date().toISOString() } as PipelineEventMessage;
+
+  const current = bus.history.get(draftId);
+  const inRun = !!current && current[current.length - 1].type !== 'done';
+
+  // A freshly queued job starts a new run, as does a job event after a finished run
+  // (or after a restart, when the run's history is gone)
+  const isNewRun = event.type === 'job'
+    && (!inRun || (event.status === 'QUEUED' && event.attempt === 0));
+
+  if (isNewRun || inRun) {
+    const history = isNewRun ? [] : current!;
+
+    history.push(message);
+    if (history.length > MAX_HISTORY) {
+      history.splice(0, history.length - MAX_HISTORY);
+    }
+    bus.history.set(draftId, history);
+
+    if (event.type === 'done') {
+      const timer = setTimeout(() => {
+        // Only drop it if no newer run started meanwhile
+        const latest = bus.history.get(draftId);
+        if (latest && latest[latest.length - 1] === message) {
+          bus.history.delete(draftId);
+        }
+      }, HISTORY_TTL_MS);
+      timer.unref?.();
+    }
+  }
+
+  bus.emitter.emit(draftId, message);
+}
+
+/**
+ * Events of the current (or last finished) run
+ */
+export function getPipelineEventHistory(draftId: string): PipelineEventMessage[] {
+  return [...(bus.history.get(draftId) || [])];
+}
+
+/**
+ * Subscribe to a draft's events; returns unsubscribe
+ */
+export function subscribePipelineEvents(
+  draftId: string,
+  listener: (message: PipelineEventMessage) => void
+): () => void {
+  bus.emitter.on(draftId, listener);
+  return () => {
+    bus.emitter.off(draftId, listener);
+  };
+}
+
+/**
+ * Run fn with draftId as AI context, so provider attempts made deep inside
+ * the AI service are reported to this draft (and recorded in its usage)
+ */
+export function runWithPipelineEvents<T>(draftId: string, fn: () => Promise<T>): Promise<T> {
+  return runWithAIContext({ draftId }, fn);
+}
+
+// Forward failover attempts to the draft that made the call
+onProviderAttempt(attempt => {
+  const draftId = getAIContext()?.draftId;
+  if (draftId) {
+    emitPipelineEvent(draftId, { type: 'provider', ...attempt });
+  }
+});
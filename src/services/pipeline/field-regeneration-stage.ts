@@ -0,0 +1,165 @@
+// Field Regeneration Stage - Rewrites one section of a generated product
+// Reuses the stored vision analysis; the rest of the product is only context
+
+import { z } from 'zod';
+import { generateContent } from '@/services/ai';
+import { buildFieldRegenerationPrompt } from '@/prompts/field-regeneration';
+import type { VisionAnalysis, StageResult } from '@/types/pipeline';
+import type { UnifiedProduct } from '@/types/unified-product';
+import type { RegenerableField, RegeneratedValue } from '@/types/regeneration';
+import type { RouteStep } from '@/services/ai/routing';
+
+export interface FieldRegenerationStageInput {
+  product: UnifiedProduct;
+  field: RegenerableField;
+  instruction?: string;
+  visionAnalysis?: VisionAnalysis;
+  language: 'de' | 'pl' | 'en';
+  useViaMallFormat?: boolean;
+  model?: string;
+  route?: RouteStep[]; // Provider/model chain (routing config)
+}
+
+export interface FieldRegeneration {
+  field: RegenerableField;
+  value: RegeneratedValue;
+  rawResponse?: string;
+}
+
+const phraseList = z.array(z.string().trim().min(1)).min(1).max(20);
+
+// Same limits as UnifiedProductSchema, so the result always validates
+function valueSchema(field: RegenerableField, imageCount: number): z.ZodType<RegeneratedValue> {
+  switch (field) {
+    case 'name':
+      return z.string().trim().min(1).max(255);
+    case 'description.short':
+      return z.string().trim().min(1).max(500);
+    case 'description.long':
+      return z.string().trim().min(1);
+    case 'seo.title':
+      return z.string().trim().min(1).max(70);
+    case 'seo.description':
+      return z.string().trim().min(1).max(160);
+    case 'seo.keywords':
+    case 'tags':
+      return phraseList;
+    case 'images.alt':
+      return z.array(z.string().trim().min(1)).length(imageCount);
+  }
+}
+
+/**
+ * Current value of a regenerable field
+ */
+export function getProductField(product: UnifiedProduct, field: RegenerableField): RegeneratedValue {
+  switch (field) {
+    case 'name':
+      return product.name;
+    case 'description.short':
+      return product.description.short;
+    case 'description.long':
+      return product.description.html || product.description.long;
+    case 'seo.title':
+      return product.seo.title;
+    case 'seo.description':
+      return product.seo.description;
+    case 'seo.keywords':
+      return product.seo.keywords;
+    case 'tags':
+      return product.tags;
+    case 'images.alt':
+      return product.images.map(image => image.alt || '');
+  }
+}
+
+/**
+ * Copy of the product with one field replaced (everything else untouched)
+ */
+export function setProductField(
+  product: UnifiedProduct,
+  field: RegenerableField,
+  value: RegeneratedValue
+): UnifiedProduct {
+  const text = Array.isArray(value) ? value.join(', ') : value;
+  const list = Array.isArray(value) ? value : [value];
+
+  switch (field) {
+    case 'name':
+      return { ...product, name: text };
+    case 'description.short':
+      return { ...product, description: { ...product.description, short: text } };
+    case 'description.long':
+      // Adapters publish html before long - both carry the new text
+      return { ...product, description: { ...product.description, long: text, html: text } };
+    case 'seo.title':
+      return { ...product, seo: { ...product.seo, title: text } };
+    case 'seo.description':
+      return { ...product, seo: { ...product.seo, description: text } };
+    case 'seo.keywords':
+      return { ...product, seo: { ...product.seo, keywords: list } };
+    case 'tags':
+      return { ...product, tags: list };
+    case 'images.alt':
+      return {
+        ...product,
+        images: product.images.map((image, index) => ({ ...image, alt: list[index] ?? image.alt })),
+      };
+  }
+}
+
+export async function runFieldRegenerationStage(
+  input: FieldRegenerationStageInput
+): Promise<StageResult<FieldRegeneration>> {
+  const startTime = Date.now();
+
+  try {
+    if (input.field === 'images.alt' && input.product.images.length === 0) {
+      throw new Error('Product has no images');
+    }
+
+    const { systemPrompt, userPrompt } = buildFieldRegenerationPrompt({
+      field: input.field,
+      language: input.language,
+      name: input.product.name,
+      shortDescription: input.product.description.short,
+      currentValue: getProductField(input.product, input.field),
+      instruction: input.instruction,
+      imageCount: input.product.images.length,
+      productType: input.visionAnalysis?.productType,
+      brand: input.visionAnalysis?.detectedBrand || input.product.brand,
+      colors: input.visionAnalysis?.colors,
+      materials: input.visionAnalysis?.materials,
+      features: input.visionAnalysis?.features,
+      useViaMallFormat: input.useViaMallFormat,
+    });
+
+    const response = await generateContent(userPrompt, systemPrompt, {
+      temperature: 0.7,
+      maxTokens: input.field === 'description.long' ? 3000 : 1000,
+      schema: z.object({ value: valueSchema(input.field, input.product.images.length) }),
+      model: input.model,
+      route: input.route,
+    });
+
+    return {
+      status: 'completed',
+      data: {
+        field: input.field,
+        value: response.data.value,
+        rawResponse: response.content,
+      },
+      durationMs: Date.now() - startTime,
+      provider: response.provider,
+      model: response.model,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return {
+      status: 'failed',
+      error: `Field regeneration failed: ${errorMessage}`,
+      durationMs: Date.now() - startTime,
+    };
+  }
+}
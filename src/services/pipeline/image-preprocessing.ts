@@ -0,0 +1,103 @@
+// Image Preprocessing - Prepares product photos before the vision stage
+// Auto-rotate by EXIF, downscale per provider, strip metadata (GPS), JPEG output; cached in storage
+
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+import { getImage, putObject } from '@/services/storage';
+
+// Bump when the processing changes so stale cached variants are not reused
+const PREPROCESSING_VERSION = 1;
+const JPEG_QUALITY = 85;
+
+export interface PreprocessOptions {
+  maxDimension: number; // Longest side in px (see getVisionMaxDimension)
+  cache?: boolean;      // Defaults to VISION_IMAGE_CACHE !== 'false'
+}
+
+/**
+ * Auto-rotate by EXIF orientation, downscale to fit maxDimension (never
+ * upscale), flatten transparency on white and encode as JPEG.
+ * sharp drops EXIF/GPS metadata on output; GIFs keep their first frame.
+ */
+export async function preprocessImage(buffer: Buffer, maxDimension: number): Promise<Buffer> {
+  return sharp(buffer, { failOn: 'none' })
+    .rotate()
+    .resize({
+      width: maxDimension,
+      height: maxDimension,
+      fit: 'inside',
+      withoutEnlargement: true,
+    })
+    .flatten({ background: '#ffffff' })
+    .jpeg({ quality: JPEG_QUALITY, mozjpeg: true })
+    .toBuffer();
+}
+
+/**
+ * Storage key of the processed variant of an image URL
+ */
+export function getVariantKey(url: string, maxDimension: number): string {
+  const hash = createHash('sha256')
+    .update(`${url}|${maxDimension}|v${PREPROCESSING_VERSION}`)
+    .digest('hex')
+    .slice(0, 32);
+
+  return `vision/${hash}-${maxDimension}.jpg`;
+}
+
+/**
+ * Processed image as base64 for a vision provider. Reuses the cached
+ * variant when there is one; an image sharp cannot decode (e.g. HEIC
+ * without a codec) is sent unchanged.
+ */
+export async function prepareVisionImage(
+  url: string,
+  options: PreprocessOptions
+): Promise<{ base64: string; mimeType: string }> {
+  const { maxDimension } = options;
+  const cache = options.cache ?? process.env.VISION_IMAGE_CACHE !== 'false';
+  const key = getVariantKey(url, maxDimension);
+
+  if (cache) {
+    const cached = await getImage(key);
+    if (cached.success && cached.buffer) {
+      return { base64: cached.buffer.toString('base64'), mimeType: 'image/jpeg' };
+    }
+  }
+
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image: ${response.status}`);
+  }
+
+  const original = Buffer.from(await response.arrayBuffer());
+
+  let processed: Buffer;
+  try {
+    processed = await preprocessImage(original, maxDimension);
+  } catch (error) {
+    console.warn(`[Preprocessing] Sending original image, could not process ${url}:`, error instanceof Error ? error.message : error);
+    return {
+      base64: original.toString('base64'),
+      mimeType: response.headers.get('content-type') || 'image/jpeg',
+    };
+  }
+
+  if (cache) {
+    const stored = await putObject(key, processed, 'image/jpeg');
+    if (!stored.success) {
+      console.warn(`[Preprocessing] Could not cache ${key}: ${stored.error}`);
+    }
+  }
+
+  return { base64: processed.toString('base64'), mimeType: 'image/jpeg' };
+}
+
+// Prepare multiple images
+export async function prepareVisionImages(
+  urls: string[],
+  options: PreprocessOptions
+): Promise<Array<{ base64: string; mimeType: string }>> {
+  return Promise.all(urls.map(url => prepareVisionImage(url, options)));
+}
@@ -5,6 +5,13 @@ import { runVisionStage, urlsToBase64, type VisionStageInput } from './vision-st
 import { runContentStage, type ContentStageInput } from './content-stage';
 import { runViaMallContentStage, type ViaMallContentStageInput, type ViaMallContentGeneration } from './viamall-content-stage';
 import { runValidationStage, type ValidationStageInput } from './validation-stage';
+import { runTranslationStage, type TranslationStageInput, type TranslationGeneration } from './translation-stage';
+import {
+  runFieldRegenerationStage,
+  type FieldRegenerationStageInput,
+  type FieldRegeneration,
+} from './field-regeneration-stage';
+import { prepareVisionImages } from './image-preprocessing';
 import type {
   PipelineInput,
   PipelineOutput,
@@ -14,13 +21,19 @@ import type {
   StageResult,
 } from '@/types/pipeline';
 import type { UnifiedProduct } from '@/types/unified-product';
+import { withAIStage } from '@/services/ai/usage';
+import { getRoutingConfig, type RoutingStage } from '@/services/ai/routing';
+import { getVisionMaxDimension } from '@/services/ai';
 
 export {
   runVisionStage,
   runContentStage,
   runViaMallContentStage,
   runValidationStage,
+  runTranslationStage,
+  runFieldRegenerationStage,
   urlsToBase64,
+  prepareVisionImages,
 };
 
 export type {
@@ -29,8 +42,30 @@ export type {
   ViaMallContentStageInput,
   ViaMallContentGeneration,
   ValidationStageInput,
+  TranslationStageInput,
+  TranslationGeneration,
+  FieldRegenerationStageInput,
+  FieldRegeneration,
 };
 
+/**
+ * Routing stages a run with these options calls (vision, then one content stage)
+ */
+export function getPipelineStages(options: PipelineOptions = {}): RoutingStage[] {
+  const { language = 'pl', useViaMallFormat = false } = options;
+  const stages: RoutingStage[] = options.skipVision ? [] : ['vision'];
+
+  if (!options.skipContent) {
+    if (options.translateFrom) {
+      stages.push('translation');
+    } else {
+      stages.push(useViaMallFormat && (language === 'de' || language === 'pl') ? 'viamall' : 'content');
+    }
+  }
+
+  return stages;
+}
+
 /**
  * Run the full product creation pipeline
  *
@@ -47,6 +82,9 @@ export async function runPipeline(
 
   const { onProgress, language = 'pl', useViaMallFormat = false } = options;
 
+  // Per-stage provider/model chains: run options over the stored config
+  const routing = { ...(await getRoutingConfig()), ...options.routing };
+
   // Initialize results
   let visionResult: StageResult<VisionAnalysis> = {
     status: 'pending',
@@ -75,17 +113,24 @@ export async function runPipeline(
     });
 
     try {
-      // Convert image URLs to base64
+      // Downscaled, rotated, metadata-free JPEGs (cached in storage)
       const imageUrls = input.images.map(img => img.url);
-      const imagesBase64 = await urlsToBase64(imageUrls);
+      const imagesBase64 = await prepareVisionImages(imageUrls, {
+        maxDimension: getVisionMaxDimension(routing.vision),
+      });
 
       const visionInput: VisionStageInput = {
         images: imagesBase64,
         userHint: input.userHint,
         language,
+        model: options.visionModel,
+        route: routing.vision,
+        ensemble: options.visionEnsemble,
+        promptShop: options.promptShop,
+        promptTemplateId: options.promptTemplateIds?.vision,
       };
 
-      visionResult = await runVisionStage(visionInput);
+      visionResult = await withAIStage('vision', () => runVisionStage(visionInput));
 
       if (visionResult.status === 'failed') {
         errors.push(visionResult.error || 'Vision analysis failed');
@@ -109,23 +154,68 @@ export async function runPipeline(
       progress: 33,
     });
   } else {
+    // Reuse a stored analysis so later stages can still run
     visionResult = {
       status: 'skipped',
+      data: options.visionAnalysis,
       durationMs: 0,
     };
   }
 
-  // Stage 2: Content Generation
-  if (visionResult.status === 'completed' && visionResult.data && !options.skipContent) {
+  // Stage 2: Content Generation (or translation of existing content)
+  if (visionResult.data && !options.skipContent) {
     onProgress?.({
       stage: 'content',
       status: 'running',
-      message: useViaMallFormat ? 'Generating ViaMall content...' : 'Generating product content...',
+      message: options.translateFrom
+        ? 'Translating product content...'
+        : useViaMallFormat ? 'Generating ViaMall content...' : 'Generating product content...',
       progress: 40,
     });
 
     try {
-      if (useViaMallFormat && (language === 'de' || language === 'pl')) {
+      if (options.translateFrom) {
+        const { translateFrom } = options;
+        const translationResult = await withAIStage('translation', () => runTranslationStage({
+          source: translateFrom.content,
+          sourceLanguage: translateFrom.language,
+          targetLanguage: language,
+          visionAnalysis: visionResult.data,
+          useViaMallFormat: useViaMallFormat && (language === 'de' || language === 'pl'),
+          model: options.contentModel,
+          route: routing.translation,
+        }));
+
+        // Convert translation to standard ContentGeneration format
+        if (translationResult.status === 'completed' && translationResult.data) {
+          contentResult = {
+            status: 'completed',
+            data: {
+              name: translationResult.data.name,
+              shortDescription: translationResult.data.shortDescription,
+              longDescription: translationResult.data.longDescription,
+              htmlDescription: translationResult.data.longDescription,
+              seoTitle: translationResult.data.name.slice(0, 70),
+              seoDescription: translationResult.data.shortDescription.replace(/<[^>]*>/g, '').slice(0, 160),
+              keywords: [],
+              attributes: {},
+              tags: [],
+              imageAlts: [],
+              rawResponse: translationResult.data.rawResponse,
+              viamallSlug: translationResult.data.slug,
+            } as ContentGeneration & { viamallSlug?: string },
+            durationMs: translationResult.durationMs,
+            provider: translationResult.provider,
+            model: translationResult.model,
+          };
+        } else {
+          contentResult = {
+            status: translationResult.status,
+            error: translationResult.error,
+            durationMs: translationResult.durationMs,
+          };
+        }
+      } else if (useViaMallFormat && (language === 'de' || language === 'pl')) {
         // Use ViaMall content stage for DE/PL languages
         const viamallInput: ViaMallContentStageInput = {
           visionAnalysis: visionResult.data,
@@ -133,9 +223,13 @@ export async function runPipeline(
           rawData: input.rawData,
           language: language as 'de' | 'pl',
           imageCount: input.images.length,
+          model: options.contentModel,
+          route: routing.viamall,
+          promptShop: options.promptShop,
+          promptTemplateId: options.promptTemplateIds?.viamall,
         };
 
-        const viamallResult = await runViaMallContentStage(viamallInput);
+        const viamallResult = await withAIStage('content', () => runViaMallContentStage(viamallInput));
 
         // Convert ViaMall result to standard ContentGeneration format
         if (viamallResult.status === 'completed' && viamallResult.data) {
@@ -157,6 +251,9 @@ export async function runPipeline(
               viamallSlug: viamallResult.data.slug,
             } as ContentGeneration & { viamallSlug?: string },
             durationMs: viamallResult.durationMs,
+            provider: viamallResult.provider,
+            model: viamallResult.model,
+            prompt: viamallResult.prompt,
           };
         } else {
           contentResult = {
@@ -173,9 +270,13 @@ export async function runPipeline(
           rawData: input.rawData,
           language,
           imageCount: input.images.length,
+          model: options.contentModel,
+          route: routing.content,
+          promptShop: options.promptShop,
+          promptTemplateId: options.promptTemplateIds?.content,
         };
 
-        contentResult = await runContentStage(contentInput);
+        contentResult = await withAIStage('content', () => runContentStage(contentInput));
       }
 
       if (contentResult.status === 'failed') {
@@ -208,7 +309,6 @@ export async function runPipeline(
 
   // Stage 3: Validation
   if (
-    visionResult.status === 'completed' &&
     contentResult.status === 'completed' &&
     visionResult.data &&
     contentResult.data
@@ -293,9 +393,28 @@ export async function analyzeProductImages(
   imageUrls: string[],
   userHint?: string
 ): Promise<StageResult<VisionAnalysis>> {
-  const imagesBase64 = await urlsToBase64(imageUrls);
-  return runVisionStage({
+  const routing = await getRoutingConfig();
+  const imagesBase64 = await prepareVisionImages(imageUrls, {
+    maxDimension: getVisionMaxDimension(routing.vision),
+  });
+
+  return withAIStage('vision', () => runVisionStage({
     images: imagesBase64,
     userHint,
-  });
+    route: routing.vision,
+  }));
+}
+
+/**
+ * Regenerate one product field, routed like the content stage it replaces
+ */
+export async function regenerateProductField(
+  input: Omit<FieldRegenerationStageInput, 'route'>
+): Promise<StageResult<FieldRegeneration>> {
+  const routing = await getRoutingConfig();
+
+  return withAIStage('regeneration', () => runFieldRegenerationStage({
+    ...input,
+    route: input.useViaMallFormat ? routing.viamall : routing.content,
+  }));
 }
@@ -0,0 +1,103 @@
+// Translation Stage - Translates existing product content into another language
+// Replaces the content stage when a draft already has content in one language
+
+import { z } from 'zod';
+import { generateContent } from '@/services/ai';
+import { buildTranslationPrompt, type TranslationResult } from '@/prompts/translation';
+import { viamallXmlBuilder } from '@/adapters/prestashop/viamall-xml-builder';
+import type { VisionAnalysis, StageResult } from '@/types/pipeline';
+import type { ProductTranslation } from '@/types/translations';
+import type { RouteStep } from '@/services/ai/routing';
+
+export interface TranslationStageInput {
+  source: ProductTranslation;
+  sourceLanguage: 'de' | 'pl' | 'en';
+  targetLanguage: 'de' | 'pl' | 'en';
+  visionAnalysis?: VisionAnalysis;
+  useViaMallFormat?: boolean;
+  model?: string;
+  route?: RouteStep[]; // Provider/model chain (routing config)
+}
+
+export interface TranslationGeneration extends TranslationResult {
+  rawResponse?: string;
+}
+
+const EMOJI_BULLET = '✅';
+
+export async function runTranslationStage(
+  input: TranslationStageInput
+): Promise<StageResult<TranslationGeneration>> {
+  const startTime = Date.now();
+
+  try {
+    const { systemPrompt, userPrompt } = buildTranslationPrompt({
+      sourceLanguage: input.sourceLanguage,
+      targetLanguage: input.targetLanguage,
+      name: input.source.name,
+      shortDescription: input.source.shortDescription,
+      longDescription: input.source.longDescription,
+      productType: input.visionAnalysis?.productType,
+      materials: input.visionAnalysis?.materials,
+      colors: input.visionAnalysis?.colors,
+      useViaMallFormat: input.useViaMallFormat,
+    });
+
+    // Emoji bullets are part of the ViaMall format and must survive translation
+    const expectedBullets = countBullets(input.source.shortDescription);
+
+    // No fallback here - source-language text would end up in the wrong language
+    const schema = z.object({
+      name: z.string().min(1),
+      shortDescription: z.string().superRefine((html, ctx) => {
+        const actualBullets = countBullets(html);
+        if (actualBullets !== expectedBullets) {
+          ctx.addIssue({
+            code: 'custom',
+            message: `Translation changed the bullet list (${expectedBullets} ${EMOJI_BULLET} expected, got ${actualBullets})`,
+          });
+        }
+      }),
+      longDescription: z.string().min(1),
+      slug: z.string().optional(),
+    });
+
+    // Lower temperature than generation - the content is already written
+    const response = await generateContent(userPrompt, systemPrompt, {
+      temperature: 0.3,
+      maxTokens: 3000,
+      schema,
+      model: input.model,
+      route: input.route,
+    });
+
+    const translation: TranslationGeneration = {
+      name: response.data.name,
+      shortDescription: response.data.shortDescription,
+      longDescription: response.data.longDescription,
+      // Always re-slugify: models tend to keep umlauts and diacritics
+      slug: viamallXmlBuilder.slugify(response.data.slug || response.data.name),
+      rawResponse: response.content,
+    };
+
+    return {
+      status: 'completed',
+      data: translation,
+      durationMs: Date.now() - startTime,
+      provider: response.provider,
+      model: response.model,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return {
+      status: 'failed',
+      error: `Translation failed: ${errorMessage}`,
+      durationMs: Date.now() - startTime,
+    };
+  }
+}
+
+function countBullets(html: string): number {
+  return html.split(EMOJI_BULLET).length - 1;
+}
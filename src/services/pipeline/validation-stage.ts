@@ -119,6 +119,7 @@ function buildUnifiedProduct(
     url: img.url,
     alt: content.imageAlts[index] || `Product image ${index + 1}`,
     position: index,
+    ...(img.variants && { variants: img.variants }),
   }));
 
   // Determine brand (priority: raw data > vision > content attributes)
@@ -0,0 +1,226 @@
+// Vision Ensemble - Merges the answers of several vision providers
+// Majority vote on single-value fields, union of lists, confidence from how much the models agree
+
+import { getVisionProviders } from '@/services/ai';
+import type { ProviderType } from '@/services/ai/adapters';
+import type { RouteStep } from '@/services/ai/routing';
+import type { VisionAnalysis, VisionDisagreement } from '@/types/pipeline';
+
+export const MAX_ENSEMBLE_PROVIDERS = 3;
+
+// One provider's validated answer
+export interface EnsembleAnswer {
+  provider: ProviderType;
+  analysis: VisionAnalysis;
+  content: string;
+}
+
+// Voted on; the value most providers reported wins
+const VOTED_FIELDS = ['productType', 'detectedBrand', 'detectedModel', 'style', 'condition'] as const;
+
+// Merged as a union; differing sets are reported as a disagreement
+const COMPARED_LIST_FIELDS = ['colors', 'materials'] as const;
+
+// Merged as a union only (free wording, never identical across models)
+const UNION_LIST_FIELDS = ['features', 'suggestedCategories'] as const;
+
+/**
+ * Number of providers to ask: run option first, then VISION_ENSEMBLE_PROVIDERS.
+ * Returns 0 (ensemble off) below 2, capped at MAX_ENSEMBLE_PROVIDERS.
+ */
+export function getEnsembleSize(requested?: number): number {
+  const size = requested ?? Number(process.env.VISION_ENSEMBLE_PROVIDERS || 0);
+
+  if (!Number.isFinite(size) || size < 2) {
+    return 0;
+  }
+
+  return Math.min(Math.floor(size), MAX_ENSEMBLE_PROVIDERS);
+}
+
+/**
+ * Providers for the ensemble, one route step each: the routed vision chain
+ * first, then the vision priority order. Unconfigured providers are left out.
+ */
+export function selectEnsembleProviders(
+  size: number,
+  route: RouteStep[] | undefined,
+  model: string | undefined
+): RouteStep[] {
+  const available = getVisionProviders();
+  const steps: RouteStep[] = [];
+
+  const add = (provider: ProviderType, stepModel: string | undefined) => {
+    if (available.includes(provider) && !steps.some(step => step.provider === provider)) {
+      steps.push({ provider, model: stepModel });
+    }
+  };
+
+  for (const step of route || []) {
+    add(step.provider, step.model ?? model);
+  }
+
+  for (const provider of available) {
+    add(provider, model);
+  }
+
+  return steps.slice(0, size);
+}
+
+// Compare values case- and whitespace-insensitively
+function normalize(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+// Union keeping the first spelling of each value
+function union(lists: string[][]): string[] {
+  const seen = new Map<string, string>();
+
+  for (const value of lists.flat()) {
+    const key = normalize(value);
+    if (key && !seen.has(key)) {
+      seen.set(key, value.trim());
+    }
+  }
+
+  return Array.from(seen.values());
+}
+
+/**
+ * Majority vote on one field. Ties go to the higher summed self-confidence,
+ * then to the provider asked first. `share` is the winner's vote share
+ * (null if no provider reported a value).
+ */
+function vote(
+  field: string,
+  answers: EnsembleAnswer[],
+  pick: (analysis: VisionAnalysis) => string | undefined
+): { chosen?: string; share: number | null; disagreement?: VisionDisagreement } {
+  const values = answers.map(({ provider, analysis }) => ({
+    provider,
+    value: pick(analysis)?.trim() || undefined,
+  }));
+
+  const groups = new Map<string, { value: string; votes: number; weight: number; first: number }>();
+
+  values.forEach(({ value }, index) => {
+    if (!value) return;
+    const key = normalize(value);
+    const group = groups.get(key) || { value, votes: 0, weight: 0, first: index };
+    group.votes += 1;
+    group.weight += answers[index].analysis.confidence;
+    groups.set(key, group);
+  });
+
+  if (groups.size === 0) {
+    return { share: null };
+  }
+
+  const [winner] = Array.from(groups.values()).sort((a, b) =>
+    b.votes - a.votes || b.weight - a.weight || a.first - b.first
+  );
+
+  const share = winner.votes / answers.length;
+
+  return {
+    chosen: winner.value,
+    share,
+    disagreement: share < 1 ? { field, chosen: winner.value, values } : undefined,
+  };
+}
+
+// Share of the union every provider reported (1 = identical sets)
+function compareLists(
+  field: string,
+  answers: EnsembleAnswer[],
+  lists: string[][],
+  merged: string[]
+): { share: number | null; disagreement?: VisionDisagreement } {
+  if (merged.length === 0) {
+    return { share: null };
+  }
+
+  const sets = lists.map(list => new Set(list.map(normalize)));
+  const common = merged.filter(value => sets.every(set => set.has(normalize(value))));
+  const share = common.length / merged.length;
+
+  return {
+    share,
+    disagreement: share < 1
+      ? {
+          field,
+          chosen: merged.join(', '),
+          values: answers.map(({ provider }, index) => ({
+            provider,
+            value: lists[index].join(', ') || undefined,
+          })),
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Merge the answers into one analysis. Confidence is the mean vote share
+ * of the merged fields times the providers' mean self-confidence;
+ * `ensemble` records who answered and where the models disagreed.
+ */
+export function mergeVisionAnalyses(
+  answers: EnsembleAnswer[],
+  failedProviders: ProviderType[] = []
+): VisionAnalysis {
+  if (answers.length === 0) {
+    throw new Error('No vision answers to merge');
+  }
+
+  const shares: number[] = [];
+  const disagreements: VisionDisagreement[] = [];
+  const chosen: Partial<Record<typeof VOTED_FIELDS[number], string>> = {};
+
+  for (const field of VOTED_FIELDS) {
+    const result = vote(field, answers, analysis => analysis[field]);
+    chosen[field] = result.chosen;
+    if (result.share !== null) shares.push(result.share);
+    if (result.disagreement) disagreements.push(result.disagreement);
+  }
+
+  const lists: Partial<Record<typeof COMPARED_LIST_FIELDS[number] | typeof UNION_LIST_FIELDS[number], string[]>> = {};
+
+  for (const field of COMPARED_LIST_FIELDS) {
+    const fieldLists = answers.map(({ analysis }) => analysis[field]);
+    lists[field] = union(fieldLists);
+
+    const result = compareLists(field, answers, fieldLists, lists[field]!);
+    if (result.share !== null) shares.push(result.share);
+    if (result.disagreement) disagreements.push(result.disagreement);
+  }
+
+  for (const field of UNION_LIST_FIELDS) {
+    lists[field] = union(answers.map(({ analysis }) => analysis[field]));
+  }
+
+  const agreement = shares.length > 0
+    ? shares.reduce((sum, share) => sum + share, 0) / shares.length
+    : 1;
+  const selfConfidence = answers.reduce((sum, { analysis }) => sum + analysis.confidence, 0) / answers.length;
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return {
+    productType: chosen.productType || answers[0].analysis.productType,
+    detectedBrand: chosen.detectedBrand,
+    detectedModel: chosen.detectedModel,
+    colors: lists.colors!,
+    materials: lists.materials!,
+    style: chosen.style,
+    condition: chosen.condition as VisionAnalysis['condition'],
+    features: lists.features!,
+    suggestedCategories: lists.suggestedCategories!,
+    confidence: round(agreement * selfConfidence),
+    rawResponse: answers.map(({ provider, content }) => `[${provider}]\n${content}`).join('\n\n'),
+    ensemble: {
+      providers: answers.map(({ provider }) => provider),
+      failedProviders,
+      agreement: round(agreement),
+      disagreements,
+    },
+  };
+}
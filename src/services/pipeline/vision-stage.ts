@@ -1,10 +1,19 @@
 // Vision Stage - Analyzes product images using AI
-// Uses Google AI (Gemma 3) for multi-modal analysis
+// Google AI (Gemma 3) first, Groq / Mistral / OpenRouter vision models as failover
+// Ensemble mode asks 2-3 providers in parallel and merges their answers
 
 import { analyzeImages } from '@/services/ai';
-import { VISION_SYSTEM_PROMPT, buildVisionPrompt } from '@/prompts/vision-analysis';
-import { extractJsonFromMarkdown, safeJsonParse } from '@/lib/utils';
-import type { VisionAnalysis, StageResult } from '@/types/pipeline';
+import { buildVisionPrompt } from '@/prompts/vision-analysis';
+import { resolvePromptTemplate } from '@/services/prompts';
+import { VisionAnalysisSchema, type VisionAnalysis, type StageResult } from '@/types/pipeline';
+import type { ProviderType } from '@/services/ai/adapters';
+import type { RouteStep } from '@/services/ai/routing';
+import {
+  getEnsembleSize,
+  selectEnsembleProviders,
+  mergeVisionAnalyses,
+  type EnsembleAnswer,
+} from './vision-ensemble';
 
 export interface VisionStageInput {
   images: Array<{
@@ -13,6 +22,59 @@ export interface VisionStageInput {
   }>;
   userHint?: string;
   language?: 'pl' | 'en' | 'de';
+  model?: string;
+  route?: RouteStep[]; // Provider/model chain (routing config)
+  ensemble?: number;   // Providers to ask in parallel (see getEnsembleSize)
+  promptShop?: string; // Prompt registry shop (see services/prompts)
+  promptTemplateId?: string; // Prompt version instead of the active one
+}
+
+// What the model has to return (rawResponse is added by the stage)
+const VisionResponseSchema = VisionAnalysisSchema.omit({ rawResponse: true, ensemble: true });
+
+/**
+ * Ask each provider on its own (no failover between them) and merge the answers.
+ * Fails only if every provider fails.
+ */
+async function runEnsemble(
+  input: VisionStageInput,
+  prompt: string,
+  systemPrompt: string,
+  steps: RouteStep[]
+): Promise<VisionAnalysis> {
+  const settled = await Promise.allSettled(
+    steps.map(step => analyzeImages(
+      input.images,
+      prompt,
+      systemPrompt,
+      { schema: VisionResponseSchema, model: step.model, route: [step] }
+    ))
+  );
+
+  const answers: EnsembleAnswer[] = [];
+  const failedProviders: ProviderType[] = [];
+  const errors: string[] = [];
+
+  settled.forEach((outcome, index) => {
+    const { provider } = steps[index];
+    if (outcome.status === 'fulfilled') {
+      answers.push({ provider, analysis: outcome.value.data, content: outcome.value.content });
+    } else {
+      const message = outcome.reason instanceof Error ? outcome.reason.message : 'Unknown error';
+      failedProviders.push(provider);
+      errors.push(`${provider}: ${message}`);
+    }
+  });
+
+  if (answers.length === 0) {
+    throw new Error(`All ensemble providers failed (${errors.join('; ')})`);
+  }
+
+  if (errors.length > 0) {
+    console.warn(`[Vision Ensemble] ${errors.length}/${steps.length} providers failed: ${errors.join('; ')}`);
+  }
+
+  return mergeVisionAnalyses(answers, failedProviders);
 }
 
 export async function runVisionStage(
@@ -21,36 +83,41 @@ export async function runVisionStage(
   const startTime = Date.now();
 
   try {
-    // Build the prompt
-    const prompt = buildVisionPrompt(input.userHint);
+    // Build the prompt from the active template
+    const template = await resolvePromptTemplate('vision', {
+      language: input.language,
+      shop: input.promptShop,
+      templateId: input.promptTemplateId,
+    });
+    const prompt = buildVisionPrompt(input.userHint, template.userPrompt);
+
+    // Ensemble needs at least two configured vision providers
+    const ensembleSize = getEnsembleSize(input.ensemble);
+    const ensembleSteps = ensembleSize > 0
+      ? selectEnsembleProviders(ensembleSize, input.route, input.model)
+      : [];
 
-    // Call the AI service
+    if (ensembleSteps.length >= 2) {
+      const merged = await runEnsemble(input, prompt, template.systemPrompt, ensembleSteps);
+      return {
+        status: 'completed',
+        data: merged,
+        durationMs: Date.now() - startTime,
+        provider: merged.ensemble?.providers.join('+'),
+        prompt: template.ref,
+      };
+    }
+
+    // Call the AI service (answer validated against the schema, repaired if needed)
     const response = await analyzeImages(
       input.images,
       prompt,
-      VISION_SYSTEM_PROMPT
+      template.systemPrompt,
+      { schema: VisionResponseSchema, model: input.model, route: input.route }
     );
 
-    // Parse the response
-    const jsonStr = extractJsonFromMarkdown(response.content);
-    const parsed = safeJsonParse<Partial<VisionAnalysis>>(jsonStr, {});
-
-    // Validate and normalize the response
     const visionAnalysis: VisionAnalysis = {
-      productType: parsed.productType || 'Unknown Product',
-      detectedBrand: parsed.detectedBrand || undefined,
-      detectedModel: parsed.detectedModel || undefined,
-      colors: Array.isArray(parsed.colors) ? parsed.colors : [],
-      materials: Array.isArray(parsed.materials) ? parsed.materials : [],
-      style: parsed.style || undefined,
-      condition: isValidCondition(parsed.condition) ? parsed.condition : undefined,
-      features: Array.isArray(parsed.features) ? parsed.features : [],
-      suggestedCategories: Array.isArray(parsed.suggestedCategories)
-        ? parsed.suggestedCategories
-        : [],
-      confidence: typeof parsed.confidence === 'number'
-        ? Math.max(0, Math.min(1, parsed.confidence))
-        : 0.5,
+      ...response.data,
       rawResponse: response.content,
     };
 
@@ -58,6 +125,9 @@ export async function runVisionStage(
       status: 'completed',
       data: visionAnalysis,
       durationMs: Date.now() - startTime,
+      provider: response.provider,
+      model: response.model,
+      prompt: template.ref,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -70,10 +140,6 @@ export async function runVisionStage(
   }
 }
 
-function isValidCondition(value: unknown): value is 'new' | 'used' | 'refurbished' {
-  return value === 'new' || value === 'used' || value === 'refurbished';
-}
-
 // Helper to convert image URL to base64
 export async function urlToBase64(
   url: string
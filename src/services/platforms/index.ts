@@ -0,0 +1,42 @@
+// Platform connections - PlatformConfig row, or <PLATFORM>_URL / <PLATFORM>_API_KEY from the environment
+// Shared by publishing and category matching
+
+import { prisma } from '@/lib/prisma';
+import { createAdapter } from '@/adapters';
+import type { Platform, PlatformCategory, PlatformConfig } from '@/types/adapters';
+
+/**
+ * Connection config of a platform (null if it is not configured)
+ */
+export async function getPlatformConfig(platform: Platform): Promise<PlatformConfig | null> {
+  const stored = await prisma.platformConfig.findUnique({
+    where: { platform },
+  });
+
+  if (stored) {
+    return {
+      platform,
+      apiUrl: stored.apiUrl,
+      apiKey: stored.apiKey,
+      settings: stored.settings as Record<string, unknown> | undefined,
+    };
+  }
+
+  const apiUrl = process.env[`${platform.toUpperCase()}_URL`];
+  const apiKey = process.env[`${platform.toUpperCase()}_API_KEY`];
+
+  return apiUrl && apiKey ? { platform, apiUrl, apiKey } : null;
+}
+
+/**
+ * Categories of a configured platform (null if it is not configured)
+ */
+export async function getPlatformCategories(platform: Platform): Promise<PlatformCategory[] | null> {
+  const config = await getPlatformConfig(platform);
+  if (!config) {
+    return null;
+  }
+
+  const context = await createAdapter(config).getContext();
+  return context.categories;
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest';
+import { prisma } from '@/lib/prisma';
+import { buildViaMallContentPrompt } from '@/prompts/viamall-generation';
+import { resolvePromptTemplate, validatePromptTemplate } from '../index';
+
+function storedTemplate(overrides: { id: string; language: string; shop: string; version: number }) {
+  return {
+    name: 'garden-content',
+    stage: 'viamall',
+    systemPrompt: `System ${overrides.id}`,
+    userPrompt: 'Typ: {{PRODUCT_TYPE}}, Marke: {{BRAND}}{{USER_HINT}}',
+    isActive: true,
+    note: null,
+    createdAt: new Date('2026-10-01T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('resolvePromptTemplate', () => {
+  it('falls back to the built-in seed when nothing is stored', async () => {
+    const template = await resolvePromptTemplate('viamall', { language: 'pl' });
+
+    expect(template.ref).toEqual({ id: null, name: 'viamall-content-pl', version: 1 });
+    expect(template.systemPrompt).toContain('Jezyk: Polski');
+  });
+
+  it('has per-language seeds for the content stage', async () => {
+    const template = await resolvePromptTemplate('content', { language: 'en' });
+
+    expect(template.ref).toEqual({ id: null, name: 'content-en', version: 1 });
+    expect(template.systemPrompt).toContain('Language: English');
+    expect(validatePromptTemplate('content', template)).toEqual([]);
+  });
+
+  it('prefers the most specific active version', async () => {
+    vi.mocked(prisma.promptTemplate.findMany).mockResolvedValueOnce([
+      storedTemplate({ id: 'any', language: '*', shop: '*', version: 4 }),
+      storedTemplate({ id: 'shop', language: '*', shop: 'gartenshop', version: 2 }),
+      storedTemplate({ id: 'language', language: 'de', shop: '*', version: 7 }),
+    ]);
+
+    const template = await resolvePromptTemplate('viamall', { language: 'de', shop: 'gartenshop' });
+
+    expect(template.ref).toEqual({ id: 'language', name: 'garden-content', version: 7 });
+    expect(prisma.promptTemplate.findMany).toHaveBeenLastCalledWith({
+      where: {
+        stage: 'viamall',
+        isActive: true,
+        language: { in: ['de', '*'] },
+        shop: { in: ['gartenshop', '*'] },
+      },
+    });
+  });
+
+  it('renders stored templates through the prompt builder', async () => {
+    vi.mocked(prisma.promptTemplate.findMany).mockResolvedValueOnce([
+      storedTemplate({ id: 'language', language: 'de', shop: '*', version: 2 }),
+    ]);
+
+    const template = await resolvePromptTemplate('viamall', { language: 'de' });
+    const { systemPrompt, userPrompt } = buildViaMallContentPrompt({
+      productType: 'Sichtschutzmatte',
+      colors: [],
+      materials: [],
+      features: [],
+      categories: [],
+      userHint: 'Weide, 1x3 m',
+      language: 'de',
+    }, template);
+
+    expect(systemPrompt).toBe('System language');
+    expect(userPrompt).toBe('Typ: Sichtschutzmatte, Marke: Unbekannt\n## Benutzerhinweis\n"Weide, 1x3 m"');
+  });
+});
+
+describe('validatePromptTemplate', () => {
+  it('rejects placeholders the stage does not fill', () => {
+    expect(validatePromptTemplate('vision', {
+      systemPrompt: 'Shop {{SHOP_NAME}}',
+      userPrompt: 'Analyze {{USER_HINT}} {{PRODUCT_TYPE}}',
+    })).toEqual([
+      'systemPrompt: placeholders are not filled in system prompts ({{SHOP_NAME}})',
+      'userPrompt: unknown placeholder {{PRODUCT_TYPE}} (vision fills USER_HINT)',
+    ]);
+  });
+});
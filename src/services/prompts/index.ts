@@ -0,0 +1,203 @@
+// Prompt Registry - versioned prompt templates stored in PromptTemplate
+// One active version per stage + language + shop; the most specific match wins
+// ('de' + 'gartenshop' before 'de' + '*' before '*' + 'gartenshop' before '*' + '*')
+
+import type { PromptTemplate } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { findPlaceholders, type PromptTemplateText } from '@/prompts/template';
+import {
+  ANY,
+  PROMPT_PLACEHOLDERS,
+  type PromptStage,
+  type PromptTemplateInput,
+  type PromptVersionRef,
+} from '@/types/prompts';
+import { PROMPT_SEEDS, SEED_VERSION, type PromptSeed } from './seeds';
+
+export { PROMPT_SEEDS };
+
+export interface ResolvedPrompt extends PromptTemplateText {
+  ref: PromptVersionRef;
+}
+
+export interface PromptScope {
+  language?: string;
+  shop?: string;
+  templateId?: string; // Use this version instead of the active one (experiments)
+}
+
+/**
+ * Shop whose templates are used: explicit, PROMPT_SHOP, or any ('*')
+ */
+export function getPromptShop(shop?: string): string {
+  return shop || process.env.PROMPT_SHOP || ANY;
+}
+
+// 3 = language and shop match exactly, 0 = both '*'
+function specificity(row: { language: string; shop: string }): number {
+  return (row.language !== ANY ? 2 : 0) + (row.shop !== ANY ? 1 : 0);
+}
+
+function fromSeed(seed: PromptSeed): ResolvedPrompt {
+  return {
+    systemPrompt: seed.systemPrompt,
+    userPrompt: seed.userPrompt,
+    ref: { id: null, name: seed.name, version: SEED_VERSION },
+  };
+}
+
+/**
+ * Active template for a stage. Falls back to the built-in seed when nothing
+ * is stored or the database is unavailable.
+ */
+export async function resolvePromptTemplate(stage: PromptStage, scope: PromptScope = {}): Promise<ResolvedPrompt> {
+  const language = scope.language || ANY;
+  const shop = getPromptShop(scope.shop);
+
+  try {
+    if (scope.templateId) {
+      const pinned = await prisma.promptTemplate.findUnique({ where: { id: scope.templateId } });
+      if (pinned && pinned.stage === stage) {
+        return {
+          systemPrompt: pinned.systemPrompt,
+          userPrompt: pinned.userPrompt,
+          ref: { id: pinned.id, name: pinned.name, version: pinned.version },
+        };
+      }
+      console.warn(`[Prompts] Template ${scope.templateId} not found for ${stage}, using the active version`);
+    }
+
+    const rows = await prisma.promptTemplate.findMany({
+      where: {
+        stage,
+        isActive: true,
+        language: { in: [language, ANY] },
+        shop: { in: [shop, ANY] },
+      },
+    });
+
+    const best = rows.sort((a, b) => specificity(b) - specificity(a))[0];
+    if (best) {
+      return {
+        systemPrompt: best.systemPrompt,
+        userPrompt: best.userPrompt,
+        ref: { id: best.id, name: best.name, version: best.version },
+      };
+    }
+  } catch (error) {
+    console.warn('[Prompts] Could not load prompt templates:', error instanceof Error ? error.message : error);
+  }
+
+  const seed = PROMPT_SEEDS
+    .filter(candidate => candidate.stage === stage && (candidate.language === language || candidate.language === ANY))
+    .sort((a, b) => specificity(b) - specificity(a))[0];
+
+  if (!seed) {
+    throw new Error(`No prompt template for ${stage} (${language})`);
+  }
+
+  return fromSeed(seed);
+}
+
+/**
+ * Problems with a template: placeholders the stage does not fill
+ */
+export function validatePromptTemplate(stage: PromptStage, template: PromptTemplateText): string[] {
+  const allowed = PROMPT_PLACEHOLDERS[stage];
+
+  return [
+    ...findPlaceholders(template.systemPrompt).map(name => ({ name, field: 'systemPrompt' })),
+    ...findPlaceholders(template.userPrompt).map(name => ({ name, field: 'userPrompt' })),
+  ]
+    .filter(({ name, field }) => field === 'systemPrompt' || !allowed.includes(name))
+    .map(({ name, field }) => field === 'systemPrompt'
+      ? `systemPrompt: placeholders are not filled in system prompts ({{${name}}})`
+      : `userPrompt: unknown placeholder {{${name}}} (${stage} fills ${allowed.join(', ')})`);
+}
+
+/**
+ * Store the seeds as version 1 (active) of every template that has no versions yet
+ */
+export async function seedPromptTemplates(): Promise<number> {
+  let created = 0;
+
+  for (const seed of PROMPT_SEEDS) {
+    const existing = await prisma.promptTemplate.findFirst({
+      where: { stage: seed.stage, language: seed.language, shop: seed.shop },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      await prisma.promptTemplate.create({
+        data: { ...seed, version: SEED_VERSION, isActive: true, note: 'Seed' },
+      });
+      created++;
+    }
+  }
+
+  return created;
+}
+
+/**
+ * All stored versions (seeded first), grouped by stage, language and shop, newest first
+ */
+export async function listPromptTemplates(): Promise<PromptTemplate[]> {
+  await seedPromptTemplates();
+
+  return prisma.promptTemplate.findMany({
+    orderBy: [{ stage: 'asc' }, { language: 'asc' }, { shop: 'asc' }, { version: 'desc' }],
+  });
+}
+
+/**
+ * Store a new version (version = latest + 1) and optionally make it the active one
+ */
+export async function createPromptVersion(input: PromptTemplateInput): Promise<PromptTemplate> {
+  await seedPromptTemplates();
+
+  const key = { stage: input.stage, language: input.language, shop: input.shop };
+
+  return prisma.$transaction(async tx => {
+    const latest = await tx.promptTemplate.findFirst({
+      where: key,
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+
+    if (input.activate) {
+      await tx.promptTemplate.updateMany({ where: { ...key, isActive: true }, data: { isActive: false } });
+    }
+
+    return tx.promptTemplate.create({
+      data: {
+        ...key,
+        name: input.name,
+        version: (latest?.version ?? 0) + 1,
+        systemPrompt: input.systemPrompt,
+        userPrompt: input.userPrompt,
+        note: input.note,
+        isActive: input.activate,
+      },
+    });
+  });
+}
+
+/**
+ * Make a stored version the active one of its template (null if not found)
+ */
+export async function activatePromptVersion(id: string): Promise<PromptTemplate | null> {
+  const template = await prisma.promptTemplate.findUnique({ where: { id } });
+  if (!template) {
+    return null;
+  }
+
+  const [, activated] = await prisma.$transaction([
+    prisma.promptTemplate.updateMany({
+      where: { stage: template.stage, language: template.language, shop: template.shop, isActive: true },
+      data: { isActive: false },
+    }),
+    prisma.promptTemplate.update({ where: { id }, data: { isActive: true } }),
+  ]);
+
+  return activated;
+}
@@ -0,0 +1,58 @@
+// Prompt Seeds - the built-in prompt constants as version 1 of each template
+// Used until a template is stored and whenever the database is unavailable
+
+import { VISION_SYSTEM_PROMPT, VISION_USER_PROMPT } from '@/prompts/vision-analysis';
+import { CONTENT_USER_PROMPT, getContentSystemPrompt } from '@/prompts/product-generation';
+import {
+  VIAMALL_SYSTEM_PROMPT_DE,
+  VIAMALL_SYSTEM_PROMPT_PL,
+  VIAMALL_USER_PROMPT_DE,
+  VIAMALL_USER_PROMPT_PL,
+} from '@/prompts/viamall-generation';
+import { ANY, type PromptStage } from '@/types/prompts';
+
+export interface PromptSeed {
+  name: string;
+  stage: PromptStage;
+  language: string;
+  shop: string;
+  systemPrompt: string;
+  userPrompt: string;
+}
+
+export const SEED_VERSION = 1;
+
+export const PROMPT_SEEDS: PromptSeed[] = [
+  {
+    name: 'viamall-vision',
+    stage: 'vision',
+    language: ANY,
+    shop: ANY,
+    systemPrompt: VISION_SYSTEM_PROMPT,
+    userPrompt: VISION_USER_PROMPT,
+  },
+  ...(['de', 'pl', 'en'] as const).map(language => ({
+    name: `content-${language}`,
+    stage: 'content' as const,
+    language,
+    shop: ANY,
+    systemPrompt: getContentSystemPrompt(language),
+    userPrompt: CONTENT_USER_PROMPT,
+  })),
+  {
+    name: 'viamall-content-de',
+    stage: 'viamall',
+    language: 'de',
+    shop: ANY,
+    systemPrompt: VIAMALL_SYSTEM_PROMPT_DE,
+    userPrompt: VIAMALL_USER_PROMPT_DE,
+  },
+  {
+    name: 'viamall-content-pl',
+    stage: 'viamall',
+    language: 'pl',
+    shop: ANY,
+    systemPrompt: VIAMALL_SYSTEM_PROMPT_PL,
+    userPrompt: VIAMALL_USER_PROMPT_PL,
+  },
+];
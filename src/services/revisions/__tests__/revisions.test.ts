@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { diffRevisionSnapshots, recordBaselineRevision, restoreDraftRevision, type RevisionSnapshot } from '../index';
+
+function snapshot(overrides: Partial<RevisionSnapshot> = {}): RevisionSnapshot {
+  return {
+    product: {
+      name: 'Sneakers Nike Air Max',
+      description: { short: 'Wygodne buty', long: 'Dlugi opis' },
+      tags: ['nike', 'sneakers'],
+      images: [{ url: 'https://cdn.test/1.jpg', alt: 'Przod' }],
+    },
+    visionAnalysis: { productType: 'Sneakers', colors: ['white'], rawResponse: '{"a":1}' },
+    translations: null,
+    ...overrides,
+  };
+}
+
+describe('diffRevisionSnapshots', () => {
+  it('reports nothing for identical snapshots', () => {
+    expect(diffRevisionSnapshots(snapshot(), snapshot())).toEqual([]);
+  });
+
+  it('lists changed, added and removed fields by path', () => {
+    const before = snapshot();
+    const after = snapshot({
+      product: {
+        name: 'Sneakers Nike Air Max 90',
+        description: { short: 'Wygodne buty' },
+        tags: ['nike', 'sneakers', 'air max'],
+        images: [{ url: 'https://cdn.test/1.jpg', alt: 'Bok' }],
+        ean: '5901234123457',
+      },
+      visionAnalysis: { productType: 'Sneakers', colors: ['white'], rawResponse: '{"b":2}' },
+      translations: { pl: { name: 'Buty' } },
+    });
+
+    expect(diffRevisionSnapshots(before, after)).toEqual([
+      { path: 'product.description.long', change: 'removed', before: 'Dlugi opis' },
+      { path: 'product.ean', change: 'added', after: '5901234123457' },
+      { path: 'product.images[0].alt', change: 'changed', before: 'Przod', after: 'Bok' },
+      { path: 'product.name', change: 'changed', before: 'Sneakers Nike Air Max', after: 'Sneakers Nike Air Max 90' },
+      { path: 'product.tags', change: 'changed', before: ['nike', 'sneakers'], after: ['nike', 'sneakers', 'air max'] },
+      { path: 'translations', change: 'added', after: { pl: { name: 'Buty' } } },
+    ]);
+  });
+});
+
+describe('restoreDraftRevision', () => {
+  beforeEach(() => {
+    vi.mocked(prisma.draftRevision.create).mockClear();
+    vi.mocked(prisma.draft.update).mockClear();
+  });
+
+  it('writes the snapshot back and records a RESTORE revision', async () => {
+    const revision = {
+      id: 'rev-1',
+      draftId: 'draft-1',
+      source: 'AI' as const,
+      provider: 'groq',
+      model: 'llama-3.3-70b-versatile',
+      note: null,
+      createdAt: new Date('2026-10-01T10:00:00Z'),
+      ...snapshot(),
+    };
+    vi.mocked(prisma.draftRevision.findUnique).mockResolvedValueOnce(revision);
+    vi.mocked(prisma.draft.update).mockResolvedValueOnce({ id: 'draft-1', ...snapshot() } as never);
+
+    const draft = await restoreDraftRevision('draft-1', 'rev-1');
+
+    expect(draft).not.toBeNull();
+    expect(prisma.draft.update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'draft-1' },
+      data: { product: revision.product, visionAnalysis: revision.visionAnalysis, translations: Prisma.DbNull },
+    }));
+    expect(prisma.draftRevision.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        draftId: 'draft-1',
+        source: 'RESTORE',
+        provider: 'groq',
+        model: 'llama-3.3-70b-versatile',
+        note: expect.stringContaining('rev-1'),
+      }),
+    });
+  });
+
+  it('does not restore a revision of another draft', async () => {
+    vi.mocked(prisma.draftRevision.findUnique).mockResolvedValueOnce({ id: 'rev-2', draftId: 'draft-2' } as never);
+
+    expect(await restoreDraftRevision('draft-1', 'rev-2')).toBeNull();
+    expect(prisma.draft.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('recordBaselineRevision', () => {
+  beforeEach(() => {
+    vi.mocked(prisma.draftRevision.create).mockClear();
+  });
+
+  it('keeps the current content of a draft without revisions', async () => {
+    vi.mocked(prisma.draftRevision.findFirst).mockResolvedValueOnce(null);
+
+    await recordBaselineRevision({ id: 'draft-1', ...snapshot() });
+
+    expect(prisma.draftRevision.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        draftId: 'draft-1',
+        source: 'BASELINE',
+        product: snapshot().product,
+      }),
+    });
+  });
+
+  it('skips drafts that already have revisions or have no content', async () => {
+    vi.mocked(prisma.draftRevision.findFirst).mockResolvedValueOnce({ id: 'rev-1' } as never);
+    await recordBaselineRevision({ id: 'draft-1', ...snapshot() });
+
+    await recordBaselineRevision({ id: 'draft-2', product: null, visionAnalysis: null, translations: null });
+
+    expect(prisma.draftRevision.create).not.toHaveBeenCalled();
+  });
+});
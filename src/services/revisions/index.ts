@@ -0,0 +1,212 @@
+// Draft Revisions - snapshot of product, vision analysis and translations after every save
+// Written by the pipeline, manual edits, translations, imports and restores; diff and restore
+
+import { Prisma, type RevisionSource } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+// Draft content kept in a revision
+export interface RevisionSnapshot {
+  product: Prisma.JsonValue | null;
+  visionAnalysis: Prisma.JsonValue | null;
+  translations: Prisma.JsonValue | null;
+}
+
+export interface RevisionMeta {
+  provider?: string;
+  model?: string;
+  note?: string;
+}
+
+// One changed leaf, e.g. 'product.description.short' or 'product.images[0].url'
+export interface RevisionFieldChange {
+  path: string;
+  change: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+// Differ on every run and say nothing about the content
+const IGNORED_KEYS = new Set(['rawResponse']);
+
+/**
+ * Store the current content of a draft as a revision.
+ * Best effort like the usage ledger: a failed write is logged, the save itself stands.
+ */
+export async function recordDraftRevision(
+  draft: { id: string } & RevisionSnapshot,
+  source: RevisionSource,
+  meta: RevisionMeta = {}
+): Promise<void> {
+  try {
+    await prisma.draftRevision.create({
+      data: {
+        draftId: draft.id,
+        source,
+        provider: meta.provider,
+        model: meta.model,
+        note: meta.note,
+        product: toJsonInput(draft.product),
+        visionAnalysis: toJsonInput(draft.visionAnalysis),
+        translations: toJsonInput(draft.translations),
+      },
+    });
+  } catch (error) {
+    console.warn(`[Revisions] Could not record ${source} revision for draft ${draft.id}:`, error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Before the first overwrite of a draft that has content but no revisions
+ * (e.g. saved before revisions existed), keep that content as a BASELINE
+ * revision so it can still be restored. Best effort like recordDraftRevision.
+ */
+export async function recordBaselineRevision(
+  draft: { id: string } & RevisionSnapshot
+): Promise<void> {
+  if (draft.product === null && draft.visionAnalysis === null && draft.translations === null) {
+    return;
+  }
+
+  try {
+    const existing = await prisma.draftRevision.findFirst({
+      where: { draftId: draft.id },
+      select: { id: true },
+    });
+    if (existing) {
+      return;
+    }
+  } catch (error) {
+    console.warn(`[Revisions] Could not check revisions of draft ${draft.id}:`, error instanceof Error ? error.message : error);
+    return;
+  }
+
+  await recordDraftRevision(draft, 'BASELINE', { note: 'Content before the first recorded revision' });
+}
+
+/**
+ * Revisions of a draft, newest first (without the snapshots)
+ */
+export async function listDraftRevisions(draftId: string) {
+  return prisma.draftRevision.findMany({
+    where: { draftId },
+    orderBy: { createdAt: 'desc' },
+    select: {
+      id: true,
+      source: true,
+      provider: true,
+      model: true,
+      note: true,
+      createdAt: true,
+    },
+  });
+}
+
+/**
+ * One revision with its snapshot (null if it does not belong to the draft)
+ */
+export async function getDraftRevision(draftId: string, revisionId: string) {
+  const revision = await prisma.draftRevision.findUnique({ where: { id: revisionId } });
+  return revision && revision.draftId === draftId ? revision : null;
+}
+
+/**
+ * Put a revision's content back on the draft and record that as a RESTORE
+ * revision. Returns null if the revision does not belong to the draft.
+ */
+export async function restoreDraftRevision(draftId: string, revisionId: string) {
+  const revision = await getDraftRevision(draftId, revisionId);
+  if (!revision) {
+    return null;
+  }
+
+  const draft = await prisma.draft.update({
+    where: { id: draftId },
+    data: {
+      product: toJsonUpdate(revision.product),
+      visionAnalysis: toJsonUpdate(revision.visionAnalysis),
+      translations: toJsonUpdate(revision.translations),
+    },
+    include: {
+      images: {
+        orderBy: { position: 'asc' },
+      },
+      publishLogs: {
+        orderBy: { createdAt: 'desc' },
+      },
+    },
+  });
+
+  await recordDraftRevision(draft, 'RESTORE', {
+    provider: revision.provider ?? undefined,
+    model: revision.model ?? undefined,
+    note: `Restored revision ${revision.id} (${revision.source}, ${revision.createdAt.toISOString()})`,
+  });
+
+  return draft;
+}
+
+/**
+ * Field-level diff of two snapshots. Objects and arrays of objects are
+ * compared per key / index; lists of plain values count as one field.
+ */
+export function diffRevisionSnapshots(before: RevisionSnapshot, after: RevisionSnapshot): RevisionFieldChange[] {
+  const changes: RevisionFieldChange[] = [];
+
+  for (const key of ['product', 'visionAnalysis', 'translations'] as const) {
+    diffValues(key, before[key], after[key], changes);
+  }
+
+  return changes;
+}
+
+function diffValues(path: string, before: unknown, after: unknown, changes: RevisionFieldChange[]): void {
+  const a = before ?? undefined;
+  const b = after ?? undefined;
+
+  if (isEqual(a, b)) {
+    return;
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).sort();
+    for (const key of keys) {
+      if (!IGNORED_KEYS.has(key)) {
+        diffValues(`${path}.${key}`, a[key], b[key], changes);
+      }
+    }
+    return;
+  }
+
+  if (Array.isArray(a) && Array.isArray(b) && [...a, ...b].some(isPlainObject)) {
+    for (let index = 0; index < Math.max(a.length, b.length); index++) {
+      diffValues(`${path}[${index}]`, a[index], b[index], changes);
+    }
+    return;
+  }
+
+  if (a === undefined) {
+    changes.push({ path, change: 'added', after: b });
+  } else if (b === undefined) {
+    changes.push({ path, change: 'removed', before: a });
+  } else {
+    changes.push({ path, change: 'changed', before: a, after: b });
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Json? columns: a missing value stays NULL on create...
+function toJsonInput(value: Prisma.JsonValue | null): Prisma.InputJsonValue | undefined {
+  return value === null ? undefined : (value as Prisma.InputJsonValue);
+}
+
+// ...but has to be cleared explicitly on update
+function toJsonUpdate(value: Prisma.JsonValue | null): Prisma.InputJsonValue | typeof Prisma.DbNull {
+  return value === null ? Prisma.DbNull : (value as Prisma.InputJsonValue);
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import sharp from 'sharp';
+import { putObject } from '@/services/storage';
+import { createImageVariants, getImageVariantKey } from '../variants';
+import { pickImageUrl } from '@/types/image-variants';
+
+// Landscape product photo with transparency (PNG)
+function productPhoto(): Promise<Buffer> {
+  return sharp({ create: { width: 2400, height: 1200, channels: 4, background: { r: 200, g: 40, b: 40, alpha: 0.5 } } })
+    .png()
+    .toBuffer();
+}
+
+// Buffer passed to putObject for a key
+function stored(key: string): Buffer {
+  const call = vi.mocked(putObject).mock.calls.find(([storedKey]) => storedKey === key);
+  if (!call) throw new Error(`${key} was not stored`);
+  return call[1];
+}
+
+describe('createImageVariants', () => {
+  beforeEach(() => {
+    vi.mocked(putObject).mockClear();
+  });
+
+  it('stores thumbnail, medium and square variants as JPEG and WebP', async () => {
+    const variants = await createImageVariants('products/123-abc.png', await productPhoto());
+
+    expect(variants).toEqual({
+      thumbnail: {
+        url: 'https://storage.test/products/123-abc_thumbnail.jpg',
+        webpUrl: 'https://storage.test/products/123-abc_thumbnail.webp',
+        width: 320,
+        height: 160,
+      },
+      medium: expect.objectContaining({ width: 1200, height: 600 }),
+      square: expect.objectContaining({ width: 1600, height: 1600 }),
+    });
+    expect(putObject).toHaveBeenCalledTimes(6);
+
+    const webp = await sharp(stored('products/123-abc_medium.webp')).metadata();
+    expect(webp.format).toBe('webp');
+  });
+
+  it('pads the square variant with white', async () => {
+    await createImageVariants('products/123-abc.png', await productPhoto());
+
+    const square = sharp(stored('products/123-abc_square.jpg'));
+    const { width, height, format, hasAlpha } = await square.metadata();
+    const { data } = await square.extract({ left: 800, top: 0, width: 1, height: 1 }).raw().toBuffer({ resolveWithObject: true });
+
+    expect({ width, height, format, hasAlpha }).toEqual({ width: 1600, height: 1600, format: 'jpeg', hasAlpha: false });
+    expect(Array.from(data).every(channel => channel > 245)).toBe(true);
+  });
+
+  it('returns null for an image it cannot decode', async () => {
+    const variants = await createImageVariants('products/broken.jpg', Buffer.from('not an image'));
+
+    expect(variants).toBeNull();
+    expect(putObject).not.toHaveBeenCalled();
+  });
+});
+
+describe('variant keys and selection', () => {
+  it('derives keys from the original key', () => {
+    expect(getImageVariantKey('/uploads/1-a.jpeg', 'square', 'jpeg')).toBe('/uploads/1-a_square.jpg');
+    expect(getImageVariantKey('products/1-a.jpg', 'thumbnail', 'webp')).toBe('products/1-a_thumbnail.webp');
+  });
+
+  it('falls back to the original URL without variants', () => {
+    const square = { url: 'https://cdn.test/sq.jpg', webpUrl: 'https://cdn.test/sq.webp', width: 1600, height: 1600 };
+
+    expect(pickImageUrl({ url: 'https://cdn.test/a.jpg', variants: { square } }, 'square')).toBe(square.url);
+    expect(pickImageUrl({ url: 'https://cdn.test/a.jpg', variants: { square } }, 'square', 'webp')).toBe(square.webpUrl);
+    expect(pickImageUrl({ url: 'https://cdn.test/a.jpg' }, 'square')).toBe('https://cdn.test/a.jpg');
+  });
+});
@@ -95,12 +95,25 @@ export async function uploadImage(
   url?: string;
   key?: string;
   error?: string;
+}> {
+  return putObject(generateFilename(filename, mimeType), buffer, mimeType);
+}
+
+// Store an object under a fixed key (overwrites), e.g. derived images cached by content hash
+export async function putObject(
+  key: string,
+  buffer: Buffer,
+  mimeType: string
+): Promise<{
+  success: boolean;
+  url?: string;
+  key?: string;
+  error?: string;
 }> {
   const config = getStorageConfig();
 
   if (config.provider === 'local') {
     try {
-      const key = generateFilename(filename, mimeType);
       const fileName = key.split('/').pop()!;
       const uploadsDir = path.join(process.cwd(), 'public', 'uploads');
       const filePath = path.join(uploadsDir, fileName);
@@ -134,7 +147,6 @@ export async function uploadImage(
       return { success: false, error: 'Storage client not configured' };
     }
 
-    const key = generateFilename(filename, mimeType);
     const bucket = config.provider === 'r2' ? config.bucket : (config as { bucket: string }).bucket;
 
     await client.send(
@@ -287,6 +299,11 @@ export async function getImage(key: string): Promise<{
       mimeType: response.ContentType,
     };
   } catch (error) {
+    // Missing key is an expected miss (same as the local provider)
+    if (error instanceof Error && error.name === 'NoSuchKey') {
+      return { success: false, error: 'File not found' };
+    }
+
     console.error('Storage get error:', error);
     return {
       success: false,
@@ -0,0 +1,113 @@
+// Image Variants - derivatives generated on upload
+// Thumbnail (lists), medium (shop galleries), square white-padded main image (Allegro / Amazon)
+// Each as JPEG and WebP, stored next to the original: <original key>_<variant>.<ext>
+
+import sharp from 'sharp';
+import { putObject } from './index';
+import type { ImageVariantName, ImageVariants } from '@/types/image-variants';
+
+interface VariantSpec {
+  size: number;     // Longest side in px (never upscaled)
+  square?: boolean; // Pad to a square on white
+}
+
+export const IMAGE_VARIANT_SPECS: Record<ImageVariantName, VariantSpec> = {
+  thumbnail: { size: 320 },
+  medium: { size: 1200 },
+  square: { size: 1600, square: true },
+};
+
+const JPEG_QUALITY = 85;
+const WEBP_QUALITY = 80;
+
+/**
+ * Storage key of a variant: the original key without its extension,
+ * plus the variant name (flat, so the local provider keeps them apart)
+ */
+export function getImageVariantKey(originalKey: string, variant: ImageVariantName, format: 'jpeg' | 'webp'): string {
+  const base = originalKey.replace(/\.[^./]+$/, '');
+  return `${base}_${variant}.${format === 'webp' ? 'webp' : 'jpg'}`;
+}
+
+/**
+ * Resize (and pad) one variant: auto-rotated, metadata stripped,
+ * transparency flattened on white. Returns a pipeline ready to encode.
+ */
+async function renderVariant(
+  buffer: Buffer,
+  spec: VariantSpec
+): Promise<{ image: sharp.Sharp; width: number; height: number }> {
+  const { data, info } = await sharp(buffer, { failOn: 'none' })
+    .rotate()
+    .resize({
+      width: spec.size,
+      height: spec.size,
+      fit: 'inside',
+      withoutEnlargement: true,
+    })
+    .flatten({ background: '#ffffff' })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  // Raw pixels, so the image is encoded only once
+  const raw = { raw: { width: info.width, height: info.height, channels: info.channels } };
+
+  if (!spec.square || info.width === info.height) {
+    return { image: sharp(data, raw), width: info.width, height: info.height };
+  }
+
+  const side = Math.max(info.width, info.height);
+  const padX = side - info.width;
+  const padY = side - info.height;
+
+  return {
+    image: sharp(data, raw).extend({
+      top: Math.floor(padY / 2),
+      bottom: Math.ceil(padY / 2),
+      left: Math.floor(padX / 2),
+      right: Math.ceil(padX / 2),
+      background: '#ffffff',
+    }),
+    width: side,
+    height: side,
+  };
+}
+
+/**
+ * Generate and store all variants of an uploaded image.
+ * Returns null (and logs) if the image cannot be decoded or stored -
+ * the upload itself still succeeds and callers fall back to the original.
+ */
+export async function createImageVariants(
+  originalKey: string,
+  buffer: Buffer
+): Promise<ImageVariants | null> {
+  try {
+    const variants: ImageVariants = {};
+
+    for (const [name, spec] of Object.entries(IMAGE_VARIANT_SPECS) as Array<[ImageVariantName, VariantSpec]>) {
+      const { image, width, height } = await renderVariant(buffer, spec);
+
+      const [jpeg, webp] = await Promise.all([
+        image.clone().jpeg({ quality: JPEG_QUALITY, mozjpeg: true }).toBuffer(),
+        image.clone().webp({ quality: WEBP_QUALITY }).toBuffer(),
+      ]);
+
+      const [jpegResult, webpResult] = await Promise.all([
+        putObject(getImageVariantKey(originalKey, name, 'jpeg'), jpeg, 'image/jpeg'),
+        putObject(getImageVariantKey(originalKey, name, 'webp'), webp, 'image/webp'),
+      ]);
+
+      if (!jpegResult.success || !webpResult.success) {
+        throw new Error(jpegResult.error || webpResult.error || 'Variant upload failed');
+      }
+
+      variants[name] = { url: jpegResult.url!, webpUrl: webpResult.url!, width, height };
+    }
+
+    return variants;
+  } catch (error) {
+    console.warn(`[Variants] Could not create variants for ${originalKey}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
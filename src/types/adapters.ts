@@ -33,6 +33,8 @@ export interface PlatformContext {
   languages?: { id: string; name: string; isoCode: string }[];
   currencies?: { id: string; name: string; isoCode: string }[];
   taxRules?: { id: string; name: string; rate: number }[];
+  inventories?: { id: string; name: string; isDefault?: boolean }[];
+  warehouses?: { id: string; name: string; isDefault?: boolean }[];
 }
 
 // Publish options
@@ -47,8 +49,9 @@ export interface PublishOptions {
   // Language
   languageId?: string;
 
-  // Stock
+  // Stock (PlatformContext.warehouses[].id)
   warehouseId?: string;
+  inventoryId?: string;
 
   // Pricing
   currencyId?: string;
@@ -126,8 +129,11 @@ export interface PlatformConfig {
   settings?: Record<string, unknown>;
 }
 
+// Minimal fetch signature - lets adapters run against stubs and recorded fixtures
+export type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
 // Adapter factory type
-export type AdapterFactory = (config: PlatformConfig) => PlatformAdapter;
+export type AdapterFactory = (config: PlatformConfig, fetchImpl?: FetchLike) => PlatformAdapter;
 
 // Adapter registry
 export interface AdapterRegistry {
@@ -0,0 +1,39 @@
+// Category Mapping Types - AI category suggestions matched to real platform categories
+// Shared by services/categories, the categories API and the draft page
+
+import { z } from 'zod';
+
+// How a candidate was found
+export type CategoryMatchSource = 'rule' | 'llm' | 'fuzzy';
+
+export interface CategoryCandidate {
+  categoryId: string;
+  name: string;
+  path: string;
+  score: number;              // 0-1 (rules: 1)
+  source: CategoryMatchSource;
+}
+
+// Candidates for one suggestion (e.g. one of vision.suggestedCategories)
+export interface CategoryMatch {
+  suggestion: string;
+  candidates: CategoryCandidate[]; // Best first
+  selected: CategoryCandidate | null; // Applied without review: rule, LLM pick or confident fuzzy match
+}
+
+export interface CategorySuggestionResult {
+  matches: CategoryMatch[];
+  categoryIds: string[]; // Selected categories, for PublishOptions.categoryIds
+  llmError?: string;     // LLM ranking was requested but failed (fuzzy results are still returned)
+}
+
+// POST /api/drafts/[id]/categories - confirm mappings, remembered as rules
+export const CategoryMappingInputSchema = z.object({
+  platform: z.string().min(1).default('prestashop'),
+  mappings: z.array(z.object({
+    suggestion: z.string().trim().min(1).max(255),
+    categoryId: z.string().trim().min(1),
+  })).min(1).max(50),
+});
+
+export type CategoryMappingInput = z.infer<typeof CategoryMappingInputSchema>;
@@ -0,0 +1,56 @@
+// Experiment Types - prompt / model A/B tests and reviewer ratings (see services/experiments)
+// Shared by the API, the draft page review panel and the experiment report
+
+import { z } from 'zod';
+
+export type ExperimentVariantName = 'A' | 'B';
+
+// Why a reviewer marked a draft down
+export const REVIEW_REASONS = [
+  'wrong_facts',
+  'missing_info',
+  'too_long',
+  'too_short',
+  'bad_language',
+  'bad_seo',
+  'wrong_format',
+] as const;
+
+export type ReviewReason = typeof REVIEW_REASONS[number];
+
+// UI labels (draft page review panel, experiment report)
+export const REVIEW_REASON_LABELS: Record<ReviewReason, string> = {
+  wrong_facts: 'Bledne fakty',
+  missing_info: 'Brak informacji',
+  too_long: 'Za dlugie',
+  too_short: 'Za krotkie',
+  bad_language: 'Slaby jezyk',
+  bad_seo: 'Slabe SEO',
+  wrong_format: 'Zly format',
+};
+
+export const DraftReviewInputSchema = z.object({
+  score: z.number().int().min(1).max(5),
+  reasons: z.array(z.enum(REVIEW_REASONS)).max(REVIEW_REASONS.length).default([]),
+  comment: z.string().trim().max(1000).optional(),
+});
+
+export type DraftReviewInput = z.infer<typeof DraftReviewInputSchema>;
+
+// Scores from this value up count as accepted
+export const ACCEPTED_SCORE = 4;
+
+// Comparison of one variant, as returned by GET /api/experiments/[id]
+export interface ExperimentVariantReport {
+  variant: ExperimentVariantName;
+  drafts: number;
+  reviewed: number;
+  averageScore: number | null;
+  acceptanceRate: number | null;   // Reviewed drafts with score >= ACCEPTED_SCORE (0-1)
+  reasons: Partial<Record<ReviewReason, number>>;
+  published: number;
+  averageEditDistance: number | null; // Generated vs published text, 0 (unchanged) - 1 (rewritten)
+  totalTokens: number;
+  costUsd: number;
+  costPerDraftUsd: number | null;
+}
@@ -0,0 +1,42 @@
+// Image Variants - derivatives generated from an uploaded image
+// Stored on Image.variants and carried on product images so adapters can pick one
+
+import { z } from 'zod';
+
+export const IMAGE_VARIANT_NAMES = ['thumbnail', 'medium', 'square'] as const;
+
+export const ImageVariantNameSchema = z.enum(IMAGE_VARIANT_NAMES);
+
+// One derivative, as JPEG and WebP
+export const ImageVariantSchema = z.object({
+  url: z.string().url(),     // JPEG
+  webpUrl: z.string().url(),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+});
+
+export const ImageVariantsSchema = z.partialRecord(ImageVariantNameSchema, ImageVariantSchema);
+
+export type ImageVariantName = z.infer<typeof ImageVariantNameSchema>;
+export type ImageVariant = z.infer<typeof ImageVariantSchema>;
+export type ImageVariants = z.infer<typeof ImageVariantsSchema>;
+
+// Parse stored variants, dropping anything that does not match the schema
+export function parseImageVariants(value: unknown): ImageVariants {
+  const result = ImageVariantsSchema.safeParse(value ?? {});
+  return result.success ? result.data : {};
+}
+
+// URL of a variant, or the original when the image has none (e.g. imported supplier URLs)
+export function pickImageUrl(
+  image: { url: string; variants?: ImageVariants | null },
+  variant: ImageVariantName,
+  format: 'jpeg' | 'webp' = 'jpeg'
+): string {
+  const derived = image.variants?.[variant];
+  if (!derived) {
+    return image.url;
+  }
+
+  return format === 'webp' ? derived.webpUrl : derived.url;
+}
@@ -3,3 +3,4 @@
 export * from './unified-product';
 export * from './pipeline';
 export * from './adapters';
+export * from './translations';
@@ -2,7 +2,11 @@
 // Defines the stages and data flow of the AI pipeline
 
 import { z } from 'zod';
+import { ImageVariantsSchema } from './image-variants';
 import type { UnifiedProduct } from './unified-product';
+import type { ProductTranslation } from './translations';
+import type { RoutingConfig } from '@/services/ai/routing';
+import type { PromptStage, PromptVersionRef } from './prompts';
 
 // Pipeline input - what user provides
 export const PipelineInputSchema = z.object({
@@ -11,6 +15,7 @@ export const PipelineInputSchema = z.object({
     url: z.string().url(),
     mimeType: z.string(),
     filename: z.string(),
+    variants: ImageVariantsSchema.optional(),
   })).min(1),
 
   // Optional user hint about the product
@@ -34,6 +39,23 @@ export const PipelineInputSchema = z.object({
 
 export type PipelineInput = z.infer<typeof PipelineInputSchema>;
 
+// Field the ensemble providers did not agree on (value missing = not detected)
+export const VisionDisagreementSchema = z.object({
+  field: z.string(),
+  chosen: z.string().optional(),
+  values: z.array(z.object({
+    provider: z.string(),
+    value: z.string().optional(),
+  })),
+});
+
+export const VisionEnsembleSchema = z.object({
+  providers: z.array(z.string()),       // Providers whose answers were merged
+  failedProviders: z.array(z.string()), // Asked but failed
+  agreement: z.number().min(0).max(1),  // Mean vote share of the chosen values
+  disagreements: z.array(VisionDisagreementSchema),
+});
+
 // Vision Analysis Result - output from Stage 1
 export const VisionAnalysisSchema = z.object({
   // What the AI sees in the images
@@ -60,9 +82,14 @@ export const VisionAnalysisSchema = z.object({
 
   // Raw AI response for debugging
   rawResponse: z.string().optional(),
+
+  // Set when several providers were merged (ensemble mode)
+  ensemble: VisionEnsembleSchema.optional(),
 });
 
 export type VisionAnalysis = z.infer<typeof VisionAnalysisSchema>;
+export type VisionDisagreement = z.infer<typeof VisionDisagreementSchema>;
+export type VisionEnsemble = z.infer<typeof VisionEnsembleSchema>;
 
 // Content Generation Result - output from Stage 2
 export const ContentGenerationSchema = z.object({
@@ -103,6 +130,11 @@ export interface StageResult<T> {
   data?: T;
   error?: string;
   durationMs: number;
+  // AI provider and model that produced data
+  provider?: string;
+  model?: string;
+  // Prompt template version (registry stages only)
+  prompt?: PromptVersionRef;
 }
 
 // Full Pipeline Output
@@ -125,13 +157,16 @@ export interface PipelineOutput {
   errors?: string[];
 }
 
-// Pipeline Progress Callback
-export type PipelineProgressCallback = (progress: {
+// Pipeline Progress Event
+export interface PipelineProgressEvent {
   stage: 'vision' | 'content' | 'validation';
   status: StageStatus;
   message?: string;
   progress?: number; // 0-100
-}) => void;
+}
+
+// Pipeline Progress Callback
+export type PipelineProgressCallback = (progress: PipelineProgressEvent) => void;
 
 // Pipeline Options
 export interface PipelineOptions {
@@ -139,10 +174,32 @@ export interface PipelineOptions {
   skipVision?: boolean;
   skipContent?: boolean;
 
+  // Stored vision analysis to use when skipVision is set
+  visionAnalysis?: VisionAnalysis;
+
+  // Translate existing content instead of generating it from the vision analysis
+  translateFrom?: {
+    language: 'pl' | 'en' | 'de';
+    content: ProductTranslation;
+  };
+
   // Override AI models
   visionModel?: string;
   contentModel?: string;
 
+  // Provider/model chain per stage, on top of the stored routing config
+  routing?: RoutingConfig;
+
+  // Shop whose prompt templates are used (PROMPT_SHOP by default)
+  promptShop?: string;
+
+  // Prompt template versions to use instead of the active ones (experiments)
+  promptTemplateIds?: Partial<Record<PromptStage, string>>;
+
+  // Ask this many vision providers (2-3) in parallel and merge their answers
+  // 0 turns the ensemble off; unset uses VISION_ENSEMBLE_PROVIDERS
+  visionEnsemble?: number;
+
   // Language for content generation
   language?: 'pl' | 'en' | 'de';
 
@@ -157,3 +214,57 @@ export interface PipelineOptions {
   // When true, uses ViaMall-specific prompts with emoji bullets, special naming format
   useViaMallFormat?: boolean;
 }
+
+// Pipeline run summary stored on a job (stage statuses and timings)
+export interface PipelineRunSummary {
+  status: PipelineOutput['status'];
+  totalDurationMs: number;
+  stages: Record<'vision' | 'content' | 'validation', {
+    status: StageStatus;
+    durationMs: number;
+  }>;
+  errors?: string[];
+}
+
+// Pipeline job as returned by GET /api/jobs/[id]
+export interface PipelineJobStatus {
+  id: string;
+  draftId: string;
+  status: 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+  attempts: number;
+  maxAttempts: number;
+  runAfter: string;
+  lastError: string | null;
+  result: PipelineRunSummary | null;
+}
+
+// Live pipeline events, streamed by GET /api/pipeline/[draftId]/events
+export type PipelineEvent =
+  // Stage progress from PipelineOptions.onProgress
+  | ({ type: 'progress' } & PipelineProgressEvent)
+  // Failover loop: provider being tried, succeeded, failed or skipped (circuit open)
+  | {
+      type: 'provider';
+      kind: 'text' | 'vision';
+      provider: string;
+      providerName: string;
+      status: 'trying' | 'succeeded' | 'failed' | 'skipped';
+      error?: string;
+      latencyMs?: number;
+    }
+  // Job lifecycle (queued, claimed, retry scheduled, finished)
+  | {
+      type: 'job';
+      jobId: string;
+      status: PipelineJobStatus['status'];
+      attempt: number;
+      maxAttempts: number;
+      error?: string;
+      retryAt?: string;
+    }
+  // Run finished (after the last attempt)
+  | { type: 'done'; status: PipelineOutput['status'] }
+  // Sent first on every connection
+  | { type: 'snapshot'; draftStatus: string; job: PipelineJobStatus | null };
+
+export type PipelineEventMessage = PipelineEvent & { draftId: string; at: string };
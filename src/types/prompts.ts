@@ -0,0 +1,45 @@
+// Prompt Registry Types - versioned prompt templates (see services/prompts)
+// Shared by the registry, the pipeline stages and the prompt editor
+
+import { z } from 'zod';
+
+// Pipeline stages whose prompts come from the registry
+export const PROMPT_STAGES = ['vision', 'content', 'viamall'] as const;
+
+export const PromptStageSchema = z.enum(PROMPT_STAGES);
+
+export type PromptStage = z.infer<typeof PromptStageSchema>;
+
+// Placeholders the user prompt of each stage can use ({{NAME}})
+export const PROMPT_PLACEHOLDERS: Record<PromptStage, readonly string[]> = {
+  vision: ['USER_HINT'],
+  content: ['PRODUCT_TYPE', 'CATEGORY', 'BRAND', 'MATERIALS', 'DIMENSIONS', 'FEATURES', 'LANGUAGE_NAME', 'RAW_DATA', 'USER_HINT'],
+  viamall: ['PRODUCT_TYPE', 'BRAND', 'MODEL', 'COLORS', 'MATERIALS', 'STYLE', 'FEATURES', 'CATEGORIES', 'RAW_DATA', 'USER_HINT'],
+};
+
+// Matches any language / shop
+export const ANY = '*';
+
+// New version of a template; it becomes active unless activate is false
+export const PromptTemplateInputSchema = z.object({
+  stage: PromptStageSchema,
+  language: z.enum(['de', 'pl', 'en', ANY]).default(ANY),
+  shop: z.string().trim().min(1).max(64).default(ANY),
+  name: z.string().trim().min(1).max(100),
+  systemPrompt: z.string().trim().min(1),
+  userPrompt: z.string().trim().min(1),
+  note: z.string().trim().max(500).optional(),
+  activate: z.boolean().default(true),
+});
+
+export type PromptTemplateInput = z.infer<typeof PromptTemplateInputSchema>;
+
+// Template version a stage ran with (id null: built-in seed, not stored yet)
+export interface PromptVersionRef {
+  id: string | null;
+  name: string;
+  version: number;
+}
+
+// Stored on a draft after each pipeline run
+export type DraftPromptVersions = Partial<Record<'vision' | 'content', PromptVersionRef>>;
@@ -0,0 +1,31 @@
+// Field Regeneration - rewrite one section of a generated product
+// Used by POST /api/drafts/[id]/regenerate and the regenerate buttons on the draft page
+
+import { z } from 'zod';
+
+// Product sections that can be regenerated on their own (paths in UnifiedProduct)
+export const REGENERABLE_FIELDS = [
+  'name',
+  'description.short',
+  'description.long',
+  'seo.title',
+  'seo.description',
+  'seo.keywords',
+  'tags',
+  'images.alt',
+] as const;
+
+export const RegenerableFieldSchema = z.enum(REGENERABLE_FIELDS);
+
+export type RegenerableField = z.infer<typeof RegenerableFieldSchema>;
+
+export const FieldRegenerationRequestSchema = z.object({
+  field: RegenerableFieldSchema,
+  // Free-text wish, e.g. "shorter" or "emphasize waterproofing"
+  instruction: z.string().trim().max(500).optional(),
+});
+
+export type FieldRegenerationRequest = z.infer<typeof FieldRegenerationRequestSchema>;
+
+// New value: text fields are strings, keywords / tags / image alts are lists
+export type RegeneratedValue = string | string[];
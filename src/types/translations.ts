@@ -0,0 +1,46 @@
+// Draft Translations - per-language product texts stored on a draft
+// One draft holds the shared product data plus name/descriptions/slug per language
+
+import { z } from 'zod';
+import type { UnifiedProduct } from './unified-product';
+
+// Languages a draft can hold content for
+export const TRANSLATION_LANGUAGES = ['de', 'pl', 'en'] as const;
+
+export const TranslationLanguageSchema = z.enum(TRANSLATION_LANGUAGES);
+
+export const ProductTranslationSchema = z.object({
+  name: z.string().min(1).max(255),
+  shortDescription: z.string(),
+  longDescription: z.string().min(1),
+  slug: z.string().min(1).max(128),
+});
+
+// Not every language has to be present
+export const DraftTranslationsSchema = z.partialRecord(
+  TranslationLanguageSchema,
+  ProductTranslationSchema
+);
+
+export type TranslationLanguage = z.infer<typeof TranslationLanguageSchema>;
+export type ProductTranslation = z.infer<typeof ProductTranslationSchema>;
+export type DraftTranslations = z.infer<typeof DraftTranslationsSchema>;
+
+// Take the language-specific texts of a product
+export function productToTranslation(
+  product: UnifiedProduct,
+  slug: string
+): ProductTranslation {
+  return {
+    name: product.name,
+    shortDescription: product.description.short,
+    longDescription: product.description.html || product.description.long,
+    slug,
+  };
+}
+
+// Parse stored translations, dropping anything that does not match the schema
+export function parseDraftTranslations(value: unknown): DraftTranslations {
+  const result = DraftTranslationsSchema.safeParse(value ?? {});
+  return result.success ? result.data : {};
+}
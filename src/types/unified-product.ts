@@ -2,12 +2,14 @@
 // This is the "lingua franca" between the AI pipeline and platform adapters
 
 import { z } from 'zod';
+import { ImageVariantsSchema } from './image-variants';
 
 // Zod schemas for validation
 export const ProductImageSchema = z.object({
   url: z.string().url(),
   alt: z.string().optional(),
   position: z.number().int().min(0).default(0),
+  variants: ImageVariantsSchema.optional(), // Derivatives of uploaded images (see pickImageUrl)
 });
 
 export const ProductDescriptionSchema = z.object({
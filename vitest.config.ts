@@ -0,0 +1,20 @@
+// Vitest configuration
+// Node environment, `@/` alias as in tsconfig, Prisma mocked in vitest.setup.ts
+
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url)),
+    },
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/__tests__/**/*.test.ts'],
+    setupFiles: ['./vitest.setup.ts'],
+    unstubEnvs: true,
+    unstubGlobals: true,
+  },
+});
@@ -0,0 +1,45 @@
+// Test setup
+// No database or storage in tests: Prisma calls resolve to empty results
+
+import { vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => {
+  const model = () => ({
+    findMany: vi.fn(async () => []),
+    findUnique: vi.fn(async () => null),
+    findFirst: vi.fn(async () => null),
+    create: vi.fn(async () => ({})),
+    update: vi.fn(async () => ({})),
+    upsert: vi.fn(async () => ({})),
+    delete: vi.fn(async () => ({})),
+    groupBy: vi.fn(async () => []),
+  });
+
+  const prisma = {
+    aiUsage: model(),
+    providerUsageDaily: model(),
+    aiRoute: model(),
+    draft: model(),
+    draftRevision: model(),
+    promptTemplate: model(),
+    experiment: model(),
+    experimentAssignment: model(),
+    draftReview: model(),
+    categoryMappingRule: model(),
+  };
+
+  return { prisma, default: prisma };
+});
+
+// No object storage in tests: cache lookups miss, writes succeed
+vi.mock('@/services/storage', () => ({
+  uploadImage: vi.fn(async () => ({ success: true, key: 'test', url: 'https://storage.test/test' })),
+  putObject: vi.fn(async (key: string) => ({ success: true, key, url: `https://storage.test/${key}` })),
+  getImage: vi.fn(async () => ({ success: false, error: 'File not found' })),
+  deleteImage: vi.fn(async () => ({ success: true })),
+  getPublicUrl: vi.fn((key: string) => `https://storage.test/${key}`),
+}));
+
+// Keep failover logs out of the test output
+vi.spyOn(console, 'log').mockImplementation(() => {});
+vi.spyOn(console, 'warn').mockImplementation(() => {});